@@ -19,6 +19,17 @@ export const connectDatabase = async (): Promise<void> => {
 
 		await mongoose.connect(mongoUri, options);
 
+		// Bookings and their payments are written in transactions, which a
+		// standalone mongod rejects. Locally, start it with `mongod --replSet
+		// rs0` and run `rs.initiate()` once in mongosh; Atlas is a replica set.
+		const hello = await mongoose.connection.db?.admin().command({ hello: 1 });
+		if (hello && !hello.setName && hello.msg !== "isdbgrid") {
+			await mongoose.connection.close();
+			throw new Error(
+				"MongoDB is not a replica set, so transactions (e.g. booking creation) would fail. Start mongod with --replSet rs0 and run rs.initiate() once."
+			);
+		}
+
 		// Enable query logging only in development
 		if (environment === "development") {
 			mongoose.set("debug", true);
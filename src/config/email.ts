@@ -1 +1,28 @@
-// WORKON ADD EMAIL SENDING
+import dotenv from "dotenv";
+dotenv.config();
+
+const emailConfig = {
+	companyName: process.env.COMPANY_NAME || "Your Smile Matters",
+	supportEmail:
+		process.env.SUPPORT_EMAIL || "ysmphotographysupport@gmail.com",
+	// Frontend base URLs used to build links inside emails
+	clientAppUrl: process.env.CLIENT_APP_URL || "https://localhost.com",
+	adminAppUrl: process.env.ADMIN_APP_URL || "https://localhost.com",
+	passwordResetExpiresMinutes: parseInt(
+		process.env.PASSWORD_RESET_EXPIRES_MINUTES || "30",
+		10
+	),
+	emailVerificationExpiresHours: parseInt(
+		process.env.EMAIL_VERIFICATION_EXPIRES_HOURS || "24",
+		10
+	),
+	emailVerificationResendCooldownSeconds: parseInt(
+		process.env.EMAIL_VERIFICATION_RESEND_COOLDOWN_SECONDS || "60",
+		10
+	),
+	// Unverified customers can browse; set to "false" to also let them book
+	requireVerifiedEmailForBooking:
+		process.env.REQUIRE_VERIFIED_EMAIL_FOR_BOOKING !== "false",
+};
+
+export default emailConfig;
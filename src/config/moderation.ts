@@ -0,0 +1,52 @@
+import dotenv from "dotenv";
+dotenv.config();
+
+// Matched as whole words (or whole phrases) in lowercased review comments
+const DEFAULT_BLOCKED_WORDS = [
+	"fuck",
+	"fucking",
+	"shit",
+	"bullshit",
+	"bitch",
+	"asshole",
+	"bastard",
+	"cunt",
+	"dick",
+	"motherfucker",
+	"putangina",
+	"putang ina",
+	"tangina",
+	"gago",
+	"gaga",
+	"ulol",
+	"bobo",
+	"tanga",
+	"punyeta",
+	"tarantado",
+	"leche",
+	"pakyu",
+];
+
+const parseWordList = (value?: string) =>
+	(value || "")
+		.split(",")
+		.map((word) => word.trim().toLowerCase())
+		.filter(Boolean);
+
+const moderationConfig = {
+	// Extra words come from a comma-separated list; defaults can be switched off
+	blockedWords: [
+		...new Set([
+			...(process.env.RATING_USE_DEFAULT_BLOCKED_WORDS === "false"
+				? []
+				: DEFAULT_BLOCKED_WORDS),
+			...parseWordList(process.env.RATING_BLOCKED_WORDS),
+		]),
+	],
+	// When "true", reviews with a comment wait for approval before going live
+	requireApproval: process.env.RATING_REQUIRE_APPROVAL === "true",
+	// Customer reports that send a published review back to the queue
+	reportThreshold: parseInt(process.env.RATING_REPORT_THRESHOLD || "3", 10),
+};
+
+export default moderationConfig;
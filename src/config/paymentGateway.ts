@@ -0,0 +1,78 @@
+import dotenv from "dotenv";
+dotenv.config();
+
+export const PAYMENT_PROVIDERS = ["gcash", "fake"] as const;
+export type PaymentProviderName = (typeof PAYMENT_PROVIDERS)[number];
+
+// "gcash,fake" -> enabled providers. None are enabled unless listed.
+const parseProviders = (value?: string): PaymentProviderName[] => {
+	const names = (value || "")
+		.split(",")
+		.map((name) => name.trim().toLowerCase())
+		.filter(Boolean);
+
+	for (const name of names) {
+		if (!PAYMENT_PROVIDERS.includes(name as PaymentProviderName)) {
+			throw new Error(
+				`Unknown payment provider "${name}" in PAYMENT_PROVIDERS. Use: ${PAYMENT_PROVIDERS.join(
+					", "
+				)}`
+			);
+		}
+	}
+
+	return [...new Set(names)] as PaymentProviderName[];
+};
+
+const enabledProviders = parseProviders(process.env.PAYMENT_PROVIDERS);
+
+// The fake provider completes payments for anyone holding its webhook secret,
+// so it is only for local runs and tests, with a secret of their own
+const fake = {
+	webhookSecret: process.env.FAKE_PAYMENT_WEBHOOK_SECRET || "",
+};
+if (enabledProviders.includes("fake")) {
+	if (process.env.NODE_ENV === "production") {
+		throw new Error(
+			"The fake payment provider cannot be enabled when NODE_ENV is production"
+		);
+	}
+	if (!fake.webhookSecret) {
+		throw new Error(
+			"FAKE_PAYMENT_WEBHOOK_SECRET is required when the fake payment provider is enabled"
+		);
+	}
+}
+
+const gcash = {
+	apiBaseUrl: (process.env.GCASH_API_BASE_URL || "").replace(/\/+$/, ""),
+	secretKey: process.env.GCASH_SECRET_KEY || "",
+	webhookSecret: process.env.GCASH_WEBHOOK_SECRET || "",
+};
+if (
+	enabledProviders.includes("gcash") &&
+	(!gcash.apiBaseUrl || !gcash.secretKey || !gcash.webhookSecret)
+) {
+	throw new Error(
+		"GCASH_API_BASE_URL, GCASH_SECRET_KEY and GCASH_WEBHOOK_SECRET are required when the gcash payment provider is enabled"
+	);
+}
+
+const requestTimeoutMs = Number(
+	process.env.PAYMENT_PROVIDER_TIMEOUT_MS || "15000"
+);
+if (!Number.isFinite(requestTimeoutMs) || requestTimeoutMs <= 0) {
+	throw new Error("PAYMENT_PROVIDER_TIMEOUT_MS must be a positive number");
+}
+
+const paymentGatewayConfig = {
+	enabledProviders,
+	// Where the provider sends the customer after checkout
+	successUrl: process.env.PAYMENT_SUCCESS_URL || null,
+	failureUrl: process.env.PAYMENT_FAILURE_URL || null,
+	requestTimeoutMs,
+	gcash,
+	fake,
+};
+
+export default paymentGatewayConfig;
@@ -0,0 +1,51 @@
+import dotenv from "dotenv";
+dotenv.config();
+
+const readNumber = (
+	name: string,
+	fallback: number,
+	min: number,
+	max: number
+) => {
+	const value = Number(process.env[name] || fallback);
+	if (!Number.isFinite(value) || value < min || value > max) {
+		throw new Error(`${name} must be between ${min} and ${max}`);
+	}
+	return value;
+};
+
+// Used for bookings whose package or services set no payment terms of their own
+const paymentScheduleConfig = {
+	// Share of the booking total due when booking
+	defaultDepositPercentage: readNumber(
+		"PAYMENT_DEPOSIT_PERCENTAGE",
+		30,
+		0,
+		100
+	),
+	// Hours after booking the deposit is due (never after the balance)
+	depositDueHours: readNumber("PAYMENT_DEPOSIT_DUE_HOURS", 24, 0, 24 * 30),
+	// The balance is due this many days before the session
+	defaultBalanceDueDaysBefore: readNumber(
+		"PAYMENT_BALANCE_DUE_DAYS_BEFORE",
+		3,
+		0,
+		90
+	),
+	// Customers are reminded this many days before a payment is due
+	reminderDaysBeforeDue: readNumber(
+		"PAYMENT_REMINDER_DAYS_BEFORE_DUE",
+		2,
+		0,
+		30
+	),
+	// How often the reminder job runs; 0 turns it off
+	reminderIntervalMinutes: readNumber(
+		"PAYMENT_REMINDER_INTERVAL_MINUTES",
+		60,
+		0,
+		24 * 60
+	),
+};
+
+export default paymentScheduleConfig;
@@ -0,0 +1,76 @@
+import dotenv from "dotenv";
+dotenv.config();
+
+export type RefundPolicyTier = {
+	min_hours_before: number; // Applies when cancelling at least this early
+	refund_percentage: number;
+};
+
+// More than 7 days before the session: full refund; within 7 days: half;
+// within 24 hours: nothing
+const DEFAULT_TIERS: RefundPolicyTier[] = [
+	{ min_hours_before: 168, refund_percentage: 100 },
+	{ min_hours_before: 24, refund_percentage: 50 },
+	{ min_hours_before: 0, refund_percentage: 0 },
+];
+
+// "168:100,24:50,0:0" -> tiers, earliest cancellation first
+const parseTiers = (value?: string): RefundPolicyTier[] | null => {
+	if (!value?.trim()) return null;
+
+	const tiers = value.split(",").map((entry) => {
+		const [hours, percentage] = entry.split(":").map((part) => Number(part));
+		if (
+			!Number.isFinite(hours) ||
+			!Number.isFinite(percentage) ||
+			hours < 0 ||
+			percentage < 0 ||
+			percentage > 100
+		) {
+			throw new Error(
+				`Invalid REFUND_POLICY_TIERS entry "${entry}". Use hours:percentage, e.g. 168:100`
+			);
+		}
+		return { min_hours_before: hours, refund_percentage: percentage };
+	});
+
+	return tiers.sort((a, b) => b.min_hours_before - a.min_hours_before);
+};
+
+const depositPercentage = Number(
+	process.env.REFUND_NON_REFUNDABLE_DEPOSIT_PERCENTAGE || "0"
+);
+if (
+	!Number.isFinite(depositPercentage) ||
+	depositPercentage < 0 ||
+	depositPercentage > 100
+) {
+	throw new Error(
+		"REFUND_NON_REFUNDABLE_DEPOSIT_PERCENTAGE must be between 0 and 100"
+	);
+}
+
+// What approving a cancellation issues for the refund the policy allows:
+// "request" files an approved refund request to pay out later, "transaction"
+// records the refund right away when the admin attaches proof of the payout
+const CANCELLATION_REFUND_MODES = ["request", "transaction"] as const;
+export type CancellationRefundMode = (typeof CANCELLATION_REFUND_MODES)[number];
+
+const cancellationRefundMode = (process.env.CANCELLATION_REFUND_MODE ||
+	"request") as CancellationRefundMode;
+if (!CANCELLATION_REFUND_MODES.includes(cancellationRefundMode)) {
+	throw new Error(
+		`CANCELLATION_REFUND_MODE must be one of: ${CANCELLATION_REFUND_MODES.join(
+			", "
+		)}`
+	);
+}
+
+const refundPolicyConfig = {
+	tiers: parseTiers(process.env.REFUND_POLICY_TIERS) ?? DEFAULT_TIERS,
+	// Share of the booking total that is kept whenever the booking is cancelled
+	nonRefundableDepositPercentage: depositPercentage,
+	cancellationRefundMode,
+};
+
+export default refundPolicyConfig;
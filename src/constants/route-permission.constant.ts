@@ -0,0 +1,295 @@
+// Every permission key a role can be granted, as "<module>:<action>"
+export const PERMISSION_KEYS = [
+	"user:create",
+	"user:read",
+	"user:update",
+	"user:delete",
+	"customer:create",
+	"customer:read",
+	"customer:update",
+	"customer:delete",
+	"photographer:create",
+	"photographer:read",
+	"photographer:update",
+	"photographer:delete",
+	"role:create",
+	"role:read",
+	"role:update",
+	"role:delete",
+	"permission:create",
+	"permission:read",
+	"service:create",
+	"service:read",
+	"service:update",
+	"service:delete",
+	"package:create",
+	"package:read",
+	"package:update",
+	"package:delete",
+	"booking:read",
+	"booking:update",
+	"booking:cancel",
+	"booking-request:read",
+	"booking-request:approve",
+	"promo:create",
+	"promo:read",
+	"promo:update",
+	"promo:delete",
+	"transaction:create",
+	"transaction:read",
+	"transaction:update",
+	"transaction:delete",
+	"transaction:approve",
+	"transaction:refund",
+	"transaction-request:read",
+	"transaction-request:approve",
+	"rating:read",
+	"rating:respond",
+	"rating:moderate",
+	"rating:delete",
+	"analytics:read",
+	"email:send",
+	"audit-log:read",
+] as const;
+
+export type PermissionKey = (typeof PERMISSION_KEYS)[number];
+
+// Routes that need no token, or any valid staff/photographer token
+export const RouteAccessEnum = {
+	Public: "Public",
+	Authenticated: "Authenticated",
+} as const;
+
+export type RouteAccess = keyof typeof RouteAccessEnum;
+
+export type RouteMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export type RoutePermission = {
+	method: RouteMethod;
+	path: string; // Full path, Express-style params (e.g. /api/admin/users/:id)
+	permission: PermissionKey | RouteAccess;
+};
+
+type RouteEntry = [RouteMethod, string, PermissionKey | RouteAccess];
+
+const mount = (base: string, routes: RouteEntry[]): RoutePermission[] =>
+	routes.map(([method, path, permission]) => ({
+		method,
+		path: path === "/" ? base : `${base}${path}`,
+		permission,
+	}));
+
+// ---------------------------
+// Route-permission registry
+// ---------------------------
+// Every /api/admin route must be listed here; unlisted routes are rejected.
+// Static paths go before parameterised ones of the same router.
+export const ROUTE_PERMISSIONS: RoutePermission[] = [
+	...mount("/api/admin/auth", [
+		["POST", "/login", "Public"],
+		["POST", "/logout", "Public"],
+		["POST", "/refresh", "Public"],
+		["POST", "/forgot-password", "Public"],
+		["POST", "/reset-password", "Public"],
+		["GET", "/me", "Authenticated"],
+		["GET", "/me/sessions", "Authenticated"],
+		["DELETE", "/me/sessions", "Authenticated"],
+		["DELETE", "/me/sessions/:sessionId", "Authenticated"],
+		["PATCH", "/change-password/:id", "Authenticated"],
+	]),
+
+	...mount("/api/admin/users", [
+		["GET", "/", "user:read"],
+		["GET", "/:id", "user:read"],
+		["POST", "/", "user:create"],
+		["PATCH", "/deactivate/:id", "user:delete"],
+		["PATCH", "/reactivate/:id", "user:update"],
+		["PATCH", "/revoke-sessions/:id", "user:update"],
+		["PATCH", "/:id", "user:update"],
+	]),
+
+	...mount("/api/admin/customers", [
+		["GET", "/", "customer:read"],
+		["GET", "/:id", "customer:read"],
+		["POST", "/", "customer:create"],
+		["PATCH", "/deactivate/:id", "customer:delete"],
+		["PATCH", "/reactivate/:id", "customer:update"],
+		["PATCH", "/revoke-sessions/:id", "customer:update"],
+		["PATCH", "/:id", "customer:update"],
+	]),
+
+	...mount("/api/admin/photographers", [
+		["GET", "/", "photographer:read"],
+		["GET", "/:id", "photographer:read"],
+		["POST", "/", "photographer:create"],
+		["PUT", "/:id", "photographer:update"],
+		["DELETE", "/:id", "photographer:delete"],
+		["PATCH", "/:id/activate", "photographer:update"],
+		["PATCH", "/:id/deactivate", "photographer:delete"],
+	]),
+
+	...mount("/api/admin/roles", [
+		["GET", "/", "role:read"],
+		["GET", "/:id/routes", "role:read"],
+		["GET", "/:id/history", "role:read"],
+		["GET", "/:id", "role:read"],
+		["POST", "/", "role:create"],
+		["PUT", "/:id", "role:update"],
+		["DELETE", "/:id", "role:delete"],
+	]),
+
+	...mount("/api/admin/permissions", [
+		["GET", "/", "permission:read"],
+		["POST", "/", "permission:create"],
+	]),
+
+	...mount("/api/admin/services", [
+		["GET", "/", "service:read"],
+		["GET", "/filter/available", "service:read"],
+		["GET", "/:id", "service:read"],
+		["POST", "/", "service:create"],
+		["PATCH", "/deactivate/:id", "service:delete"],
+		["PATCH", "/reactivate/:id", "service:update"],
+		["PATCH", "/toggle-availability/:id", "service:update"],
+		["PATCH", "/:id", "service:update"],
+	]),
+
+	...mount("/api/admin/packages", [
+		["GET", "/", "package:read"],
+		["GET", "/:id", "package:read"],
+		["POST", "/", "package:create"],
+		["PUT", "/:id", "package:update"],
+		["PATCH", "/:id/deactivate", "package:delete"],
+		["PATCH", "/:id/reactivate", "package:update"],
+		["PATCH", "/:id/toggle-availability", "package:update"],
+	]),
+
+	...mount("/api/admin/bookings", [
+		["GET", "/", "booking:read"],
+		["GET", "/analytics/summary", "booking:read"],
+		["GET", "/customer/:customerId", "booking:read"],
+		["GET", "/reference/:reference", "booking:read"],
+		["GET", "/:id/payment-status", "booking:read"],
+		["GET", "/:id", "booking:read"],
+		["PATCH", "/:id/confirm", "booking:update"],
+		["PATCH", "/:id/cancel", "booking:cancel"],
+		["PATCH", "/:id/reschedule", "booking:update"],
+		["PATCH", "/:id/start", "booking:update"],
+		["PATCH", "/:id/complete", "booking:update"],
+	]),
+
+	...mount("/api/admin/booking-requests", [
+		["GET", "/requests", "booking-request:read"],
+		["GET", "/:requestId", "booking-request:read"],
+		[
+			"PATCH",
+			"/requests/:requestId/approve-cancellation",
+			"booking-request:approve",
+		],
+		[
+			"PATCH",
+			"/requests/:requestId/approve-reschedule",
+			"booking-request:approve",
+		],
+		["PATCH", "/requests/:requestId/reject", "booking-request:approve"],
+	]),
+
+	...mount("/api/admin/promos", [
+		["GET", "/", "promo:read"],
+		["GET", "/expiring-soon", "promo:read"],
+		["GET", "/stats/dashboard", "promo:read"],
+		["GET", "/:id/redemptions", "promo:read"],
+		["GET", "/:id/codes/export", "promo:read"],
+		["GET", "/:id/codes", "promo:read"],
+		["GET", "/:id", "promo:read"],
+		["POST", "/", "promo:create"],
+		["POST", "/duplicate/:id", "promo:create"],
+		["POST", "/:id/codes/generate", "promo:create"],
+		["POST", "/bulk/activate", "promo:update"],
+		["POST", "/bulk/deactivate", "promo:update"],
+		["POST", "/:id/activate", "promo:update"],
+		["POST", "/:id/deactivate", "promo:update"],
+		["PATCH", "/:id", "promo:update"],
+		["DELETE", "/:id", "promo:delete"],
+	]),
+
+	...mount("/api/admin/emails", [["POST", "/send", "email:send"]]),
+
+	...mount("/api/admin/transactions", [
+		["GET", "/", "transaction:read"],
+		["GET", "/booking/:bookingId/summary", "transaction:read"],
+		["GET", "/booking/:bookingId/statement", "transaction:read"],
+		["GET", "/customer/:customerId", "transaction:read"],
+		["GET", "/:id/receipt", "transaction:read"],
+		["GET", "/:id", "transaction:read"],
+		["POST", "/", "transaction:create"],
+		["POST", "/reconcile", "transaction:approve"],
+		["POST", "/:id/reconcile", "transaction:approve"],
+		["PUT", "/:id", "transaction:update"],
+		["DELETE", "/:id", "transaction:delete"],
+		["PATCH", "/:transactionId/approve", "transaction:approve"],
+		["PATCH", "/:transactionId/reject", "transaction:approve"],
+		["POST", "/:id/refund", "transaction:refund"],
+	]),
+
+	...mount("/api/admin/transaction-requests", [
+		["GET", "/requests", "transaction-request:read"],
+		["GET", "/:requestId", "transaction-request:read"],
+		[
+			"GET",
+			"/requests/:requestId/refund-eligibility",
+			"transaction-request:read",
+		],
+		[
+			"PATCH",
+			"/requests/:requestId/approve-refund",
+			"transaction-request:approve",
+		],
+		["PATCH", "/requests/:requestId/reject", "transaction-request:approve"],
+	]),
+
+	...mount("/api/admin/analytics", [
+		["GET", "/overview", "analytics:read"],
+		["GET", "/trends", "analytics:read"],
+		["GET", "/status-distribution", "analytics:read"],
+		["GET", "/top-services", "analytics:read"],
+		["GET", "/photographer-performance", "analytics:read"],
+		["GET", "/customer-insights", "analytics:read"],
+		["GET", "/package-performance", "analytics:read"],
+		["GET", "/booking-heatmap", "analytics:read"],
+		["GET", "/peak-hours", "analytics:read"],
+		["GET", "/cancellations", "analytics:read"],
+		["GET", "/promo-effectiveness", "analytics:read"],
+		["GET", "/revenue-forecast", "analytics:read"],
+	]),
+
+	...mount("/api/admin/ratings", [
+		["GET", "/", "rating:read"],
+		["GET", "/needs-response", "rating:read"],
+		["GET", "/moderation-queue", "rating:read"],
+		["GET", "/analytics/overview", "rating:read"],
+		["GET", "/analytics/service/:serviceId", "rating:read"],
+		["GET", "/analytics/package/:packageId", "rating:read"],
+		["GET", "/analytics/photographer/:photographerId", "rating:read"],
+		["GET", "/:id", "rating:read"],
+		["POST", "/:id/respond", "rating:respond"],
+		["POST", "/:id/approve", "rating:moderate"],
+		["POST", "/:id/hide", "rating:moderate"],
+		["PUT", "/:id/respond", "rating:respond"],
+		["DELETE", "/:id/respond", "rating:respond"],
+		["DELETE", "/:id", "rating:delete"],
+	]),
+
+	...mount("/api/admin/audit-logs", [
+		["GET", "/", "audit-log:read"],
+		["GET", "/:id", "audit-log:read"],
+	]),
+
+	// Shared routes are also called by the storefront, which has no admin token
+	...mount("/api/admin/upload", [
+		["POST", "/image", "Public"],
+		["POST", "/images", "Public"],
+		["DELETE", "/delete/:filename", "Public"],
+	]),
+	...mount("/api/admin/send-support", [["POST", "/", "Public"]]),
+];
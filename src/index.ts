@@ -4,8 +4,11 @@ import path from "path";
 import dotenv from "dotenv";
 import { connectDatabase } from "./config/database";
 import { errorHandler } from "./middleware/errorHandler";
+import { enforceRoutePermissions } from "./middleware/permissionMiddleware";
+import { requestContext } from "./utils/requestContext";
 import { fileURLToPath } from "url";
 import { validateEnvironment } from "./utils/validateEnv";
+import { startPaymentReminderJob } from "./utils/paymentSchedule";
 
 // ADMIN ROUTES
 import adminUserRoutes from "./routes/admin.routes/ami.user.routes";
@@ -24,10 +27,12 @@ import adminAnalyticsRoutes from "./routes/admin.routes/ami.analytics.routes";
 import adminRatingRoutes from "./routes/admin.routes/ami.rating.routes";
 import adminBookingRequestRoutes from "./routes/admin.routes/ami.booking-request.routes";
 import adminTransactionRequestRoutes from "./routes/admin.routes/ami.transaction-request.routes";
+import adminAuditLogRoutes from "./routes/admin.routes/ami.audit-log.routes";
 
 // SHARED ROUTES
 import uploadImageRoutes from "./routes/shared.routes/upload-image.routes";
 import supportRoutes from "./routes/shared.routes/send-support.routes";
+import paymentWebhookRoutes from "./routes/shared.routes/payment-webhook.routes";
 
 // CLIENT ROUTES
 import clientServiceRoutes from "./routes/client.routes/sf.service.routes";
@@ -51,13 +56,17 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 // Middleware
-app.use(cors());
+app.use(cors({ exposedHeaders: ["Idempotent-Replayed"] }));
+// Webhooks verify signatures over the raw body, so they come before parsing
+app.use("/api/webhooks/payments", paymentWebhookRoutes);
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
+app.use(requestContext);
 
 app.use("/uploads", express.static(path.join(__dirname, "../uploads")));
 
-// Admin Routes
+// Admin Routes (access is defined in constants/route-permission.constant.ts)
+app.use("/api/admin", enforceRoutePermissions);
 app.use("/api/admin/auth", adminAuthRoutes);
 app.use("/api/admin/users", adminUserRoutes);
 app.use("/api/admin/customers", adminCustomerRoutes);
@@ -74,6 +83,7 @@ app.use("/api/admin/analytics", adminAnalyticsRoutes);
 app.use("/api/admin/booking-requests", adminBookingRequestRoutes);
 app.use("/api/admin/transaction-requests", adminTransactionRequestRoutes);
 app.use("/api/admin/ratings", adminRatingRoutes);
+app.use("/api/admin/audit-logs", adminAuditLogRoutes);
 
 // Shared Routes
 app.use("/api/admin/upload", uploadImageRoutes);
@@ -109,6 +119,7 @@ app.use(errorHandler);
 const startServer = async () => {
 	try {
 		await connectDatabase();
+		startPaymentReminderJob();
 		app.listen(PORT, () => {
 			console.log(`Server running on http://localhost:${PORT}`);
 		});
@@ -4,8 +4,10 @@ import { RoleModel } from "../models/Role";
 import { User } from "../models/User";
 import jwt from "jsonwebtoken";
 import { verifyToken } from "../utils/tokenHandler";
+import { isTokenRevoked } from "../utils/tokenRevocation";
 import { customError } from "./errorHandler"; // Import your custom error function
 import { Photographer } from "../models/Photographer";
+import { setRequestActor } from "../utils/requestContext";
 
 // Extend Request type to include user
 export interface AuthenticatedUser {
@@ -33,6 +35,7 @@ export interface AuthenticatedRequest<
 > extends Request<Params, ResBody, ReqBody, ReqQuery> {
 	user?: AuthenticatedUser;
 	token?: string;
+	session_id?: string;
 }
 
 export const authenticateAmiUserToken = async (
@@ -41,6 +44,9 @@ export const authenticateAmiUserToken = async (
 	next: NextFunction
 ) => {
 	try {
+		// Already authenticated by enforceRoutePermissions for this request
+		if (req.user) return next();
+
 		const authHeader = req.headers.authorization;
 
 		if (!authHeader) throw customError(401, "Access token required");
@@ -50,13 +56,18 @@ export const authenticateAmiUserToken = async (
 
 		const token = authHeader.substring(7);
 
-		if (isTokenInvalidated(token)) {
-			throw customError(401, "Token has been invalidated");
-		}
-
 		// ✅ jwt.verify will throw if expired or invalid
 		const decoded = verifyToken(token);
 
+		// Refresh and verification tokens are not access tokens
+		if (decoded.use) {
+			throw customError(401, "Invalid token. Use an access token");
+		}
+
+		if (await isTokenRevoked(decoded)) {
+			throw customError(401, "Token has been invalidated");
+		}
+
 		// Try to find user first
 		let user = await User.findById(decoded.userId)
 			.populate({
@@ -139,6 +150,12 @@ export const authenticateAmiUserToken = async (
 		};
 
 		req.token = token;
+		req.session_id = decoded.sid;
+
+		setRequestActor({
+			id: req.user._id,
+			type: isPhotographer ? "Photographer" : "User",
+		});
 
 		next();
 	} catch (error) {
@@ -152,30 +169,6 @@ export const authenticateAmiUserToken = async (
 	}
 };
 
-// Optional: Permission-based middleware
-export const requirePermission = (permission: string) => {
-	return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-		try {
-			if (!req.user) {
-				throw customError(401, "Authentication required");
-			}
-
-			const userPermissions = req.user.role_and_permissions?.permissions || [];
-
-			if (!userPermissions.includes(permission)) {
-				throw customError(
-					403,
-					`Insufficient permissions. Required: ${permission}`
-				);
-			}
-
-			next();
-		} catch (error) {
-			next(error);
-		}
-	};
-};
-
 // Optional: Role-based middleware
 export const requireRole = (roleName: string) => {
 	return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
@@ -218,12 +211,3 @@ export const requireAnyRole = (roles: string[]) => {
 		}
 	};
 };
-
-const invalidatedTokens = new Set<string>();
-
-export const isTokenInvalidated = (token: string): boolean => {
-	return invalidatedTokens.has(token);
-};
-
-// Export the set in case you need it elsewhere
-export { invalidatedTokens };
@@ -3,6 +3,9 @@ import jwt from "jsonwebtoken";
 import { Customer } from "../models/Customer"; // Your customer model
 import { verifyToken, JWTPayload } from "../utils/tokenHandler";
 import { customError } from "./errorHandler";
+import { isTokenRevoked } from "../utils/tokenRevocation";
+import emailConfig from "../config/email";
+import { setRequestActor } from "../utils/requestContext";
 
 // Define Customer authenticated user structure
 export interface AuthenticatedCustomer {
@@ -10,6 +13,7 @@ export interface AuthenticatedCustomer {
 	email: string;
 	first_name?: string;
 	last_name?: string;
+	email_verified_at?: Date | null;
 }
 
 export interface CustomerAuthenticatedRequest<
@@ -20,19 +24,9 @@ export interface CustomerAuthenticatedRequest<
 > extends Request<Params, ResBody, ReqBody, ReqQuery> {
 	customer?: AuthenticatedCustomer;
 	token?: string;
+	session_id?: string;
 }
 
-// Customer token invalidation (separate from admin)
-const invalidatedCustomerTokens = new Set<string>();
-
-export const isCustomerTokenInvalidated = (token: string): boolean => {
-	return invalidatedCustomerTokens.has(token);
-};
-
-export const invalidateCustomerToken = (token: string): void => {
-	invalidatedCustomerTokens.add(token);
-};
-
 // Main customer authentication middleware
 export const authenticateCustomerToken = async (
 	req: CustomerAuthenticatedRequest,
@@ -48,11 +42,6 @@ export const authenticateCustomerToken = async (
 
 		const token = authHeader.substring(7);
 
-		// Check if token is invalidated (for logout)
-		if (isCustomerTokenInvalidated(token)) {
-			throw customError(401, "Token has been invalidated");
-		}
-
 		// Verify token
 		const decoded = verifyToken(token) as JWTPayload & { customerId: string };
 
@@ -61,6 +50,16 @@ export const authenticateCustomerToken = async (
 			throw customError(403, "Invalid token type. Customer access only");
 		}
 
+		// Refresh and verification tokens are not access tokens
+		if (decoded.use) {
+			throw customError(401, "Invalid token. Use an access token");
+		}
+
+		// Check if token was revoked (logout or admin-forced sign out)
+		if (await isTokenRevoked(decoded)) {
+			throw customError(401, "Token has been invalidated");
+		}
+
 		// Fetch customer from database
 		const customer = await Customer.findById(decoded.customerId).lean();
 
@@ -80,9 +79,14 @@ export const authenticateCustomerToken = async (
 			last_name: customer.last_name,
 
 			email: customer.email,
+			email_verified_at: customer.email_verified_at ?? null,
 		};
 
 		req.token = token;
+		req.session_id = decoded.sid;
+
+		setRequestActor({ id: req.customer._id, type: "Customer" });
+
 		next();
 	} catch (error) {
 		if (error instanceof jwt.TokenExpiredError) {
@@ -95,7 +99,19 @@ export const authenticateCustomerToken = async (
 	}
 };
 
-// Optional: Customer-specific verification middleware
+// Public routes that also serve signed-in customers: without an
+// Authorization header the request goes on anonymously, with one the token
+// must be valid
+export const optionalCustomerToken = (
+	req: CustomerAuthenticatedRequest,
+	res: Response,
+	next: NextFunction
+) => {
+	if (!req.headers.authorization) return next();
+	return authenticateCustomerToken(req, res, next);
+};
+
+// Customer must have verified their email (when enabled in email config)
 export const requireVerifiedCustomer = (
 	req: CustomerAuthenticatedRequest,
 	res: Response,
@@ -106,10 +122,18 @@ export const requireVerifiedCustomer = (
 			throw customError(401, "Authentication required");
 		}
 
+		if (
+			emailConfig.requireVerifiedEmailForBooking &&
+			!req.customer.email_verified_at
+		) {
+			throw customError(
+				403,
+				"Please verify your email address before making a booking"
+			);
+		}
+
 		next();
 	} catch (error) {
 		next(error);
 	}
 };
-
-export { invalidatedCustomerTokens };
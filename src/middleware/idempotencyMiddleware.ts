@@ -0,0 +1,157 @@
+import crypto from "crypto";
+import { Request, Response, NextFunction } from "express";
+import { IdempotencyKey } from "../models/IdempotencyKey";
+import { customError } from "./errorHandler";
+import { getRequestActor } from "../utils/requestContext";
+import { isDuplicateKeyError } from "../utils/mongoErrors";
+
+// How long a key can be replayed
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+// A key still processing after this long belongs to a request that died
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+// JSON with sorted object keys, so the same body always hashes the same
+const canonicalJson = (value: unknown): string => {
+	if (Array.isArray(value)) {
+		return `[${value.map(canonicalJson).join(",")}]`;
+	}
+	if (value && typeof value === "object" && !(value instanceof Date)) {
+		const entries = Object.entries(value as Record<string, unknown>)
+			.filter(([, item]) => item !== undefined)
+			.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+			.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`);
+		return `{${entries.join(",")}}`;
+	}
+	return JSON.stringify(value) ?? "null";
+};
+
+const fingerprintRequest = (req: Request) =>
+	crypto
+		.createHash("sha256")
+		.update(
+			canonicalJson({
+				method: req.method,
+				path: req.baseUrl + req.path,
+				body: req.body ?? null,
+			})
+		)
+		.digest("hex");
+
+// ---------------------------
+// Idempotency-Key support for money-moving endpoints
+// ---------------------------
+// Mount after the route's authentication. Requests without the header run as
+// usual. The first request with a key runs and its response is stored; a
+// retry with the same key and body gets that response again (with an
+// Idempotent-Replayed header), the same key with a different body gets 422,
+// and a retry while the first is still running gets 409. Only successful
+// responses are stored, so a request that failed can be retried with its key.
+export const idempotent = async (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const key = req.get("Idempotency-Key")?.trim();
+		if (!key) return next();
+
+		if (key.length > MAX_KEY_LENGTH) {
+			throw customError(
+				400,
+				`Idempotency-Key cannot exceed ${MAX_KEY_LENGTH} characters`
+			);
+		}
+
+		const actor = getRequestActor();
+		const scope = actor ? `${actor.type}:${actor.id}` : `Anonymous:${req.ip}`;
+		const fingerprint = fingerprintRequest(req);
+		const route = req.route?.path ? `${req.baseUrl}${req.route.path}` : req.path;
+
+		// A second round runs when the key was dropped or abandoned meanwhile
+		let claimed = false;
+		for (let attempt = 0; attempt < 2 && !claimed; attempt++) {
+			try {
+				await IdempotencyKey.create({
+					key,
+					scope,
+					method: req.method,
+					route,
+					fingerprint,
+					expires_at: new Date(Date.now() + KEY_TTL_MS),
+				});
+				claimed = true;
+				continue;
+			} catch (error) {
+				if (!isDuplicateKeyError(error)) throw error;
+			}
+
+			const existing = await IdempotencyKey.findOne({ scope, key }).lean();
+			if (!existing) continue;
+
+			if (existing.fingerprint !== fingerprint) {
+				throw customError(
+					422,
+					"This Idempotency-Key was already used for a different request"
+				);
+			}
+
+			if (existing.status === "Completed") {
+				res.setHeader("Idempotent-Replayed", "true");
+				res
+					.status(existing.response_status ?? 200)
+					.json(existing.response_body);
+				return;
+			}
+
+			// The request holding the key never finished (e.g. the server restarted)
+			const startedAt = existing.created_at?.getTime() ?? Date.now();
+			if (Date.now() - startedAt > STALE_PROCESSING_MS) {
+				await IdempotencyKey.deleteOne({
+					_id: existing._id,
+					status: "Processing",
+				});
+				continue;
+			}
+
+			throw customError(
+				409,
+				"A request with this Idempotency-Key is still being processed"
+			);
+		}
+
+		if (!claimed) {
+			throw customError(
+				409,
+				"A request with this Idempotency-Key is still being processed"
+			);
+		}
+
+		// Store the response the handler sends; drop the key when it fails
+		const sendJson = res.json.bind(res);
+		res.json = (body: unknown) => {
+			const succeeded = res.statusCode >= 200 && res.statusCode < 300;
+			const saved = succeeded
+				? IdempotencyKey.updateOne(
+						{ scope, key },
+						{
+							$set: {
+								status: "Completed",
+								response_status: res.statusCode,
+								response_body: body,
+								completed_at: new Date(),
+							},
+						}
+				  )
+				: IdempotencyKey.deleteOne({ scope, key, status: "Processing" });
+			saved.catch((error) =>
+				console.error("Failed to store idempotent response:", error)
+			);
+			return sendJson(body);
+		};
+
+		next();
+	} catch (error) {
+		next(error);
+	}
+};
@@ -1,24 +1,57 @@
 import { NextFunction, Response } from "express";
-import { AuthenticatedRequest } from "./authAmiMiddleware";
+import {
+	AuthenticatedRequest,
+	authenticateAmiUserToken,
+} from "./authAmiMiddleware";
+import { customError } from "./errorHandler";
+import { findRoutePermission } from "../utils/routePermissions";
 
+// Single permission check for routes that need one outside the registry
 export const requirePermission = (permission: string) => {
 	return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-		if (!req.user) {
-			return res.status(401).json({
-				status: "Error",
-				message: "Authentication required",
-			});
-		}
+		try {
+			if (!req.user) {
+				throw customError(401, "Authentication required");
+			}
 
-		const userPermissions = req.user.role_and_permissions?.permissions || [];
+			const userPermissions = req.user.role_and_permissions?.permissions || [];
 
-		if (!userPermissions.includes(permission)) {
-			return res.status(403).json({
-				status: "Error",
-				message: `Permission denied. Required: ${permission}`,
-			});
-		}
+			if (!userPermissions.includes(permission)) {
+				throw customError(
+					403,
+					`Insufficient permissions. Required: ${permission}`
+				);
+			}
 
-		next();
+			next();
+		} catch (error) {
+			next(error);
+		}
 	};
 };
+
+// Applies the route-permission registry to every /api/admin request
+export const enforceRoutePermissions = (
+	req: AuthenticatedRequest,
+	res: Response,
+	next: NextFunction
+) => {
+	const route = findRoutePermission(req.method, req.baseUrl + req.path);
+
+	// Fail closed: a route nobody registered is reachable by nobody
+	if (!route) {
+		return next(
+			customError(403, "Access denied. Route has no permission mapping")
+		);
+	}
+
+	if (route.permission === "Public") {
+		return next();
+	}
+
+	authenticateAmiUserToken(req, res, (error?: unknown) => {
+		if (error) return next(error);
+		if (route.permission === "Authenticated") return next();
+		requirePermission(route.permission)(req, res, next);
+	});
+};
@@ -0,0 +1,94 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export const AuditActionEnum = {
+	Create: "Create",
+	Update: "Update",
+	Delete: "Delete",
+} as const;
+
+export type AuditAction = keyof typeof AuditActionEnum;
+
+export const AuditActorTypeEnum = {
+	User: "User",
+	Photographer: "Photographer",
+	Customer: "Customer",
+	System: "System", // Seeders, scripts and other writes outside a request
+} as const;
+
+export type AuditActorType = keyof typeof AuditActorTypeEnum;
+
+export type AuditLogModel = Document & {
+	entity_type: string;
+	entity_id: Types.ObjectId;
+	action: AuditAction;
+
+	// Only the fields that changed (the full document on create/delete)
+	changed_fields: string[];
+	before?: Record<string, unknown> | null;
+	after?: Record<string, unknown> | null;
+
+	actor_id?: Types.ObjectId | null;
+	actor_type: AuditActorType;
+
+	method?: string | null;
+	path?: string | null;
+	route?: string | null;
+	ip_address?: string | null;
+
+	created_at?: Date;
+};
+
+const auditLogSchema = new Schema<AuditLogModel>(
+	{
+		entity_type: {
+			type: String,
+			required: [true, "Entity type is required"],
+		},
+		entity_id: {
+			type: Schema.Types.ObjectId,
+			required: [true, "Entity ID is required"],
+		},
+		action: {
+			type: String,
+			enum: {
+				values: Object.values(AuditActionEnum),
+				message: "{VALUE} is not a valid audit action",
+			},
+			required: [true, "Action is required"],
+		},
+
+		changed_fields: [{ type: String }],
+		before: { type: Schema.Types.Mixed, default: null },
+		after: { type: Schema.Types.Mixed, default: null },
+
+		actor_id: { type: Schema.Types.ObjectId, default: null },
+		actor_type: {
+			type: String,
+			enum: {
+				values: Object.values(AuditActorTypeEnum),
+				message: "{VALUE} is not a valid actor type",
+			},
+			default: "System",
+		},
+
+		method: { type: String, default: null },
+		path: { type: String, default: null },
+		route: { type: String, default: null },
+		ip_address: { type: String, default: null },
+	},
+	{
+		timestamps: { createdAt: "created_at", updatedAt: false },
+		minimize: false,
+	}
+);
+
+// Indexes
+auditLogSchema.index({ entity_type: 1, entity_id: 1, created_at: -1 });
+auditLogSchema.index({ actor_id: 1, created_at: -1 });
+auditLogSchema.index({ created_at: -1 });
+
+export const AuditLog = mongoose.model<AuditLogModel>(
+	"AuditLog",
+	auditLogSchema,
+	"audit_logs"
+);
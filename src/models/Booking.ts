@@ -2,6 +2,14 @@ import mongoose, { Schema, Document, Types } from "mongoose";
 import { MetaData } from "../types/base.types";
 import { customError } from "../middleware/errorHandler";
 import { parse } from "date-fns";
+import { auditLogPlugin } from "../utils/auditLogPlugin";
+import { refreshPaymentSchedule } from "../utils/paymentSchedule";
+import {
+	PaymentMilestone,
+	paymentMilestoneSchema,
+	PaymentTerms,
+	paymentTermsSchema,
+} from "./PaymentSchedule";
 
 // Booking status enum
 export const BookingStatusEnum = {
@@ -15,6 +23,55 @@ export const BookingStatusEnum = {
 
 export type BookingStatus = keyof typeof BookingStatusEnum;
 
+// Every status a booking may move to from its current one.
+// Completed and Cancelled are final. A rescheduled booking is confirmed
+// again (deposit check included) before it can start.
+export const BookingStatusTransitions: Record<BookingStatus, BookingStatus[]> = {
+	Pending: ["Confirmed", "Rescheduled", "Cancelled"],
+	Confirmed: ["Ongoing", "Completed", "Rescheduled", "Cancelled"],
+	Rescheduled: ["Confirmed", "Rescheduled", "Cancelled"],
+	Ongoing: ["Completed", "Cancelled"],
+	Completed: [],
+	Cancelled: [],
+};
+
+export const canTransitionBookingStatus = (
+	from: BookingStatus,
+	to: BookingStatus
+): boolean => BookingStatusTransitions[from]?.includes(to) ?? false;
+
+export type BookingStatusActorType =
+	| "User"
+	| "Photographer"
+	| "Customer"
+	| "System";
+
+export type BookingStatusHistoryEntry = {
+	from_status: BookingStatus | null;
+	to_status: BookingStatus;
+	changed_by?: Types.ObjectId | null;
+	changed_by_type: BookingStatusActorType;
+	reason?: string | null;
+	changed_at: Date;
+};
+
+export type BookingTransitionOptions = {
+	actorId?: string | Types.ObjectId | null;
+	actorType?: BookingStatusActorType;
+	reason?: string | null;
+};
+
+// One promo applied to a booking; stacked promos are applied in array order,
+// each on the amount left after the ones before it
+export type BookingAppliedDiscount = {
+	promo_id: Types.ObjectId;
+	promo_code: string;
+	campaign_code?: string | null;
+	discount_type: string;
+	discount_value: number;
+	discount_amount: number;
+};
+
 // Refactored BookingModel - transaction fields removed
 export type BookingModel = Document &
 	MetaData & {
@@ -22,7 +79,8 @@ export type BookingModel = Document &
 		customer_id: Types.ObjectId;
 		package_id?: Types.ObjectId | null;
 		photographer_id?: Types.ObjectId | null;
-		promo_id?: Types.ObjectId | null;
+		promo_id?: Types.ObjectId | null; // First entry of applied_discounts
+		applied_discounts: BookingAppliedDiscount[];
 
 		services: {
 			service_id: Types.ObjectId;
@@ -43,12 +101,17 @@ export type BookingModel = Document &
 		theme?: string | null;
 		special_requests?: string | null;
 		status: BookingStatus;
+		status_history: BookingStatusHistoryEntry[];
 
 		// Pricing fields (keep these for booking calculation)
 		total_amount: number;
 		discount_amount: number;
 		final_amount: number;
 
+		// When the money is due; terms are copied from the package or services
+		payment_terms?: PaymentTerms | null;
+		payment_schedule: PaymentMilestone[];
+
 		// Status timestamps
 		booking_confirmed_at?: Date | null;
 		booking_completed_at?: Date | null;
@@ -57,14 +120,22 @@ export type BookingModel = Document &
 
 		// Notes and ratings
 		photographer_notes?: string | null;
-		client_rating?: number | null;
-		photographer_rating?: number | null;
+		client_rating?: number | null; // Customer's average across their ratings of this booking
+		photographer_rating?: number | null; // Customer's rating of the photographer
+
+		// Idempotency-Key of the request that created the booking
+		idempotency_key?: string | null;
 
 		// Virtual field - will be populated from Transaction model
 		amount_paid?: number;
 		is_payment_complete?: boolean;
 		_skipPastValidation?: boolean;
 		_skipAvailabilityCheck?: boolean;
+
+		transitionTo(
+			status: BookingStatus,
+			options?: BookingTransitionOptions
+		): void;
 	};
 
 // Refactored booking schema
@@ -97,6 +168,21 @@ const bookingSchema = new Schema<BookingModel>(
 			ref: "Promo",
 			default: null,
 		},
+		applied_discounts: [
+			{
+				_id: false,
+				promo_id: {
+					type: Schema.Types.ObjectId,
+					ref: "Promo",
+					required: true,
+				},
+				promo_code: { type: String, required: true, uppercase: true },
+				campaign_code: { type: String, uppercase: true, default: null },
+				discount_type: { type: String, required: true },
+				discount_value: { type: Number, required: true, min: 0 },
+				discount_amount: { type: Number, required: true, min: 0 },
+			},
+		],
 
 		services: [
 			{
@@ -216,6 +302,34 @@ const bookingSchema = new Schema<BookingModel>(
 			},
 			default: "Pending",
 		},
+		status_history: [
+			{
+				_id: false,
+				from_status: {
+					type: String,
+					enum: [...Object.values(BookingStatusEnum), null],
+					default: null,
+				},
+				to_status: {
+					type: String,
+					enum: Object.values(BookingStatusEnum),
+					required: true,
+				},
+				changed_by: { type: Schema.Types.ObjectId, default: null },
+				changed_by_type: {
+					type: String,
+					enum: ["User", "Photographer", "Customer", "System"],
+					default: "System",
+				},
+				reason: {
+					type: String,
+					trim: true,
+					maxlength: [500, "Status change reason cannot exceed 500 characters"],
+					default: null,
+				},
+				changed_at: { type: Date, default: Date.now },
+			},
+		],
 
 		// Pricing fields (calculation only, not payment tracking)
 		total_amount: {
@@ -234,6 +348,16 @@ const bookingSchema = new Schema<BookingModel>(
 			min: [0, "Final amount cannot be negative"],
 		},
 
+		// Payment schedule
+		payment_terms: {
+			type: paymentTermsSchema,
+			default: null,
+		},
+		payment_schedule: {
+			type: [paymentMilestoneSchema],
+			default: [],
+		},
+
 		// Status timestamps
 		booking_confirmed_at: { type: Date, default: null },
 		booking_completed_at: { type: Date, default: null },
@@ -265,6 +389,13 @@ const bookingSchema = new Schema<BookingModel>(
 			default: null,
 		},
 
+		idempotency_key: {
+			type: String,
+			trim: true,
+			maxlength: [255, "Idempotency key cannot exceed 255 characters"],
+			default: null,
+		},
+
 		// Metadata
 		is_active: { type: Boolean, default: true },
 		created_by: { type: Types.ObjectId, ref: "User", required: true },
@@ -290,6 +421,98 @@ const bookingSchema = new Schema<BookingModel>(
 	}
 );
 
+// Remember the stored status so save can check the transition
+bookingSchema.post("init", function () {
+	this.$locals.persistedStatus = this.status;
+});
+
+const UNCONFIRMED_START_MESSAGE =
+	"Cannot start a booking that has not been confirmed";
+
+// Move the booking to another status, rejecting moves the table does not allow
+bookingSchema.methods.transitionTo = function (
+	this: BookingModel,
+	status: BookingStatus,
+	options: BookingTransitionOptions = {}
+) {
+	if (!canTransitionBookingStatus(this.status, status)) {
+		throw customError(
+			400,
+			`Cannot change booking status from ${this.status} to ${status}`
+		);
+	}
+	if (status === "Ongoing" && !this.booking_confirmed_at) {
+		throw customError(400, UNCONFIRMED_START_MESSAGE);
+	}
+
+	this.status_history.push({
+		from_status: this.status,
+		to_status: status,
+		changed_by: options.actorId ? new Types.ObjectId(options.actorId) : null,
+		changed_by_type: options.actorType ?? (options.actorId ? "User" : "System"),
+		reason: options.reason ?? null,
+		changed_at: new Date(),
+	});
+	this.status = status;
+};
+
+// Status changes that bypass transitionTo() are still checked and recorded
+bookingSchema.pre("validate", function (next) {
+	if (this.isNew) {
+		if (this.status_history.length === 0) {
+			this.status_history.push({
+				from_status: null,
+				to_status: this.status,
+				changed_by: this.created_by ?? null,
+				changed_by_type: this.created_by ? "User" : "System",
+				reason: null,
+				changed_at: new Date(),
+			});
+		}
+		return next();
+	}
+
+	const persistedStatus = this.$locals.persistedStatus as
+		| BookingStatus
+		| undefined;
+
+	if (!this.isModified("status") || !persistedStatus) return next();
+
+	if (!canTransitionBookingStatus(persistedStatus, this.status)) {
+		return next(
+			customError(
+				400,
+				`Cannot change booking status from ${persistedStatus} to ${this.status}`
+			)
+		);
+	}
+	if (this.status === "Ongoing" && !this.booking_confirmed_at) {
+		return next(customError(400, UNCONFIRMED_START_MESSAGE));
+	}
+
+	const lastEntry = this.status_history[this.status_history.length - 1];
+	if (
+		lastEntry?.to_status !== this.status ||
+		lastEntry.from_status !== persistedStatus
+	) {
+		this.status_history.push({
+			from_status: persistedStatus,
+			to_status: this.status,
+			changed_by: this.updated_by ?? null,
+			changed_by_type: this.updated_by ? "User" : "System",
+			reason: null,
+			changed_at: new Date(),
+		});
+	}
+
+	next();
+});
+
+// Keep the check in sync after a successful save
+bookingSchema.post("save", function () {
+	this.$locals.persistedStatus = this.status;
+});
+
 // Auto-generate booking reference
 bookingSchema.pre("validate", function (next) {
 	if (this.isNew && !this.booking_reference) {
@@ -410,6 +633,16 @@ bookingSchema.pre("save", async function (next) {
 		// Final amount calculation
 		this.final_amount = this.total_amount - (this.discount_amount || 0);
 
+		// Due dates follow the amount and the session
+		if (
+			this.isNew ||
+			this.isModified("final_amount") ||
+			this.isModified("booking_date") ||
+			this.isModified("start_time")
+		) {
+			await refreshPaymentSchedule(this, this.$session());
+		}
+
 		next();
 	} catch (error) {
 		if (typeof error === "string") {
@@ -468,5 +701,16 @@ bookingSchema.methods.getPaymentStatus = async function () {
 	};
 };
 
+// A retried create request finds the booking it already made
+bookingSchema.index(
+	{ customer_id: 1, idempotency_key: 1 },
+	{
+		unique: true,
+		partialFilterExpression: { idempotency_key: { $type: "string" } },
+	}
+);
+
+bookingSchema.plugin(auditLogPlugin);
+
 // Export model
 export const Booking = mongoose.model<BookingModel>("Booking", bookingSchema);
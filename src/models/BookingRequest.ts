@@ -37,6 +37,11 @@ export type BookingRequestModel = Document &
 		new_photographer_id?: Types.ObjectId | null;
 		reschedule_reason: string;
 
+		// Refund issued when a cancellation is approved
+		refund_amount?: number | null;
+		refund_request_ids: Types.ObjectId[];
+		refund_transaction_ids: Types.ObjectId[];
+
 		// Admin response
 		reviewed_by?: Types.ObjectId | null;
 		reviewed_at?: Date | null;
@@ -124,6 +129,25 @@ const bookingRequestSchema = new Schema<BookingRequestModel>(
 			default: null,
 		},
 
+		// Cancellation refund
+		refund_amount: {
+			type: Number,
+			min: [0, "Refund amount cannot be negative"],
+			default: null,
+		},
+		refund_request_ids: [
+			{
+				type: Schema.Types.ObjectId,
+				ref: "TransactionRequest",
+			},
+		],
+		refund_transaction_ids: [
+			{
+				type: Schema.Types.ObjectId,
+				ref: "Transaction",
+			},
+		],
+
 		// Admin response
 		reviewed_by: {
 			type: Schema.Types.ObjectId,
@@ -0,0 +1,61 @@
+import mongoose, { Schema, Document, ClientSession } from "mongoose";
+import { isDuplicateKeyError } from "../utils/mongoErrors";
+
+// A named sequence, e.g. "receipt-2026"
+export type CounterModel = Document & {
+	name: string;
+	seq: number;
+};
+
+export interface CounterModelStatic extends mongoose.Model<CounterModel> {
+	nextValue(name: string, session?: ClientSession | null): Promise<number>;
+}
+
+const counterSchema = new Schema<CounterModel>(
+	{
+		name: {
+			type: String,
+			required: [true, "Counter name is required"],
+			unique: true,
+			trim: true,
+		},
+		seq: {
+			type: Number,
+			default: 0,
+		},
+	},
+	{
+		timestamps: { createdAt: "created_at", updatedAt: "updated_at" },
+	}
+);
+
+// Static method to take the next number of a sequence. The increment is
+// atomic, so concurrent callers never get the same number; inside a
+// transaction the number is given back if the transaction aborts.
+counterSchema.statics.nextValue = async function (
+	name: string,
+	session: ClientSession | null = null
+): Promise<number> {
+	const increment = () =>
+		this.findOneAndUpdate(
+			{ name },
+			{ $inc: { seq: 1 } },
+			{ new: true, upsert: true, session: session ?? undefined }
+		);
+
+	try {
+		const counter = await increment();
+		return counter.seq;
+	} catch (error) {
+		// Two first calls raced to create the counter; it exists now
+		if (!isDuplicateKeyError(error)) throw error;
+		const counter = await increment();
+		return counter.seq;
+	}
+};
+
+// Export model
+export const Counter = mongoose.model<CounterModel, CounterModelStatic>(
+	"Counter",
+	counterSchema
+);
@@ -1,6 +1,7 @@
 import mongoose, { Schema, Document, Types } from "mongoose";
 import { MetaData } from "../types/base.types";
 import { Gender } from "../types/literal.types";
+import { auditLogPlugin } from "../utils/auditLogPlugin";
 
 // Regex patterns
 const emailRegex = /^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/;
@@ -33,6 +34,10 @@ export type CustomerModel = Document &
 		birth_date?: Date | null;
 		password: string;
 		profile_image?: string | null;
+		password_reset_token?: string | null;
+		password_reset_expires_at?: Date | null;
+		email_verified_at?: Date | null;
+		email_verification_sent_at?: Date | null;
 	};
 
 export interface CustomerModelStatic extends mongoose.Model<CustomerModel> {
@@ -116,6 +121,14 @@ const customerSchema = new Schema<CustomerModel>(
 		birth_date: { type: Date, default: null },
 		profile_image: { type: String, default: null },
 
+		// Password reset (SHA-256 hash of the emailed token)
+		password_reset_token: { type: String, select: false, default: null },
+		password_reset_expires_at: { type: Date, default: null },
+
+		// Email verification (null = not yet verified)
+		email_verified_at: { type: Date, default: null },
+		email_verification_sent_at: { type: Date, default: null },
+
 		// Metadata / audit fields
 		is_active: { type: Boolean, default: true },
 		created_by: { type: Types.ObjectId, ref: "User" },
@@ -164,6 +177,15 @@ customerSchema.statics.generateCustomerNumber =
 		return `CUST-${dateStr}-${sequenceStr}`;
 	};
 
+// A changed email address has to be verified again
+customerSchema.pre("save", function (next) {
+	if (!this.isNew && this.isModified("email")) {
+		this.email_verified_at = null;
+		this.email_verification_sent_at = null;
+	}
+	next();
+});
+
 // Pre-save hook to auto-generate customer_no if not provided
 customerSchema.pre("save", async function (next) {
 	if (this.isNew && !this.customer_no) {
@@ -198,6 +220,8 @@ customerSchema.pre(
 	}
 );
 
+customerSchema.plugin(auditLogPlugin);
+
 export const Customer = mongoose.model<CustomerModel, CustomerModelStatic>(
 	"Customer",
 	customerSchema
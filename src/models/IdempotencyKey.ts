@@ -0,0 +1,82 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export const IdempotencyStatusEnum = {
+	Processing: "Processing",
+	Completed: "Completed",
+} as const;
+
+export type IdempotencyStatus = keyof typeof IdempotencyStatusEnum;
+
+// One document per Idempotency-Key sent to a money-moving endpoint. A replay
+// with the same key and request gets the stored response back instead of
+// running the request again.
+export type IdempotencyKeyModel = Document & {
+	key: string;
+	scope: string; // Account that sent the key, e.g. "Customer:<id>"
+	method: string;
+	route: string; // Matched route pattern, e.g. /api/admin/transactions/:id/refund
+	fingerprint: string; // Hash of the method, path and body
+	status: IdempotencyStatus;
+	response_status?: number | null;
+	response_body?: unknown;
+	completed_at?: Date | null;
+	expires_at: Date;
+	created_at?: Date;
+	updated_at?: Date;
+};
+
+const idempotencyKeySchema = new Schema<IdempotencyKeyModel>(
+	{
+		key: {
+			type: String,
+			required: [true, "Idempotency key is required"],
+			trim: true,
+			maxlength: [255, "Idempotency key cannot exceed 255 characters"],
+		},
+		scope: {
+			type: String,
+			required: [true, "Scope is required"],
+		},
+		method: {
+			type: String,
+			required: [true, "Method is required"],
+		},
+		route: {
+			type: String,
+			required: [true, "Route is required"],
+		},
+		fingerprint: {
+			type: String,
+			required: [true, "Fingerprint is required"],
+		},
+		status: {
+			type: String,
+			enum: {
+				values: Object.values(IdempotencyStatusEnum),
+				message: "{VALUE} is not a valid idempotency status",
+			},
+			default: "Processing",
+		},
+		response_status: { type: Number, default: null },
+		response_body: { type: Schema.Types.Mixed, default: null },
+		completed_at: { type: Date, default: null },
+		// Keys can be replayed until then; MongoDB removes them afterwards
+		expires_at: {
+			type: Date,
+			required: [true, "Expiry date is required"],
+		},
+	},
+	{
+		timestamps: { createdAt: "created_at", updatedAt: "updated_at" },
+	}
+);
+
+// Indexes
+idempotencyKeySchema.index({ scope: 1, key: 1 }, { unique: true });
+idempotencyKeySchema.index({ expires_at: 1 }, { expireAfterSeconds: 0 });
+
+export const IdempotencyKey = mongoose.model<IdempotencyKeyModel>(
+	"IdempotencyKey",
+	idempotencyKeySchema,
+	"idempotency_keys"
+);
@@ -3,6 +3,9 @@ import { MetaData } from "../types/base.types";
 import { Service } from "./Service";
 import { Photographer } from "./Photographer";
 import { ServiceCategory } from "../constants/service-category.constant";
+import { auditLogPlugin } from "../utils/auditLogPlugin";
+import { RatingSummary, ratingSummaryDefinition } from "./RatingSummary";
+import { PaymentTerms, paymentTermsSchema } from "./PaymentSchedule";
 
 // Service reference matching Booking structure exactly
 export interface IncludedService {
@@ -37,6 +40,7 @@ export interface PackageMethods {
 
 export type PackageModel = Document &
 	MetaData &
+	RatingSummary &
 	PackageMethods & {
 		name: string;
 		description?: string | null;
@@ -57,6 +61,9 @@ export type PackageModel = Document &
 
 		// Optional override
 		custom_duration_minutes?: number | null;
+
+		// Deposit and balance due dates for bookings; null uses the defaults
+		payment_terms?: PaymentTerms | null;
 	};
 
 const packageSchema = new Schema<PackageModel>(
@@ -135,6 +142,14 @@ const packageSchema = new Schema<PackageModel>(
 			default: null,
 		},
 
+		payment_terms: {
+			type: paymentTermsSchema,
+			default: null,
+		},
+
+		// Cached rating aggregates
+		...ratingSummaryDefinition,
+
 		// Metadata
 		is_active: { type: Boolean, default: true },
 		created_by: { type: Types.ObjectId, ref: "User", required: true },
@@ -208,5 +223,8 @@ packageSchema.index({ package_price: 1 });
 packageSchema.index({ is_available: 1, is_active: 1 });
 packageSchema.index({ "services.service_id": 1 });
 packageSchema.index({ created_by: 1 });
+packageSchema.index({ rating_average: -1, rating_count: -1 });
+
+packageSchema.plugin(auditLogPlugin);
 
 export const Package = mongoose.model<PackageModel>("Package", packageSchema);
@@ -0,0 +1,82 @@
+import { Schema } from "mongoose";
+
+export const PaymentMilestoneTypeEnum = {
+	Deposit: "Deposit",
+	Balance: "Balance",
+} as const;
+
+export type PaymentMilestoneType = keyof typeof PaymentMilestoneTypeEnum;
+
+export const PaymentMilestoneStatusEnum = {
+	Pending: "Pending",
+	Paid: "Paid",
+	Overdue: "Overdue",
+} as const;
+
+export type PaymentMilestoneStatus = keyof typeof PaymentMilestoneStatusEnum;
+
+// How a package or service wants to be paid. Bookings copy these into their
+// payment schedule when they are made; null falls back to config/paymentSchedule.
+export type PaymentTerms = {
+	deposit_percentage: number;
+	balance_due_days_before: number;
+};
+
+// One payment a booking expects. Amounts are cumulative in order: the balance
+// is met once everything is paid, the deposit once its amount is.
+export type PaymentMilestone = {
+	milestone_type: PaymentMilestoneType;
+	percentage: number;
+	amount: number;
+	due_date: Date;
+	status: PaymentMilestoneStatus;
+	paid_at?: Date | null;
+	reminder_sent_at?: Date | null;
+	overdue_notice_sent_at?: Date | null;
+};
+
+export const paymentTermsSchema = new Schema<PaymentTerms>(
+	{
+		deposit_percentage: {
+			type: Number,
+			required: [true, "Deposit percentage is required"],
+			min: [0, "Deposit percentage cannot be negative"],
+			max: [100, "Deposit percentage cannot exceed 100"],
+		},
+		balance_due_days_before: {
+			type: Number,
+			required: [true, "Balance due days is required"],
+			min: [0, "Balance due days cannot be negative"],
+			max: [90, "Balance due days cannot exceed 90"],
+		},
+	},
+	{ _id: false }
+);
+
+export const paymentMilestoneSchema = new Schema<PaymentMilestone>(
+	{
+		milestone_type: {
+			type: String,
+			enum: {
+				values: Object.values(PaymentMilestoneTypeEnum),
+				message: "{VALUE} is not a valid payment milestone",
+			},
+			required: [true, "Milestone type is required"],
+		},
+		percentage: { type: Number, min: 0, max: 100, required: true },
+		amount: { type: Number, min: 0, required: true },
+		due_date: { type: Date, required: [true, "Due date is required"] },
+		status: {
+			type: String,
+			enum: {
+				values: Object.values(PaymentMilestoneStatusEnum),
+				message: "{VALUE} is not a valid payment milestone status",
+			},
+			default: "Pending",
+		},
+		paid_at: { type: Date, default: null },
+		reminder_sent_at: { type: Date, default: null },
+		overdue_notice_sent_at: { type: Date, default: null },
+	},
+	{ _id: false }
+);
@@ -7,6 +7,8 @@ import {
 import { Booking } from "./Booking";
 import { Role } from "./Role";
 import { addDays, addMinutes, format, isAfter, parse } from "date-fns";
+import { auditLogPlugin } from "../utils/auditLogPlugin";
+import { RatingSummary, ratingSummaryDefinition } from "./RatingSummary";
 
 export const PHOTOGRAPHER_TIME_AVAILABILITY_REGEX =
 	/^(([0-1]?[0-9]|2[0-3]):[0-5][0-9]|24:00)$/;
@@ -168,6 +170,7 @@ export interface PhotographerMethods {
 
 export type PhotographerModel = Document &
 	MetaData &
+	RatingSummary &
 	PhotographerMethods & {
 		name: string;
 		email: string;
@@ -177,6 +180,8 @@ export type PhotographerModel = Document &
 
 		role_id: Types.ObjectId;
 		password: string;
+		password_reset_token?: string | null;
+		password_reset_expires_at?: Date | null;
 
 		// Simplified specialties based on service categories
 		specialties: ServiceCategory[]; // Must have at least 1 category from the 5 options
@@ -218,6 +223,17 @@ const photographerSchema = new Schema<PhotographerModel>(
 			select: false,
 		},
 
+		// Password reset (SHA-256 hash of the emailed token)
+		password_reset_token: {
+			type: String,
+			select: false,
+			default: null,
+		},
+		password_reset_expires_at: {
+			type: Date,
+			default: null,
+		},
+
 		mobile_number: {
 			type: String,
 			trim: true,
@@ -324,6 +340,9 @@ const photographerSchema = new Schema<PhotographerModel>(
 			default: 0, // 24 hours minimum notice
 		},
 
+		// Cached rating aggregates
+		...ratingSummaryDefinition,
+
 		// Standard metadata fields
 		is_active: { type: Boolean, default: true },
 		created_by: { type: Types.ObjectId, ref: "User", required: true },
@@ -611,6 +630,9 @@ photographerSchema.index({ specialties: 1 });
 photographerSchema.index({ role_id: 1 });
 photographerSchema.index({ "date_overrides.date": 1 });
 photographerSchema.index({ is_active: 1 });
+photographerSchema.index({ rating_average: -1, rating_count: -1 });
+
+photographerSchema.plugin(auditLogPlugin);
 
 export const Photographer = mongoose.model<PhotographerModel>(
 	"Photographer",
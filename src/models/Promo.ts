@@ -1,6 +1,12 @@
 import mongoose, { Schema, Document, Types } from "mongoose";
 import { MetaData } from "../types/base.types";
 import { HydratedDocument } from "mongoose";
+import { auditLogPlugin } from "../utils/auditLogPlugin";
+import {
+	ServiceCategory,
+	ServiceCategoryEnum,
+} from "../constants/service-category.constant";
+import { DayOfWeek, DayOfWeekEnum } from "./Photographer";
 
 // ===========================================
 // PROMO MODEL
@@ -23,6 +29,17 @@ export const DiscountTypeEnum = {
 export type PromoType = keyof typeof PromoTypeEnum;
 export type DiscountType = keyof typeof DiscountTypeEnum;
 
+// Who and what a promo applies to. Empty lists and null mean "no restriction";
+// every rule that is set must pass (see utils/promoEligibility).
+export type PromoEligibilityRules = {
+	min_completed_bookings?: number | null;
+	first_booking_only?: boolean;
+	service_categories?: ServiceCategory[]; // At least one booked service must match
+	package_ids?: Types.ObjectId[];
+	weekdays?: DayOfWeek[]; // Day of the booking date
+	customer_ids?: Types.ObjectId[];
+};
+
 // Document &
 export type PromoModel = MetaData & {
 	promo_code: string;
@@ -38,10 +55,45 @@ export type PromoModel = MetaData & {
 	valid_until: Date;
 	usage_limit?: number | null;
 	usage_count: number;
+	per_customer_limit?: number | null;
+	is_stackable: boolean; // May be combined with other stackable promos
+	stacking_priority: number; // Higher goes first when stacked
+	is_campaign: boolean; // Only usable through generated single-use codes
 	is_active: boolean;
-	conditions?: string | null;
+	conditions?: string | null; // Display text; rules live in eligibility_rules
+	eligibility_rules?: PromoEligibilityRules;
 };
 
+const eligibilityRulesSchema = new Schema<PromoEligibilityRules>(
+	{
+		min_completed_bookings: {
+			type: Number,
+			min: [0, "Minimum completed bookings cannot be negative"],
+			default: null,
+		},
+		first_booking_only: { type: Boolean, default: false },
+		service_categories: {
+			type: [String],
+			enum: {
+				values: Object.values(ServiceCategoryEnum),
+				message: "{VALUE} is not a valid service category",
+			},
+			default: [],
+		},
+		package_ids: [{ type: Schema.Types.ObjectId, ref: "Package" }],
+		weekdays: {
+			type: [String],
+			enum: {
+				values: Object.values(DayOfWeekEnum),
+				message: "{VALUE} is not a valid weekday",
+			},
+			default: [],
+		},
+		customer_ids: [{ type: Schema.Types.ObjectId, ref: "Customer" }],
+	},
+	{ _id: false }
+);
+
 const promoSchema = new Schema<PromoModel>(
 	{
 		promo_code: {
@@ -140,6 +192,23 @@ const promoSchema = new Schema<PromoModel>(
 			default: 0,
 			min: [0, "Usage count cannot be negative"],
 		},
+		per_customer_limit: {
+			type: Number,
+			min: [1, "Per-customer limit must be at least 1"],
+			default: null,
+		},
+		is_stackable: {
+			type: Boolean,
+			default: false,
+		},
+		stacking_priority: {
+			type: Number,
+			default: 0,
+		},
+		is_campaign: {
+			type: Boolean,
+			default: false,
+		},
 		is_active: {
 			type: Boolean,
 			default: true,
@@ -150,6 +219,10 @@ const promoSchema = new Schema<PromoModel>(
 			maxlength: [1000, "Conditions cannot exceed 1000 characters"],
 			default: null,
 		},
+		eligibility_rules: {
+			type: eligibilityRulesSchema,
+			default: () => ({}),
+		},
 
 		// Metadata / audit fields (using standard is_active for both business and metadata)
 		created_by: { type: Types.ObjectId, ref: "User", required: true },
@@ -178,6 +251,8 @@ promoSchema.index({ promo_type: 1 });
 promoSchema.index({ valid_from: 1, valid_until: 1 });
 promoSchema.index({ is_active: 1 });
 
+promoSchema.plugin(auditLogPlugin);
+
 export const Promo = mongoose.model<PromoModel>("Promo", promoSchema);
 
 export type PromoDocument = HydratedDocument<PromoModel>;
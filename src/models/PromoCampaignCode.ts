@@ -0,0 +1,74 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export const CampaignCodeStatusEnum = {
+	Available: "Available",
+	Redeemed: "Redeemed",
+} as const;
+
+export type CampaignCodeStatus = keyof typeof CampaignCodeStatusEnum;
+
+// A single-use code generated for a campaign promo. The code carries no rules
+// of its own: it is validated and priced exactly like its parent promo.
+export type PromoCampaignCodeModel = Document & {
+	promo_id: Types.ObjectId; // Parent campaign promo
+	code: string;
+	batch_id: string; // Codes generated in one request
+	status: CampaignCodeStatus;
+	customer_id?: Types.ObjectId | null;
+	booking_id?: Types.ObjectId | null;
+	redeemed_at?: Date | null;
+	created_by: Types.ObjectId;
+	created_at?: Date;
+	updated_at?: Date;
+};
+
+const promoCampaignCodeSchema = new Schema<PromoCampaignCodeModel>(
+	{
+		promo_id: {
+			type: Schema.Types.ObjectId,
+			ref: "Promo",
+			required: [true, "Promo ID is required"],
+		},
+		code: {
+			type: String,
+			required: [true, "Code is required"],
+			unique: true,
+			uppercase: true,
+			minlength: [3, "Code must be at least 3 characters"],
+			maxlength: [20, "Code cannot exceed 20 characters"],
+			match: [
+				/^[A-Z0-9_]+$/,
+				"Code can only contain letters, numbers, and underscores",
+			],
+		},
+		batch_id: {
+			type: String,
+			required: [true, "Batch ID is required"],
+		},
+		status: {
+			type: String,
+			enum: {
+				values: Object.values(CampaignCodeStatusEnum),
+				message: "{VALUE} is not a valid code status",
+			},
+			default: "Available",
+		},
+		customer_id: { type: Schema.Types.ObjectId, ref: "Customer", default: null },
+		booking_id: { type: Schema.Types.ObjectId, ref: "Booking", default: null },
+		redeemed_at: { type: Date, default: null },
+		created_by: { type: Schema.Types.ObjectId, ref: "User", required: true },
+	},
+	{
+		timestamps: { createdAt: "created_at", updatedAt: "updated_at" },
+	}
+);
+
+// Indexes
+promoCampaignCodeSchema.index({ promo_id: 1, status: 1, created_at: -1 });
+promoCampaignCodeSchema.index({ batch_id: 1 });
+
+export const PromoCampaignCode = mongoose.model<PromoCampaignCodeModel>(
+	"PromoCampaignCode",
+	promoCampaignCodeSchema,
+	"promo_campaign_codes"
+);
@@ -0,0 +1,84 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export const PromoRedemptionStatusEnum = {
+	Active: "Active",
+	Released: "Released",
+} as const;
+
+export type PromoRedemptionStatus = keyof typeof PromoRedemptionStatusEnum;
+
+// One document per promo applied to a booking. Active redemptions are what
+// Promo.usage_count counts; a cancelled or refunded booking releases its
+// redemption and gives the use back.
+export type PromoRedemptionModel = Document & {
+	promo_id: Types.ObjectId;
+	customer_id: Types.ObjectId;
+	booking_id: Types.ObjectId;
+	promo_code: string;
+	campaign_code?: string | null; // Single-use code entered instead of promo_code
+	discount_amount: number;
+	status: PromoRedemptionStatus;
+	released_at?: Date | null;
+	release_reason?: string | null;
+	created_at?: Date;
+	updated_at?: Date;
+};
+
+const promoRedemptionSchema = new Schema<PromoRedemptionModel>(
+	{
+		promo_id: {
+			type: Schema.Types.ObjectId,
+			ref: "Promo",
+			required: [true, "Promo ID is required"],
+		},
+		customer_id: {
+			type: Schema.Types.ObjectId,
+			ref: "Customer",
+			required: [true, "Customer ID is required"],
+		},
+		booking_id: {
+			type: Schema.Types.ObjectId,
+			ref: "Booking",
+			required: [true, "Booking ID is required"],
+		},
+		promo_code: {
+			type: String,
+			required: [true, "Promo code is required"],
+			uppercase: true,
+		},
+		campaign_code: {
+			type: String,
+			uppercase: true,
+			default: null,
+		},
+		discount_amount: {
+			type: Number,
+			required: [true, "Discount amount is required"],
+			min: [0, "Discount amount cannot be negative"],
+		},
+		status: {
+			type: String,
+			enum: {
+				values: Object.values(PromoRedemptionStatusEnum),
+				message: "{VALUE} is not a valid redemption status",
+			},
+			default: "Active",
+		},
+		released_at: { type: Date, default: null },
+		release_reason: { type: String, trim: true, default: null },
+	},
+	{
+		timestamps: { createdAt: "created_at", updatedAt: "updated_at" },
+	}
+);
+
+// Indexes
+promoRedemptionSchema.index({ booking_id: 1, promo_id: 1 }, { unique: true });
+promoRedemptionSchema.index({ promo_id: 1, status: 1, created_at: -1 });
+promoRedemptionSchema.index({ promo_id: 1, customer_id: 1, status: 1 });
+
+export const PromoRedemption = mongoose.model<PromoRedemptionModel>(
+	"PromoRedemption",
+	promoRedemptionSchema,
+	"promo_redemptions"
+);
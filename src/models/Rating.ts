@@ -1,5 +1,6 @@
 import mongoose, { Schema, Document, Types } from "mongoose";
 import { MetaData } from "../types/base.types";
+import { syncRatingAggregates } from "../utils/ratingAggregates";
 
 // Enum for what can be rated
 export enum RatableType {
@@ -8,6 +9,25 @@ export enum RatableType {
 	PHOTOGRAPHER = "Photographer",
 }
 
+// Only published ratings are shown publicly and counted in aggregates
+export enum RatingModerationStatus {
+	PENDING = "Pending", // Waiting for approval
+	PUBLISHED = "Published",
+	HIDDEN = "Hidden", // Removed by a moderator
+	FLAGGED = "Flagged", // Caught by the word screener or customer reports
+}
+
+export type RatingReport = {
+	customer_id: Types.ObjectId;
+	reason: string;
+	reported_at: Date;
+};
+
+// Ratings saved before moderation existed have no status and count as published
+export const PUBLISHED_RATING_FILTER = {
+	moderation_status: { $in: [RatingModerationStatus.PUBLISHED, null] },
+};
+
 export type RatingModel = Document &
 	MetaData & {
 		booking_id: Types.ObjectId;
@@ -25,8 +45,35 @@ export type RatingModel = Document &
 		response?: string | null;
 		responded_at?: Date | null;
 		responded_by?: Types.ObjectId | null;
+
+		// Moderation
+		moderation_status: RatingModerationStatus;
+		moderation_flags: string[]; // Screened words, or "reported"
+		moderation_note?: string | null;
+		moderated_at?: Date | null;
+		moderated_by?: Types.ObjectId | null;
+		reports: RatingReport[];
+		report_count: number;
 	};
 
+const ratingReportSchema = new Schema<RatingReport>(
+	{
+		customer_id: {
+			type: Schema.Types.ObjectId,
+			ref: "Customer",
+			required: [true, "Customer reference is required"],
+		},
+		reason: {
+			type: String,
+			trim: true,
+			required: [true, "Report reason is required"],
+			maxlength: [500, "Report reason cannot exceed 500 characters"],
+		},
+		reported_at: { type: Date, default: Date.now },
+	},
+	{ _id: false }
+);
+
 const ratingSchema = new Schema<RatingModel>(
 	{
 		booking_id: {
@@ -83,6 +130,24 @@ const ratingSchema = new Schema<RatingModel>(
 			default: null,
 		},
 
+		// Moderation
+		moderation_status: {
+			type: String,
+			enum: Object.values(RatingModerationStatus),
+			default: RatingModerationStatus.PUBLISHED,
+		},
+		moderation_flags: { type: [String], default: [] },
+		moderation_note: {
+			type: String,
+			trim: true,
+			maxlength: [500, "Moderation note cannot exceed 500 characters"],
+			default: null,
+		},
+		moderated_at: { type: Date, default: null },
+		moderated_by: { type: Types.ObjectId, ref: "User", default: null },
+		reports: { type: [ratingReportSchema], default: [] },
+		report_count: { type: Number, min: 0, default: 0 },
+
 		// Metadata
 		is_active: { type: Boolean, default: true },
 		created_by: { type: Types.ObjectId, ref: "User", required: true },
@@ -108,5 +173,29 @@ ratingSchema.index({ ratable_type: 1, ratable_id: 1 }); // Get all ratings for a
 ratingSchema.index({ customer_id: 1 }); // Get customer's rating history
 ratingSchema.index({ booking_id: 1 }); // Get all ratings for a booking
 ratingSchema.index({ rating: 1 }); // Filter by rating score
+ratingSchema.index({ moderation_status: 1, created_at: 1 }); // Moderation queue
+
+// ---------------------------
+// Keep cached aggregates in sync
+// ---------------------------
+// Every rating write goes through save() or findOneAndUpdate(). A failed sync
+// is logged rather than failing the write; the next sync or the
+// rating-aggregates seeder repairs it.
+const syncAfterWrite = async (rating: RatingModel | null) => {
+	if (!rating) return;
+	try {
+		await syncRatingAggregates(rating);
+	} catch (error) {
+		console.error("Failed to sync rating aggregates:", error);
+	}
+};
+
+ratingSchema.post("save", async function (doc) {
+	await syncAfterWrite(doc);
+});
+
+ratingSchema.post("findOneAndUpdate", async function (doc: RatingModel | null) {
+	await syncAfterWrite(doc);
+});
 
 export const Rating = mongoose.model<RatingModel>("Rating", ratingSchema);
@@ -0,0 +1,58 @@
+import { Schema } from "mongoose";
+
+// Published ratings per star value
+export type RatingDistribution = {
+	one_star: number;
+	two_star: number;
+	three_star: number;
+	four_star: number;
+	five_star: number;
+};
+
+// Rating aggregates cached on rated documents (Service, Package and
+// Photographer). Derived from published ratings by utils/ratingAggregates;
+// never written by API requests.
+export type RatingSummary = {
+	rating_average: number;
+	rating_count: number;
+	rating_distribution: RatingDistribution;
+};
+
+export const EMPTY_RATING_SUMMARY: RatingSummary = {
+	rating_average: 0,
+	rating_count: 0,
+	rating_distribution: {
+		one_star: 0,
+		two_star: 0,
+		three_star: 0,
+		four_star: 0,
+		five_star: 0,
+	},
+};
+
+export const RATING_SUMMARY_FIELDS = Object.keys(
+	EMPTY_RATING_SUMMARY
+) as (keyof RatingSummary)[];
+
+const starCount = { type: Number, min: 0, default: 0 };
+
+const ratingDistributionSchema = new Schema<RatingDistribution>(
+	{
+		one_star: starCount,
+		two_star: starCount,
+		three_star: starCount,
+		four_star: starCount,
+		five_star: starCount,
+	},
+	{ _id: false }
+);
+
+// Spread into a schema definition to add the cached aggregates
+export const ratingSummaryDefinition = {
+	rating_average: { type: Number, min: 0, max: 5, default: 0 },
+	rating_count: { type: Number, min: 0, default: 0 },
+	rating_distribution: {
+		type: ratingDistributionSchema,
+		default: () => ({ ...EMPTY_RATING_SUMMARY.rating_distribution }),
+	},
+};
@@ -0,0 +1,115 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+// Who the revoked token was issued to
+export const TokenSubjectTypeEnum = {
+	Admin: "Admin", // User or Photographer (admin portal tokens)
+	Customer: "Customer",
+} as const;
+
+export type TokenSubjectType = keyof typeof TokenSubjectTypeEnum;
+
+// Token = a single token by jti, Session = every token of one login session,
+// Subject = every token issued before revoked_at
+export const RevocationScopeEnum = {
+	Token: "Token",
+	Session: "Session",
+	Subject: "Subject",
+} as const;
+
+export type RevocationScope = keyof typeof RevocationScopeEnum;
+
+export type RevokedTokenModel = Document & {
+	jti?: string | null;
+	session_id?: Types.ObjectId | null;
+	subject_id: Types.ObjectId;
+	subject_type: TokenSubjectType;
+	scope: RevocationScope;
+	reason?: string | null;
+	revoked_by?: Types.ObjectId | null;
+	revoked_at: Date;
+	expires_at: Date;
+};
+
+const revokedTokenSchema = new Schema<RevokedTokenModel>(
+	{
+		jti: {
+			type: String,
+			trim: true,
+			default: null,
+		},
+		session_id: {
+			type: Schema.Types.ObjectId,
+			ref: "Session",
+			default: null,
+		},
+		subject_id: {
+			type: Schema.Types.ObjectId,
+			required: [true, "Subject ID is required"],
+		},
+		subject_type: {
+			type: String,
+			enum: {
+				values: Object.values(TokenSubjectTypeEnum),
+				message: "{VALUE} is not a valid token subject type",
+			},
+			required: [true, "Subject type is required"],
+		},
+		scope: {
+			type: String,
+			enum: {
+				values: Object.values(RevocationScopeEnum),
+				message: "{VALUE} is not a valid revocation scope",
+			},
+			default: "Token",
+		},
+		reason: {
+			type: String,
+			trim: true,
+			maxlength: [200, "Reason cannot exceed 200 characters"],
+			default: null,
+		},
+		revoked_by: {
+			type: Schema.Types.ObjectId,
+			ref: "User",
+			default: null,
+		},
+		revoked_at: {
+			type: Date,
+			default: Date.now,
+		},
+		// Once the token (or every token of the subject) has expired on its own,
+		// the revocation entry is no longer needed and MongoDB removes it
+		expires_at: {
+			type: Date,
+			required: [true, "Expiry date is required"],
+		},
+	},
+	{
+		timestamps: { createdAt: "created_at", updatedAt: "updated_at" },
+	}
+);
+
+revokedTokenSchema.pre("save", function (next) {
+	if (this.scope === "Token" && !this.jti) {
+		return next(new Error("Token revocations require a jti"));
+	}
+	if (this.scope === "Session" && !this.session_id) {
+		return next(new Error("Session revocations require a session ID"));
+	}
+	next();
+});
+
+// Indexes
+revokedTokenSchema.index(
+	{ jti: 1 },
+	{ unique: true, partialFilterExpression: { jti: { $type: "string" } } }
+);
+revokedTokenSchema.index({ session_id: 1 });
+revokedTokenSchema.index({ subject_id: 1, subject_type: 1, scope: 1 });
+revokedTokenSchema.index({ expires_at: 1 }, { expireAfterSeconds: 0 });
+
+export const RevokedToken = mongoose.model<RevokedTokenModel>(
+	"RevokedToken",
+	revokedTokenSchema,
+	"revoked_tokens"
+);
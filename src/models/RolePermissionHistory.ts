@@ -0,0 +1,63 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+export const RoleHistoryActionEnum = {
+	Created: "Created",
+	Updated: "Updated",
+	Deleted: "Deleted",
+} as const;
+
+export type RoleHistoryAction = keyof typeof RoleHistoryActionEnum;
+
+// One entry per change to a role's permission set
+export type RolePermissionHistoryModel = Document & {
+	role_id: Types.ObjectId;
+	role_name: string;
+	action: RoleHistoryAction;
+	added_permissions: string[];
+	removed_permissions: string[];
+	changed_by?: Types.ObjectId | null;
+	created_at?: Date;
+};
+
+const rolePermissionHistorySchema = new Schema<RolePermissionHistoryModel>(
+	{
+		role_id: {
+			type: Schema.Types.ObjectId,
+			ref: "Role",
+			required: [true, "Role ID is required"],
+		},
+		// Kept so the entry stays readable after the role is deleted
+		role_name: {
+			type: String,
+			required: [true, "Role name is required"],
+			trim: true,
+		},
+		action: {
+			type: String,
+			enum: {
+				values: Object.values(RoleHistoryActionEnum),
+				message: "{VALUE} is not a valid role history action",
+			},
+			required: [true, "Action is required"],
+		},
+		added_permissions: [{ type: String }],
+		removed_permissions: [{ type: String }],
+		changed_by: {
+			type: Schema.Types.ObjectId,
+			ref: "User",
+			default: null,
+		},
+	},
+	{
+		timestamps: { createdAt: "created_at", updatedAt: false },
+	}
+);
+
+// Indexes
+rolePermissionHistorySchema.index({ role_id: 1, created_at: -1 });
+
+export const RolePermissionHistory = mongoose.model<RolePermissionHistoryModel>(
+	"RolePermissionHistory",
+	rolePermissionHistorySchema,
+	"role_permission_histories"
+);
@@ -4,9 +4,13 @@ import {
 	ServiceCategory,
 	ServiceCategoryEnum,
 } from "../constants/service-category.constant";
+import { auditLogPlugin } from "../utils/auditLogPlugin";
+import { RatingSummary, ratingSummaryDefinition } from "./RatingSummary";
+import { PaymentTerms, paymentTermsSchema } from "./PaymentSchedule";
 
 export type ServiceModel = Document &
-	MetaData & {
+	MetaData &
+	RatingSummary & {
 		name: string;
 		description?: string | null;
 		category: ServiceCategory;
@@ -15,6 +19,9 @@ export type ServiceModel = Document &
 		duration_minutes?: number | null; // optional: default or expected duration
 		is_available: boolean;
 		service_gallery: string[]; // new: must contain 1–4 images
+
+		// Deposit and balance due dates for bookings; null uses the defaults
+		payment_terms?: PaymentTerms | null;
 	};
 
 const serviceSchema = new Schema<ServiceModel>(
@@ -68,6 +75,14 @@ const serviceSchema = new Schema<ServiceModel>(
 			required: true,
 		},
 
+		payment_terms: {
+			type: paymentTermsSchema,
+			default: null,
+		},
+
+		// Cached rating aggregates
+		...ratingSummaryDefinition,
+
 		// Metadata / audit fields
 		is_active: { type: Boolean, default: true },
 		created_by: { type: Types.ObjectId, ref: "User", required: true },
@@ -87,5 +102,8 @@ serviceSchema.index({ name: 1 });
 serviceSchema.index({ category: 1 });
 serviceSchema.index({ is_available: 1, is_active: 1 });
 serviceSchema.index({ price: 1 });
+serviceSchema.index({ rating_average: -1, rating_count: -1 });
+
+serviceSchema.plugin(auditLogPlugin);
 
 export const Service = mongoose.model<ServiceModel>("Service", serviceSchema);
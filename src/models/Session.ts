@@ -0,0 +1,99 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+import { TokenSubjectType, TokenSubjectTypeEnum } from "./RevokedToken";
+
+// A session is one login on one device. Its refresh token is rotated on every
+// refresh; presenting a refresh token that is no longer the current one means
+// it was stolen or replayed, and the whole session is revoked.
+export type SessionModel = Document & {
+	subject_id: Types.ObjectId;
+	subject_type: TokenSubjectType;
+
+	// jti of the only refresh token currently accepted for this session
+	refresh_token_id: string;
+	rotation_count: number;
+
+	device_label?: string | null;
+	ip_address?: string | null;
+	user_agent?: string | null;
+
+	last_used_at: Date;
+	expires_at: Date;
+	revoked_at?: Date | null;
+	revoked_reason?: string | null;
+
+	created_at?: Date;
+	updated_at?: Date;
+};
+
+const sessionSchema = new Schema<SessionModel>(
+	{
+		subject_id: {
+			type: Schema.Types.ObjectId,
+			required: [true, "Subject ID is required"],
+		},
+		subject_type: {
+			type: String,
+			enum: {
+				values: Object.values(TokenSubjectTypeEnum),
+				message: "{VALUE} is not a valid session subject type",
+			},
+			required: [true, "Subject type is required"],
+		},
+
+		refresh_token_id: {
+			type: String,
+			required: [true, "Refresh token ID is required"],
+		},
+		rotation_count: {
+			type: Number,
+			default: 0,
+			min: 0,
+		},
+
+		device_label: {
+			type: String,
+			trim: true,
+			maxlength: [100, "Device label cannot exceed 100 characters"],
+			default: null,
+		},
+		ip_address: {
+			type: String,
+			trim: true,
+			default: null,
+		},
+		user_agent: {
+			type: String,
+			trim: true,
+			maxlength: [500, "User agent cannot exceed 500 characters"],
+			default: null,
+		},
+
+		last_used_at: {
+			type: Date,
+			default: Date.now,
+		},
+		expires_at: {
+			type: Date,
+			required: [true, "Expiry date is required"],
+		},
+		revoked_at: {
+			type: Date,
+			default: null,
+		},
+		revoked_reason: {
+			type: String,
+			trim: true,
+			maxlength: [200, "Revoked reason cannot exceed 200 characters"],
+			default: null,
+		},
+	},
+	{
+		timestamps: { createdAt: "created_at", updatedAt: "updated_at" },
+	}
+);
+
+// Indexes
+sessionSchema.index({ subject_id: 1, subject_type: 1, revoked_at: 1 });
+sessionSchema.index({ expires_at: 1 }, { expireAfterSeconds: 0 });
+
+export const Session = mongoose.model<SessionModel>("Session", sessionSchema);
@@ -0,0 +1,60 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+// One document per photographer per 15-minute block of a day. The unique index
+// makes two bookings for overlapping times impossible, even when both requests
+// arrive at the same moment.
+export type SlotReservationModel = Document & {
+	photographer_id: Types.ObjectId;
+	booking_id: Types.ObjectId;
+	slot_date: string; // YYYY-MM-DD
+	block_start: number; // Minutes since midnight
+	reservation_token: string; // Shared by the blocks reserved in one call
+	created_at?: Date;
+};
+
+const slotReservationSchema = new Schema<SlotReservationModel>(
+	{
+		photographer_id: {
+			type: Schema.Types.ObjectId,
+			ref: "Photographer",
+			required: [true, "Photographer ID is required"],
+		},
+		booking_id: {
+			type: Schema.Types.ObjectId,
+			ref: "Booking",
+			required: [true, "Booking ID is required"],
+		},
+		slot_date: {
+			type: String,
+			required: [true, "Slot date is required"],
+			match: [/^\d{4}-\d{2}-\d{2}$/, "Invalid slot date format (YYYY-MM-DD)"],
+		},
+		block_start: {
+			type: Number,
+			required: [true, "Block start is required"],
+			min: 0,
+			max: 24 * 60 - 1,
+		},
+		reservation_token: {
+			type: String,
+			required: [true, "Reservation token is required"],
+		},
+	},
+	{
+		timestamps: { createdAt: "created_at", updatedAt: false },
+	}
+);
+
+// Indexes
+slotReservationSchema.index(
+	{ photographer_id: 1, slot_date: 1, block_start: 1 },
+	{ unique: true }
+);
+slotReservationSchema.index({ booking_id: 1 });
+slotReservationSchema.index({ reservation_token: 1 });
+
+export const SlotReservation = mongoose.model<SlotReservationModel>(
+	"SlotReservation",
+	slotReservationSchema,
+	"slot_reservations"
+);
@@ -1,6 +1,13 @@
-import mongoose, { Schema, Document, Types } from "mongoose";
+import mongoose, { Schema, Document, Types, ClientSession } from "mongoose";
 import { MetaData } from "../types/base.types";
 import { customError } from "../middleware/errorHandler";
+import { auditLogPlugin } from "../utils/auditLogPlugin";
+import { syncPaymentSchedule } from "../utils/paymentSchedule";
+import { assignReceiptNumber } from "../utils/receipts";
+import {
+	PAYMENT_PROVIDERS,
+	PaymentProviderName,
+} from "../config/paymentGateway";
 
 // Transaction status enum
 export const TransactionStatusEnum = {
@@ -32,16 +39,20 @@ export const TransactionTypeEnum = {
 export type TransactionType = keyof typeof TransactionTypeEnum;
 
 export type TransactionMethods = {
-	markAsCompleted(processedBy: Types.ObjectId): Promise<TransactionModel>;
+	// processedBy is null when a payment provider settles the transaction
+	markAsCompleted(
+		processedBy: Types.ObjectId | null
+	): Promise<TransactionModel>;
 	markAsFailed(
 		reason: string,
-		processedBy: Types.ObjectId
+		processedBy: Types.ObjectId | null
 	): Promise<TransactionModel>;
 	createRefund(
 		refundAmount: number,
 		refundReason: string,
 		processedBy: string,
-		payment_proof_images: string[]
+		payment_proof_images: string[],
+		session?: ClientSession
 	): Promise<TransactionModel>;
 };
 
@@ -61,6 +72,13 @@ export type TransactionModel = Document &
 		payment_proof_images: string[];
 		external_reference?: string | null;
 
+		// Online payments: the gateway handling it, its checkout page and the
+		// last status it reported
+		payment_provider?: PaymentProviderName | null;
+		checkout_url?: string | null;
+		provider_status?: string | null;
+		provider_synced_at?: Date | null;
+
 		transaction_date: Date;
 		processed_at?: Date | null;
 		failed_at?: Date | null;
@@ -70,6 +88,10 @@ export type TransactionModel = Document &
 		failure_reason?: string | null;
 		refund_reason?: string | null;
 
+		// Official receipt, numbered when the transaction completes
+		receipt_number?: string | null;
+		receipt_issued_at?: Date | null;
+
 		refund_transaction_id?: Types.ObjectId | null;
 		original_transaction_id?: Types.ObjectId | null;
 	};
@@ -146,6 +168,30 @@ const transactionSchema = new Schema<TransactionModel>(
 			default: null,
 		},
 
+		payment_provider: {
+			type: String,
+			enum: {
+				values: [...PAYMENT_PROVIDERS],
+				message: "{VALUE} is not a valid payment provider",
+			},
+			default: null,
+		},
+		checkout_url: {
+			type: String,
+			trim: true,
+			default: null,
+		},
+		provider_status: {
+			type: String,
+			trim: true,
+			maxlength: [50, "Provider status cannot exceed 50 characters"],
+			default: null,
+		},
+		provider_synced_at: {
+			type: Date,
+			default: null,
+		},
+
 		transaction_date: {
 			type: Date,
 			required: [true, "Transaction date is required"],
@@ -184,6 +230,17 @@ const transactionSchema = new Schema<TransactionModel>(
 			default: null,
 		},
 
+		receipt_number: {
+			type: String,
+			uppercase: true,
+			match: [/^OR-\d{4}-\d{6}$/, "Invalid receipt number format"],
+			default: null,
+		},
+		receipt_issued_at: {
+			type: Date,
+			default: null,
+		},
+
 		refund_transaction_id: {
 			type: Schema.Types.ObjectId,
 			ref: "Transaction",
@@ -221,10 +278,16 @@ transactionSchema.pre("validate", function (next) {
 // Pre-save validation and business logic
 transactionSchema.pre("save", async function (next) {
 	try {
+		// Reads use the save's session, so a booking created in the same
+		// transaction is visible
+		const session = this.$session();
+
 		// Verify booking exists
 		if (this.isNew) {
 			const BookingModel = mongoose.model("Booking");
-			const booking = await BookingModel.findById(this.booking_id);
+			const booking = await BookingModel.findById(this.booking_id).session(
+				session
+			);
 
 			if (!booking) {
 				return next(customError(404, "Booking not found"));
@@ -249,7 +312,7 @@ transactionSchema.pre("save", async function (next) {
 					transaction_type: {
 						$in: ["Payment", "Partial", "Balance"],
 					},
-				});
+				}).session(session);
 
 				const totalPaid = completedTransactions.reduce(
 					(sum, txn) => sum + txn.amount,
@@ -279,7 +342,7 @@ transactionSchema.pre("save", async function (next) {
 
 			const originalTransaction = await Transaction.findById(
 				this.original_transaction_id
-			);
+			).session(session);
 
 			if (!originalTransaction) {
 				return next(customError(404, "Original transaction not found"));
@@ -316,8 +379,13 @@ transactionSchema.pre("save", async function (next) {
 			}
 		}
 
-		// Validate payment proof for digital payments
-		if (this.isNew && this.payment_proof_images.length === 0) {
+		// Validate payment proof for digital payments; the provider confirms
+		// online payments instead
+		if (
+			this.isNew &&
+			!this.payment_provider &&
+			this.payment_proof_images.length === 0
+		) {
 			return next(customError(400, `Please upload proof of payment`));
 		}
 
@@ -334,17 +402,54 @@ transactionSchema.post("save", async function (doc) {
 		doc.status === "Completed" &&
 		doc.original_transaction_id
 	) {
-		await Transaction.findByIdAndUpdate(doc.original_transaction_id, {
-			refund_transaction_id: doc._id,
-			status: "Refunded",
-			refunded_at: new Date(),
-		});
+		await Transaction.findByIdAndUpdate(
+			doc.original_transaction_id,
+			{
+				refund_transaction_id: doc._id,
+				status: "Refunded",
+				refunded_at: new Date(),
+			},
+			{ session: doc.$session() }
+		);
+	}
+});
+
+// Completed transactions get the next official receipt number once the
+// status is written, in the same session, so a save that fails never uses one
+// up. Inside a transaction a failure aborts it with the save; otherwise the
+// status stays written and the receipt download numbers it later.
+transactionSchema.post("save", async function (doc) {
+	if (doc.status !== "Completed" || doc.receipt_number) return;
+
+	const session = doc.$session();
+	try {
+		const receipt = await assignReceiptNumber(
+			doc._id as Types.ObjectId,
+			session
+		);
+		if (!receipt) return;
+		doc.receipt_number = receipt.receipt_number;
+		doc.receipt_issued_at = receipt.receipt_issued_at;
+		doc.unmarkModified("receipt_number");
+		doc.unmarkModified("receipt_issued_at");
+	} catch (error) {
+		if (session) throw error;
+		console.error("Failed to assign receipt number:", error);
+	}
+});
+
+// Payments and refunds move the booking's milestones between paid and due
+transactionSchema.post("save", async function (doc) {
+	try {
+		await syncPaymentSchedule(doc.booking_id, doc.$session());
+	} catch (error) {
+		console.error("Failed to update payment schedule:", error);
 	}
 });
 
 // Instance method: Mark transaction as completed
 transactionSchema.methods.markAsCompleted = async function (
-	processedBy: Types.ObjectId
+	processedBy: Types.ObjectId | null
 ) {
 	this.status = "Completed";
 	this.processed_at = new Date();
@@ -355,7 +460,7 @@ transactionSchema.methods.markAsCompleted = async function (
 // Instance method: Mark transaction as failed
 transactionSchema.methods.markAsFailed = async function (
 	reason: string,
-	processedBy: Types.ObjectId
+	processedBy: Types.ObjectId | null
 ) {
 	this.status = "Failed";
 	this.failed_at = new Date();
@@ -369,7 +474,8 @@ transactionSchema.methods.createRefund = async function (
 	refundAmount: number,
 	refundReason: string,
 	processedBy: string,
-	paymentProofImages: string[] = []
+	paymentProofImages: string[] = [],
+	session?: ClientSession
 ) {
 	if (this.status !== "Completed") {
 		throw customError(400, "Can only refund completed transactions");
@@ -412,7 +518,7 @@ transactionSchema.methods.createRefund = async function (
 		created_by: processedBy,
 	});
 
-	await refundTransaction.save();
+	await refundTransaction.save({ session });
 	return refundTransaction;
 };
 
@@ -420,7 +526,27 @@ transactionSchema.methods.createRefund = async function (
 transactionSchema.index({ booking_id: 1, status: 1 });
 transactionSchema.index({ customer_id: 1, transaction_date: -1 });
 transactionSchema.index({ transaction_reference: 1 });
+transactionSchema.index(
+	{ receipt_number: 1 },
+	{
+		unique: true,
+		partialFilterExpression: { receipt_number: { $type: "string" } },
+	}
+);
 transactionSchema.index({ status: 1, transaction_date: -1 });
+// Webhooks find their transaction by the provider's payment id
+transactionSchema.index(
+	{ payment_provider: 1, external_reference: 1 },
+	{
+		unique: true,
+		partialFilterExpression: {
+			payment_provider: { $type: "string" },
+			external_reference: { $type: "string" },
+		},
+	}
+);
+
+transactionSchema.plugin(auditLogPlugin);
 
 // Export model
 export const Transaction = mongoose.model<TransactionModel>(
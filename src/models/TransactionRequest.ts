@@ -28,6 +28,14 @@ export type TransactionRequestModel = Document &
 
 		refund_amount: number;
 		refund_reason: string;
+		// Refund the cancellation policy allowed when last checked
+		policy_refund_amount?: number | null;
+		// Policy tier (percent refunded) the customer was shown when asking
+		policy_refund_percentage?: number | null;
+		// Refund transaction issued for an approved request
+		refund_transaction_id?: Types.ObjectId | null;
+		// Cancellation request that created this refund request
+		booking_request_id?: Types.ObjectId | null;
 
 		// Optional admin response fields
 		reviewed_by?: Types.ObjectId | null;
@@ -91,6 +99,28 @@ const transactionRequestSchema = new Schema<TransactionRequestModel>(
 			maxlength: [500, "Refund reason cannot exceed 500 characters"],
 		},
 
+		policy_refund_amount: {
+			type: Number,
+			min: [0, "Policy refund amount cannot be negative"],
+			default: null,
+		},
+		policy_refund_percentage: {
+			type: Number,
+			min: [0, "Policy refund percentage cannot be negative"],
+			max: [100, "Policy refund percentage cannot exceed 100"],
+			default: null,
+		},
+		refund_transaction_id: {
+			type: Schema.Types.ObjectId,
+			ref: "Transaction",
+			default: null,
+		},
+		booking_request_id: {
+			type: Schema.Types.ObjectId,
+			ref: "BookingRequest",
+			default: null,
+		},
+
 		reviewed_by: {
 			type: Schema.Types.ObjectId,
 			ref: "User",
@@ -142,7 +172,9 @@ transactionRequestSchema.pre("validate", function (next) {
 transactionRequestSchema.pre("save", async function (next) {
 	try {
 		const Transaction = mongoose.model("Transaction");
-		const txn = await Transaction.findById(this.transaction_id);
+		const txn = await Transaction.findById(this.transaction_id).session(
+			this.$session()
+		);
 
 		if (!txn) {
 			return next(new Error("Original transaction not found"));
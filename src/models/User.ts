@@ -1,6 +1,7 @@
 import mongoose, { Schema, Document, Types } from "mongoose";
 import { MetaData } from "../types/base.types";
 import { Role } from "./Role";
+import { auditLogPlugin } from "../utils/auditLogPlugin";
 
 // For email regex, you can reuse your zod regex pattern
 const emailRegex = /^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/;
@@ -15,6 +16,8 @@ export type UserModel = Document &
 		password: string;
 		profile_image?: string | null;
 		role_id: Types.ObjectId;
+		password_reset_token?: string | null;
+		password_reset_expires_at?: Date | null;
 	};
 
 const userSchema = new Schema<UserModel>(
@@ -68,6 +71,10 @@ const userSchema = new Schema<UserModel>(
 
 		profile_image: { type: String, default: null },
 
+		// Password reset (SHA-256 hash of the emailed token)
+		password_reset_token: { type: String, select: false, default: null },
+		password_reset_expires_at: { type: Date, default: null },
+
 		// Metadata
 		is_active: { type: Boolean, default: true },
 		created_by: { type: Schema.Types.ObjectId, ref: "User" },
@@ -85,4 +92,6 @@ const userSchema = new Schema<UserModel>(
 	}
 );
 
+userSchema.plugin(auditLogPlugin);
+
 export const User = mongoose.model<UserModel>("User", userSchema);
@@ -0,0 +1,127 @@
+import { Router, Request, NextFunction } from "express";
+import mongoose from "mongoose";
+import {
+	AuditActionEnum,
+	AuditActorTypeEnum,
+	AuditLog,
+	AuditLogModel,
+} from "../../models/AuditLog";
+import { authenticateAmiUserToken } from "../../middleware/authAmiMiddleware";
+import { customError } from "../../middleware/errorHandler";
+import { PaginatedResponse, TypedResponse } from "../../types/base.types";
+import { parseListQuery, toPagination } from "../../utils/listQuery";
+
+const router = Router();
+
+type AuditLogListResponse = PaginatedResponse<"audit_logs", AuditLogModel>;
+
+// GET /api/admin/audit-logs
+router.get(
+	"/",
+	authenticateAmiUserToken,
+	async (
+		req: Request,
+		res: TypedResponse<AuditLogListResponse>,
+		next: NextFunction
+	) => {
+		try {
+			const list = parseListQuery(req.query, {
+				sortFields: ["created_at"],
+				defaultSort: "created_at",
+				dateField: "created_at",
+			});
+			const { entity_type, entity_id, actor_id, actor_type, action, field } =
+				req.query;
+
+			const filter: mongoose.FilterQuery<AuditLogModel> = { ...list.filter };
+
+			if (entity_type) filter.entity_type = String(entity_type);
+
+			if (entity_id) {
+				if (!mongoose.Types.ObjectId.isValid(entity_id as string)) {
+					throw customError(400, "Invalid entity ID format");
+				}
+				filter.entity_id = entity_id;
+			}
+
+			if (actor_id) {
+				if (!mongoose.Types.ObjectId.isValid(actor_id as string)) {
+					throw customError(400, "Invalid actor ID format");
+				}
+				filter.actor_id = actor_id;
+			}
+
+			if (actor_type) {
+				if (!Object.values(AuditActorTypeEnum).includes(actor_type as any)) {
+					throw customError(400, `Invalid actor type: ${actor_type}`);
+				}
+				filter.actor_type = actor_type;
+			}
+
+			if (action) {
+				if (!Object.values(AuditActionEnum).includes(action as any)) {
+					throw customError(400, `Invalid action: ${action}`);
+				}
+				filter.action = action;
+			}
+
+			// e.g. field=final_amount answers "who changed this booking's price"
+			if (field) filter.changed_fields = String(field);
+
+			const [auditLogs, totalCount] = await Promise.all([
+				AuditLog.find(filter)
+					.sort(list.sort)
+					.skip(list.skip)
+					.limit(list.limit)
+					.lean<AuditLogModel[]>(),
+				AuditLog.countDocuments(filter),
+			]);
+
+			res.status(200).json({
+				status: 200,
+				message: "Audit logs fetched successfully!",
+				data: {
+					audit_logs: auditLogs,
+					pagination: toPagination(list, totalCount),
+				},
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
+// GET /api/admin/audit-logs/:id
+router.get(
+	"/:id",
+	authenticateAmiUserToken,
+	async (
+		req: Request,
+		res: TypedResponse<AuditLogModel>,
+		next: NextFunction
+	) => {
+		try {
+			const { id } = req.params;
+
+			if (!mongoose.Types.ObjectId.isValid(id)) {
+				throw customError(400, "Invalid audit log ID format");
+			}
+
+			const auditLog = await AuditLog.findById(id).lean<AuditLogModel>();
+
+			if (!auditLog) {
+				throw customError(404, "Audit log not found");
+			}
+
+			res.status(200).json({
+				status: 200,
+				message: "Audit log fetched successfully!",
+				data: auditLog,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
+export default router;
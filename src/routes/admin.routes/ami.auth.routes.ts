@@ -1,9 +1,8 @@
 import { Router, Request, NextFunction } from "express";
 import {
 	comparePassword,
-	generateAccessToken,
-	generateRefreshToken,
 	hashPassword,
+	verifyToken,
 } from "../../utils/tokenHandler";
 import { User } from "../../models/User";
 import mongoose, { Types } from "mongoose";
@@ -11,13 +10,30 @@ import jwt, { Secret, SignOptions } from "jsonwebtoken";
 import {
 	AuthenticatedRequest,
 	authenticateAmiUserToken,
-	invalidatedTokens,
 } from "../../middleware/authAmiMiddleware";
 import { customError } from "../../middleware/errorHandler";
 import { TypedResponse } from "../../types/base.types";
 import config from "../../config/token";
 import bcrypt from "bcrypt";
 import { Photographer } from "../../models/Photographer";
+import {
+	createSession,
+	endSessionForToken,
+	getClientInfo,
+	listActiveSessions,
+	revokeOtherSessions,
+	revokeOwnSession,
+	rotateSession,
+	SessionResponse,
+} from "../../utils/sessionHandler";
+import { revokeAllSessions } from "../../utils/tokenRevocation";
+import {
+	generateResetToken,
+	hashResetToken,
+} from "../../utils/generateRandomValues";
+import { renderPasswordResetEmail } from "../../utils/generateEmailTemplate";
+import { sendEmail } from "../../utils/emailSender";
+import emailConfig from "../../config/email";
 
 const router = Router();
 
@@ -44,6 +60,12 @@ export type UserAuthResponse = {
 	is_photographer?: boolean;
 };
 
+export type RefreshResponse = {
+	access_token: string;
+	refresh_token: string;
+	expires_in: string;
+};
+
 export type LoginResponse = {
 	user: UserAuthResponse;
 	access_token: string;
@@ -62,7 +84,7 @@ router.post(
 		next: NextFunction
 	) => {
 		try {
-			const { email, password } = req.body;
+			const { email, password, device_label } = req.body;
 
 			if (!email || !password) {
 				throw customError(400, "Email and password are required");
@@ -139,11 +161,14 @@ router.post(
 				throw customError(404, "Invalid email or password");
 			}
 
-			// Generate tokens
-			const access_token = generateAccessToken(user._id.toString(), user.email);
-			const refresh_token = generateRefreshToken(
-				user._id.toString(),
-				user.email
+			// Start a session for this device and generate its tokens
+			const { access_token, refresh_token } = await createSession(
+				{
+					subjectId: user._id.toString(),
+					subjectType: "Admin",
+					email: user.email,
+				},
+				getClientInfo(req, device_label)
 			);
 
 			// Prepare user response data
@@ -312,45 +337,16 @@ router.post(
 			// Get refresh token from request body (optional)
 			const { refresh_token } = req.body;
 
-			// Invalidate access token
-			invalidatedTokens.add(access_token);
+			// End the session of the access token
+			await endSessionForToken(access_token, { revokedBy: req.user?._id });
 
-			// Invalidate refresh token if provided
+			// End the session of the refresh token if provided
 			if (refresh_token) {
-				invalidatedTokens.add(refresh_token);
-			}
-
-			// Clear refresh token from database
-			if (req.user?._id) {
-				await User.findByIdAndUpdate(req.user._id, {
-					refresh_token: null,
-					lastLogout: new Date(),
+				await endSessionForToken(refresh_token, {
+					revokedBy: req.user?._id,
 				});
 			}
 
-			// Auto-remove tokens after they expire
-			try {
-				const accessDecoded = jwt.decode(access_token) as any;
-				if (accessDecoded?.exp) {
-					const ttl = accessDecoded.exp * 1000 - Date.now();
-					if (ttl > 0) {
-						setTimeout(() => invalidatedTokens.delete(access_token), ttl);
-					}
-				}
-
-				if (refresh_token) {
-					const refreshDecoded = jwt.decode(refresh_token) as any;
-					if (refreshDecoded?.exp) {
-						const ttl = refreshDecoded.exp * 1000 - Date.now();
-						if (ttl > 0) {
-							setTimeout(() => invalidatedTokens.delete(refresh_token), ttl);
-						}
-					}
-				}
-			} catch (e) {
-				// If we can't decode, just keep tokens in the set
-			}
-
 			res.status(200).json({
 				status: 200,
 				message: "Logged out successfully",
@@ -377,7 +373,7 @@ router.post(
 	"/refresh",
 	async (
 		req: Request,
-		res: TypedResponse<{ access_token: string; expires_in: string }>,
+		res: TypedResponse<RefreshResponse>,
 		next: NextFunction
 	) => {
 		try {
@@ -387,46 +383,42 @@ router.post(
 				throw customError(401, "Refresh token required");
 			}
 
-			// Check if refresh token is invalidated (optional in-memory blacklist)
-			if (invalidatedTokens.has(refresh_token)) {
-				throw customError(401, "Refresh token has been invalidated");
-			}
-
 			// Verify refresh token
-			const decoded = jwt.verify(
-				refresh_token,
-				(process.env.JWT_REFRESH_SECRET || process.env.JWT_SECRET)!
-			) as { userId: string; email: string };
+			const decoded = verifyToken(refresh_token);
 
-			// Ensure user still exists and is active
-			const user = await User.findById(decoded.userId).lean();
-			if (!user) {
+			if (decoded.type !== "admin") {
+				throw customError(401, "Invalid token type");
+			}
+
+			// Ensure account (user or photographer) still exists and is active
+			const account =
+				(await User.findById(decoded.userId).lean()) ??
+				(await Photographer.findById(decoded.userId).lean());
+			if (!account) {
 				throw customError(401, "User not found");
 			}
-			if (user.is_active === false) {
+			if (account.is_active === false) {
 				throw customError(403, "Account is deactivated");
 			}
 
-			// Generate new access token
-			const newAccessToken = jwt.sign(
+			// Rotate: the old refresh token can never be used again
+			const tokens = await rotateSession(
+				decoded,
 				{
-					userId: user._id.toString(),
-					email: user.email,
+					subjectId: account._id.toString(),
+					subjectType: "Admin",
+					email: account.email,
 				},
-				process.env.JWT_SECRET as string,
-				{
-					expires_in: (process.env.JWT_ACCESS_EXPIRES_IN || "15m") as
-						| string
-						| number,
-				} as jwt.SignOptions
+				getClientInfo(req)
 			);
 
 			res.status(200).json({
 				status: 200,
 				message: "Token refreshed successfully",
 				data: {
-					access_token: newAccessToken,
-					expires_in: process.env.JWT_ACCESS_EXPIRES_IN || "15m",
+					access_token: tokens.access_token,
+					refresh_token: tokens.refresh_token,
+					expires_in: config.accessTokenExpiresIn,
 				},
 			});
 		} catch (error) {
@@ -434,8 +426,262 @@ router.post(
 				error instanceof jwt.JsonWebTokenError ||
 				error instanceof jwt.TokenExpiredError
 			) {
-				throw customError(401, "Invalid or expired refresh token");
+				return next(customError(401, "Invalid or expired refresh token"));
+			}
+			next(error);
+		}
+	}
+);
+
+// ---------------------------
+// LIST MY SESSIONS
+// ---------------------------
+router.get(
+	"/me/sessions",
+	authenticateAmiUserToken,
+	async (
+		req: AuthenticatedRequest,
+		res: TypedResponse<SessionResponse[]>,
+		next: NextFunction
+	) => {
+		try {
+			if (!req.user) {
+				throw customError(401, "Not authenticated");
+			}
+
+			const sessions = await listActiveSessions(
+				req.user._id,
+				"Admin",
+				req.session_id
+			);
+
+			res.status(200).json({
+				status: 200,
+				message: "Sessions fetched successfully",
+				data: sessions,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
+// ---------------------------
+// REVOKE ALL OTHER SESSIONS
+// ---------------------------
+router.delete(
+	"/me/sessions",
+	authenticateAmiUserToken,
+	async (
+		req: AuthenticatedRequest,
+		res: TypedResponse<{ revoked_count: number }>,
+		next: NextFunction
+	) => {
+		try {
+			if (!req.user) {
+				throw customError(401, "Not authenticated");
+			}
+
+			const revoked_count = await revokeOtherSessions(
+				req.user._id,
+				"Admin",
+				req.session_id
+			);
+
+			res.status(200).json({
+				status: 200,
+				message: "Other sessions revoked successfully",
+				data: { revoked_count },
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
+// ---------------------------
+// REVOKE ONE SESSION
+// ---------------------------
+router.delete(
+	"/me/sessions/:sessionId",
+	authenticateAmiUserToken,
+	async (
+		req: AuthenticatedRequest,
+		res: TypedResponse<null>,
+		next: NextFunction
+	) => {
+		try {
+			if (!req.user) {
+				throw customError(401, "Not authenticated");
+			}
+
+			await revokeOwnSession(req.params.sessionId, req.user._id, "Admin");
+
+			res.status(200).json({
+				status: 200,
+				message: "Session revoked successfully",
+				data: null,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
+// ---------------------------
+// FORGOT PASSWORD (users and photographers)
+// ---------------------------
+router.post(
+	"/forgot-password",
+	async (req: Request, res: TypedResponse<null>, next: NextFunction) => {
+		try {
+			const { email } = req.body;
+
+			if (!email) {
+				throw customError(400, "Email is required");
+			}
+
+			const normalizedEmail = String(email).toLowerCase().trim();
+			const { token, hashedToken } = generateResetToken();
+			const resetFields = {
+				password_reset_token: hashedToken,
+				password_reset_expires_at: new Date(
+					Date.now() + emailConfig.passwordResetExpiresMinutes * 60 * 1000
+				),
+			};
+
+			let recipient: { email: string; firstName: string } | null = null;
+
+			// Try User first, then Photographer
+			const user = await User.findOne({ email: normalizedEmail }).lean();
+
+			if (user && user.is_active !== false) {
+				await User.updateOne({ _id: user._id }, { $set: resetFields });
+				recipient = { email: user.email, firstName: user.first_name };
+			} else if (!user) {
+				const photographer = await Photographer.findOne({
+					email: normalizedEmail,
+				}).lean();
+
+				if (photographer && photographer.is_active !== false) {
+					await Photographer.updateOne(
+						{ _id: photographer._id },
+						{ $set: resetFields }
+					);
+					recipient = {
+						email: photographer.email,
+						firstName: photographer.name.split(" ")[0] || photographer.name,
+					};
+				}
+			}
+
+			// Respond the same way whether or not the account exists
+			if (recipient) {
+				try {
+					const htmlContent = renderPasswordResetEmail({
+						firstName: recipient.firstName,
+						resetUrl: `${emailConfig.adminAppUrl}/reset-password?token=${token}`,
+						expiresInMinutes: emailConfig.passwordResetExpiresMinutes,
+						companyName: emailConfig.companyName,
+						supportEmail: emailConfig.supportEmail,
+					});
+
+					await sendEmail({
+						to: recipient.email,
+						subject: "Reset your Your Smile Matters password",
+						html: htmlContent,
+					});
+				} catch (emailErr) {
+					console.error("Failed to send password reset email:", emailErr);
+				}
+			}
+
+			res.status(200).json({
+				status: 200,
+				message:
+					"If an account exists for this email, a password reset link has been sent.",
+				data: null,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
+// ---------------------------
+// RESET PASSWORD (users and photographers)
+// ---------------------------
+router.post(
+	"/reset-password",
+	async (req: Request, res: TypedResponse<null>, next: NextFunction) => {
+		try {
+			const { token, new_password } = req.body;
+
+			if (!token || !new_password) {
+				throw customError(400, "Reset token and new password are required");
 			}
+
+			if (String(new_password).length < 8) {
+				throw customError(400, "Password must be at least 8 characters");
+			}
+
+			const resetQuery = {
+				password_reset_token: hashResetToken(String(token)),
+				password_reset_expires_at: { $gt: new Date() },
+			};
+
+			const hashedPassword = await hashPassword(new_password);
+
+			// Token is single-use: clear it together with the password change.
+			// The token stays in the update filter, so of two requests racing
+			// with the same link only one changes the password.
+			const passwordUpdate = {
+				$set: {
+					password: hashedPassword,
+					password_reset_token: null,
+					password_reset_expires_at: null,
+					updated_at: new Date(),
+				},
+			};
+
+			let accountId: string | null = null;
+
+			const user = await User.findOne(resetQuery).lean();
+
+			if (user) {
+				const { modifiedCount } = await User.updateOne(
+					{ _id: user._id, ...resetQuery },
+					passwordUpdate
+				);
+				if (modifiedCount > 0) accountId = user._id.toString();
+			} else {
+				const photographer = await Photographer.findOne(resetQuery).lean();
+
+				if (photographer) {
+					const { modifiedCount } = await Photographer.updateOne(
+						{ _id: photographer._id, ...resetQuery },
+						passwordUpdate
+					);
+					if (modifiedCount > 0) accountId = photographer._id.toString();
+				}
+			}
+
+			if (!accountId) {
+				throw customError(400, "Password reset link is invalid or has expired");
+			}
+
+			// Sign out every device that used the old password
+			await revokeAllSessions(accountId, "Admin", {
+				reason: "Password reset",
+			});
+
+			res.status(200).json({
+				status: 200,
+				message:
+					"Password reset successfully. Please log in with your new password.",
+				data: null,
+			});
+		} catch (error) {
 			next(error);
 		}
 	}
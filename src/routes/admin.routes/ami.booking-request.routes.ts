@@ -5,19 +5,38 @@ import { customError } from "../../middleware/errorHandler";
 import {
 	BookingRequest,
 	BookingRequestModel,
+	BookingRequestStatusEnum,
 } from "../../models/BookingRequest";
 import {
 	authenticateAmiUserToken,
 	AuthenticatedRequest,
 } from "../../middleware/authAmiMiddleware";
-import { TypedResponse } from "../../types/base.types";
+import { idempotent } from "../../middleware/idempotencyMiddleware";
+import { PaginatedResponse, TypedResponse } from "../../types/base.types";
 import {
+	ListQueryParams,
+	parseListQuery,
+	toPagination,
+} from "../../utils/listQuery";
+import {
+	renderCancellationApprovedCustomerEmail,
 	renderRescheduleApprovedAdminEmail,
 	renderRescheduleApprovedCustomerEmail,
 	renderRescheduleRequestAdminEmail,
 } from "../../utils/generateEmailTemplate";
 import { sendEmail } from "../../utils/emailSender";
-import { formatTime12Hour } from "../../utils/formatTime";
+import { formatTime12Hour, timeToMinutes } from "../../utils/formatTime";
+import {
+	releaseBookingSlot,
+	reserveBookingSlot,
+} from "../../utils/slotReservation";
+import { releasePromoRedemption } from "../../utils/promoRedemption";
+import { runInTransaction } from "../../utils/dbTransaction";
+import {
+	CancellationRefund,
+	issueCancellationRefund,
+} from "../../utils/cancellationRefund";
+import { formatToPeso } from "../../utils/formatMoney";
 
 // ============================================================================
 // POPULATED TYPES
@@ -92,6 +111,10 @@ export type ApproveRequestBody = {
 	admin_notes?: string;
 };
 
+export type ApproveCancellationBody = ApproveRequestBody & {
+	payment_proof_images?: string[]; // Proof of payout for a direct refund
+};
+
 export type RejectRequestBody = {
 	rejection_reason: string;
 	admin_notes?: string;
@@ -101,8 +124,7 @@ export type RejectRequestBody = {
 // QUERY TYPES
 // ============================================================================
 
-export type GetRequestsQuery = {
-	status?: "Pending" | "Approved" | "Rejected";
+export type GetRequestsQuery = ListQueryParams & {
 	request_type?: "Cancellation" | "Reschedule";
 	customer_id?: string;
 };
@@ -112,43 +134,103 @@ export type GetRequestsQuery = {
 // ============================================================================
 
 async function getAllBookingRequests(query: GetRequestsQuery) {
-	const filter: Record<string, any> = {};
-	if (query.status) filter.status = query.status;
+	const list = parseListQuery(query, {
+		sortFields: ["created_at", "updated_at", "reviewed_at", "status"],
+		defaultSort: "created_at",
+		searchFields: [
+			"request_reference",
+			"cancellation_reason",
+			"reschedule_reason",
+		],
+		dateField: "created_at",
+		statusField: "status",
+		statusValues: Object.values(BookingRequestStatusEnum),
+	});
+
+	const filter: Record<string, any> = { ...list.filter };
 	if (query.request_type) filter.request_type = query.request_type;
-	if (query.customer_id)
+	if (query.customer_id) {
+		if (!Types.ObjectId.isValid(query.customer_id)) {
+			throw customError(400, "Invalid customer ID format");
+		}
 		filter.customer_id = new Types.ObjectId(query.customer_id);
+	}
 
-	return BookingRequest.find(filter)
-		.populate("booking_id")
-		.populate("customer_id")
-		.populate("new_photographer_id")
-		.populate("reviewed_by")
-		.lean<PopulatedBookingRequestFull[]>();
+	const [requests, totalCount] = await Promise.all([
+		BookingRequest.find(filter)
+			.populate("booking_id")
+			.populate("customer_id")
+			.populate("new_photographer_id")
+			.populate("reviewed_by")
+			.sort(list.sort)
+			.skip(list.skip)
+			.limit(list.limit)
+			.lean<PopulatedBookingRequestFull[]>(),
+		BookingRequest.countDocuments(filter),
+	]);
+
+	return { requests, pagination: toPagination(list, totalCount) };
 }
 
 async function approveCancellationRequest(
 	requestId: string,
 	reviewerId: string,
-	body: ApproveRequestBody
-): Promise<PopulatedBookingRequestFull | null> {
+	body: ApproveCancellationBody
+): Promise<{
+	request: PopulatedBookingRequestFull | null;
+	refund: CancellationRefund;
+}> {
+	if (!mongoose.Types.ObjectId.isValid(requestId)) {
+		throw customError(400, "Invalid request ID format");
+	}
+
 	const request = await BookingRequest.findById(requestId);
 	if (!request) throw customError(404, "Booking request not found");
 
+	if (request.request_type !== "Cancellation") {
+		throw customError(400, "Booking request is not a cancellation request");
+	}
+	if (request.status !== "Pending") {
+		throw customError(
+			400,
+			`Cannot approve request with status: ${request.status}`
+		);
+	}
+
 	const booking = await Booking.findById(request.booking_id);
 	if (!booking) throw customError(404, "Linked booking not found");
 
-	// Update booking status to cancelled
-	booking.status = "Cancelled";
+	booking.transitionTo("Cancelled", {
+		actorId: reviewerId,
+		reason: request.cancellation_reason,
+	});
 	booking.updated_by = new Types.ObjectId(reviewerId);
-	await booking.save();
 
 	request.status = "Approved";
 	request.reviewed_by = new Types.ObjectId(reviewerId);
 	request.admin_notes = body.admin_notes || "";
 	request.reviewed_at = new Date();
-	await request.save();
 
-	return await populateBookingRequest(request._id as Types.ObjectId);
+	// The booking is not cancelled without its refund, nor the other way round
+	const refund = await runInTransaction(async (session) => {
+		await booking.save({ session });
+		const issued = await issueCancellationRefund({
+			bookingRequest: request,
+			reviewerId,
+			paymentProofImages: body.payment_proof_images,
+			session,
+		});
+		await request.save({ session });
+		return issued;
+	});
+
+	await releaseBookingSlot(booking._id as Types.ObjectId);
+	await releasePromoRedemption(booking._id as Types.ObjectId, "Cancelled");
+
+	return {
+		request: await populateBookingRequest(request._id as Types.ObjectId),
+		refund,
+	};
 }
 
 async function approveRescheduleRequest(
@@ -167,6 +249,11 @@ async function approveRescheduleRequest(
 	}
 
 	// Apply reschedule
+	booking.transitionTo("Rescheduled", {
+		actorId: reviewerId,
+		reason: request.reschedule_reason,
+	});
+	booking.rescheduled_from = booking.booking_date;
 	booking.booking_date = new Date(request.new_booking_date);
 	booking.start_time = request.new_start_time;
 	if (request.new_end_time) booking.end_time = request.new_end_time;
@@ -174,7 +261,31 @@ async function approveRescheduleRequest(
 		booking.photographer_id = new Types.ObjectId(request.new_photographer_id);
 	booking.updated_by = new Types.ObjectId(reviewerId);
 
-	await booking.save();
+	// Hold the new time window (409 if another booking has it)
+	const durationMinutes = request.new_end_time
+		? timeToMinutes(request.new_end_time) -
+		  timeToMinutes(request.new_start_time)
+		: booking.session_duration_minutes;
+
+	const slotReservation = booking.photographer_id
+		? await reserveBookingSlot({
+				photographerId: booking.photographer_id,
+				bookingId: booking._id as Types.ObjectId,
+				bookingDate: booking.booking_date,
+				startTime: booking.start_time,
+				durationMinutes,
+		  })
+		: null;
+
+	try {
+		await booking.save();
+	} catch (error) {
+		await slotReservation?.rollback();
+		throw error;
+	}
+
+	// The old time window is free again
+	await slotReservation?.commit();
 
 	request.status = "Approved";
 	request.reviewed_by = new Types.ObjectId(reviewerId);
@@ -229,15 +340,17 @@ router.get(
 	authenticateAmiUserToken,
 	async (
 		req: AuthenticatedRequest<{}, GetRequestsQuery>,
-		res: TypedResponse<PopulatedBookingRequestFull[]>,
+		res: TypedResponse<
+			PaginatedResponse<"requests", PopulatedBookingRequestFull>
+		>,
 		next: NextFunction
 	) => {
 		try {
-			const requests = await getAllBookingRequests(req.query);
+			const data = await getAllBookingRequests(req.query);
 			res.status(200).json({
 				status: 200,
 				message: "Booking requests retrieved successfully",
-				data: requests,
+				data,
 			});
 		} catch (error) {
 			next(error);
@@ -315,8 +428,13 @@ router.get(
 router.patch(
 	"/requests/:requestId/approve-cancellation",
 	authenticateAmiUserToken,
+	idempotent,
 	async (
-		req: AuthenticatedRequest<{ requestId: string }, {}, ApproveRequestBody>,
+		req: AuthenticatedRequest<
+			{ requestId: string },
+			{},
+			ApproveCancellationBody
+		>,
 		res: TypedResponse<PopulatedBookingRequestFull>,
 		next: NextFunction
 	) => {
@@ -325,19 +443,52 @@ router.patch(
 			const userId = req.user?._id?.toString();
 			if (!userId) throw customError(401, "Unauthorized");
 
-			const populatedRequest = await approveCancellationRequest(
-				requestId,
-				userId,
-				req.body
-			);
+			const { request: populatedRequest, refund } =
+				await approveCancellationRequest(requestId, userId, req.body);
 
 			if (!populatedRequest) {
 				throw customError(404, "Booking request not found");
 			}
+
+			const refundAmount =
+				refund.amount > 0 ? formatToPeso(String(refund.amount)) : undefined;
+
+			try {
+				await sendEmail({
+					to: populatedRequest.customer_id.email,
+					subject: "Cancellation Request Approved",
+					html: renderCancellationApprovedCustomerEmail({
+						firstName: populatedRequest.customer_id.first_name,
+						lastName: populatedRequest.customer_id.last_name,
+						bookingNo: populatedRequest.booking_id.booking_reference,
+						bookingDate: new Date(
+							populatedRequest.booking_id.booking_date
+						).toLocaleDateString("en-US", {
+							weekday: "long",
+							year: "numeric",
+							month: "long",
+							day: "numeric",
+						}),
+						refundAmount,
+						refundIssued: refund.mode === "Transaction",
+						refundPolicyNote: refund.eligibility.message,
+						adminNotes: req.body.admin_notes,
+						companyName: "Your Smile Matters",
+						supportEmail: "ysmphotography@yopmail.com",
+					}),
+				});
+			} catch (emailError) {
+				// The cancellation and refund are already saved
+				console.error("Failed to send cancellation email:", emailError);
+			}
+
 			res.status(200).json({
 				status: 200,
-				message:
-					"Cancellation request approved and booking cancelled successfully",
+				message: refundAmount
+					? `Cancellation request approved and booking cancelled successfully. Refund of ${refundAmount} ${
+							refund.mode === "Transaction" ? "issued" : "filed for payout"
+					  }`
+					: "Cancellation request approved and booking cancelled successfully",
 				data: populatedRequest,
 			});
 		} catch (error) {
@@ -1,6 +1,11 @@
 import { NextFunction, Router } from "express";
 import { Types } from "mongoose";
-import { Booking, BookingStatus } from "../../models/Booking";
+import {
+	Booking,
+	BookingStatus,
+	BookingStatusEnum,
+} from "../../models/Booking";
+import { Customer } from "../../models/Customer";
 import {
 	PaymentMethod,
 	Transaction,
@@ -11,18 +16,32 @@ import {
 	authenticateAmiUserToken,
 	AuthenticatedRequest,
 } from "../../middleware/authAmiMiddleware";
-import { TypedResponse } from "../../types/base.types";
+import { PaginatedResponse, TypedResponse } from "../../types/base.types";
 import { customError } from "../../middleware/errorHandler";
+import { idempotent } from "../../middleware/idempotencyMiddleware";
 import mongoose from "mongoose";
 import { Promo } from "../../models/Promo";
 import { Service } from "../../models/Service";
 import { Gender } from "../../types/literal.types";
-import { sendEmail } from "../../utils/emailSender";
+import { EmailOptions, sendEmail } from "../../utils/emailSender";
 import {
 	renderBookingApprovedEmail,
 	renderBookingConfirmedAdminEmail,
 } from "../../utils/generateEmailTemplate";
-import { formatTime12Hour } from "../../utils/formatTime";
+import { formatTime12Hour, timeToMinutes } from "../../utils/formatTime";
+import {
+	releaseBookingSlot,
+	reserveBookingSlot,
+} from "../../utils/slotReservation";
+import { releasePromoRedemption } from "../../utils/promoRedemption";
+import { parseListQuery, toPagination } from "../../utils/listQuery";
+import { assertDepositPaid } from "../../utils/paymentSchedule";
+import { buildBookingConfirmationAttachments } from "../../utils/receipts";
+import {
+	PaymentMilestone,
+	PaymentMilestoneStatusEnum,
+	PaymentTerms,
+} from "../../models/PaymentSchedule";
 
 const router = Router();
 
@@ -123,6 +142,8 @@ interface LeanPopulatedBooking {
 	total_amount: number;
 	discount_amount: number;
 	final_amount: number;
+	payment_terms?: PaymentTerms | null;
+	payment_schedule: PaymentMilestone[];
 	booking_confirmed_at?: Date | null;
 	booking_completed_at?: Date | null;
 	cancelled_reason?: string | null;
@@ -208,6 +229,7 @@ interface BookingListItem {
 	amount_paid: number;
 	remaining_balance: number;
 	is_payment_complete: boolean;
+	payment_schedule: PaymentMilestone[];
 	photographer_name?: string | null;
 	updated_at: Date;
 }
@@ -497,29 +519,98 @@ router.get(
 	authenticateAmiUserToken,
 	async (
 		req: AuthenticatedRequest,
-		res: TypedResponse<BookingListItem[]>,
+		res: TypedResponse<PaginatedResponse<"bookings", BookingListItem>>,
 		next: NextFunction
 	) => {
 		try {
+			const list = parseListQuery(req.query, {
+				sortFields: [
+					"booking_date",
+					"created_at",
+					"updated_at",
+					"final_amount",
+					"booking_reference",
+					"status",
+				],
+				defaultSort: "booking_date",
+				dateField: "booking_date",
+				statusField: "status",
+				statusValues: Object.values(BookingStatusEnum),
+			});
+			const { customer_id, photographer_id, payment_status } = req.query;
+
 			// Only filter out inactive bookings
-			const filter: mongoose.FilterQuery<typeof Booking> = { is_active: true };
+			const filter: mongoose.FilterQuery<typeof Booking> = {
+				...list.filter,
+				is_active: true,
+			};
 
-			// Fetch all bookings
-			const bookings = await Booking.find(filter)
-				.populate<{ customer_id: PopulatedCustomer }>({
-					path: "customer_id",
-					select:
-						"first_name last_name email mobile_number profile_image gender customer_no",
-				})
-				.populate<{ photographer_id: PopulatedPhotographer }>({
-					path: "photographer_id",
-					select: "name email specialties bio profile_image mobile_number",
-				})
-				.populate({
-					path: "services.service_id",
-					select: "name category price duration_minutes",
+			if (customer_id) {
+				if (!Types.ObjectId.isValid(customer_id as string)) {
+					throw customError(400, "Invalid customer ID format");
+				}
+				filter.customer_id = new Types.ObjectId(customer_id as string);
+			}
+
+			if (photographer_id) {
+				if (!Types.ObjectId.isValid(photographer_id as string)) {
+					throw customError(400, "Invalid photographer ID format");
+				}
+				filter.photographer_id = new Types.ObjectId(photographer_id as string);
+			}
+
+			// e.g. payment_status=Overdue: bookings with an overdue milestone
+			if (payment_status) {
+				const statuses = Object.values(PaymentMilestoneStatusEnum) as string[];
+				if (!statuses.includes(payment_status as string)) {
+					throw customError(400, `Invalid payment status: ${payment_status}`);
+				}
+				filter["payment_schedule.status"] = payment_status as string;
+			}
+
+			// Search matches the reference, the location or the customer
+			if (list.search) {
+				const customers = await Customer.find({
+					$or: [
+						{ first_name: list.search },
+						{ last_name: list.search },
+						{ email: list.search },
+						{ customer_no: list.search },
+					],
 				})
-				.lean();
+					.select("_id")
+					.lean();
+
+				filter.$or = [
+					{ booking_reference: list.search },
+					{ location: list.search },
+					{
+						customer_id: { $in: customers.map((customer) => customer._id) },
+					},
+				];
+			}
+
+			const [bookings, totalCount] = await Promise.all([
+				Booking.find(filter)
+					.sort(list.sort)
+					.skip(list.skip)
+					.limit(list.limit)
+					.populate<{ customer_id: PopulatedCustomer }>({
+						path: "customer_id",
+						select:
+							"first_name last_name email mobile_number profile_image gender customer_no",
+					})
+					.populate<{ photographer_id: PopulatedPhotographer }>({
+						path: "photographer_id",
+						select: "name email specialties bio profile_image mobile_number",
+					})
+					.populate({
+						path: "services.service_id",
+						select: "name category price duration_minutes",
+					})
+					.lean(),
+				Booking.countDocuments(filter),
+			]);
 
 			// Map bookings to the response format
 			const bookingsResponse: BookingListItem[] = bookings.map(
@@ -543,6 +634,7 @@ router.get(
 						amount_paid: booking.amount_paid || 0,
 						remaining_balance: booking.remaining_balance || 0,
 						is_payment_complete: booking.is_payment_complete || false,
+						payment_schedule: booking.payment_schedule ?? [],
 						photographer_id: booking.photographer_id?._id,
 						updated_at: booking.updated_at,
 						photographer_name: booking.photographer_id
@@ -555,7 +647,10 @@ router.get(
 			res.status(200).json({
 				status: 200,
 				message: `Retrieved ${bookingsResponse.length} bookings successfully`,
-				data: bookingsResponse,
+				data: {
+					bookings: bookingsResponse,
+					pagination: toPagination(list, totalCount),
+				},
 			});
 		} catch (error) {
 			next(error);
@@ -722,6 +817,7 @@ router.get(
 router.patch(
 	"/:id/confirm",
 	authenticateAmiUserToken,
+	idempotent,
 	async (
 		req: AuthenticatedRequest,
 		res: TypedResponse<BookingWithPaymentStatus>,
@@ -747,12 +843,10 @@ router.patch(
 				throw customError(404, "Booking not found");
 			}
 
-			if (booking.status !== "Pending") {
-				throw customError(
-					400,
-					`Cannot confirm booking with status: ${booking.status}`
-				);
-			}
+			booking.transitionTo("Confirmed", {
+				actorId: userId,
+				actorType: req.user?.is_photographer ? "Photographer" : "User",
+			});
 
 			const now = new Date();
 			const bookingDate = new Date(booking.booking_date);
@@ -789,7 +883,9 @@ router.patch(
 				);
 			}
 
-			booking.status = "Confirmed";
+			// The deposit milestone has to be met first
+			await assertDepositPaid(booking);
+
 			booking.booking_confirmed_at = new Date();
 			booking.updated_by = new Types.ObjectId(userId);
 
@@ -844,10 +940,22 @@ router.patch(
 				supportEmail: "ysmphotography@yopmail.com",
 			});
 
+			// Statement of account and payment receipts; the email still goes
+			// out if they cannot be generated
+			let attachments: EmailOptions["attachments"] = [];
+			try {
+				attachments = await buildBookingConfirmationAttachments(
+					populatedBooking._id
+				);
+			} catch (error) {
+				console.error("Failed to generate booking documents:", error);
+			}
+
 			await sendEmail({
 				to: populatedBooking.customer_id.email,
 				subject: "Your Booking Has Been Approved!",
 				html: emailHtml,
+				attachments,
 			});
 			const adminEmailHtml = renderBookingConfirmedAdminEmail({
 				customerName: `${populatedBooking.customer_id.first_name} ${populatedBooking.customer_id.last_name}`,
@@ -931,18 +1039,20 @@ router.patch(
 				throw customError(404, "Booking not found");
 			}
 
-			if (["Cancelled", "Completed"].includes(booking.status)) {
-				throw customError(
-					400,
-					`Cannot cancel booking with status: ${booking.status}`
-				);
-			}
-
-			booking.status = "Cancelled";
+			booking.transitionTo("Cancelled", {
+				actorId: userId,
+				actorType: req.user?.is_photographer ? "Photographer" : "User",
+				reason: cancelled_reason.trim(),
+			});
 			booking.cancelled_reason = cancelled_reason.trim();
 			booking.updated_by = new Types.ObjectId(userId);
 
 			await booking.save();
+			await releaseBookingSlot(booking._id as Types.ObjectId);
+			await releasePromoRedemption(
+				booking._id as Types.ObjectId,
+				"Cancelled"
+			);
 
 			res.status(200).json({
 				status: 200,
@@ -1017,12 +1127,10 @@ router.patch(
 				throw customError(404, "Booking not found");
 			}
 
-			if (!["Pending", "Confirmed", "Rescheduled"].includes(booking.status)) {
-				throw customError(
-					400,
-					`Cannot reschedule booking with status: ${booking.status}`
-				);
-			}
+			booking.transitionTo("Rescheduled", {
+				actorId: userId,
+				actorType: req.user?.is_photographer ? "Photographer" : "User",
+			});
 
 			// ✅ Handle photographer change
 			let photographerToCheck = booking.photographer_id;
@@ -1034,36 +1142,31 @@ router.patch(
 				photographerToCheck = new Types.ObjectId(new_photographer_id);
 			}
 
-			// ✅ Check photographer availability
-			if (photographerToCheck) {
-				const conflictingBooking = await Booking.findOne({
-					_id: { $ne: id },
-					photographer_id: photographerToCheck,
-					booking_date: {
-						$gte: new Date(newBookingDateTime.setHours(0, 0, 0, 0)),
-						$lt: new Date(newBookingDateTime.setHours(23, 59, 59, 999)),
-					},
-					start_time: new_start_time,
-					end_time: new_end_time,
-					status: { $nin: ["Cancelled", "Completed"] },
-					is_active: true,
-				});
+			// ✅ Hold the new time window (409 if another booking has it)
+			const newDurationMinutes = new_end_time
+				? timeToMinutes(new_end_time) - timeToMinutes(new_start_time)
+				: booking.session_duration_minutes;
 
-				if (conflictingBooking) {
-					throw customError(
-						400,
-						"Selected photographer is not available at the new time slot"
-					);
-				}
+			if (newDurationMinutes <= 0) {
+				throw customError(400, "End time must be after start time");
 			}
 
+			const slotReservation = photographerToCheck
+				? await reserveBookingSlot({
+						photographerId: photographerToCheck,
+						bookingId: booking._id as Types.ObjectId,
+						bookingDate: newBookingDateTime,
+						startTime: new_start_time,
+						durationMinutes: newDurationMinutes,
+				  })
+				: null;
+
 			// ✅ Apply updates
 			const originalDate = booking.booking_date;
 
 			booking.booking_date = newBookingDateTime;
 			booking.start_time = new_start_time;
 			booking.end_time = new_end_time;
-			booking.status = "Rescheduled";
 			booking.rescheduled_from = originalDate;
 			booking.updated_by = new Types.ObjectId(userId);
 
@@ -1072,7 +1175,15 @@ router.patch(
 				booking.photographer_id = new Types.ObjectId(new_photographer_id);
 			}
 
-			await booking.save();
+			try {
+				await booking.save();
+			} catch (error) {
+				await slotReservation?.rollback();
+				throw error;
+			}
+
+			// The old time window is free again
+			await slotReservation?.commit();
 
 			// ✅ Populate
 			const populatedBooking = await Booking.findById(booking._id)
@@ -1151,12 +1262,10 @@ router.patch(
 				throw customError(404, "Booking not found");
 			}
 
-			if (!["Confirmed", "Rescheduled"].includes(booking.status)) {
-				throw customError(
-					400,
-					`Cannot start booking with status: ${booking.status}`
-				);
-			}
+			booking.transitionTo("Ongoing", {
+				actorId: userId,
+				actorType: req.user?.is_photographer ? "Photographer" : "User",
+			});
 
 			// ============================================================================
 			// DATE VALIDATION
@@ -1250,7 +1359,6 @@ router.patch(
 			// ============================================================================
 			// UPDATE BOOKING STATUS
 			// ============================================================================
-			booking.status = "Ongoing";
 			booking.updated_by = new Types.ObjectId(userId);
 
 			await booking.save();
@@ -1293,12 +1401,10 @@ router.patch(
 				throw customError(404, "Booking not found");
 			}
 
-			if (!["Confirmed", "Ongoing"].includes(booking.status)) {
-				throw customError(
-					400,
-					`Cannot complete booking with status: ${booking.status}`
-				);
-			}
+			booking.transitionTo("Completed", {
+				actorId: userId,
+				actorType: req.user?.is_photographer ? "Photographer" : "User",
+			});
 
 			// Check if payment is complete
 			const paymentStatus = await getBookingPaymentStatus(id);
@@ -1309,7 +1415,6 @@ router.patch(
 				);
 			}
 
-			booking.status = "Completed";
 			booking.booking_completed_at = new Date();
 			booking.updated_by = new Types.ObjectId(userId);
 
@@ -1402,6 +1507,7 @@ router.get(
 						amount_paid: paymentStatus.amount_paid,
 						remaining_balance: paymentStatus.remaining_balance,
 						is_payment_complete: paymentStatus.is_payment_complete,
+						payment_schedule: booking.payment_schedule ?? [],
 						updated_at: booking.updated_at,
 						photographer_name: booking.photographer_id
 							? `${booking.photographer_id.name}`
@@ -1,7 +1,11 @@
 import { Router, Request, NextFunction } from "express";
 import mongoose, { Types } from "mongoose";
 import { Customer, CustomerModel } from "../../models/Customer";
-import { MetaData, TypedResponse } from "../../types/base.types";
+import {
+	MetaData,
+	PaginatedResponse,
+	TypedResponse,
+} from "../../types/base.types";
 import {
 	AuthenticatedRequest,
 	authenticateAmiUserToken,
@@ -9,6 +13,8 @@ import {
 import { customError } from "../../middleware/errorHandler";
 import { renderCustomerWelcomeEmail } from "../../utils/generateEmailTemplate";
 import { sendEmail } from "../../utils/emailSender";
+import { revokeAllSessions } from "../../utils/tokenRevocation";
+import { parseListQuery, toPagination } from "../../utils/listQuery";
 
 const router = Router();
 
@@ -40,11 +46,43 @@ router.get(
 	authenticateAmiUserToken,
 	async (
 		req: Request,
-		res: TypedResponse<CustomerResponse[]>,
+		res: TypedResponse<PaginatedResponse<"customers", CustomerResponse>>,
 		next: NextFunction
 	) => {
 		try {
-			const customers = await Customer.find().lean();
+			const list = parseListQuery(req.query, {
+				sortFields: [
+					"created_at",
+					"updated_at",
+					"customer_no",
+					"first_name",
+					"last_name",
+					"email",
+				],
+				defaultSort: "created_at",
+				searchFields: [
+					"customer_no",
+					"first_name",
+					"last_name",
+					"email",
+					"mobile_number",
+				],
+				dateField: "created_at",
+			});
+
+			const filter: Record<string, unknown> = { ...list.filter };
+			if (req.query.is_active !== undefined) {
+				filter.is_active = req.query.is_active === "true";
+			}
+
+			const [customers, totalCount] = await Promise.all([
+				Customer.find(filter)
+					.sort(list.sort)
+					.skip(list.skip)
+					.limit(list.limit)
+					.lean(),
+				Customer.countDocuments(filter),
+			]);
 
 			const customerResponse: CustomerResponse[] = customers.map(
 				({ _id: id, ...customer }) => ({
@@ -56,7 +94,10 @@ router.get(
 			res.status(200).json({
 				status: 200,
 				message: "Customers fetched successfully!",
-				data: customerResponse,
+				data: {
+					customers: customerResponse,
+					pagination: toPagination(list, totalCount),
+				},
 			});
 		} catch (error) {
 			next(error);
@@ -377,4 +418,41 @@ router.patch(
 	}
 );
 
+// ---------------- REVOKE CUSTOMER SESSIONS ----------------
+router.patch(
+	"/revoke-sessions/:id",
+	authenticateAmiUserToken,
+	async (
+		req: AuthenticatedRequest,
+		res: TypedResponse<null>,
+		next: NextFunction
+	) => {
+		try {
+			const { id } = req.params;
+			const { reason } = req.body ?? {};
+			const userId = req.user?._id;
+			if (!userId)
+				throw customError(400, "No user id found. Please login again.");
+			if (!mongoose.Types.ObjectId.isValid(id))
+				throw customError(400, "Invalid customer ID format");
+
+			const customer = await Customer.findById(id);
+			if (!customer) throw customError(404, "Customer not found");
+
+			await revokeAllSessions(id, "Customer", {
+				revokedBy: userId,
+				reason: reason || "Sessions revoked by administrator",
+			});
+
+			res.status(200).json({
+				status: 200,
+				message: "All sessions of the customer have been revoked!",
+				data: null,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
 export default router;
@@ -9,6 +9,8 @@ import { Package } from "../../models/Package";
 import { Service } from "../../models/Service";
 import { customError } from "../../middleware/errorHandler";
 import { ServiceCategory } from "../../constants/service-category.constant";
+import { PaymentTerms } from "../../models/PaymentSchedule";
+import { parsePaymentTerms } from "../../utils/paymentSchedule";
 
 const router = Router();
 
@@ -53,6 +55,7 @@ interface PackageLean {
 	looks: number;
 	is_available: boolean;
 	custom_duration_minutes?: number | null;
+	payment_terms?: PaymentTerms | null;
 	is_active: boolean;
 	created_by: Types.ObjectId;
 	updated_by?: Types.ObjectId | null;
@@ -77,6 +80,7 @@ interface PackageResponse {
 	looks: number;
 	is_available: boolean;
 	custom_duration_minutes?: number | null;
+	payment_terms?: PaymentTerms | null;
 	total_services_count: number;
 	is_active: boolean;
 	created_at: Date;
@@ -102,6 +106,7 @@ interface CreatePackageBody {
 		quantity: number;
 	}>;
 	custom_duration_minutes?: number;
+	payment_terms?: PaymentTerms | null;
 	is_available?: boolean;
 }
 
@@ -354,6 +359,8 @@ router.post(
 				}
 			}
 
+			const paymentTerms = parsePaymentTerms(body.payment_terms);
+
 			// Validate services array
 			if (!Array.isArray(body.services) || body.services.length === 0) {
 				throw customError(400, "Package must include at least one service");
@@ -451,6 +458,7 @@ router.post(
 				services: servicesData,
 				looks: body.looks,
 				custom_duration_minutes: body.custom_duration_minutes || null,
+				payment_terms: paymentTerms,
 				is_available:
 					body.is_available !== undefined ? body.is_available : true,
 				is_active: true,
@@ -636,6 +644,8 @@ router.put(
 			if (body.custom_duration_minutes !== undefined)
 				packageDoc.custom_duration_minutes =
 					body.custom_duration_minutes || null;
+			if (body.payment_terms !== undefined)
+				packageDoc.payment_terms = parsePaymentTerms(body.payment_terms);
 			if (body.is_available !== undefined)
 				packageDoc.is_available = body.is_available;
 
@@ -1,27 +1,83 @@
-import { Router } from "express";
-import { Permission } from "../../models/Permission";
+import { Router, Request, NextFunction } from "express";
+import { Permission, PermissionModel } from "../../models/Permission";
+import { authenticateAmiUserToken } from "../../middleware/authAmiMiddleware";
+import { customError } from "../../middleware/errorHandler";
+import { TypedResponse } from "../../types/base.types";
 
 const router = Router();
 
+const PERMISSION_PART_PATTERN = /^[a-z][a-z0-9-]*$/;
+
 // GET all permissions
-router.get("/", async (req, res, next) => {
-	try {
-		const permissions = await Permission.find();
-		res.json({ status: "Success", data: permissions });
-	} catch (error) {
-		next(error);
+router.get(
+	"/",
+	authenticateAmiUserToken,
+	async (
+		req: Request,
+		res: TypedResponse<PermissionModel[]>,
+		next: NextFunction
+	) => {
+		try {
+			const permissions = await Permission.find()
+				.sort({ module: 1, action: 1 })
+				.lean<PermissionModel[]>();
+
+			res.status(200).json({
+				status: 200,
+				message: "Permissions fetched successfully",
+				data: permissions,
+			});
+		} catch (error) {
+			next(error);
+		}
 	}
-});
+);
 
 // CREATE permission
-router.post("/", async (req, res, next) => {
-	try {
-		const permission = new Permission(req.body);
-		await permission.save();
-		res.status(201).json({ status: "Success", data: permission });
-	} catch (error) {
-		next(error);
+router.post(
+	"/",
+	authenticateAmiUserToken,
+	async (
+		req: Request,
+		res: TypedResponse<PermissionModel>,
+		next: NextFunction
+	) => {
+		try {
+			const module = String(req.body.module ?? "").trim().toLowerCase();
+			const action = String(req.body.action ?? "").trim().toLowerCase();
+
+			if (!module || !action) {
+				throw customError(400, "Module and action are required");
+			}
+
+			if (
+				!PERMISSION_PART_PATTERN.test(module) ||
+				!PERMISSION_PART_PATTERN.test(action)
+			) {
+				throw customError(
+					400,
+					"Module and action may only contain lowercase letters, numbers and dashes"
+				);
+			}
+
+			// The key is always derived so it cannot drift from module/action
+			const key = `${module}:${action}`;
+
+			if (await Permission.exists({ key })) {
+				throw customError(409, `Permission ${key} already exists`);
+			}
+
+			const permission = await Permission.create({ module, action, key });
+
+			res.status(201).json({
+				status: 201,
+				message: "Permission created successfully",
+				data: permission,
+			});
+		} catch (error) {
+			next(error);
+		}
 	}
-});
+);
 
 export default router;
@@ -1,6 +1,7 @@
 import { Router, Request, NextFunction } from "express";
 import { Types } from "mongoose";
 import { Photographer, PhotographerModel } from "../../models/Photographer";
+import { RatingDistribution } from "../../models/RatingSummary";
 import {
 	authenticateAmiUserToken,
 	AuthenticatedRequest,
@@ -32,6 +33,9 @@ interface PhotographerLean {
 	total_bookings: number;
 	completed_bookings: number;
 	booking_lead_time_hours?: number | null;
+	rating_average: number;
+	rating_count: number;
+	rating_distribution: RatingDistribution;
 	is_active: boolean;
 	created_at: Date;
 	updated_at: Date;
@@ -53,6 +57,9 @@ interface PhotographerResponse {
 	total_bookings: number;
 	completed_bookings: number;
 	booking_lead_time_hours?: number | null;
+	rating_average: number;
+	rating_count: number;
+	rating_distribution: RatingDistribution;
 	is_active: boolean;
 	created_at: Date;
 	updated_at: Date;
@@ -273,8 +280,11 @@ router.put(
 			if (!userId)
 				throw customError(400, "No user id found. Please login again.");
 
+			// Rating aggregates are derived from ratings, never set directly
+			const { rating_average, rating_count, rating_distribution, ...body } =
+				req.body;
 			const updateData = {
-				...req.body,
+				...body,
 				updated_by: userId,
 			};
 
@@ -5,15 +5,32 @@ import {
 	PromoType,
 	DiscountType,
 	PromoDocument,
+	PromoEligibilityRules,
 } from "../../models/Promo";
 import { Booking } from "../../models/Booking";
+import {
+	PromoRedemption,
+	PromoRedemptionStatus,
+	PromoRedemptionStatusEnum,
+} from "../../models/PromoRedemption";
+import {
+	PromoCampaignCode,
+	CampaignCodeStatusEnum,
+} from "../../models/PromoCampaignCode";
 import mongoose, { Types } from "mongoose";
-import { MetaData, TypedResponse } from "../../types/base.types";
+import {
+	MetaData,
+	PaginatedResponse,
+	Pagination,
+	TypedResponse,
+} from "../../types/base.types";
 import { customError } from "../../middleware/errorHandler";
 import {
 	authenticateAmiUserToken,
 	AuthenticatedRequest,
 } from "../../middleware/authAmiMiddleware";
+import { generateCampaignCodes } from "../../utils/promoCampaign";
+import { parseListQuery, toPagination } from "../../utils/listQuery";
 
 const router = Router();
 
@@ -33,8 +50,13 @@ type AdminPromoResponse = MetaData & {
 	valid_until: Date;
 	usage_limit?: number | null;
 	usage_count: number;
+	per_customer_limit?: number | null;
+	is_stackable: boolean;
+	stacking_priority: number;
+	is_campaign: boolean;
 	is_active: boolean;
 	conditions?: string | null;
+	eligibility_rules?: PromoEligibilityRules;
 	status: "Active" | "Expired" | "Inactive" | "Usage Exceeded";
 	effectiveness?: {
 		usage_rate: number;
@@ -56,7 +78,11 @@ type PromoCreateAuthenticatedRequest = {
 	valid_from: string;
 	valid_until: string;
 	usage_limit?: number;
+	per_customer_limit?: number;
+	is_stackable?: boolean;
+	stacking_priority?: number;
 	conditions?: string;
+	eligibility_rules?: PromoEligibilityRules;
 	is_active?: boolean;
 };
 
@@ -81,6 +107,32 @@ type PromoStatsResponse = {
 	}>;
 };
 
+type PromoRedemptionListResponse = {
+	redemptions: unknown[];
+	summary: {
+		active_count: number;
+		released_count: number;
+		total_discount_given: number; // Active redemptions only
+	};
+	pagination: Pagination;
+};
+
+type CampaignCodeBatchResponse = {
+	batch_id: string;
+	count: number;
+	codes: string[];
+};
+
+type CampaignCodeListResponse = {
+	codes: unknown[];
+	summary: {
+		total_codes: number;
+		available_count: number;
+		redeemed_count: number;
+	};
+	pagination: Pagination;
+};
+
 type BulkActionResponse = {
 	success_count: number;
 	failed_count: number;
@@ -90,6 +142,9 @@ type BulkActionResponse = {
 	}>;
 };
 
+// Statuses the promo list can filter by (see getPromoStatus)
+const PROMO_LIST_STATUSES = ["Active", "Expired", "Inactive", "Usage Exceeded"];
+
 // Helper function to get promo status
 const getPromoStatus = (
 	promo: PromoModel
@@ -122,6 +177,33 @@ const calculateEffectiveness = (promo: PromoModel) => {
 	};
 };
 
+// Helper function to build the campaign code filter from query params
+const buildCampaignCodeFilter = (
+	promoId: string,
+	query: { status?: unknown; batch_id?: unknown }
+) => {
+	const filter: any = { promo_id: new Types.ObjectId(promoId) };
+
+	if (query.status) {
+		if (!Object.values(CampaignCodeStatusEnum).includes(query.status as any)) {
+			throw customError(400, `Invalid code status: ${query.status}`);
+		}
+		filter.status = query.status;
+	}
+
+	if (query.batch_id) {
+		filter.batch_id = String(query.batch_id);
+	}
+
+	return filter;
+};
+
+// Helper function to quote a CSV field
+const toCsvField = (value: unknown): string => {
+	const text = value === null || value === undefined ? "" : String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
 // POST /api/admin/promos (Create new promo)
 router.post(
 	"/",
@@ -145,7 +227,11 @@ router.post(
 				valid_from,
 				valid_until,
 				usage_limit,
+				per_customer_limit,
+				is_stackable,
+				stacking_priority,
 				conditions,
+				eligibility_rules,
 				is_active = true,
 			} = req.body;
 
@@ -168,12 +254,15 @@ router.post(
 			}
 
 			// Check if promo code already exists
-			const existingPromo = await Promo.findOne({
-				promo_code: promo_code.toUpperCase(),
-				deleted_at: null,
-			});
+			const [existingPromo, existingCampaignCode] = await Promise.all([
+				Promo.findOne({
+					promo_code: promo_code.toUpperCase(),
+					deleted_at: null,
+				}),
+				PromoCampaignCode.exists({ code: promo_code.toUpperCase() }),
+			]);
 
-			if (existingPromo) {
+			if (existingPromo || existingCampaignCode) {
 				throw customError(400, "Promo code already exists");
 			}
 
@@ -201,7 +290,11 @@ router.post(
 				valid_from: fromDate,
 				valid_until: untilDate,
 				usage_limit,
+				per_customer_limit,
+				is_stackable,
+				stacking_priority,
 				conditions,
+				eligibility_rules,
 				is_active,
 				usage_count: 0,
 				created_by: userId,
@@ -224,8 +317,13 @@ router.post(
 				valid_until: newPromo.valid_until,
 				usage_limit: newPromo.usage_limit,
 				usage_count: newPromo.usage_count,
+				per_customer_limit: newPromo.per_customer_limit,
+				is_stackable: newPromo.is_stackable,
+				stacking_priority: newPromo.stacking_priority,
+				is_campaign: newPromo.is_campaign,
 				is_active: newPromo.is_active,
 				conditions: newPromo.conditions,
+				eligibility_rules: newPromo.eligibility_rules,
 				created_at: newPromo.created_at,
 				updated_at: newPromo.updated_at,
 				created_by: newPromo.created_by,
@@ -346,12 +444,15 @@ router.post(
 			}
 
 			// Check if new promo code already exists
-			const existingPromo = await Promo.findOne({
-				promo_code: new_promo_code.toUpperCase(),
-				deleted_at: null,
-			});
+			const [existingPromo, existingCampaignCode] = await Promise.all([
+				Promo.findOne({
+					promo_code: new_promo_code.toUpperCase(),
+					deleted_at: null,
+				}),
+				PromoCampaignCode.exists({ code: new_promo_code.toUpperCase() }),
+			]);
 
-			if (existingPromo) {
+			if (existingPromo || existingCampaignCode) {
 				throw customError(400, "New promo code already exists");
 			}
 
@@ -369,7 +470,11 @@ router.post(
 				valid_from: originalPromo.valid_from,
 				valid_until: originalPromo.valid_until,
 				usage_limit: originalPromo.usage_limit,
+				per_customer_limit: originalPromo.per_customer_limit,
+				is_stackable: originalPromo.is_stackable,
+				stacking_priority: originalPromo.stacking_priority,
 				conditions: originalPromo.conditions,
+				eligibility_rules: originalPromo.eligibility_rules,
 				is_active: false, // Start as inactive for review
 				usage_count: 0,
 				created_by: new Types.ObjectId(userId),
@@ -392,8 +497,13 @@ router.post(
 				valid_until: duplicatedPromo.valid_until,
 				usage_limit: duplicatedPromo.usage_limit,
 				usage_count: duplicatedPromo.usage_count,
+				per_customer_limit: duplicatedPromo.per_customer_limit,
+				is_stackable: duplicatedPromo.is_stackable,
+				stacking_priority: duplicatedPromo.stacking_priority,
+				is_campaign: duplicatedPromo.is_campaign,
 				is_active: duplicatedPromo.is_active,
 				conditions: duplicatedPromo.conditions,
+				eligibility_rules: duplicatedPromo.eligibility_rules,
 				created_at: duplicatedPromo.created_at,
 				updated_at: duplicatedPromo.updated_at,
 				created_by: duplicatedPromo.created_by,
@@ -462,8 +572,13 @@ router.get(
 					valid_until: promo.valid_until,
 					usage_limit: promo.usage_limit,
 					usage_count: promo.usage_count,
+					per_customer_limit: promo.per_customer_limit,
+					is_stackable: promo.is_stackable,
+					stacking_priority: promo.stacking_priority,
+					is_campaign: promo.is_campaign,
 					is_active: promo.is_active,
 					conditions: promo.conditions,
+					eligibility_rules: promo.eligibility_rules,
 					created_at: promo.created_at,
 					updated_at: promo.updated_at,
 					created_by: promo.created_by,
@@ -490,15 +605,7 @@ router.get(
 	authenticateAmiUserToken,
 	async (
 		req: AuthenticatedRequest,
-		res: TypedResponse<{
-			promos: AdminPromoResponse[];
-			pagination: {
-				current_page: number;
-				total_pages: number;
-				total_items: number;
-				items_per_page: number;
-			};
-		}>,
+		res: TypedResponse<PaginatedResponse<"promos", AdminPromoResponse>>,
 		next: NextFunction
 	) => {
 		try {
@@ -507,44 +614,37 @@ router.get(
 			if (!userId)
 				throw customError(400, "No user id found. Please login again.");
 
-			const {
-				page = 1,
-				limit = 10,
-				promo_type,
-				status,
-				search,
-				sort_by = "created_at",
-				sort_order = "desc",
-				date_from,
-				date_to,
-			} = req.query;
-
-			const pageNum = parseInt(page as string);
-			const limitNum = parseInt(limit as string);
-			const skip = (pageNum - 1) * limitNum;
+			const list = parseListQuery(req.query, {
+				sortFields: [
+					"created_at",
+					"updated_at",
+					"promo_code",
+					"name",
+					"discount_value",
+					"valid_from",
+					"valid_until",
+					"usage_count",
+				],
+				defaultSort: "created_at",
+				defaultLimit: 10,
+				searchFields: ["promo_code", "name", "description"],
+				dateField: "created_at",
+			});
+			const { promo_type } = req.query;
 
 			// Build filter
-			const filter: any = { deleted_at: null };
+			const filter: any = { ...list.filter, deleted_at: null };
 
 			if (promo_type && promo_type !== "all") {
 				filter.promo_type = promo_type;
 			}
 
-			if (search) {
-				filter.$or = [
-					{ promo_code: { $regex: search, $options: "i" } },
-					{ name: { $regex: search, $options: "i" } },
-					{ description: { $regex: search, $options: "i" } },
-				];
+			// Status is derived from the dates and usage, so it has its own filter
+			const [status] = list.statuses;
+			if (status && !PROMO_LIST_STATUSES.includes(status)) {
+				throw customError(400, `Invalid status: ${status}`);
 			}
 
-			if (date_from || date_to) {
-				filter.created_at = {};
-				if (date_from) filter.created_at.$gte = new Date(date_from as string);
-				if (date_to) filter.created_at.$lte = new Date(date_to as string);
-			}
-
-			// Handle status filter
 			const now = new Date();
 			if (status) {
 				switch (status) {
@@ -575,19 +675,14 @@ router.get(
 				}
 			}
 
-			// Build sort
-			const sortOrder = sort_order === "desc" ? -1 : 1;
-			const sortObj: any = {};
-			sortObj[sort_by as string] = sortOrder;
-
 			// Get promos with pagination
 			const [promos, totalCount] = await Promise.all([
 				Promo.find(filter)
 					.populate("created_by", "first_name last_name email")
 					.populate("updated_by", "first_name last_name email")
-					.sort(sortObj)
-					.skip(skip)
-					.limit(limitNum)
+					.sort(list.sort)
+					.skip(list.skip)
+					.limit(list.limit)
 					.lean(),
 				Promo.countDocuments(filter),
 			]);
@@ -607,8 +702,13 @@ router.get(
 				valid_until: promo.valid_until,
 				usage_limit: promo.usage_limit,
 				usage_count: promo.usage_count,
+				per_customer_limit: promo.per_customer_limit,
+				is_stackable: promo.is_stackable,
+				stacking_priority: promo.stacking_priority,
+				is_campaign: promo.is_campaign,
 				is_active: promo.is_active,
 				conditions: promo.conditions,
+				eligibility_rules: promo.eligibility_rules,
 				created_at: promo.created_at,
 				updated_at: promo.updated_at,
 				created_by: promo.created_by,
@@ -617,19 +717,12 @@ router.get(
 				effectiveness: calculateEffectiveness(promo as PromoModel),
 			}));
 
-			const totalPages = Math.ceil(totalCount / limitNum);
-
 			res.status(200).json({
 				status: 200,
 				message: "Promos fetched successfully!",
 				data: {
 					promos: adminPromosResponse,
-					pagination: {
-						current_page: pageNum,
-						total_pages: totalPages,
-						total_items: totalCount,
-						items_per_page: limitNum,
-					},
+					pagination: toPagination(list, totalCount),
 				},
 			});
 		} catch (error) {
@@ -704,8 +797,13 @@ router.get(
 					valid_until: promo.valid_until,
 					usage_limit: promo.usage_limit,
 					usage_count: promo.usage_count,
+					per_customer_limit: promo.per_customer_limit,
+					is_stackable: promo.is_stackable,
+					stacking_priority: promo.stacking_priority,
+					is_campaign: promo.is_campaign,
 					is_active: promo.is_active,
 					conditions: promo.conditions,
+					eligibility_rules: promo.eligibility_rules,
 					created_at: promo.created_at,
 					updated_at: promo.updated_at,
 					created_by: promo.created_by,
@@ -728,6 +826,300 @@ router.get(
 	}
 );
 
+// GET /api/admin/promos/:id/redemptions (Bookings that used the promo)
+router.get(
+	"/:id/redemptions",
+	authenticateAmiUserToken,
+	async (
+		req: AuthenticatedRequest,
+		res: TypedResponse<PromoRedemptionListResponse>,
+		next: NextFunction
+	) => {
+		try {
+			const { id } = req.params;
+			const { page = 1, limit = 20, status, customer_id } = req.query;
+
+			if (!mongoose.Types.ObjectId.isValid(id)) {
+				throw customError(400, "Invalid promo ID format");
+			}
+
+			const promo = await Promo.exists({ _id: id, deleted_at: null });
+			if (!promo) {
+				throw customError(404, "Promo not found");
+			}
+
+			const pageNum = Math.max(parseInt(page as string) || 1, 1);
+			const limitNum = Math.min(
+				Math.max(parseInt(limit as string) || 20, 1),
+				100
+			);
+			const skip = (pageNum - 1) * limitNum;
+
+			const filter: any = { promo_id: new Types.ObjectId(id) };
+
+			if (status) {
+				if (
+					!Object.values(PromoRedemptionStatusEnum).includes(status as any)
+				) {
+					throw customError(400, `Invalid redemption status: ${status}`);
+				}
+				filter.status = status;
+			}
+
+			if (customer_id) {
+				if (!mongoose.Types.ObjectId.isValid(customer_id as string)) {
+					throw customError(400, "Invalid customer ID format");
+				}
+				filter.customer_id = new Types.ObjectId(customer_id as string);
+			}
+
+			const [redemptions, totalCount, totals] = await Promise.all([
+				PromoRedemption.find(filter)
+					.populate("customer_id", "customer_no first_name last_name email")
+					.populate("booking_id", "booking_reference booking_date status")
+					.sort({ created_at: -1 })
+					.skip(skip)
+					.limit(limitNum)
+					.lean(),
+				PromoRedemption.countDocuments(filter),
+				PromoRedemption.aggregate<{
+					_id: PromoRedemptionStatus;
+					count: number;
+					discount: number;
+				}>([
+					{ $match: { promo_id: new Types.ObjectId(id) } },
+					{
+						$group: {
+							_id: "$status",
+							count: { $sum: 1 },
+							discount: { $sum: "$discount_amount" },
+						},
+					},
+				]),
+			]);
+
+			const active = totals.find((t) => t._id === "Active");
+			const released = totals.find((t) => t._id === "Released");
+
+			res.status(200).json({
+				status: 200,
+				message: "Promo redemptions fetched successfully!",
+				data: {
+					redemptions,
+					summary: {
+						active_count: active?.count ?? 0,
+						released_count: released?.count ?? 0,
+						total_discount_given: active?.discount ?? 0,
+					},
+					pagination: {
+						current_page: pageNum,
+						total_pages: Math.ceil(totalCount / limitNum),
+						total_items: totalCount,
+						items_per_page: limitNum,
+					},
+				},
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
+// POST /api/admin/promos/:id/codes/generate (Generate single-use campaign codes)
+router.post(
+	"/:id/codes/generate",
+	authenticateAmiUserToken,
+	async (
+		req: AuthenticatedRequest,
+		res: TypedResponse<CampaignCodeBatchResponse>,
+		next: NextFunction
+	) => {
+		try {
+			const userId = req.user?._id;
+
+			if (!userId)
+				throw customError(400, "No user id found. Please login again.");
+
+			const { id } = req.params;
+			const { count, prefix, length, alphabet } = req.body;
+
+			if (!mongoose.Types.ObjectId.isValid(id)) {
+				throw customError(400, "Invalid promo ID format");
+			}
+
+			const promo = await Promo.findOne({ _id: id, deleted_at: null })
+				.select("_id")
+				.lean();
+			if (!promo) {
+				throw customError(404, "Promo not found");
+			}
+
+			if (count === undefined || count === null) {
+				throw customError(400, "Count is required");
+			}
+
+			const batch = await generateCampaignCodes(
+				promo._id,
+				{ count, prefix, length, alphabet },
+				userId
+			);
+
+			res.status(201).json({
+				status: 201,
+				message: `${batch.codes.length} campaign codes generated successfully!`,
+				data: {
+					batch_id: batch.batch_id,
+					count: batch.codes.length,
+					codes: batch.codes,
+				},
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
+// GET /api/admin/promos/:id/codes/export (Download campaign codes as CSV)
+router.get(
+	"/:id/codes/export",
+	authenticateAmiUserToken,
+	async (req: AuthenticatedRequest, res, next: NextFunction) => {
+		try {
+			const { id } = req.params;
+
+			if (!mongoose.Types.ObjectId.isValid(id)) {
+				throw customError(400, "Invalid promo ID format");
+			}
+
+			const promo = await Promo.findOne({ _id: id, deleted_at: null })
+				.select("promo_code")
+				.lean();
+			if (!promo) {
+				throw customError(404, "Promo not found");
+			}
+
+			const codes = await PromoCampaignCode.find(
+				buildCampaignCodeFilter(id, req.query)
+			)
+				.populate<{
+					customer_id: { customer_no?: string; email?: string } | null;
+				}>("customer_id", "customer_no email")
+				.populate<{
+					booking_id: { booking_reference?: string } | null;
+				}>("booking_id", "booking_reference")
+				.sort({ batch_id: 1, code: 1 })
+				.lean();
+
+			const header = [
+				"code",
+				"status",
+				"batch_id",
+				"customer_no",
+				"customer_email",
+				"booking_reference",
+				"redeemed_at",
+				"created_at",
+			];
+			const rows = codes.map((code) =>
+				[
+					code.code,
+					code.status,
+					code.batch_id,
+					code.customer_id?.customer_no,
+					code.customer_id?.email,
+					code.booking_id?.booking_reference,
+					code.redeemed_at?.toISOString(),
+					code.created_at?.toISOString(),
+				]
+					.map(toCsvField)
+					.join(",")
+			);
+
+			res.setHeader("Content-Type", "text/csv; charset=utf-8");
+			res.setHeader(
+				"Content-Disposition",
+				`attachment; filename="${promo.promo_code}-codes.csv"`
+			);
+			res.status(200).send([header.join(","), ...rows].join("\r\n"));
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
+// GET /api/admin/promos/:id/codes (Campaign codes and their redemption status)
+router.get(
+	"/:id/codes",
+	authenticateAmiUserToken,
+	async (
+		req: AuthenticatedRequest,
+		res: TypedResponse<CampaignCodeListResponse>,
+		next: NextFunction
+	) => {
+		try {
+			const { id } = req.params;
+			const { page = 1, limit = 20 } = req.query;
+
+			if (!mongoose.Types.ObjectId.isValid(id)) {
+				throw customError(400, "Invalid promo ID format");
+			}
+
+			const promo = await Promo.exists({ _id: id, deleted_at: null });
+			if (!promo) {
+				throw customError(404, "Promo not found");
+			}
+
+			const pageNum = Math.max(parseInt(page as string) || 1, 1);
+			const limitNum = Math.min(
+				Math.max(parseInt(limit as string) || 20, 1),
+				100
+			);
+			const skip = (pageNum - 1) * limitNum;
+
+			const filter = buildCampaignCodeFilter(id, req.query);
+
+			const [codes, totalCount, totals] = await Promise.all([
+				PromoCampaignCode.find(filter)
+					.populate("customer_id", "customer_no first_name last_name email")
+					.populate("booking_id", "booking_reference booking_date status")
+					.sort({ created_at: -1, code: 1 })
+					.skip(skip)
+					.limit(limitNum)
+					.lean(),
+				PromoCampaignCode.countDocuments(filter),
+				PromoCampaignCode.aggregate<{ _id: string; count: number }>([
+					{ $match: { promo_id: new Types.ObjectId(id) } },
+					{ $group: { _id: "$status", count: { $sum: 1 } } },
+				]),
+			]);
+
+			const available = totals.find((t) => t._id === "Available")?.count ?? 0;
+			const redeemed = totals.find((t) => t._id === "Redeemed")?.count ?? 0;
+
+			res.status(200).json({
+				status: 200,
+				message: "Campaign codes fetched successfully!",
+				data: {
+					codes,
+					summary: {
+						total_codes: available + redeemed,
+						available_count: available,
+						redeemed_count: redeemed,
+					},
+					pagination: {
+						current_page: pageNum,
+						total_pages: Math.ceil(totalCount / limitNum),
+						total_items: totalCount,
+						items_per_page: limitNum,
+					},
+				},
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
 // PUT /api/admin/promos/:id (Update promo)
 router.patch(
 	"/:id",
@@ -763,13 +1155,18 @@ router.patch(
 				updateData.promo_code &&
 				updateData.promo_code.toUpperCase() !== promo.promo_code
 			) {
-				const existingPromo = await Promo.findOne({
-					promo_code: updateData.promo_code.toUpperCase(),
-					deleted_at: null,
-					_id: { $ne: promo._id },
-				});
+				const [existingPromo, existingCampaignCode] = await Promise.all([
+					Promo.findOne({
+						promo_code: updateData.promo_code.toUpperCase(),
+						deleted_at: null,
+						_id: { $ne: promo._id },
+					}),
+					PromoCampaignCode.exists({
+						code: updateData.promo_code.toUpperCase(),
+					}),
+				]);
 
-				if (existingPromo) {
+				if (existingPromo || existingCampaignCode) {
 					throw customError(400, "Promo code already exists");
 				}
 			}
@@ -791,9 +1188,12 @@ router.patch(
 				}
 			}
 
-			// Update fields
+			// Update fields (usage_count is maintained by the redemption ledger,
+			// is_campaign by code generation)
 			Object.keys(updateData).forEach((key) => {
-				if (key === "promo_code" && updateData[key]) {
+				if (key === "usage_count" || key === "is_campaign") {
+					return;
+				} else if (key === "promo_code" && updateData[key]) {
 					promo[key] = updateData[key]!.toUpperCase();
 				} else if (key === "valid_from" || key === "valid_until") {
 					promo[key] = new Date(updateData[key] as string);
@@ -823,8 +1223,13 @@ router.patch(
 				valid_until: promo.valid_until,
 				usage_limit: promo.usage_limit,
 				usage_count: promo.usage_count,
+				per_customer_limit: promo.per_customer_limit,
+				is_stackable: promo.is_stackable,
+				stacking_priority: promo.stacking_priority,
+				is_campaign: promo.is_campaign,
 				is_active: promo.is_active,
 				conditions: promo.conditions,
+				eligibility_rules: promo.eligibility_rules,
 				created_at: promo.created_at,
 				updated_at: promo.updated_at,
 				created_by: promo.created_by,
@@ -945,8 +1350,13 @@ router.post(
 				valid_until: promo.valid_until,
 				usage_limit: promo.usage_limit,
 				usage_count: promo.usage_count,
+				per_customer_limit: promo.per_customer_limit,
+				is_stackable: promo.is_stackable,
+				stacking_priority: promo.stacking_priority,
+				is_campaign: promo.is_campaign,
 				is_active: promo.is_active,
 				conditions: promo.conditions,
+				eligibility_rules: promo.eligibility_rules,
 				created_at: promo.created_at,
 				updated_at: promo.updated_at,
 				created_by: promo.created_by,
@@ -1014,8 +1424,13 @@ router.post(
 				valid_until: promo.valid_until,
 				usage_limit: promo.usage_limit,
 				usage_count: promo.usage_count,
+				per_customer_limit: promo.per_customer_limit,
+				is_stackable: promo.is_stackable,
+				stacking_priority: promo.stacking_priority,
+				is_campaign: promo.is_campaign,
 				is_active: promo.is_active,
 				conditions: promo.conditions,
+				eligibility_rules: promo.eligibility_rules,
 				created_at: promo.created_at,
 				updated_at: promo.updated_at,
 				created_by: promo.created_by,
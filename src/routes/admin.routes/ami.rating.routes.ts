@@ -1,17 +1,25 @@
 import { Router, NextFunction } from "express";
 import mongoose, { Types } from "mongoose";
-import { Rating, RatableType } from "../../models/Rating";
+import {
+	Rating,
+	RatableType,
+	RatingModerationStatus,
+	RatingReport,
+} from "../../models/Rating";
 import { Service, ServiceModel } from "../../models/Service";
 import { Package, PackageModel } from "../../models/Package";
+import { Photographer, PhotographerModel } from "../../models/Photographer";
 import {
 	authenticateAmiUserToken,
 	AuthenticatedRequest,
 } from "../../middleware/authAmiMiddleware";
-import { TypedResponse } from "../../types/base.types";
+import { PaginatedResponse, TypedResponse } from "../../types/base.types";
 import { customError } from "../../middleware/errorHandler";
 import { UserModel } from "../../models/User";
 import { CustomerModel } from "../../models/Customer";
 import { BookingModel } from "../../models/Booking";
+import { toRatingAnalytics } from "../../utils/ratingAggregates";
+import { parseListQuery, toPagination } from "../../utils/listQuery";
 
 const router = Router();
 
@@ -39,6 +47,12 @@ type PopulatedRating = Omit<
 		response?: string | null;
 		responded_at?: Date | null;
 		responded_by?: Types.ObjectId | null;
+		moderation_status: RatingModerationStatus;
+		moderation_flags: string[];
+		moderation_note?: string | null;
+		moderated_at?: Date | null;
+		reports: RatingReport[];
+		report_count: number;
 		created_at: Date;
 		updated_at: Date;
 		is_active: boolean;
@@ -55,6 +69,10 @@ interface RespondToRatingBody {
 	response: string;
 }
 
+interface ModerateRatingBody {
+	note?: string;
+}
+
 interface RatingAnalytics {
 	total_ratings: number;
 	average_rating: number;
@@ -175,6 +193,53 @@ function calculateRatingAnalytics(ratings: PopulatedRating[]): RatingAnalytics {
 	};
 }
 
+// Ratings saved before moderation existed have no status and count as published
+const isPublished = (rating: PopulatedRating) =>
+	(rating.moderation_status ?? RatingModerationStatus.PUBLISHED) ===
+	RatingModerationStatus.PUBLISHED;
+
+// Set a rating's moderation status (the Rating middleware refreshes aggregates)
+async function moderateRating(
+	id: string,
+	status: RatingModerationStatus,
+	userId: string,
+	note: string | null
+): Promise<PopulatedRating> {
+	if (!mongoose.Types.ObjectId.isValid(id)) {
+		throw customError(400, "Invalid rating ID");
+	}
+
+	if (note && note.length > 500) {
+		throw customError(400, "Moderation note cannot exceed 500 characters");
+	}
+
+	const rating = await Rating.findOneAndUpdate(
+		{ _id: id, is_active: true },
+		{
+			moderation_status: status,
+			moderation_note: note,
+			moderated_at: new Date(),
+			moderated_by: new Types.ObjectId(userId),
+			updated_by: new Types.ObjectId(userId),
+		},
+		{ new: true }
+	);
+
+	if (!rating) {
+		throw customError(404, "Rating not found");
+	}
+
+	const populatedRating = await Rating.findById(rating._id)
+		.populate(ratingPopulation)
+		.lean<PopulatedRating>();
+
+	if (!populatedRating) {
+		throw customError(500, "Failed to retrieve moderated rating");
+	}
+
+	return populatedRating;
+}
+
 // ============================================================================
 // ADMIN ENDPOINTS
 // ============================================================================
@@ -189,10 +254,25 @@ router.get(
 	authenticateAmiUserToken,
 	async (
 		req: AuthenticatedRequest,
-		res: TypedResponse<PopulatedRating[]>,
+		res: TypedResponse<PaginatedResponse<"ratings", PopulatedRating>>,
 		next: NextFunction
 	) => {
 		try {
+			// status filters by moderation status (moderation_status still works)
+			const list = parseListQuery(
+				{
+					...req.query,
+					status: req.query.status ?? req.query.moderation_status,
+				},
+				{
+					sortFields: ["created_at", "updated_at", "rating", "report_count"],
+					defaultSort: "created_at",
+					searchFields: ["comment", "response"],
+					dateField: "created_at",
+					statusField: "moderation_status",
+					statusValues: Object.values(RatingModerationStatus),
+				}
+			);
 			const {
 				ratable_type,
 				ratable_id,
@@ -205,7 +285,7 @@ router.get(
 				is_active,
 			} = req.query;
 
-			const filter: Record<string, unknown> = {};
+			const filter: Record<string, unknown> = { ...list.filter };
 
 			if (ratable_type) filter.ratable_type = ratable_type;
 			if (ratable_id && mongoose.Types.ObjectId.isValid(ratable_id as string))
@@ -233,14 +313,100 @@ router.get(
 
 			if (is_active !== undefined) filter.is_active = is_active === "true";
 
-			const ratings = await Rating.find(filter)
+			const [ratings, totalCount] = await Promise.all([
+				Rating.find(filter)
+					.populate(ratingPopulation)
+					.sort(list.sort)
+					.skip(list.skip)
+					.limit(list.limit)
+					.lean<PopulatedRating[]>(),
+				Rating.countDocuments(filter),
+			]);
+
+			res.status(200).json({
+				status: 200,
+				message: "Ratings fetched successfully!",
+				data: {
+					ratings,
+					pagination: toPagination(list, totalCount),
+				},
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
+/**
+ * @route   GET /admin/ratings/needs-response
+ * @desc    Get all ratings that haven't been responded to
+ * @access  Admin
+ */
+router.get(
+	"/needs-response",
+	authenticateAmiUserToken,
+	async (
+		req: AuthenticatedRequest,
+		res: TypedResponse<PopulatedRating[]>,
+		next: NextFunction
+	) => {
+		try {
+			const ratings = await Rating.find({
+				is_active: true,
+				response: null,
+			})
 				.populate(ratingPopulation)
 				.sort({ created_at: -1 })
 				.lean<PopulatedRating[]>();
 
 			res.status(200).json({
 				status: 200,
-				message: "Ratings fetched successfully!",
+				message: "Ratings needing response retrieved successfully",
+				data: ratings,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
+/**
+ * @route   GET /admin/ratings/moderation-queue
+ * @desc    Get ratings waiting for a moderator (pending and flagged)
+ * @access  Admin
+ */
+router.get(
+	"/moderation-queue",
+	authenticateAmiUserToken,
+	async (
+		req: AuthenticatedRequest,
+		res: TypedResponse<PopulatedRating[]>,
+		next: NextFunction
+	) => {
+		try {
+			const { status } = req.query;
+
+			const queueStatuses = [
+				RatingModerationStatus.PENDING,
+				RatingModerationStatus.FLAGGED,
+			];
+
+			if (status && !queueStatuses.includes(status as RatingModerationStatus)) {
+				throw customError(400, `Invalid queue status: ${status}`);
+			}
+
+			// Most reported first, then oldest first
+			const ratings = await Rating.find({
+				is_active: true,
+				moderation_status: status ? status : { $in: queueStatuses },
+			})
+				.populate(ratingPopulation)
+				.sort({ report_count: -1, created_at: 1 })
+				.lean<PopulatedRating[]>();
+
+			res.status(200).json({
+				status: 200,
+				message: "Moderation queue retrieved successfully",
 				data: ratings,
 			});
 		} catch (error) {
@@ -554,6 +720,7 @@ router.get(
 			overall: RatingAnalytics;
 			by_service: ServiceRatingAnalytics[];
 			by_package: ServiceRatingAnalytics[];
+			by_photographer: ServiceRatingAnalytics[];
 		}>,
 		next: NextFunction
 	) => {
@@ -614,9 +781,36 @@ router.get(
 				});
 			}
 
+			// Analytics by photographer
+			const photographerRatings = allRatings.filter(
+				(r) => r.ratable_type === RatableType.PHOTOGRAPHER
+			);
+			const photographerIds = [
+				...new Set(
+					photographerRatings.map((r) => r.ratable_id._id.toString())
+				),
+			];
+
+			const by_photographer: ServiceRatingAnalytics[] = [];
+			for (const photographerId of photographerIds) {
+				const ratings = photographerRatings.filter(
+					(r) => r.ratable_id._id.toString() === photographerId
+				);
+				const analytics = calculateRatingAnalytics(ratings);
+				const photographer = ratings[0].ratable_id;
+
+				by_photographer.push({
+					service_id: photographerId,
+					service_name: photographer.name,
+					...analytics,
+					recent_ratings: ratings.slice(0, 5),
+				});
+			}
+
 			// Sort by average rating
 			by_service.sort((a, b) => b.average_rating - a.average_rating);
 			by_package.sort((a, b) => b.average_rating - a.average_rating);
+			by_photographer.sort((a, b) => b.average_rating - a.average_rating);
 
 			res.status(200).json({
 				status: 200,
@@ -625,6 +819,7 @@ router.get(
 					overall,
 					by_service,
 					by_package,
+					by_photographer,
 				},
 			});
 		} catch (error) {
@@ -672,8 +867,11 @@ router.get(
 				.sort({ created_at: -1 })
 				.lean<PopulatedRating[]>();
 
-			// Calculate analytics
-			const analytics = calculateRatingAnalytics(ratings);
+			// Public totals come from the aggregates cached on the service
+			const analytics = toRatingAnalytics(
+				service,
+				ratings.filter(isPublished)
+			);
 
 			res.status(200).json({
 				status: 200,
@@ -730,8 +928,11 @@ router.get(
 				.sort({ created_at: -1 })
 				.lean<PopulatedRating[]>();
 
-			// Calculate analytics
-			const analytics = calculateRatingAnalytics(ratings);
+			// Public totals come from the aggregates cached on the package
+			const analytics = toRatingAnalytics(
+				pkg,
+				ratings.filter(isPublished)
+			);
 
 			res.status(200).json({
 				status: 200,
@@ -749,31 +950,140 @@ router.get(
 );
 
 /**
- * @route   GET /admin/ratings/needs-response
- * @desc    Get all ratings that haven't been responded to
+ * @route   GET /admin/ratings/analytics/photographer/:photographerId
+ * @desc    Get detailed analytics for a specific photographer
  * @access  Admin
  */
 router.get(
-	"/needs-response",
+	"/analytics/photographer/:photographerId",
 	authenticateAmiUserToken,
 	async (
-		req: AuthenticatedRequest,
-		res: TypedResponse<PopulatedRating[]>,
+		req: AuthenticatedRequest<{ photographerId: string }>,
+		res: TypedResponse<{
+			photographer: PhotographerModel;
+			analytics: RatingAnalytics;
+			ratings: PopulatedRating[];
+		}>,
 		next: NextFunction
 	) => {
 		try {
+			const { photographerId } = req.params;
+
+			if (!mongoose.Types.ObjectId.isValid(photographerId)) {
+				throw customError(400, "Invalid photographer ID format");
+			}
+
+			// Verify photographer exists
+			const photographer = await Photographer.findById(photographerId);
+
+			if (!photographer) {
+				throw customError(404, "Photographer not found");
+			}
+
 			const ratings = await Rating.find({
+				ratable_type: RatableType.PHOTOGRAPHER,
+				ratable_id: new Types.ObjectId(photographerId),
 				is_active: true,
-				response: null,
 			})
 				.populate(ratingPopulation)
 				.sort({ created_at: -1 })
 				.lean<PopulatedRating[]>();
 
+			// Public totals come from the aggregates cached on the photographer
+			const analytics = toRatingAnalytics(
+				photographer,
+				ratings.filter(isPublished)
+			);
+
 			res.status(200).json({
 				status: 200,
-				message: "Ratings needing response retrieved successfully",
-				data: ratings,
+				message: "Photographer analytics retrieved successfully",
+				data: {
+					photographer,
+					analytics,
+					ratings,
+				},
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
+/**
+ * @route   POST /admin/ratings/:id/approve
+ * @desc    Admin publishes a pending, flagged or hidden rating
+ * @access  Admin
+ */
+router.post(
+	"/:id/approve",
+	authenticateAmiUserToken,
+	async (
+		req: AuthenticatedRequest<{ id: string }, {}, ModerateRatingBody>,
+		res: TypedResponse<PopulatedRating>,
+		next: NextFunction
+	) => {
+		try {
+			const userId = req.user?._id;
+
+			if (!userId) {
+				throw customError(400, "Please login again.");
+			}
+
+			const rating = await moderateRating(
+				req.params.id,
+				RatingModerationStatus.PUBLISHED,
+				userId,
+				req.body?.note?.trim() || null
+			);
+
+			res.status(200).json({
+				status: 200,
+				message: "Rating approved and published!",
+				data: rating,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
+/**
+ * @route   POST /admin/ratings/:id/hide
+ * @desc    Admin hides a rating from public view
+ * @access  Admin
+ */
+router.post(
+	"/:id/hide",
+	authenticateAmiUserToken,
+	async (
+		req: AuthenticatedRequest<{ id: string }, {}, ModerateRatingBody>,
+		res: TypedResponse<PopulatedRating>,
+		next: NextFunction
+	) => {
+		try {
+			const userId = req.user?._id;
+			const note = req.body?.note?.trim();
+
+			if (!userId) {
+				throw customError(400, "Please login again.");
+			}
+
+			if (!note) {
+				throw customError(400, "A note explaining why is required");
+			}
+
+			const rating = await moderateRating(
+				req.params.id,
+				RatingModerationStatus.HIDDEN,
+				userId,
+				note
+			);
+
+			res.status(200).json({
+				status: 200,
+				message: "Rating hidden successfully!",
+				data: rating,
 			});
 		} catch (error) {
 			next(error);
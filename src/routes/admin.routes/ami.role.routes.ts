@@ -1,82 +1,380 @@
-import { Router } from "express";
-import { Role } from "../../models/Role";
+import { Router, Request, NextFunction } from "express";
+import mongoose, { Types } from "mongoose";
+import { Role, RoleModel } from "../../models/Role";
+import { Permission } from "../../models/Permission";
+import { User } from "../../models/User";
+import { Photographer } from "../../models/Photographer";
+import {
+	RolePermissionHistory,
+	RolePermissionHistoryModel,
+} from "../../models/RolePermissionHistory";
+import {
+	AuthenticatedRequest,
+	authenticateAmiUserToken,
+} from "../../middleware/authAmiMiddleware";
+import { customError } from "../../middleware/errorHandler";
+import { TypedResponse } from "../../types/base.types";
+import {
+	getRouteAccessForPermissions,
+	RoleRouteAccess,
+} from "../../utils/routePermissions";
 
 const router = Router();
 
+type RoleResponse = {
+	_id: string;
+	name: string;
+	description?: string;
+	permissions: string[];
+	is_active?: boolean;
+};
+
+type RoleRoutesResponse = {
+	role_id: string;
+	name: string;
+	is_active?: boolean;
+	routes: RoleRouteAccess[];
+};
+
+// ---------------------------
+// HELPERS
+// ---------------------------
+const toRoleResponse = (role: RoleModel): RoleResponse => ({
+	_id: (role._id as Types.ObjectId).toString(),
+	name: role.name,
+	description: role.description,
+	permissions: role.permissions,
+	is_active: role.is_active,
+});
+
+// Role permissions must be unique, existing Permission keys
+const validatePermissionKeys = async (permissions: unknown) => {
+	if (!Array.isArray(permissions)) {
+		throw customError(400, "Permissions must be an array of permission keys");
+	}
+
+	if (permissions.some((key) => typeof key !== "string" || !key.trim())) {
+		throw customError(400, "Permission keys must be non-empty strings");
+	}
+
+	const keys = [...new Set(permissions.map((key: string) => key.trim()))];
+
+	const existing = await Permission.find({ key: { $in: keys } })
+		.select("key")
+		.lean();
+	const existingKeys = new Set(existing.map((permission) => permission.key));
+	const unknownKeys = keys.filter((key) => !existingKeys.has(key));
+
+	if (unknownKeys.length > 0) {
+		throw customError(400, `Unknown permissions: ${unknownKeys.join(", ")}`);
+	}
+
+	return keys;
+};
+
+const recordPermissionChange = async (
+	role: RoleModel,
+	action: RolePermissionHistoryModel["action"],
+	previous: string[],
+	next: string[],
+	changedBy?: string
+) => {
+	const added = next.filter((key) => !previous.includes(key));
+	const removed = previous.filter((key) => !next.includes(key));
+
+	if (action === "Updated" && added.length === 0 && removed.length === 0) {
+		return;
+	}
+
+	await RolePermissionHistory.create({
+		role_id: role._id,
+		role_name: role.name,
+		action,
+		added_permissions: added,
+		removed_permissions: removed,
+		changed_by: changedBy ? new Types.ObjectId(changedBy) : null,
+	});
+};
+
 // GET all roles
-router.get("/", async (req, res, next) => {
-	try {
-		const roles = await Role.find();
-
-		const parsedRoles = roles.map((role) => {
-			return {
-				_id: role._id,
-				name: role.name,
-				description: role.description,
-				permissions: role.permissions,
-				is_active: role.is_active,
-			};
-		});
-
-		res.json({ status: "Success", data: parsedRoles });
-	} catch (error) {
-		next(error);
+router.get(
+	"/",
+	authenticateAmiUserToken,
+	async (req: Request, res: TypedResponse<RoleResponse[]>, next: NextFunction) => {
+		try {
+			const roles = await Role.find();
+
+			res.status(200).json({
+				status: 200,
+				message: "Roles fetched successfully",
+				data: roles.map(toRoleResponse),
+			});
+		} catch (error) {
+			next(error);
+		}
 	}
-});
+);
+
+// GET admin routes a role can reach
+router.get(
+	"/:id/routes",
+	authenticateAmiUserToken,
+	async (
+		req: Request,
+		res: TypedResponse<RoleRoutesResponse>,
+		next: NextFunction
+	) => {
+		try {
+			const { id } = req.params;
+
+			if (!mongoose.Types.ObjectId.isValid(id)) {
+				throw customError(400, "Invalid role ID format");
+			}
+
+			const role = await Role.findById(id);
+			if (!role) {
+				throw customError(404, "Role not found");
+			}
+
+			res.status(200).json({
+				status: 200,
+				message: "Role routes fetched successfully",
+				data: {
+					role_id: (role._id as Types.ObjectId).toString(),
+					name: role.name,
+					is_active: role.is_active,
+					routes: getRouteAccessForPermissions(role.permissions),
+				},
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
+// GET permission change history of a role
+router.get(
+	"/:id/history",
+	authenticateAmiUserToken,
+	async (
+		req: Request,
+		res: TypedResponse<RolePermissionHistoryModel[]>,
+		next: NextFunction
+	) => {
+		try {
+			const { id } = req.params;
+
+			if (!mongoose.Types.ObjectId.isValid(id)) {
+				throw customError(400, "Invalid role ID format");
+			}
+
+			const history = await RolePermissionHistory.find({ role_id: id })
+				.populate({
+					path: "changed_by",
+					select: "first_name last_name email",
+				})
+				.sort({ created_at: -1 })
+				.lean<RolePermissionHistoryModel[]>();
+
+			res.status(200).json({
+				status: 200,
+				message: "Role history fetched successfully",
+				data: history,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+);
 
 // GET role by ID
-router.get("/:id", async (req, res, next) => {
-	try {
-		const role = await Role.findById(req.params.id);
-		if (!role)
-			return res
-				.status(404)
-				.json({ status: "Error", message: "Role not found" });
-		res.json({ status: "Success", data: role });
-	} catch (error) {
-		next(error);
+router.get(
+	"/:id",
+	authenticateAmiUserToken,
+	async (req: Request, res: TypedResponse<RoleResponse>, next: NextFunction) => {
+		try {
+			const { id } = req.params;
+
+			if (!mongoose.Types.ObjectId.isValid(id)) {
+				throw customError(400, "Invalid role ID format");
+			}
+
+			const role = await Role.findById(id);
+			if (!role) {
+				throw customError(404, "Role not found");
+			}
+
+			res.status(200).json({
+				status: 200,
+				message: "Role fetched successfully",
+				data: toRoleResponse(role),
+			});
+		} catch (error) {
+			next(error);
+		}
 	}
-});
+);
 
 // CREATE role
-router.post("/", async (req, res, next) => {
-	try {
-		const role = new Role(req.body);
-		await role.save();
-		res.status(201).json({ status: "Success", data: role });
-	} catch (error) {
-		next(error);
+router.post(
+	"/",
+	authenticateAmiUserToken,
+	async (
+		req: AuthenticatedRequest,
+		res: TypedResponse<RoleResponse>,
+		next: NextFunction
+	) => {
+		try {
+			const { name, description, permissions = [], is_active } = req.body;
+
+			if (!name || !String(name).trim()) {
+				throw customError(400, "Role name is required");
+			}
+
+			const permissionKeys = await validatePermissionKeys(permissions);
+
+			const role = await Role.create({
+				name: String(name).trim(),
+				description,
+				permissions: permissionKeys,
+				is_active: is_active ?? true,
+				created_by: req.user?._id ? new Types.ObjectId(req.user._id) : null,
+			});
+
+			await recordPermissionChange(
+				role,
+				"Created",
+				[],
+				permissionKeys,
+				req.user?._id
+			);
+
+			res.status(201).json({
+				status: 201,
+				message: "Role created successfully",
+				data: toRoleResponse(role),
+			});
+		} catch (error) {
+			next(error);
+		}
 	}
-});
+);
 
 // UPDATE role
-router.put("/:id", async (req, res, next) => {
-	try {
-		const role = await Role.findByIdAndUpdate(req.params.id, req.body, {
-			new: true,
-		});
-		if (!role)
-			return res
-				.status(404)
-				.json({ status: "Error", message: "Role not found" });
-		res.json({ status: "Success", data: role });
-	} catch (error) {
-		next(error);
+router.put(
+	"/:id",
+	authenticateAmiUserToken,
+	async (
+		req: AuthenticatedRequest,
+		res: TypedResponse<RoleResponse>,
+		next: NextFunction
+	) => {
+		try {
+			const { id } = req.params;
+			const { name, description, permissions, is_active } = req.body;
+
+			if (!mongoose.Types.ObjectId.isValid(id)) {
+				throw customError(400, "Invalid role ID format");
+			}
+
+			const role = await Role.findById(id);
+			if (!role) {
+				throw customError(404, "Role not found");
+			}
+
+			const previousPermissions = [...role.permissions];
+
+			// Only these fields can be changed through the API
+			if (name !== undefined) {
+				if (!String(name).trim()) {
+					throw customError(400, "Role name cannot be empty");
+				}
+				role.name = String(name).trim();
+			}
+			if (description !== undefined) role.description = description;
+			if (is_active !== undefined) role.is_active = Boolean(is_active);
+			if (permissions !== undefined) {
+				role.permissions = await validatePermissionKeys(permissions);
+			}
+
+			if (req.user?._id) {
+				role.updated_by = new Types.ObjectId(req.user._id);
+			}
+
+			await role.save();
+
+			await recordPermissionChange(
+				role,
+				"Updated",
+				previousPermissions,
+				role.permissions,
+				req.user?._id
+			);
+
+			res.status(200).json({
+				status: 200,
+				message: "Role updated successfully",
+				data: toRoleResponse(role),
+			});
+		} catch (error) {
+			next(error);
+		}
 	}
-});
+);
 
 // DELETE role
-router.delete("/:id", async (req, res, next) => {
-	try {
-		const role = await Role.findByIdAndDelete(req.params.id);
-		if (!role)
-			return res
-				.status(404)
-				.json({ status: "Error", message: "Role not found" });
-		res.json({ status: "Success", message: "Role deleted" });
-	} catch (error) {
-		next(error);
+router.delete(
+	"/:id",
+	authenticateAmiUserToken,
+	async (
+		req: AuthenticatedRequest,
+		res: TypedResponse<null>,
+		next: NextFunction
+	) => {
+		try {
+			const { id } = req.params;
+
+			if (!mongoose.Types.ObjectId.isValid(id)) {
+				throw customError(400, "Invalid role ID format");
+			}
+
+			const role = await Role.findById(id);
+			if (!role) {
+				throw customError(404, "Role not found");
+			}
+
+			// Deleting an assigned role would leave accounts without permissions
+			const [userCount, photographerCount] = await Promise.all([
+				User.countDocuments({ role_id: role._id }),
+				Photographer.countDocuments({ role_id: role._id }),
+			]);
+
+			if (userCount > 0 || photographerCount > 0) {
+				throw customError(
+					409,
+					`Role is still assigned to ${userCount} user(s) and ${photographerCount} photographer(s). Reassign them before deleting this role.`
+				);
+			}
+
+			await role.deleteOne();
+
+			await recordPermissionChange(
+				role,
+				"Deleted",
+				role.permissions,
+				[],
+				req.user?._id
+			);
+
+			res.status(200).json({
+				status: 200,
+				message: "Role deleted successfully",
+				data: null,
+			});
+		} catch (error) {
+			next(error);
+		}
 	}
-});
+);
 
 export default router;
@@ -7,6 +7,8 @@ import {
 	authenticateAmiUserToken,
 } from "../../middleware/authAmiMiddleware";
 import { customError } from "../../middleware/errorHandler";
+import { PaymentTerms } from "../../models/PaymentSchedule";
+import { parsePaymentTerms } from "../../utils/paymentSchedule";
 
 const router = Router();
 
@@ -24,6 +26,7 @@ interface ServiceLean {
 	duration_minutes?: number | null;
 	is_available: boolean;
 	service_gallery: string[];
+	payment_terms?: PaymentTerms | null;
 	is_active: boolean;
 	created_at: Date;
 	updated_at: Date;
@@ -45,6 +48,7 @@ type ServiceResponse = MetaData & {
 	duration_minutes?: number | null;
 	is_available: boolean;
 	service_gallery: string[];
+	payment_terms?: PaymentTerms | null;
 };
 
 type ServiceListResponse = {
@@ -57,6 +61,7 @@ type ServiceListResponse = {
 	duration_minutes?: number | null;
 	is_available: boolean;
 	service_gallery: string[];
+	payment_terms?: PaymentTerms | null;
 };
 
 // ============================================================================
@@ -99,7 +104,6 @@ function convertToListResponse(service: ServiceLean): ServiceListResponse {
 router.get(
 	"/",
 	authenticateAmiUserToken,
-	// requirePermission("service:read"),
 	async (
 		req: Request,
 		res: TypedResponse<ServiceResponse[]>,
@@ -285,7 +289,6 @@ router.get(
 router.post(
 	"/",
 	authenticateAmiUserToken,
-	// requirePermission("service:create"),
 	async (
 		req: AuthenticatedRequest,
 		res: TypedResponse<ServiceResponse>,
@@ -301,6 +304,7 @@ router.post(
 				duration_minutes,
 				is_available,
 				service_gallery,
+				payment_terms,
 			} = req.body;
 
 			const userId = req.user?._id;
@@ -370,6 +374,8 @@ router.post(
 				throw customError(400, "Invalid category");
 			}
 
+			const paymentTerms = parsePaymentTerms(payment_terms);
+
 			// Check if service name already exists (excluding soft-deleted)
 			const existingService = await Service.findOne({
 				name: name.trim(),
@@ -390,6 +396,7 @@ router.post(
 					duration_minutes !== undefined ? duration_minutes : null,
 				is_available: is_available !== undefined ? is_available : true,
 				service_gallery: service_gallery || [],
+				payment_terms: paymentTerms,
 				is_active: true,
 				created_by: new Types.ObjectId(userId),
 				updated_by: new Types.ObjectId(userId),
@@ -419,7 +426,6 @@ router.post(
 router.patch(
 	"/:id",
 	authenticateAmiUserToken,
-	// requirePermission("service:update"),
 	async (
 		req: AuthenticatedRequest,
 		res: TypedResponse<ServiceResponse>,
@@ -437,6 +443,7 @@ router.patch(
 				is_available,
 				is_active,
 				service_gallery,
+				payment_terms,
 			} = req.body;
 
 			console.log("REQUEST ONLY", service_gallery);
@@ -545,6 +552,8 @@ router.patch(
 			if (is_active !== undefined) service.is_active = is_active;
 			if (service_gallery !== undefined)
 				service.service_gallery = service_gallery;
+			if (payment_terms !== undefined)
+				service.payment_terms = parsePaymentTerms(payment_terms);
 
 			// Track audit info
 			service.updated_by = new Types.ObjectId(userId);
@@ -576,7 +585,6 @@ router.patch(
 router.patch(
 	"/deactivate/:id",
 	authenticateAmiUserToken,
-	// requirePermission("service:update"),
 	async (
 		req: AuthenticatedRequest,
 		res: TypedResponse<null>,
@@ -631,7 +639,6 @@ router.patch(
 router.patch(
 	"/reactivate/:id",
 	authenticateAmiUserToken,
-	// requirePermission("service:update"),
 	async (
 		req: AuthenticatedRequest,
 		res: TypedResponse<null>,
@@ -686,7 +693,6 @@ router.patch(
 router.patch(
 	"/toggle-availability/:id",
 	authenticateAmiUserToken,
-	// requirePermission("service:update"),
 	async (
 		req: AuthenticatedRequest,
 		res: TypedResponse<ServiceResponse>,
@@ -6,12 +6,24 @@ import { customError } from "../../middleware/errorHandler";
 import {
 	TransactionRequest,
 	TransactionRequestModel,
+	TransactionRequestStatusEnum,
 } from "../../models/TransactionRequest";
 import {
 	authenticateAmiUserToken,
 	AuthenticatedRequest,
 } from "../../middleware/authAmiMiddleware";
-import { TypedResponse } from "../../types/base.types";
+import { idempotent } from "../../middleware/idempotencyMiddleware";
+import { PaginatedResponse, TypedResponse } from "../../types/base.types";
+import {
+	ListQueryParams,
+	parseListQuery,
+	toPagination,
+} from "../../utils/listQuery";
+import {
+	assertRefundWithinPolicy,
+	calculateRefundEligibility,
+	RefundEligibility,
+} from "../../utils/refundPolicy";
 
 // ============================================================================
 // POPULATED TYPES
@@ -74,6 +86,7 @@ export type PopulatedTransactionRequestFull = Omit<
 
 export type ApproveRefundRequestBody = {
 	admin_notes?: string;
+	refund_amount?: number; // Lowers the requested amount
 };
 
 export type RejectRefundRequestBody = {
@@ -85,8 +98,7 @@ export type RejectRefundRequestBody = {
 // QUERY TYPES
 // ============================================================================
 
-export type GetTransactionRequestsQuery = {
-	status?: "Pending" | "Approved" | "Rejected";
+export type GetTransactionRequestsQuery = ListQueryParams & {
 	request_type?: "Refund";
 	customer_id?: string;
 };
@@ -96,22 +108,44 @@ export type GetTransactionRequestsQuery = {
 // ============================================================================
 
 async function getAllTransactionRequests(query: GetTransactionRequestsQuery) {
-	const filter: Record<string, any> = { is_active: true };
-	if (query.status) filter.status = query.status;
+	const list = parseListQuery(query, {
+		sortFields: ["created_at", "updated_at", "reviewed_at", "status"],
+		defaultSort: "created_at",
+		searchFields: ["request_reference", "refund_reason"],
+		dateField: "created_at",
+		statusField: "status",
+		statusValues: Object.values(TransactionRequestStatusEnum),
+	});
+
+	const filter: Record<string, any> = { ...list.filter, is_active: true };
 	if (query.request_type) filter.request_type = query.request_type;
-	if (query.customer_id)
+	if (query.customer_id) {
+		if (!Types.ObjectId.isValid(query.customer_id)) {
+			throw customError(400, "Invalid customer ID format");
+		}
 		filter.customer_id = new Types.ObjectId(query.customer_id);
+	}
 
-	return TransactionRequest.find(filter)
-		.populate(
-			"transaction_id",
-			"transaction_reference amount payment_method status"
-		)
-		.populate("booking_id", "booking_reference booking_date start_time status")
-		.populate("customer_id", "first_name last_name email mobile_number")
-		.populate("reviewed_by", "first_name last_name email")
-		.sort({ created_at: -1 })
-		.lean<PopulatedTransactionRequestFull[]>();
+	const [requests, totalCount] = await Promise.all([
+		TransactionRequest.find(filter)
+			.populate(
+				"transaction_id",
+				"transaction_reference amount payment_method status"
+			)
+			.populate(
+				"booking_id",
+				"booking_reference booking_date start_time status"
+			)
+			.populate("customer_id", "first_name last_name email mobile_number")
+			.populate("reviewed_by", "first_name last_name email")
+			.sort(list.sort)
+			.skip(list.skip)
+			.limit(list.limit)
+			.lean<PopulatedTransactionRequestFull[]>(),
+		TransactionRequest.countDocuments(filter),
+	]);
+
+	return { requests, pagination: toPagination(list, totalCount) };
 }
 
 async function getTransactionRequestById(requestId: string) {
@@ -179,6 +213,14 @@ export async function approveRefundRequest(
 		throw customError(400, "Transaction data not found or not populated");
 	}
 
+	// ✅ Prevent invalid state transitions
+	if (request.status !== "Pending") {
+		throw customError(
+			400,
+			`Cannot approve request with status: ${request.status}`
+		);
+	}
+
 	// ✅ Validate transaction state (only completed transactions can be refunded)
 	if (transaction.status !== "Completed") {
 		throw customError(
@@ -187,7 +229,30 @@ export async function approveRefundRequest(
 		);
 	}
 
+	if (body.refund_amount !== undefined) {
+		if (typeof body.refund_amount !== "number" || body.refund_amount <= 0) {
+			throw customError(400, "Refund amount must be greater than 0");
+		}
+		if (body.refund_amount > request.refund_amount) {
+			throw customError(
+				400,
+				`Refund amount cannot exceed the requested ${request.refund_amount}`
+			);
+		}
+		request.refund_amount = body.refund_amount;
+	}
+
+	// ✅ Enforce the cancellation policy tier the customer asked under; a
+	// slow review must not move the request into a lower tier
+	const eligibility = await calculateRefundEligibility(request.booking_id, {
+		at: request.created_at,
+		excludeRequestId: request._id as Types.ObjectId,
+	});
+	assertRefundWithinPolicy(request.refund_amount, eligibility);
+
 	// ✅ Approve the refund request — but DO NOT update transaction yet
+	request.policy_refund_amount = eligibility.available_refund;
+	request.policy_refund_percentage ??= eligibility.refund_percentage;
 	request.status = "Approved";
 	request.reviewed_by = new Types.ObjectId(userId);
 	request.reviewed_at = new Date();
@@ -200,6 +265,24 @@ export async function approveRefundRequest(
 	return await populateTransactionRequest(request._id as Types.ObjectId);
 }
 
+async function getRefundRequestEligibility(
+	requestId: string
+): Promise<RefundEligibility> {
+	if (!mongoose.Types.ObjectId.isValid(requestId)) {
+		throw customError(400, "Invalid request ID format");
+	}
+
+	const request = await TransactionRequest.findById(requestId)
+		.select("booking_id created_at")
+		.lean();
+	if (!request) throw customError(404, "Transaction request not found");
+
+	return calculateRefundEligibility(request.booking_id, {
+		at: request.created_at,
+		excludeRequestId: request._id as Types.ObjectId,
+	});
+}
+
 async function rejectRefundRequest(
 	requestId: string,
 	reviewerId: string,
@@ -273,15 +356,17 @@ router.get(
 	authenticateAmiUserToken,
 	async (
 		req: AuthenticatedRequest<{}, GetTransactionRequestsQuery>,
-		res: TypedResponse<PopulatedTransactionRequestFull[]>,
+		res: TypedResponse<
+			PaginatedResponse<"requests", PopulatedTransactionRequestFull>
+		>,
 		next: NextFunction
 	) => {
 		try {
-			const requests = await getAllTransactionRequests(req.query);
+			const data = await getAllTransactionRequests(req.query);
 			res.status(200).json({
 				status: 200,
 				message: "Transaction requests retrieved successfully",
-				data: requests,
+				data,
 			});
 		} catch (error) {
 			next(error);
@@ -324,6 +409,35 @@ router.get(
 	}
 );
 
+/**
+ * @route   GET /api/admin/transactions/requests/:requestId/refund-eligibility
+ * @desc    Refund the cancellation policy allows for a request, ignoring the
+ *          request's own amount
+ * @access  Admin
+ */
+router.get(
+	"/requests/:requestId/refund-eligibility",
+	authenticateAmiUserToken,
+	async (
+		req: AuthenticatedRequest<{ requestId: string }>,
+		res: TypedResponse<RefundEligibility>,
+		next: NextFunction
+	) => {
+		try {
+			const eligibility = await getRefundRequestEligibility(
+				req.params.requestId
+			);
+			res.status(200).json({
+				status: 200,
+				message: eligibility.message,
+				data: eligibility,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
 /**
  * @route   PATCH /api/admin/transactions/requests/:requestId/approve-refund
  * @desc    Approve a refund request and update the transaction status
@@ -332,6 +446,7 @@ router.get(
 router.patch(
 	"/requests/:requestId/approve-refund",
 	authenticateAmiUserToken,
+	idempotent,
 	async (
 		req: AuthenticatedRequest<
 			{ requestId: string },
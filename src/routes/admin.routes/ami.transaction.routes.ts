@@ -1,13 +1,26 @@
 import { Router, NextFunction } from "express";
 import mongoose, { Types } from "mongoose";
-import { Transaction } from "../../models/Transaction";
+import {
+	Transaction,
+	TransactionStatusEnum,
+} from "../../models/Transaction";
 import { Booking } from "../../models/Booking";
+import { TransactionRequest } from "../../models/TransactionRequest";
 import {
 	authenticateAmiUserToken,
 	AuthenticatedRequest,
 } from "../../middleware/authAmiMiddleware";
-import { TypedResponse } from "../../types/base.types";
+import { PaginatedResponse, TypedResponse } from "../../types/base.types";
 import { customError } from "../../middleware/errorHandler";
+import { idempotent } from "../../middleware/idempotencyMiddleware";
+import { releasePromoRedemptionIfRefunded } from "../../utils/promoRedemption";
+import { parseListQuery, toPagination } from "../../utils/listQuery";
+import {
+	PaymentSyncResult,
+	reconcileOnlinePayment,
+	reconcilePendingOnlinePayments,
+} from "../../utils/paymentGateway";
+import { buildReceiptPdf, buildStatementPdf } from "../../utils/receipts";
 
 const router = Router();
 
@@ -97,6 +110,7 @@ export interface CreateRefundRequest {
 	refund_reason: string;
 	notes?: string;
 	payment_proof_images: string[];
+	transaction_request_id?: string; // Approved refund request being paid out
 }
 
 export interface BookingSummaryResponse {
@@ -222,24 +236,30 @@ router.get(
 	authenticateAmiUserToken,
 	async (
 		req: AuthenticatedRequest,
-		res: TypedResponse<PopulatedTransactionLean[]>,
+		res: TypedResponse<
+			PaginatedResponse<"transactions", PopulatedTransactionLean>
+		>,
 		next: NextFunction
 	) => {
 		try {
+			const list = parseListQuery(req.query, {
+				sortFields: ["transaction_date", "created_at", "amount", "status"],
+				defaultSort: "transaction_date",
+				searchFields: ["transaction_reference", "external_reference"],
+				dateField: "transaction_date",
+				statusField: "status",
+				statusValues: Object.values(TransactionStatusEnum),
+			});
 			const {
-				status,
 				payment_method,
 				transaction_type,
 				booking_id,
 				customer_id,
-				start_date,
-				end_date,
 				is_active,
 			} = req.query;
 
-			const filter: Record<string, unknown> = {};
+			const filter: Record<string, unknown> = { ...list.filter };
 
-			if (status) filter.status = status;
 			if (payment_method) filter.payment_method = payment_method;
 			if (transaction_type) filter.transaction_type = transaction_type;
 
@@ -248,30 +268,26 @@ router.get(
 			if (customer_id && Types.ObjectId.isValid(customer_id as string))
 				filter.customer_id = new Types.ObjectId(customer_id as string);
 
-			if (start_date || end_date) {
-				filter.transaction_date = {};
-				if (start_date)
-					(filter.transaction_date as Record<string, unknown>).$gte = new Date(
-						start_date as string
-					);
-				if (end_date)
-					(filter.transaction_date as Record<string, unknown>).$lte = new Date(
-						end_date as string
-					);
-			}
-
 			if (is_active !== undefined) filter.is_active = is_active === "true";
 
-			const transactions = await Transaction.find(filter)
-				.select("-deleted_by -retrieved_by -deleted_at -retrieved_at")
-				.populate(transactionPopulation)
-				.sort({ transaction_date: -1 })
-				.lean<PopulatedTransactionLean[]>();
+			const [transactions, totalCount] = await Promise.all([
+				Transaction.find(filter)
+					.select("-deleted_by -retrieved_by -deleted_at -retrieved_at")
+					.populate(transactionPopulation)
+					.sort(list.sort)
+					.skip(list.skip)
+					.limit(list.limit)
+					.lean<PopulatedTransactionLean[]>(),
+				Transaction.countDocuments(filter),
+			]);
 
 			res.status(200).json({
 				status: 200,
 				message: "Transactions fetched successfully!",
-				data: transactions,
+				data: {
+					transactions,
+					pagination: toPagination(list, totalCount),
+				},
 			});
 		} catch (error) {
 			next(error);
@@ -319,6 +335,7 @@ router.get(
 router.post(
 	"/",
 	authenticateAmiUserToken,
+	idempotent,
 	async (
 		req: AuthenticatedRequest,
 		res: TypedResponse<PopulatedTransactionLean>,
@@ -472,6 +489,7 @@ router.delete(
 router.patch(
 	"/:transactionId/approve",
 	authenticateAmiUserToken,
+	idempotent,
 	async (
 		req: AuthenticatedRequest,
 		res: TypedResponse<PopulatedTransactionLean>,
@@ -568,6 +586,7 @@ router.patch(
 router.post(
 	"/:id/refund",
 	authenticateAmiUserToken,
+	idempotent,
 	async (
 		req: AuthenticatedRequest,
 		res: TypedResponse<PopulatedTransactionLean>,
@@ -575,8 +594,13 @@ router.post(
 	) => {
 		try {
 			const { id } = req.params;
-			const { refund_amount, refund_reason, notes, payment_proof_images } =
-				req.body as CreateRefundRequest;
+			const {
+				refund_amount,
+				refund_reason,
+				notes,
+				payment_proof_images,
+				transaction_request_id,
+			} = req.body as CreateRefundRequest;
 			const userId = req.user?._id;
 
 			if (!userId) throw customError(400, "Please login again.");
@@ -586,6 +610,41 @@ router.post(
 			const transaction = await Transaction.findById(id);
 			if (!transaction) throw customError(404, "Transaction not found");
 
+			// Paying out an approved request: stay within what was approved
+			let refundRequest = null;
+			if (transaction_request_id) {
+				if (!mongoose.Types.ObjectId.isValid(transaction_request_id)) {
+					throw customError(400, "Invalid transaction request ID format");
+				}
+				refundRequest = await TransactionRequest.findById(
+					transaction_request_id
+				);
+				if (!refundRequest) {
+					throw customError(404, "Transaction request not found");
+				}
+				if (refundRequest.transaction_id.toString() !== id) {
+					throw customError(
+						400,
+						"Transaction request is for a different transaction"
+					);
+				}
+				if (
+					refundRequest.status !== "Approved" ||
+					refundRequest.refund_transaction_id
+				) {
+					throw customError(
+						400,
+						"Only approved requests that have not been refunded can be paid out"
+					);
+				}
+				if (refund_amount > refundRequest.refund_amount) {
+					throw customError(
+						400,
+						`Refund amount cannot exceed the approved ${refundRequest.refund_amount}`
+					);
+				}
+			}
+
 			const refundTransaction = await transaction.createRefund(
 				refund_amount,
 				refund_reason,
@@ -598,6 +657,15 @@ router.post(
 				// await refundTransaction.save();
 			}
 
+			if (refundRequest) {
+				refundRequest.refund_transaction_id =
+					refundTransaction._id as Types.ObjectId;
+				refundRequest.updated_by = new Types.ObjectId(userId);
+				await refundRequest.save();
+			}
+
+			await releasePromoRedemptionIfRefunded(transaction.booking_id);
+
 			const refundTransactionData = await Transaction.findById(
 				refundTransaction._id
 			)
@@ -623,6 +691,78 @@ router.post(
 	}
 );
 
+// ============================================================================
+// RECONCILIATION ROUTES
+// ============================================================================
+
+/**
+ * POST /admin/transactions/reconcile
+ * Check pending online payments against their providers, for webhooks that
+ * never arrived
+ */
+router.post(
+	"/reconcile",
+	authenticateAmiUserToken,
+	async (
+		req: AuthenticatedRequest,
+		res: TypedResponse<{
+			results: PaymentSyncResult[];
+			errors: { transaction_reference: string; message: string }[];
+		}>,
+		next: NextFunction
+	) => {
+		try {
+			const reconciled = await reconcilePendingOnlinePayments();
+
+			res.status(200).json({
+				status: 200,
+				message: `Reconciled ${reconciled.results.length} online payment(s)${
+					reconciled.errors.length
+						? `, ${reconciled.errors.length} could not be checked`
+						: ""
+				}`,
+				data: reconciled,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
+/**
+ * POST /admin/transactions/:id/reconcile
+ * Update one online payment from its provider's current status
+ */
+router.post(
+	"/:id/reconcile",
+	authenticateAmiUserToken,
+	async (
+		req: AuthenticatedRequest,
+		res: TypedResponse<PaymentSyncResult>,
+		next: NextFunction
+	) => {
+		try {
+			const { id } = req.params;
+
+			if (!mongoose.Types.ObjectId.isValid(id))
+				throw customError(400, "Invalid transaction ID");
+
+			const transaction = await Transaction.findById(id);
+			if (!transaction) throw customError(404, "Transaction not found");
+
+			const result = await reconcileOnlinePayment(transaction);
+
+			res.status(200).json({
+				status: 200,
+				message: `Transaction reconciled (${result.outcome})`,
+				data: result,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
 // ============================================================================
 // SUMMARY ROUTES
 // ============================================================================
@@ -700,4 +840,68 @@ router.get(
 	}
 );
 
+// ============================================================================
+// DOCUMENT ROUTES
+// ============================================================================
+
+/**
+ * GET /admin/transactions/booking/:bookingId/statement
+ * Download a booking's statement of account as a PDF
+ */
+router.get(
+	"/booking/:bookingId/statement",
+	authenticateAmiUserToken,
+	async (req: AuthenticatedRequest, res, next: NextFunction) => {
+		try {
+			const { bookingId } = req.params;
+
+			if (!Types.ObjectId.isValid(bookingId)) {
+				throw customError(400, "Invalid booking ID");
+			}
+
+			const statement = await buildStatementPdf(bookingId);
+
+			res.setHeader("Content-Type", statement.contentType);
+			res.setHeader(
+				"Content-Disposition",
+				`attachment; filename="${statement.filename}"`
+			);
+			res.status(200).send(statement.content);
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
+/**
+ * GET /admin/transactions/:id/receipt
+ * Download the official receipt of a completed transaction as a PDF
+ */
+router.get(
+	"/:id/receipt",
+	authenticateAmiUserToken,
+	async (req: AuthenticatedRequest, res, next: NextFunction) => {
+		try {
+			const { id } = req.params;
+
+			if (!mongoose.Types.ObjectId.isValid(id))
+				throw customError(400, "Invalid transaction ID");
+
+			const transaction = await Transaction.findById(id);
+			if (!transaction) throw customError(404, "Transaction not found");
+
+			const receipt = await buildReceiptPdf(transaction);
+
+			res.setHeader("Content-Type", receipt.contentType);
+			res.setHeader(
+				"Content-Disposition",
+				`attachment; filename="${receipt.filename}"`
+			);
+			res.status(200).send(receipt.content);
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
 export default router;
@@ -7,12 +7,12 @@ import {
 	AuthenticatedRequest,
 	authenticateAmiUserToken,
 } from "../../middleware/authAmiMiddleware";
-import { requirePermission } from "../../middleware/permissionMiddleware";
 import { generateRandomPassword } from "../../utils/generateRandomValues";
 import { hashPassword } from "../../utils/tokenHandler";
 import { customError } from "../../middleware/errorHandler";
 import { renderNewAccountEmail } from "../../utils/generateEmailTemplate";
 import { sendEmail } from "../../utils/emailSender";
+import { revokeAllSessions } from "../../utils/tokenRevocation";
 
 const router = Router();
 
@@ -313,7 +313,6 @@ router.post(
 router.patch(
 	"/:id",
 	authenticateAmiUserToken,
-	// requirePermission("user:update"),
 	async (
 		req: AuthenticatedRequest,
 		res: TypedResponse<UserResponse>,
@@ -427,7 +426,6 @@ router.patch(
 router.patch(
 	"/deactivate/:id",
 	authenticateAmiUserToken,
-	// requirePermission("user:update"),
 	async (
 		req: AuthenticatedRequest,
 		res: TypedResponse<null>,
@@ -481,7 +479,6 @@ router.patch(
 router.patch(
 	"/reactivate/:id",
 	authenticateAmiUserToken,
-	// requirePermission("user:update"),
 	async (
 		req: AuthenticatedRequest,
 		res: TypedResponse<null>,
@@ -530,4 +527,51 @@ router.patch(
 	}
 );
 
+// PATCH /api/users/revoke-sessions/:id
+router.patch(
+	"/revoke-sessions/:id",
+	authenticateAmiUserToken,
+	async (
+		req: AuthenticatedRequest,
+		res: TypedResponse<null>,
+		next: NextFunction
+	) => {
+		try {
+			const { id } = req.params;
+			const { reason } = req.body ?? {};
+
+			const userId = req.user?._id;
+
+			if (!userId) {
+				throw customError(400, "No user id found. Please login again.");
+			}
+
+			// ✅ Validate ObjectId
+			if (!mongoose.Types.ObjectId.isValid(id)) {
+				throw customError(400, "Invalid user ID format");
+			}
+
+			const user = await User.findById(id);
+
+			if (!user) {
+				throw customError(404, "User not found");
+			}
+
+			// ✅ Every token issued to this user so far stops working
+			await revokeAllSessions(id, "Admin", {
+				revokedBy: userId,
+				reason: reason || "Sessions revoked by administrator",
+			});
+
+			res.status(200).json({
+				status: 200,
+				message: "All sessions of the user have been revoked!",
+				data: null,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
 export default router;
@@ -1,9 +1,10 @@
 import { Router, Request, NextFunction } from "express";
 import {
 	comparePassword,
-	generateCustomerAccessToken,
-	generateCustomerRefreshToken,
+	generateEmailVerificationToken,
 	hashPassword,
+	JWTPayload,
+	verifyToken,
 } from "../../utils/tokenHandler";
 import { Customer, CustomerModel } from "../../models/Customer";
 import jwt from "jsonwebtoken";
@@ -14,13 +15,29 @@ import config from "../../config/token";
 import {
 	authenticateCustomerToken,
 	CustomerAuthenticatedRequest,
-	invalidatedCustomerTokens,
 } from "../../middleware/authCustomerMiddleware";
 import {
 	renderCustomerWelcomeEmail,
-	renderNewAccountEmail,
+	renderEmailVerificationEmail,
+	renderPasswordResetEmail,
 } from "../../utils/generateEmailTemplate";
 import { sendEmail } from "../../utils/emailSender";
+import {
+	createSession,
+	endSessionForToken,
+	getClientInfo,
+	listActiveSessions,
+	revokeOtherSessions,
+	revokeOwnSession,
+	rotateSession,
+	SessionResponse,
+} from "../../utils/sessionHandler";
+import { revokeAllSessions } from "../../utils/tokenRevocation";
+import {
+	generateResetToken,
+	hashResetToken,
+} from "../../utils/generateRandomValues";
+import emailConfig from "../../config/email";
 
 const router = Router();
 
@@ -41,6 +58,12 @@ export type CustomerAuthResponse = {
 	updated_at?: Date;
 };
 
+export type CustomerRefreshResponse = {
+	access_token: string;
+	refresh_token: string;
+	expires_in: string;
+};
+
 export type CustomerLoginResponse = {
 	customer: CustomerModel;
 	access_token: string;
@@ -48,6 +71,40 @@ export type CustomerLoginResponse = {
 	expires_in: string;
 };
 
+// ---------------------------
+// HELPERS
+// ---------------------------
+const sendVerificationEmail = async (customer: {
+	_id: unknown;
+	email: string;
+	first_name: string;
+}) => {
+	const token = generateEmailVerificationToken(
+		String(customer._id),
+		customer.email,
+		emailConfig.emailVerificationExpiresHours
+	);
+
+	const htmlContent = renderEmailVerificationEmail({
+		firstName: customer.first_name,
+		verifyUrl: `${emailConfig.clientAppUrl}/verify-email?token=${token}`,
+		expiresInHours: emailConfig.emailVerificationExpiresHours,
+		companyName: emailConfig.companyName,
+		supportEmail: emailConfig.supportEmail,
+	});
+
+	await sendEmail({
+		to: customer.email,
+		subject: "Verify your Your Smile Matters email address",
+		html: htmlContent,
+	});
+
+	await Customer.updateOne(
+		{ _id: customer._id },
+		{ $set: { email_verification_sent_at: new Date() } }
+	);
+};
+
 // ---------------------------
 // CUSTOMER LOGIN
 // ---------------------------
@@ -59,7 +116,7 @@ router.post(
 		next: NextFunction
 	) => {
 		try {
-			const { email, password } = req.body;
+			const { email, password, device_label } = req.body;
 
 			// Validate input
 			if (!email || !password) {
@@ -89,14 +146,14 @@ router.post(
 				throw customError(401, "Invalid email or password");
 			}
 
-			// Generate tokens for customer
-			const access_token = generateCustomerAccessToken(
-				foundCustomer._id.toString(),
-				foundCustomer.email
-			);
-			const refresh_token = generateCustomerRefreshToken(
-				foundCustomer._id.toString(),
-				foundCustomer.email
+			// Start a session for this device and generate its tokens
+			const { access_token, refresh_token } = await createSession(
+				{
+					subjectId: foundCustomer._id.toString(),
+					subjectType: "Customer",
+					email: foundCustomer.email,
+				},
+				getClientInfo(req, device_label)
 			);
 
 			res.status(200).json({
@@ -166,33 +223,18 @@ router.post(
 				is_active: true,
 			});
 
-			// Send welcome email
+			// Send verification email
 			try {
-				const htmlContent = renderNewAccountEmail({
-					role: "Customer",
-					firstName: first_name,
-					email,
-					password: password, // Send the original password (not hashed) in email
-					loginUrl: "https://localhost.com/login", // Update with your actual login URL
-					companyName: "Your Smile Matters",
-					supportEmail: "ysmphotographysupport@gmail.com",
-				});
-
-				await sendEmail({
-					to: email,
-					subject:
-						"Welcome to Your Smile Matters - Account Created Successfully",
-					html: htmlContent,
-				});
+				await sendVerificationEmail(newCustomer);
 			} catch (emailErr) {
-				console.error("Failed to send welcome email:", emailErr);
-				// Don't throw error for email failure, just log it
-				// The registration should still succeed even if email fails
+				console.error("Failed to send verification email:", emailErr);
+				// Registration still succeeds; the customer can request a new link
 			}
 
 			res.status(201).json({
 				status: 201,
-				message: "Registration successful. Welcome email sent!",
+				message:
+					"Registration successful. Please check your email to verify your account.",
 				data: "Registration successful",
 			});
 		} catch (error) {
@@ -270,43 +312,12 @@ router.post(
 			// Get refresh token from request body (optional)
 			const { refresh_token } = req.body;
 
-			// Invalidate access token
-			invalidatedCustomerTokens.add(access_token);
+			// End the session of the access token
+			await endSessionForToken(access_token);
 
-			// Invalidate refresh token if provided
+			// End the session of the refresh token if provided
 			if (refresh_token) {
-				invalidatedCustomerTokens.add(refresh_token);
-			}
-
-			// Auto-remove tokens after they expire
-			try {
-				const accessDecoded = jwt.decode(access_token) as jwt.JwtPayload | null;
-				if (accessDecoded?.exp) {
-					const ttl = accessDecoded.exp * 1000 - Date.now();
-					if (ttl > 0) {
-						setTimeout(
-							() => invalidatedCustomerTokens.delete(access_token),
-							ttl
-						);
-					}
-				}
-
-				if (refresh_token) {
-					const refreshDecoded = jwt.decode(
-						refresh_token
-					) as jwt.JwtPayload | null;
-					if (refreshDecoded?.exp) {
-						const ttl = refreshDecoded.exp * 1000 - Date.now();
-						if (ttl > 0) {
-							setTimeout(
-								() => invalidatedCustomerTokens.delete(refresh_token),
-								ttl
-							);
-						}
-					}
-				}
-			} catch (e) {
-				// If we can't decode, just keep tokens in the set
+				await endSessionForToken(refresh_token);
 			}
 
 			res.status(200).json({
@@ -336,7 +347,7 @@ router.post(
 	"/refresh",
 	async (
 		req: Request,
-		res: TypedResponse<{ access_token: string; expires_in: string }>,
+		res: TypedResponse<CustomerRefreshResponse>,
 		next: NextFunction
 	) => {
 		try {
@@ -346,16 +357,9 @@ router.post(
 				throw customError(401, "Refresh token required");
 			}
 
-			// Check if refresh token is invalidated
-			if (invalidatedCustomerTokens.has(refresh_token)) {
-				throw customError(401, "Refresh token has been invalidated");
-			}
-
 			// Verify refresh token
-			const decoded = jwt.verify(refresh_token, config.jwtSecret) as {
+			const decoded = verifyToken(refresh_token) as JWTPayload & {
 				customerId: string;
-				email: string;
-				type: string;
 			};
 
 			// Verify it's a customer token
@@ -372,17 +376,23 @@ router.post(
 				throw customError(403, "Account is deactivated");
 			}
 
-			// Generate new access token
-			const newAccessToken = generateCustomerAccessToken(
-				customer._id.toString(),
-				customer.email
+			// Rotate: the old refresh token can never be used again
+			const tokens = await rotateSession(
+				decoded,
+				{
+					subjectId: customer._id.toString(),
+					subjectType: "Customer",
+					email: customer.email,
+				},
+				getClientInfo(req)
 			);
 
 			res.status(200).json({
 				status: 200,
 				message: "Token refreshed successfully",
 				data: {
-					access_token: newAccessToken,
+					access_token: tokens.access_token,
+					refresh_token: tokens.refresh_token,
 					expires_in: config.accessTokenExpiresIn,
 				},
 			});
@@ -398,4 +408,371 @@ router.post(
 	}
 );
 
+// ---------------------------
+// LIST MY SESSIONS
+// ---------------------------
+router.get(
+	"/me/sessions",
+	authenticateCustomerToken,
+	async (
+		req: CustomerAuthenticatedRequest,
+		res: TypedResponse<SessionResponse[]>,
+		next: NextFunction
+	) => {
+		try {
+			if (!req.customer) {
+				throw customError(401, "Not authenticated");
+			}
+
+			const sessions = await listActiveSessions(
+				req.customer._id,
+				"Customer",
+				req.session_id
+			);
+
+			res.status(200).json({
+				status: 200,
+				message: "Sessions fetched successfully",
+				data: sessions,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
+// ---------------------------
+// REVOKE ALL OTHER SESSIONS
+// ---------------------------
+router.delete(
+	"/me/sessions",
+	authenticateCustomerToken,
+	async (
+		req: CustomerAuthenticatedRequest,
+		res: TypedResponse<{ revoked_count: number }>,
+		next: NextFunction
+	) => {
+		try {
+			if (!req.customer) {
+				throw customError(401, "Not authenticated");
+			}
+
+			const revoked_count = await revokeOtherSessions(
+				req.customer._id,
+				"Customer",
+				req.session_id
+			);
+
+			res.status(200).json({
+				status: 200,
+				message: "Other sessions revoked successfully",
+				data: { revoked_count },
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
+// ---------------------------
+// REVOKE ONE SESSION
+// ---------------------------
+router.delete(
+	"/me/sessions/:sessionId",
+	authenticateCustomerToken,
+	async (
+		req: CustomerAuthenticatedRequest,
+		res: TypedResponse<null>,
+		next: NextFunction
+	) => {
+		try {
+			if (!req.customer) {
+				throw customError(401, "Not authenticated");
+			}
+
+			await revokeOwnSession(
+				req.params.sessionId,
+				req.customer._id,
+				"Customer"
+			);
+
+			res.status(200).json({
+				status: 200,
+				message: "Session revoked successfully",
+				data: null,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
+// ---------------------------
+// VERIFY EMAIL
+// ---------------------------
+router.post(
+	"/verify-email",
+	async (req: Request, res: TypedResponse<null>, next: NextFunction) => {
+		try {
+			const { token } = req.body;
+
+			if (!token) {
+				throw customError(400, "Verification token is required");
+			}
+
+			const decoded = verifyToken(String(token)) as JWTPayload & {
+				customerId: string;
+			};
+
+			if (decoded.type !== "customer" || decoded.use !== "email_verification") {
+				throw customError(400, "Invalid verification token");
+			}
+
+			const customer = await Customer.findById(decoded.customerId).lean();
+
+			// A link sent to a previous email address no longer verifies the account
+			if (!customer || customer.email !== decoded.email) {
+				throw customError(400, "Verification link is invalid or has expired");
+			}
+
+			if (!customer.email_verified_at) {
+				await Customer.updateOne(
+					{ _id: customer._id, email_verified_at: null },
+					{ $set: { email_verified_at: new Date() } }
+				);
+			}
+
+			res.status(200).json({
+				status: 200,
+				message: "Email verified successfully",
+				data: null,
+			});
+		} catch (error) {
+			if (
+				error instanceof jwt.JsonWebTokenError ||
+				error instanceof jwt.TokenExpiredError
+			) {
+				return next(
+					customError(400, "Verification link is invalid or has expired")
+				);
+			}
+			next(error);
+		}
+	}
+);
+
+// ---------------------------
+// RESEND VERIFICATION EMAIL
+// ---------------------------
+router.post(
+	"/resend-verification",
+	authenticateCustomerToken,
+	async (
+		req: CustomerAuthenticatedRequest,
+		res: TypedResponse<null>,
+		next: NextFunction
+	) => {
+		try {
+			if (!req.customer) {
+				throw customError(401, "Not authenticated");
+			}
+
+			const customer = await Customer.findById(req.customer._id).lean();
+
+			if (!customer) {
+				throw customError(404, "Customer not found");
+			}
+
+			if (customer.email_verified_at) {
+				throw customError(400, "Email is already verified");
+			}
+
+			// Throttle resends per account. The slot is claimed before sending,
+			// so of several requests at once only one sends an email.
+			const cooldownMs =
+				emailConfig.emailVerificationResendCooldownSeconds * 1000;
+			const now = new Date();
+			const previousSentAt = customer.email_verification_sent_at ?? null;
+			const { modifiedCount } = await Customer.updateOne(
+				{
+					_id: customer._id,
+					email_verified_at: null,
+					$or: [
+						{ email_verification_sent_at: null },
+						{
+							email_verification_sent_at: {
+								$lte: new Date(now.getTime() - cooldownMs),
+							},
+						},
+					],
+				},
+				{ $set: { email_verification_sent_at: now } }
+			);
+
+			if (modifiedCount === 0) {
+				const latest = await Customer.findById(customer._id)
+					.select("email_verification_sent_at")
+					.lean();
+				const sentAt = latest?.email_verification_sent_at ?? now;
+				const retryAfter = Math.max(
+					Math.ceil((sentAt.getTime() + cooldownMs - Date.now()) / 1000),
+					1
+				);
+				res.setHeader("Retry-After", retryAfter.toString());
+				throw customError(
+					429,
+					`Please wait ${retryAfter} seconds before requesting another verification email`
+				);
+			}
+
+			try {
+				await sendVerificationEmail(customer);
+			} catch (error) {
+				// Nothing went out: give the slot back so the customer can retry
+				await Customer.updateOne(
+					{ _id: customer._id, email_verification_sent_at: now },
+					{ $set: { email_verification_sent_at: previousSentAt } }
+				);
+				throw error;
+			}
+
+			res.status(200).json({
+				status: 200,
+				message: "Verification email sent",
+				data: null,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
+// ---------------------------
+// FORGOT PASSWORD
+// ---------------------------
+router.post(
+	"/forgot-password",
+	async (req: Request, res: TypedResponse<null>, next: NextFunction) => {
+		try {
+			const { email } = req.body;
+
+			if (!email) {
+				throw customError(400, "Email is required");
+			}
+
+			const customer = await Customer.findOne({
+				email: String(email).toLowerCase().trim(),
+			}).lean();
+
+			// Respond the same way whether or not the account exists
+			if (customer && customer.is_active !== false) {
+				const { token, hashedToken } = generateResetToken();
+
+				await Customer.updateOne(
+					{ _id: customer._id },
+					{
+						$set: {
+							password_reset_token: hashedToken,
+							password_reset_expires_at: new Date(
+								Date.now() + emailConfig.passwordResetExpiresMinutes * 60 * 1000
+							),
+						},
+					}
+				);
+
+				try {
+					const htmlContent = renderPasswordResetEmail({
+						firstName: customer.first_name,
+						resetUrl: `${emailConfig.clientAppUrl}/reset-password?token=${token}`,
+						expiresInMinutes: emailConfig.passwordResetExpiresMinutes,
+						companyName: emailConfig.companyName,
+						supportEmail: emailConfig.supportEmail,
+					});
+
+					await sendEmail({
+						to: customer.email,
+						subject: "Reset your Your Smile Matters password",
+						html: htmlContent,
+					});
+				} catch (emailErr) {
+					console.error("Failed to send password reset email:", emailErr);
+				}
+			}
+
+			res.status(200).json({
+				status: 200,
+				message:
+					"If an account exists for this email, a password reset link has been sent.",
+				data: null,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
+// ---------------------------
+// RESET PASSWORD
+// ---------------------------
+router.post(
+	"/reset-password",
+	async (req: Request, res: TypedResponse<null>, next: NextFunction) => {
+		try {
+			const { token, new_password } = req.body;
+
+			if (!token || !new_password) {
+				throw customError(400, "Reset token and new password are required");
+			}
+
+			if (String(new_password).length < 8) {
+				throw customError(400, "Password must be at least 8 characters");
+			}
+
+			const resetQuery = {
+				password_reset_token: hashResetToken(String(token)),
+				password_reset_expires_at: { $gt: new Date() },
+			};
+			const customer = await Customer.findOne(resetQuery).lean();
+
+			if (!customer) {
+				throw customError(400, "Password reset link is invalid or has expired");
+			}
+
+			const hashedPassword = await hashPassword(new_password);
+
+			// Token is single-use: clear it together with the password change.
+			// The token stays in the filter, so of two requests racing with
+			// the same link only one changes the password.
+			const { modifiedCount } = await Customer.updateOne(
+				{ _id: customer._id, ...resetQuery },
+				{
+					$set: {
+						password: hashedPassword,
+						password_reset_token: null,
+						password_reset_expires_at: null,
+						updated_at: new Date(),
+					},
+				}
+			);
+			if (modifiedCount === 0) {
+				throw customError(400, "Password reset link is invalid or has expired");
+			}
+
+			// Sign out every device that used the old password
+			await revokeAllSessions(customer._id.toString(), "Customer", {
+				reason: "Password reset",
+			});
+
+			res.status(200).json({
+				status: 200,
+				message:
+					"Password reset successfully. Please log in with your new password.",
+				data: null,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
 export default router;
@@ -10,10 +10,14 @@ import {
 	BookingRequest,
 	BookingRequestModel,
 } from "../../models/BookingRequest";
-import { Booking } from "../../models/Booking";
+import { Booking, canTransitionBookingStatus } from "../../models/Booking";
 import { renderRescheduleRequestAdminEmail } from "../../utils/generateEmailTemplate";
 import { formatTime12Hour } from "../../utils/formatTime";
 import { sendEmail } from "../../utils/emailSender";
+import {
+	calculateRefundEligibility,
+	RefundEligibility,
+} from "../../utils/refundPolicy";
 
 const router = Router();
 
@@ -124,7 +128,7 @@ router.post(
 				);
 			}
 
-			if (["Cancelled", "Completed"].includes(booking.status)) {
+			if (!canTransitionBookingStatus(booking.status, "Cancelled")) {
 				throw customError(
 					400,
 					`Cannot request cancellation for booking with status: ${booking.status}`
@@ -168,10 +172,11 @@ router.post(
 				throw customError(500, "Failed to retrieve created request");
 			}
 
+			const eligibility = await calculateRefundEligibility(id);
+
 			res.status(201).json({
 				status: 201,
-				message:
-					"Cancellation request submitted successfully! An admin will review your request.",
+				message: `Cancellation request submitted successfully! An admin will review your request. Refund policy: ${eligibility.message}.`,
 				data: populatedRequest,
 			});
 		} catch (error) {
@@ -180,6 +185,56 @@ router.post(
 	}
 );
 
+/**
+ * @route   GET /api/bookings/:id/refund-eligibility
+ * @desc    Preview the refund the cancellation policy allows for a booking
+ * @access  Customer
+ */
+router.get(
+	"/:id/refund-eligibility",
+	authenticateCustomerToken,
+	async (
+		req: CustomerAuthenticatedRequest<{ id: string }>,
+		res: TypedResponse<RefundEligibility>,
+		next: NextFunction
+	) => {
+		try {
+			const { id } = req.params;
+			const customerId = req.customer?._id;
+
+			if (!customerId) {
+				throw customError(400, "No customer id found. Please login again.");
+			}
+
+			if (!mongoose.Types.ObjectId.isValid(id)) {
+				throw customError(400, "Invalid booking ID format");
+			}
+
+			const booking = await Booking.findById(id).select("customer_id").lean();
+			if (!booking) {
+				throw customError(404, "Booking not found");
+			}
+
+			if (booking.customer_id.toString() !== customerId.toString()) {
+				throw customError(
+					403,
+					"You can only view refund eligibility for your own bookings"
+				);
+			}
+
+			const eligibility = await calculateRefundEligibility(id);
+
+			res.status(200).json({
+				status: 200,
+				message: eligibility.message,
+				data: eligibility,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
 /**
  * @route   POST /api/bookings/:id/request-reschedule
  * @desc    Customer requests to reschedule their booking
@@ -278,7 +333,7 @@ router.post(
 				);
 			}
 
-			if (!["Pending", "Confirmed", "Rescheduled"].includes(booking.status)) {
+			if (!canTransitionBookingStatus(booking.status, "Rescheduled")) {
 				throw customError(
 					400,
 					`Cannot request reschedule for booking with status: ${booking.status}`
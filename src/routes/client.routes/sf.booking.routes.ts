@@ -7,10 +7,11 @@ import {
 import { TypedResponse } from "../../types/base.types";
 import { customError } from "../../middleware/errorHandler";
 import { Booking, BookingModel, BookingStatus } from "../../models/Booking";
-import { Package, PackageModel } from "../../models/Package";
-import { Promo, PromoModel } from "../../models/Promo";
+import { PackageModel } from "../../models/Package";
+import { PromoModel } from "../../models/Promo";
 import {
 	PaymentMethod,
+	PaymentMethodEnum,
 	Transaction,
 	TransactionModel,
 } from "../../models/Transaction";
@@ -18,24 +19,36 @@ import {
 	authenticateCustomerToken,
 	AuthenticatedCustomer,
 	CustomerAuthenticatedRequest,
+	requireVerifiedCustomer,
 } from "../../middleware/authCustomerMiddleware";
+import { idempotent } from "../../middleware/idempotencyMiddleware";
 import { renderBookingApprovalEmail } from "../../utils/generateEmailTemplate";
 import { sendEmail } from "../../utils/emailSender";
+import { reserveBookingSlot } from "../../utils/slotReservation";
+import { redeemPromo } from "../../utils/promoRedemption";
+import { runInTransaction } from "../../utils/dbTransaction";
+import { isDuplicateKeyError } from "../../utils/mongoErrors";
+import {
+	BookingPrice,
+	calculateBookingPrice,
+} from "../../utils/bookingPricing";
 import { DayOfWeek, PhotographerModel } from "../../models/Photographer";
 import { ServiceModel } from "../../models/Service";
 import { CustomerModel } from "../../models/Customer";
 
 // Types for the endpoint
 interface CreateBookingRequestBody {
-	customer_id: string;
+	customer_id?: string; // Ignored; the booking is for the signed-in customer
 	package_id?: string | null;
 	photographer_id?: string | null;
 	promo_id?: string | null;
+	promo_ids?: string[] | null; // Stackable promos applied together
+	promo_code?: string | null; // Entered code, e.g. a single-use campaign code
 	services: {
 		_id: string;
 		quantity: number;
-		price_per_unit: number;
-		total_price: number;
+		price_per_unit?: number; // Ignored; priced from the catalogue
+		total_price?: number; // Ignored; priced from the catalogue
 		duration_minutes?: number | null;
 	}[];
 	is_customized: boolean;
@@ -47,9 +60,10 @@ interface CreateBookingRequestBody {
 	location: string;
 	theme?: string | null;
 	special_requests?: string | null;
-	total_amount: number;
+	// Optional; when sent they must match the server-side price
+	total_amount?: number;
 	discount_amount?: number;
-	final_amount: number;
+	final_amount?: number;
 	amount_paid?: number;
 	method_of_payment?: PaymentMethod | null;
 	payment_images?: string[];
@@ -197,17 +211,125 @@ export interface EnhancedPaymentStatus {
 	transactions: TransactionModel[];
 }
 
+type ClientTotalField = keyof Pick<
+	BookingPrice,
+	"total_amount" | "discount_amount" | "final_amount"
+>;
+
+interface BookingQuoteRequestBody {
+	package_id?: string | null;
+	promo_id?: string | null;
+	promo_ids?: string[] | null;
+	promo_code?: string | null;
+	booking_date?: string | null;
+	services: { _id: string; quantity: number }[];
+}
+
 // Booking with enhanced payment status
 export interface GetBookingByIdResponse extends LeanPopulatedBooking {
 	payment_status: EnhancedPaymentStatus;
 }
 
+// A booking as returned when it is created
+const findCreatedBooking = (bookingId: Types.ObjectId) =>
+	Booking.findById(bookingId)
+		.populate<{ customer_id: PopulatedCustomer }>({
+			path: "customer_id",
+			select: "customer_no first_name last_name email phone_number",
+		})
+		.populate<{ package_id: PopulatedPackage }>({
+			path: "package_id",
+			select: "package_name package_price description is_available",
+		})
+		.populate<{ photographer_id: PopulatedPhotographer }>({
+			path: "photographer_id",
+			select: "first_name last_name email specialization",
+		})
+		.populate<{ promo_id: PopulatedPromo }>({
+			path: "promo_id",
+			select: "promo_code discount_type discount_value",
+		})
+		.populate<{ services: PopulatedBookingService[] }>({
+			path: "services.service_id",
+			select: "name category price duration_minutes",
+		})
+		.lean<LeanPopulatedBooking>();
+
+// The booking an earlier request with this Idempotency-Key created
+const findBookingByIdempotencyKey = async (
+	customerId: string | Types.ObjectId,
+	idempotencyKey: string
+) => {
+	const existing = await Booking.findOne({
+		customer_id: new Types.ObjectId(customerId),
+		idempotency_key: idempotencyKey,
+	}).select("_id");
+	return existing ? findCreatedBooking(existing._id as Types.ObjectId) : null;
+};
+
 const router = Router();
 
+// POST /api/client/bookings/quote (Price preview for checkout)
+router.post(
+	"/quote",
+	authenticateCustomerToken,
+	async (
+		req: CustomerAuthenticatedRequest,
+		res: TypedResponse<BookingPrice>,
+		next: NextFunction
+	) => {
+		try {
+			const {
+				package_id,
+				promo_id,
+				promo_ids,
+				promo_code,
+				booking_date,
+				services,
+			} = req.body as BookingQuoteRequestBody;
+
+			if (!Array.isArray(services)) {
+				throw customError(400, "At least one service is required for booking");
+			}
+
+			let bookingDate: Date | undefined;
+			if (booking_date) {
+				bookingDate = new Date(booking_date);
+				if (isNaN(bookingDate.getTime())) {
+					throw customError(400, "Invalid booking date");
+				}
+			}
+
+			const quote = await calculateBookingPrice({
+				services: services.map((service) => ({
+					_id: service._id,
+					quantity: Number(service.quantity),
+				})),
+				package_id,
+				promo_id,
+				promo_ids,
+				promo_code,
+				booking_date: bookingDate,
+				customer_id: req.customer?._id,
+			});
+
+			res.status(200).json({
+				status: 200,
+				message: "Booking quote calculated successfully!",
+				data: quote,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
 // POST endpoint
 router.post(
 	"/",
 	authenticateCustomerToken,
+	requireVerifiedCustomer,
+	idempotent,
 	async (
 		req: CustomerAuthenticatedRequest,
 		res: TypedResponse<LeanPopulatedBooking>,
@@ -215,9 +337,10 @@ router.post(
 	) => {
 		try {
 			const {
-				customer_id,
 				package_id,
 				promo_id,
+				promo_ids,
+				promo_code,
 				booking_date,
 				start_time,
 				end_time,
@@ -242,11 +365,29 @@ router.post(
 				throw customError(400, "No customer id found. Please login again.");
 			}
 
+			// A retry arriving after the stored idempotent response expired still
+			// returns the booking the first submission created
+			const idempotencyKey = req.get("Idempotency-Key")?.trim() || null;
+			if (idempotencyKey) {
+				const existingBooking = await findBookingByIdempotencyKey(
+					customerId,
+					idempotencyKey
+				);
+				if (existingBooking) {
+					res.status(200).json({
+						status: 200,
+						message: "Booking was already created for this request.",
+						data: existingBooking,
+					});
+					return;
+				}
+			}
+
 			// Validate required fields
-			if (!customer_id || !booking_date || !start_time || !location) {
+			if (!booking_date || !start_time || !location) {
 				throw customError(
 					400,
-					"Customer, booking date, start time, and location are required"
+					"Booking date, start time, and location are required"
 				);
 			}
 
@@ -293,40 +434,57 @@ router.post(
 				throw customError(400, "Booking date cannot be in the past");
 			}
 
-			// Validate services structure
-			for (const service of services) {
-				if (!service._id || !mongoose.Types.ObjectId.isValid(service._id)) {
-					throw customError(400, "Invalid service ID format in services array");
-				}
-				if (!service.quantity || service.quantity < 1) {
-					throw customError(400, "Service quantity must be at least 1");
-				}
-				if (
-					service.price_per_unit === undefined ||
-					service.price_per_unit < 0
-				) {
-					throw customError(400, "Invalid price_per_unit in services");
-				}
-				if (service.total_price === undefined || service.total_price < 0) {
-					throw customError(400, "Invalid total_price in services");
-				}
-			}
-
 			// Check if customer exists
 			const CustomerModel = mongoose.model("Customer");
-			const customer = await CustomerModel.findById(customer_id);
+			const customer = await CustomerModel.findById(customerId);
 			if (!customer) {
 				throw customError(404, "Customer not found");
 			}
 
-			// Validate package if provided (optional)
-			if (package_id) {
-				const selectedPackage = await Package.findById(package_id);
-				if (!selectedPackage) {
-					throw customError(404, "Package not found");
+			// Price services, package and promo from the catalogue
+			const pricing = await calculateBookingPrice({
+				services,
+				package_id,
+				promo_id,
+				promo_ids,
+				promo_code,
+				booking_date: bookingDateTime,
+				customer_id: customerId,
+			});
+
+			// Totals from the browser are only accepted when they match
+			const clientTotals = { total_amount, discount_amount, final_amount };
+			for (const field of Object.keys(clientTotals) as ClientTotalField[]) {
+				const value = clientTotals[field];
+				if (value === undefined || value === null) continue;
+				if (Number(value) !== pricing[field]) {
+					throw customError(
+						400,
+						`The ${field} sent (₱${Number(value).toLocaleString()}) does not match the current price (₱${pricing[field].toLocaleString()}). Please review your booking and try again.`
+					);
+				}
+			}
+
+			// An initial payment is recorded together with the booking
+			const initialPayment = Number(amount_paid) || 0;
+			if (initialPayment < 0) {
+				throw customError(400, "Amount paid cannot be negative");
+			}
+			if (initialPayment > 0) {
+				if (initialPayment > pricing.final_amount) {
+					throw customError(
+						400,
+						`Amount paid (₱${initialPayment.toLocaleString()}) exceeds the booking total (₱${pricing.final_amount.toLocaleString()})`
+					);
 				}
-				if (!selectedPackage.is_available || !selectedPackage.is_active) {
-					throw customError(400, "Selected package is not available");
+				if (
+					!method_of_payment ||
+					!Object.values(PaymentMethodEnum).includes(method_of_payment)
+				) {
+					throw customError(400, "A valid method of payment is required");
+				}
+				if (!Array.isArray(payment_images) || payment_images.length === 0) {
+					throw customError(400, "Please upload proof of payment");
 				}
 			}
 
@@ -343,21 +501,6 @@ router.post(
 				}
 			}
 
-			// Validate promo if provided
-			if (promo_id) {
-				const promo = await Promo.findById(promo_id);
-				if (!promo) {
-					throw customError(404, "Promo not found");
-				}
-				if (!promo.is_active) {
-					throw customError(400, "Promo is not active");
-				}
-				const currentDate = new Date();
-				if (promo.valid_from > currentDate || promo.valid_until < currentDate) {
-					throw customError(400, "Promo is not valid for this date");
-				}
-			}
-
 			// ============================================================================
 			// PHOTOGRAPHER AVAILABILITY VALIDATION
 			// ============================================================================
@@ -468,7 +611,7 @@ router.post(
 				// Calculate session duration
 				const calculatedDuration =
 					session_duration_minutes ||
-					services.reduce(
+					pricing.services.reduce(
 						(total, s) => total + (s.duration_minutes || 60) * s.quantity,
 						0
 					);
@@ -539,26 +682,30 @@ router.post(
 			}
 
 			// Transform services array to match schema
-			const transformedServices = services.map((service) => {
-				console.log("SERVICE!!", service);
-
-				return {
-					service_id: new Types.ObjectId(service._id),
-					quantity: service.quantity,
-					price_per_unit: service.price_per_unit,
-					total_price: service.total_price,
-					duration_minutes: service.duration_minutes || null,
-				};
-			});
+			const transformedServices = pricing.services.map((service) => ({
+				service_id: service.service_id,
+				quantity: service.quantity,
+				price_per_unit: service.price_per_unit,
+				total_price: service.total_price,
+				duration_minutes: service.duration_minutes,
+			}));
 
 			// Create booking
 			const booking = new Booking({
-				customer_id: new Types.ObjectId(customer_id),
+				customer_id: new Types.ObjectId(customerId),
 				package_id: package_id ? new Types.ObjectId(package_id) : null,
 				photographer_id: photographer_id
 					? new Types.ObjectId(photographer_id)
 					: null,
-				promo_id: promo_id ? new Types.ObjectId(promo_id) : null,
+				promo_id: pricing.applied_discounts[0]?.promo_id ?? null,
+				applied_discounts: pricing.applied_discounts.map((discount) => ({
+					promo_id: discount.promo_id,
+					promo_code: discount.promo_code,
+					campaign_code: discount.campaign_code,
+					discount_type: discount.discount_type,
+					discount_value: discount.discount_value,
+					discount_amount: discount.discount_amount,
+				})),
 				services: transformedServices,
 				is_customized: is_customized || false,
 				customization_notes: customization_notes?.trim() || null,
@@ -575,38 +722,87 @@ router.post(
 				theme: theme?.trim() || null,
 				special_requests: special_requests?.trim() || null,
 				status: "Pending",
-				total_amount: total_amount,
-				discount_amount: discount_amount || 0,
-				final_amount: final_amount,
+				total_amount: pricing.total_amount,
+				discount_amount: pricing.discount_amount,
+				final_amount: pricing.final_amount,
 				is_active: true,
-				created_by: new Types.ObjectId(customer_id),
-				updated_by: new Types.ObjectId(customer_id),
+				created_by: new Types.ObjectId(customerId),
+				updated_by: new Types.ObjectId(customerId),
+				idempotency_key: idempotencyKey,
 			});
 
-			await booking.save();
+			// Hold the photographer's time window before saving; 409 if taken.
+			// Reserved outside the transaction so other requests see the hold
+			// at once; released again below if the booking is not created.
+			const slotReservation = booking.photographer_id
+				? await reserveBookingSlot({
+						photographerId: booking.photographer_id,
+						bookingId: booking._id as Types.ObjectId,
+						bookingDate: booking.booking_date,
+						startTime: booking.start_time,
+						durationMinutes: booking.session_duration_minutes,
+				  })
+				: null;
+
+			// Promo uses, the booking and its initial payment are written
+			// together; any failure rolls all of them back
+			try {
+				await runInTransaction(async (session) => {
+					// Take one use of each promo; 409 if the last one went meanwhile
+					for (const discount of pricing.applied_discounts) {
+						await redeemPromo({
+							promoId: discount.promo_id,
+							customerId: booking.customer_id,
+							bookingId: booking._id as Types.ObjectId,
+							discountAmount: discount.discount_amount,
+							campaignCode: discount.campaign_code,
+							session,
+						});
+					}
 
-			const populatedBooking = await Booking.findById(booking._id)
-				.populate<{ customer_id: PopulatedCustomer }>({
-					path: "customer_id",
-					select: "customer_no first_name last_name email phone_number",
-				})
-				.populate<{ package_id: PopulatedPackage }>({
-					path: "package_id",
-					select: "package_name package_price description is_available",
-				})
-				.populate<{ photographer_id: PopulatedPhotographer }>({
-					path: "photographer_id",
-					select: "first_name last_name email specialization",
-				})
-				.populate<{ promo_id: PopulatedPromo }>({
-					path: "promo_id",
-					select: "promo_code discount_type discount_value",
-				})
-				.populate<{ services: PopulatedBookingService[] }>({
-					path: "services.service_id",
-					select: "name category price duration_minutes",
-				})
-				.lean<LeanPopulatedBooking>();
+					await booking.save({ session });
+
+					if (initialPayment > 0) {
+						await new Transaction({
+							booking_id: booking._id,
+							customer_id: booking.customer_id,
+							amount: initialPayment,
+							transaction_type:
+								initialPayment >= pricing.final_amount
+									? "Payment"
+									: "Partial",
+							payment_method: method_of_payment,
+							status: "Pending",
+							payment_proof_images: payment_images,
+							transaction_date: new Date(),
+							created_by: booking.customer_id,
+						}).save({ session });
+					}
+				});
+			} catch (error) {
+				await slotReservation?.rollback();
+
+				// Same key submitted twice at once: answer with the first booking
+				const existingBooking =
+					idempotencyKey && isDuplicateKeyError(error, "idempotency_key")
+						? await findBookingByIdempotencyKey(
+								booking.customer_id,
+								idempotencyKey
+						  )
+						: null;
+				if (!existingBooking) throw error;
+
+				res.status(200).json({
+					status: 200,
+					message: "Booking was already created for this request.",
+					data: existingBooking,
+				});
+				return;
+			}
+
+			const populatedBooking = await findCreatedBooking(
+				booking._id as Types.ObjectId
+			);
 
 			if (!populatedBooking) {
 				throw customError(500, "Failed to retrieve created booking");
@@ -4,6 +4,7 @@ import { TypedResponse } from "../../types/base.types";
 import { Package } from "../../models/Package";
 import { Service } from "../../models/Service";
 import { customError } from "../../middleware/errorHandler";
+import { RatingDistribution } from "../../models/RatingSummary";
 
 const router = Router();
 
@@ -35,6 +36,8 @@ interface GetAllPackageDTO {
 	custom_duration_minutes?: number | null;
 	is_available: boolean;
 	is_active: boolean;
+	rating_average?: number;
+	rating_count?: number;
 	services: Array<{
 		_id?: Types.ObjectId;
 		service_id: string;
@@ -73,6 +76,9 @@ interface PackageLean {
 	looks: number;
 	is_available: boolean;
 	custom_duration_minutes?: number | null;
+	rating_average?: number;
+	rating_count?: number;
+	rating_distribution?: RatingDistribution;
 	is_active: boolean;
 	created_at: Date;
 	updated_at: Date;
@@ -95,6 +101,8 @@ interface PackageListResponse {
 	looks: number;
 	services_count: number;
 	is_available: boolean;
+	rating_average: number;
+	rating_count: number;
 }
 
 interface PackageDetailResponse {
@@ -111,12 +119,29 @@ interface PackageDetailResponse {
 	custom_duration_minutes?: number | null;
 	total_duration_minutes?: number;
 	is_available: boolean;
+	rating_average: number;
+	rating_count: number;
+	rating_distribution?: RatingDistribution;
 }
 
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
 
+// Best rated first; more ratings break ties between equal averages
+const RATING_SORT = { rating_average: -1, rating_count: -1 } as const;
+
+// Lower bound on the cached average, from a min_rating query param
+function buildMinRatingFilter(minRating: unknown) {
+	if (minRating === undefined || minRating === "") return undefined;
+
+	const value = Number(minRating);
+	if (Number.isNaN(value) || value < 0 || value > 5) {
+		throw customError(400, "min_rating must be a number between 0 and 5");
+	}
+	return { $gte: value };
+}
+
 function convertToListResponse(pkg: PackageLean): PackageListResponse {
 	return {
 		_id: pkg._id.toString(),
@@ -129,6 +154,8 @@ function convertToListResponse(pkg: PackageLean): PackageListResponse {
 		looks: pkg.looks,
 		services_count: pkg.services.length,
 		is_available: pkg.is_available,
+		rating_average: pkg.rating_average ?? 0,
+		rating_count: pkg.rating_count ?? 0,
 	};
 }
 
@@ -159,6 +186,9 @@ function convertToDetailResponse(pkg: PackageLean): PackageDetailResponse {
 		custom_duration_minutes: pkg.custom_duration_minutes,
 		total_duration_minutes: totalDuration,
 		is_available: pkg.is_available,
+		rating_average: pkg.rating_average ?? 0,
+		rating_count: pkg.rating_count ?? 0,
+		rating_distribution: pkg.rating_distribution,
 	};
 }
 
@@ -169,6 +199,7 @@ function convertToDetailResponse(pkg: PackageLean): PackageDetailResponse {
 /**
  * GET /packages/filter/popular
  * Public - Get popular packages (based on looks count for now)
+ * Query params: sort_by ("rating" for best rated first)
  * MOVED BEFORE /:id to prevent route conflict
  */
 router.get(
@@ -179,6 +210,8 @@ router.get(
 		next: NextFunction
 	) => {
 		try {
+			const { sort_by } = req.query;
+
 			// TODO: Base this on actual booking statistics
 			// For now, packages with 3+ looks are considered "popular"
 			const packages = await Package.find({
@@ -187,7 +220,11 @@ router.get(
 				is_active: true,
 				deleted_at: null,
 			})
-				.sort({ looks: -1, final_price: 1 })
+				.sort(
+					sort_by === "rating"
+						? { ...RATING_SORT, looks: -1 }
+						: { looks: -1, final_price: 1 }
+				)
 				.limit(6)
 				.lean<PackageLean[]>();
 
@@ -384,6 +421,9 @@ router.get(
 /**
  * GET /packages
  * Public - Browse all available packages with filtering and sorting
+ * Query params: available_only, min_price, max_price, min_looks, max_looks,
+ * min_rating, sort_by ("rating" for best rated first, or any package field),
+ * sort_order
  */
 router.get(
 	"/",
@@ -399,6 +439,7 @@ router.get(
 				max_price,
 				min_looks,
 				max_looks,
+				min_rating,
 				sort_by = "final_price",
 				sort_order = "asc",
 			} = req.query;
@@ -416,6 +457,7 @@ router.get(
 					$gte?: number;
 					$lte?: number;
 				};
+				rating_average?: { $gte: number };
 			}
 
 			const filter: BrowseFilter = {
@@ -443,6 +485,11 @@ router.get(
 				filter.looks = looksFilter;
 			}
 
+			const ratingFilter = buildMinRatingFilter(min_rating);
+			if (ratingFilter) {
+				filter.rating_average = ratingFilter;
+			}
+
 			// Build sort
 			interface SortObject {
 				[key: string]: 1 | -1;
@@ -450,7 +497,10 @@ router.get(
 
 			const sortField = sort_by as string;
 			const sortDirection = sort_order === "desc" ? -1 : 1;
-			const sortObj: SortObject = { [sortField]: sortDirection };
+			const sortObj: SortObject =
+				sort_by === "rating"
+					? { ...RATING_SORT }
+					: { [sortField]: sortDirection };
 
 			// Fetch packages with only needed fields (exclude audit fields)
 			const packages = await Package.find(filter)
@@ -506,6 +556,8 @@ router.get(
 					custom_duration_minutes: pkg.custom_duration_minutes,
 					is_available: pkg.is_available,
 					is_active: pkg.is_active,
+					rating_average: pkg.rating_average ?? 0,
+					rating_count: pkg.rating_count ?? 0,
 					services: servicesWithDetails,
 					created_at: pkg.created_at,
 					updated_at: pkg.updated_at,
@@ -1,6 +1,7 @@
 import { Router, Request, NextFunction } from "express";
 import { Types } from "mongoose";
 import { Photographer, PhotographerModel } from "../../models/Photographer";
+import { RatingDistribution } from "../../models/RatingSummary";
 import { TypedResponse } from "../../types/base.types";
 import { Service } from "../../models/Service";
 import { authenticateCustomerToken } from "../../middleware/authCustomerMiddleware";
@@ -25,6 +26,9 @@ interface PhotographerLean {
 	date_overrides?: unknown[] | null;
 
 	booking_lead_time_hours?: number | null;
+	rating_average: number;
+	rating_count: number;
+	rating_distribution: RatingDistribution;
 	is_active: boolean;
 	created_at: Date;
 	updated_at: Date;
@@ -45,6 +49,9 @@ interface PhotographerResponse {
 	date_overrides?: unknown[] | null;
 
 	booking_lead_time_hours?: number | null;
+	rating_average: number;
+	rating_count: number;
+	rating_distribution: RatingDistribution;
 	is_active: boolean;
 	created_at: Date;
 	updated_at: Date;
@@ -359,7 +366,7 @@ router.get(
 /**
  * GET /photographers/search/by-categories
  * Find photographers by service categories
- * Query params: categories (comma-separated)
+ * Query params: categories (comma-separated), sort ("rating" for best rated first)
  */
 router.get(
 	"/search/by-categories",
@@ -369,7 +376,7 @@ router.get(
 		next: NextFunction
 	) => {
 		try {
-			const { categories } = req.query;
+			const { categories, sort } = req.query;
 
 			if (!categories || typeof categories !== "string") {
 				return res.status(400).json({
@@ -397,6 +404,14 @@ router.get(
 				}
 			);
 
+			if (sort === "rating") {
+				photographerResponse.sort(
+					(a, b) =>
+						b.rating_average - a.rating_average ||
+						b.rating_count - a.rating_count
+				);
+			}
+
 			res.status(200).json({
 				status: 200,
 				message: "Photographers fetched successfully!",
@@ -1,9 +1,25 @@
 import { Router, Request, NextFunction } from "express";
 import { Promo, PromoModel } from "../../models/Promo";
-import { Booking } from "../../models/Booking";
 import mongoose from "mongoose";
 import { TypedResponse } from "../../types/base.types";
 import { customError } from "../../middleware/errorHandler";
+import {
+	BookingPrice,
+	calculateDiscount,
+	findBestPromoCombination,
+} from "../../utils/bookingPricing";
+import {
+	authenticateCustomerToken,
+	CustomerAuthenticatedRequest,
+	optionalCustomerToken,
+} from "../../middleware/authCustomerMiddleware";
+import {
+	evaluatePromoEligibility,
+	getServiceCategories,
+	loadCustomerPromoFacts,
+	PromoEligibilityContext,
+} from "../../utils/promoEligibility";
+import { resolvePromoCode } from "../../utils/promoCampaign";
 
 const router = Router();
 
@@ -64,82 +80,47 @@ const getPromoBadge = (promo: PromoModel): string => {
 	return "AVAILABLE";
 };
 
-// Helper function to calculate discount amount
-const calculateDiscount = (
-	promo: PromoModel,
-	bookingAmount: number
-): number => {
-	let discount = 0;
-
-	if (promo.discount_type === "Percentage") {
-		discount = Math.round((bookingAmount * promo.discount_value) / 100);
-	} else if (promo.discount_type === "Fixed_Amount") {
-		discount = promo.discount_value;
-	}
-
-	// Apply max discount limit if set
-	if (promo.max_discount_amount && discount > promo.max_discount_amount) {
-		discount = promo.max_discount_amount;
-	}
-
-	return discount;
+type EligibilityInput = {
+	booking_amount?: unknown;
+	booking_date?: unknown;
+	package_id?: unknown;
+	service_ids?: unknown; // Array, or comma-separated in query strings
 };
 
-// Helper function to validate promo conditions
-const validatePromoConditions = (
-	promo: PromoModel,
-	bookingAmount: number,
-	bookingDate?: Date
-): { isValid: boolean; message: string } => {
-	const now = new Date();
-
-	// Check if promo is active
-	if (!promo.is_active) {
-		return { isValid: false, message: "This promo code is no longer active" };
-	}
+// Optional cart fields and the signed-in customer let the eligibility rules
+// be checked early
+const buildEligibilityContext = async (
+	input: EligibilityInput,
+	customerId?: string | null // From the token, never the request
+): Promise<PromoEligibilityContext> => {
+	const context: PromoEligibilityContext = {};
 
-	// Check validity period
-	if (now < promo.valid_from || now > promo.valid_until) {
-		return {
-			isValid: false,
-			message: "This promo code has expired or is not yet active",
-		};
+	if (input.booking_amount !== undefined && input.booking_amount !== "") {
+		context.bookingAmount = Number(input.booking_amount);
 	}
-
-	// Check usage limit
-	if (promo.usage_limit && promo.usage_count >= promo.usage_limit) {
-		return {
-			isValid: false,
-			message: "This promo code has reached its usage limit",
-		};
+	if (input.booking_date) {
+		context.bookingDate = new Date(input.booking_date as string);
 	}
-
-	// Check minimum booking amount
-	if (promo.min_booking_amount && bookingAmount < promo.min_booking_amount) {
-		return {
-			isValid: false,
-			message: `Minimum booking amount of ₱${promo.min_booking_amount.toLocaleString()} required for this promo`,
-		};
+	if (customerId) {
+		context.customerId = customerId;
 	}
-
-	// Check early bird conditions
-	if (
-		promo.promo_type === "Early_Bird" &&
-		promo.min_advance_days &&
-		bookingDate
-	) {
-		const daysDiff = Math.floor(
-			(bookingDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)
-		);
-		if (daysDiff < promo.min_advance_days) {
-			return {
-				isValid: false,
-				message: `This early bird promo requires booking at least ${promo.min_advance_days} days in advance`,
-			};
+	if (input.package_id !== undefined) {
+		if (
+			input.package_id &&
+			!mongoose.Types.ObjectId.isValid(input.package_id as string)
+		) {
+			throw customError(400, "Invalid package ID format");
 		}
+		context.packageId = (input.package_id as string) || null;
+	}
+	if (input.service_ids !== undefined) {
+		const serviceIds = Array.isArray(input.service_ids)
+			? input.service_ids.map(String)
+			: String(input.service_ids).split(",").filter(Boolean);
+		context.serviceCategories = await getServiceCategories(serviceIds);
 	}
 
-	return { isValid: true, message: "Promo code is valid!" };
+	return context;
 };
 
 // GET /api/public/promos/available (Get all available promos)
@@ -205,13 +186,14 @@ router.get(
 // POST /api/public/promos/validate (Validate promo code)
 router.post(
 	"/validate",
+	optionalCustomerToken,
 	async (
-		req: Request,
+		req: CustomerAuthenticatedRequest,
 		res: TypedResponse<PromoValidationResponse>,
 		next: NextFunction
 	) => {
 		try {
-			const { promo_code, booking_amount, booking_date } = req.body;
+			const { promo_code, booking_amount } = req.body;
 
 			if (!promo_code) {
 				throw customError(400, "Promo code is required");
@@ -221,12 +203,10 @@ router.post(
 				throw customError(400, "Valid booking amount is required");
 			}
 
-			// Find the promo
-			const promo = await Promo.findOne({
-				promo_code: promo_code.toUpperCase(),
-			}).lean();
+			// Find the promo (campaign codes resolve to their parent)
+			const resolved = await resolvePromoCode(promo_code);
 
-			if (!promo) {
+			if (!resolved) {
 				return res.status(200).json({
 					status: 200,
 					message: "Promo validation completed",
@@ -238,12 +218,15 @@ router.post(
 				});
 			}
 
-			// Validate promo conditions
-			const validation = validatePromoConditions(
-				promo,
-				booking_amount,
-				booking_date ? new Date(booking_date) : undefined
-			);
+			const { promo, campaign_code } = resolved;
+
+			// Validate promo conditions and eligibility rules
+			const validation = resolved.unusable_message
+				? { isValid: false, message: resolved.unusable_message }
+				: await evaluatePromoEligibility(
+						promo,
+						await buildEligibilityContext(req.body, req.customer?._id)
+				  );
 
 			if (!validation.isValid) {
 				return res.status(200).json({
@@ -270,7 +253,7 @@ router.post(
 					discount_amount: discountAmount,
 					final_amount: finalAmount,
 					promo_details: {
-						promo_code: promo.promo_code,
+						promo_code: campaign_code ?? promo.promo_code,
 						name: promo.name,
 						discount_type: promo.discount_type,
 						discount_value: promo.discount_value,
@@ -286,34 +269,39 @@ router.post(
 // GET /api/public/promos/check/:promo_code (Quick promo code check)
 router.get(
 	"/check/:promo_code",
+	optionalCustomerToken,
 	async (
-		req: Request,
+		req: CustomerAuthenticatedRequest<{ promo_code: string }>,
 		res: TypedResponse<ClientPromoResponse>,
 		next: NextFunction
 	) => {
 		try {
 			const { promo_code } = req.params;
-			const { booking_amount, booking_date } = req.query;
+			const { booking_amount } = req.query;
 
-			const promo = await Promo.findOne({
-				promo_code: promo_code.toUpperCase(),
-			})
-				.select(
-					"-created_by -updated_by -deleted_by -retrieved_by -deleted_at -retrieved_at -created_at -updated_at"
-				)
-				.lean();
+			const resolved = await resolvePromoCode(promo_code);
 
-			if (!promo) {
+			if (!resolved) {
 				throw customError(404, "Promo code not found");
 			}
 
-			// Basic validation
+			const { promo, campaign_code } = resolved;
+
+			// Rules whose facts were not sent are skipped in a quick check
 			const bookingAmountNum = booking_amount ? Number(booking_amount) : 0;
-			const validation = validatePromoConditions(
-				promo,
-				bookingAmountNum,
-				booking_date ? new Date(booking_date as string) : undefined
-			);
+			const validation = resolved.unusable_message
+				? { isValid: false, message: resolved.unusable_message }
+				: await evaluatePromoEligibility(
+						promo,
+						await buildEligibilityContext(
+							{
+								...req.query,
+								booking_amount: bookingAmountNum,
+							},
+							req.customer?._id
+						),
+						{ partial: true }
+				  );
 
 			let estimatedDiscount = null;
 			if (validation.isValid && bookingAmountNum > 0) {
@@ -321,7 +309,7 @@ router.get(
 			}
 
 			const clientPromoResponse: ClientPromoResponse = {
-				promo_code: promo.promo_code,
+				promo_code: campaign_code ?? promo.promo_code,
 				name: promo.name,
 				description: promo.description,
 				promo_type: promo.promo_type,
@@ -559,66 +547,25 @@ router.get(
 	}
 );
 
-// POST /api/public/promos/customer-eligible (Check customer eligibility for loyalty promos)
+// POST /api/public/promos/customer-eligible (Loyalty promos the signed-in customer qualifies for)
 router.post(
 	"/customer-eligible",
+	authenticateCustomerToken,
 	async (
-		req: Request,
+		req: CustomerAuthenticatedRequest,
 		res: TypedResponse<AvailablePromoResponse[]>,
 		next: NextFunction
 	) => {
 		try {
-			const { customer_email, customer_phone } = req.body;
-
-			if (!customer_email && !customer_phone) {
-				throw customError(400, "Customer email or phone number is required");
-			}
-
-			// Find customer by email or phone
-			const CustomerModel = mongoose.model("Customer");
-			const customer = await CustomerModel.findOne({
-				$or: [
-					...(customer_email ? [{ email: customer_email }] : []),
-					...(customer_phone ? [{ phone_number: customer_phone }] : []),
-				],
-			});
-
-			if (!customer) {
-				// Return empty array for new customers (no loyalty promos)
-				return res.status(200).json({
-					status: 200,
-					message: "No customer found - showing general promos only",
-					data: [],
-				});
+			// Only ever the customer behind the token: the answer reveals
+			// promos restricted to them and their booking history
+			const customerId = req.customer?._id;
+			if (!customerId) {
+				throw customError(400, "No customer id found. Please login again.");
 			}
 
-			// Count customer's completed bookings for loyalty eligibility
-			const completedBookings = await Booking.countDocuments({
-				customer_id: customer._id,
-				status: "Completed",
-				is_active: true,
-			});
-
 			const now = new Date();
 
-			// Get loyalty promos based on booking history
-			let loyaltyFilter = {};
-			if (completedBookings >= 10) {
-				// VIP customer (10+ bookings)
-				loyaltyFilter = { name: { $regex: /vip|platinum|premium/i } };
-			} else if (completedBookings >= 5) {
-				// Gold customer (5-9 bookings)
-				loyaltyFilter = { name: { $regex: /gold|loyal|return/i } };
-			} else if (completedBookings >= 2) {
-				// Silver customer (2-4 bookings)
-				loyaltyFilter = { name: { $regex: /silver|repeat|welcome.back/i } };
-			} else {
-				// New customer (1 booking)
-				loyaltyFilter = {
-					name: { $regex: /welcome|first.time|new.customer/i },
-				};
-			}
-
 			const filter = {
 				is_active: true,
 				promo_type: "Loyalty",
@@ -630,15 +577,28 @@ router.post(
 						{ $lt: ["$usage_count", "$usage_limit"] },
 					],
 				},
-				...loyaltyFilter,
 			};
 
-			const promos = await Promo.find(filter)
-				.select(
-					"promo_code name description promo_type discount_type discount_value valid_until conditions usage_count usage_limit"
-				)
-				.sort({ discount_value: -1 })
-				.lean();
+			const [candidates, customerFacts] = await Promise.all([
+				Promo.find(filter)
+					.select(
+						"promo_code name description promo_type discount_type discount_value valid_from valid_until conditions usage_count usage_limit per_customer_limit is_active eligibility_rules"
+					)
+					.sort({ discount_value: -1 })
+					.lean(),
+				loadCustomerPromoFacts(customerId),
+			]);
+
+			// Same rules as checkout; the cart is not known yet
+			const promos: PromoModel[] = [];
+			for (const promo of candidates) {
+				const eligibility = await evaluatePromoEligibility(
+					promo,
+					{ customerId, customerFacts },
+					{ partial: true }
+				);
+				if (eligibility.isValid) promos.push(promo);
+			}
 
 			const eligiblePromos: AvailablePromoResponse[] = promos.map((promo) => ({
 				promo_code: promo.promo_code,
@@ -654,7 +614,7 @@ router.post(
 
 			res.status(200).json({
 				status: 200,
-				message: `Customer eligibility checked - ${completedBookings} completed bookings found`,
+				message: `Customer eligibility checked - ${customerFacts.completed_bookings} completed bookings found`,
 				data: eligiblePromos,
 			});
 		} catch (error) {
@@ -664,4 +624,52 @@ router.post(
 	}
 );
 
+// POST /api/client/promos/best-combination (Best legal promo combination for a cart)
+router.post(
+	"/best-combination",
+	authenticateCustomerToken,
+	async (
+		req: CustomerAuthenticatedRequest,
+		res: TypedResponse<BookingPrice>,
+		next: NextFunction
+	) => {
+		try {
+			const { services, package_id, booking_date } = req.body;
+
+			if (!Array.isArray(services)) {
+				throw customError(400, "At least one service is required for booking");
+			}
+
+			let bookingDate: Date | undefined;
+			if (booking_date) {
+				bookingDate = new Date(booking_date);
+				if (isNaN(bookingDate.getTime())) {
+					throw customError(400, "Invalid booking date");
+				}
+			}
+
+			const bestPrice = await findBestPromoCombination({
+				services: services.map((service: any) => ({
+					_id: service._id,
+					quantity: Number(service.quantity),
+				})),
+				package_id,
+				booking_date: bookingDate,
+				customer_id: req.customer?._id,
+			});
+
+			res.status(200).json({
+				status: 200,
+				message:
+					bestPrice.applied_discounts.length > 0
+						? "Best promo combination found!"
+						: "No promos apply to this booking",
+				data: bestPrice,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
 export default router;
@@ -1,9 +1,15 @@
 import { Router, NextFunction } from "express";
 import mongoose, { Types } from "mongoose";
-import { Rating, RatableType } from "../../models/Rating";
+import {
+	Rating,
+	RatableType,
+	RatingModerationStatus,
+	PUBLISHED_RATING_FILTER,
+} from "../../models/Rating";
 import { Booking, BookingModel } from "../../models/Booking";
 import { Service } from "../../models/Service";
 import { Package } from "../../models/Package";
+import { Photographer } from "../../models/Photographer";
 import {
 	authenticateCustomerToken,
 	CustomerAuthenticatedRequest,
@@ -12,6 +18,11 @@ import { TypedResponse } from "../../types/base.types";
 import { customError } from "../../middleware/errorHandler";
 import { CustomerModel } from "../../models/Customer";
 import { UserModel } from "../../models/User";
+import { toRatingAnalytics } from "../../utils/ratingAggregates";
+import {
+	flagIfReported,
+	screenRatingComment,
+} from "../../utils/ratingModeration";
 
 const router = Router();
 
@@ -39,6 +50,7 @@ type PopulatedRating = Omit<
 		response?: string | null;
 		responded_at?: Date | null;
 		responded_by?: Types.ObjectId | null;
+		moderation_status: RatingModerationStatus;
 		created_at: Date;
 		updated_at: Date;
 		is_active: boolean;
@@ -64,6 +76,10 @@ interface UpdateRatingBody {
 	comment?: string;
 }
 
+interface ReportRatingBody {
+	reason: string;
+}
+
 interface RatingAnalytics {
 	total_ratings: number;
 	average_rating: number;
@@ -256,12 +272,26 @@ router.post(
 			} else if (ratable_type === RatableType.PACKAGE) {
 				const pkg = await Package.findById(ratable_id);
 				ratableExists = !!pkg;
+			} else if (ratable_type === RatableType.PHOTOGRAPHER) {
+				const photographer = await Photographer.findById(ratable_id);
+				ratableExists = !!photographer;
 			}
 
 			if (!ratableExists) {
 				throw customError(404, `${ratable_type} not found`);
 			}
 
+			// Only the photographer who covered the booking can be rated for it
+			if (
+				ratable_type === RatableType.PHOTOGRAPHER &&
+				booking.photographer_id?.toString() !== ratable_id
+			) {
+				throw customError(
+					400,
+					"You can only rate the photographer assigned to this booking"
+				);
+			}
+
 			// Check for existing rating
 			const existingRating = await Rating.findOne({
 				booking_id: new Types.ObjectId(booking_id),
@@ -277,14 +307,16 @@ router.post(
 				);
 			}
 
-			// Create rating
+			// Create rating (screened comments wait for a moderator)
+			const trimmedComment = comment?.trim() || null;
 			const newRating = new Rating({
 				booking_id: new Types.ObjectId(booking_id),
 				customer_id: new Types.ObjectId(customerId),
 				ratable_type,
 				ratable_id: new Types.ObjectId(ratable_id),
 				rating,
-				comment: comment?.trim() || null,
+				comment: trimmedComment,
+				...screenRatingComment(trimmedComment),
 				created_by: new Types.ObjectId(customerId),
 			});
 
@@ -301,7 +333,10 @@ router.post(
 
 			res.status(201).json({
 				status: 201,
-				message: "Rating submitted successfully!",
+				message:
+					populatedRating.moderation_status === RatingModerationStatus.PUBLISHED
+						? "Rating submitted successfully!"
+						: "Rating submitted and is awaiting review.",
 				data: populatedRating,
 			});
 		} catch (error) {
@@ -334,6 +369,7 @@ router.get(
 				customer_id: new Types.ObjectId(customerId),
 				is_active: true,
 			})
+				.select("-reports")
 				.populate(ratingPopulation)
 				.sort({ created_at: -1 })
 				.lean<PopulatedRating[]>();
@@ -395,18 +431,30 @@ router.put(
 			const updateData: Partial<{
 				rating: number;
 				comment: string | null;
+				moderation_status: RatingModerationStatus;
+				moderation_flags: string[];
 				updated_by: Types.ObjectId;
 			}> = {
 				updated_by: new Types.ObjectId(customerId),
 			};
 
 			if (rating !== undefined) updateData.rating = rating;
-			if (comment !== undefined) updateData.comment = comment.trim() || null;
+			if (comment !== undefined) {
+				updateData.comment = comment.trim() || null;
+
+				// An edited comment is screened again; hidden ratings stay hidden
+				if (
+					existingRating.moderation_status !== RatingModerationStatus.HIDDEN
+				) {
+					Object.assign(updateData, screenRatingComment(updateData.comment));
+				}
+			}
 
 			const updatedRating = await Rating.findByIdAndUpdate(id, updateData, {
 				new: true,
 				runValidators: true,
 			})
+				.select("-reports")
 				.populate(ratingPopulation)
 				.lean<PopulatedRating>();
 
@@ -476,6 +524,89 @@ router.delete(
 	}
 );
 
+/**
+ * @route   POST /api/ratings/:id/report
+ * @desc    Customer reports another customer's rating
+ * @access  Customer
+ */
+router.post(
+	"/:id/report",
+	authenticateCustomerToken,
+	async (
+		req: CustomerAuthenticatedRequest<{ id: string }, {}, ReportRatingBody>,
+		res: TypedResponse<null>,
+		next: NextFunction
+	) => {
+		try {
+			const { id } = req.params;
+			const customerId = req.customer?._id;
+			const reason = req.body.reason?.trim();
+
+			if (!customerId) {
+				throw customError(400, "No customer id found. Please login again.");
+			}
+
+			if (!mongoose.Types.ObjectId.isValid(id)) {
+				throw customError(400, "Invalid rating ID format");
+			}
+
+			if (!reason) {
+				throw customError(400, "Report reason is required");
+			}
+
+			if (reason.length > 500) {
+				throw customError(400, "Report reason cannot exceed 500 characters");
+			}
+
+			const existingRating = await Rating.findOne({
+				_id: id,
+				is_active: true,
+				...PUBLISHED_RATING_FILTER,
+			})
+				.select("customer_id")
+				.lean();
+
+			if (!existingRating) {
+				throw customError(404, "Rating not found");
+			}
+
+			if (existingRating.customer_id.toString() === customerId.toString()) {
+				throw customError(400, "You cannot report your own rating");
+			}
+
+			// One report per customer, checked in the same update that adds it
+			const reported = await Rating.findOneAndUpdate(
+				{ _id: id, "reports.customer_id": { $ne: customerId } },
+				{
+					$push: {
+						reports: {
+							customer_id: new Types.ObjectId(customerId),
+							reason,
+							reported_at: new Date(),
+						},
+					},
+					$inc: { report_count: 1 },
+				},
+				{ new: true }
+			);
+
+			if (!reported) {
+				throw customError(400, "You have already reported this rating");
+			}
+
+			await flagIfReported(reported._id as Types.ObjectId);
+
+			res.status(200).json({
+				status: 200,
+				message: "Thank you. The rating has been reported for review.",
+				data: null,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
 /**
  * @route   GET /api/ratings/service/:serviceId
  * @desc    Get all ratings for a specific service (public)
@@ -508,13 +639,15 @@ router.get(
 				ratable_type: RatableType.SERVICE,
 				ratable_id: new Types.ObjectId(serviceId),
 				is_active: true,
+				...PUBLISHED_RATING_FILTER,
 			})
+				.select("-reports")
 				.populate(ratingPopulation)
 				.sort({ created_at: -1 })
 				.lean<PopulatedRating[]>();
 
-			// Calculate analytics
-			const analytics = calculateRatingAnalytics(ratings);
+			// Totals come from the aggregates cached on the service
+			const analytics = toRatingAnalytics(service, ratings);
 
 			res.status(200).json({
 				status: 200,
@@ -559,13 +692,15 @@ router.get(
 				ratable_type: RatableType.PACKAGE,
 				ratable_id: new Types.ObjectId(packageId),
 				is_active: true,
+				...PUBLISHED_RATING_FILTER,
 			})
+				.select("-reports")
 				.populate(ratingPopulation)
 				.sort({ created_at: -1 })
 				.lean<PopulatedRating[]>();
 
-			// Calculate analytics
-			const analytics = calculateRatingAnalytics(ratings);
+			// Totals come from the aggregates cached on the package
+			const analytics = toRatingAnalytics(pkg, ratings);
 
 			res.status(200).json({
 				status: 200,
@@ -578,6 +713,59 @@ router.get(
 	}
 );
 
+/**
+ * @route   GET /api/ratings/photographer/:photographerId
+ * @desc    Get all ratings for a specific photographer (public)
+ * @access  Public
+ */
+router.get(
+	"/photographer/:photographerId",
+	async (
+		req: CustomerAuthenticatedRequest<{ photographerId: string }>,
+		res: TypedResponse<{
+			ratings: PopulatedRating[];
+			analytics: RatingAnalytics;
+		}>,
+		next: NextFunction
+	) => {
+		try {
+			const { photographerId } = req.params;
+
+			if (!mongoose.Types.ObjectId.isValid(photographerId)) {
+				throw customError(400, "Invalid photographer ID format");
+			}
+
+			// Verify photographer exists
+			const photographer = await Photographer.findById(photographerId);
+			if (!photographer) {
+				throw customError(404, "Photographer not found");
+			}
+
+			const ratings = await Rating.find({
+				ratable_type: RatableType.PHOTOGRAPHER,
+				ratable_id: new Types.ObjectId(photographerId),
+				is_active: true,
+				...PUBLISHED_RATING_FILTER,
+			})
+				.select("-reports")
+				.populate(ratingPopulation)
+				.sort({ created_at: -1 })
+				.lean<PopulatedRating[]>();
+
+			// Totals come from the aggregates cached on the photographer
+			const analytics = toRatingAnalytics(photographer, ratings);
+
+			res.status(200).json({
+				status: 200,
+				message: "Photographer ratings retrieved successfully",
+				data: { ratings, analytics },
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
 /**
  * @route   GET /api/ratings/booking/:bookingId
  * @desc    Get all ratings for a specific booking (services and packages)
@@ -610,7 +798,9 @@ router.get(
 			const ratings = await Rating.find({
 				booking_id: new Types.ObjectId(bookingId),
 				is_active: true,
+				...PUBLISHED_RATING_FILTER,
 			})
+				.select("-reports")
 				.populate(ratingPopulation)
 				.sort({ created_at: -1 })
 				.lean<PopulatedRating[]>();
@@ -5,6 +5,7 @@ import { TypedResponse } from "../../types/base.types";
 import { customError } from "../../middleware/errorHandler";
 import { Transaction } from "../../models/Transaction";
 import { ServiceCategory } from "../../constants/service-category.constant";
+import { RatingDistribution } from "../../models/RatingSummary";
 
 const router = Router();
 
@@ -22,6 +23,9 @@ type ServiceLean = {
 	duration_minutes?: number | null;
 	is_available: boolean;
 	service_gallery: string[];
+	rating_average?: number;
+	rating_count?: number;
+	rating_distribution?: RatingDistribution;
 	is_active: boolean;
 	created_by?: Types.ObjectId | null;
 	updated_by?: Types.ObjectId | null;
@@ -43,6 +47,8 @@ type ServiceListResponse = {
 	duration_minutes?: number | null;
 	is_available: boolean;
 	service_gallery: string[];
+	rating_average?: number;
+	rating_count?: number;
 };
 
 type CategorySummary = {
@@ -63,6 +69,20 @@ type RecommendationsResponse = {
 // HELPER FUNCTIONS
 // ============================================================================
 
+// Best rated first; more ratings break ties between equal averages
+const RATING_SORT = { rating_average: -1, rating_count: -1 } as const;
+
+// Lower bound on the cached average, from a min_rating query param
+function buildMinRatingFilter(minRating: unknown) {
+	if (minRating === undefined || minRating === "") return undefined;
+
+	const value = Number(minRating);
+	if (Number.isNaN(value) || value < 0 || value > 5) {
+		throw customError(400, "min_rating must be a number between 0 and 5");
+	}
+	return { $gte: value };
+}
+
 function convertToListResponse(service: ServiceLean): ServiceListResponse {
 	const { _id, is_active, created_at, updated_at, ...serviceData } = service;
 	return {
@@ -78,7 +98,8 @@ function convertToListResponse(service: ServiceLean): ServiceListResponse {
 /**
  * GET /services/browse
  * Public - for clients to browse available services
- * Query params: category, available_only, search, sort_by, sort_order
+ * Query params: category, available_only, search, min_rating, sort_by
+ * ("rating" for best rated first, or any service field), sort_order
  */
 router.get(
 	"/browse",
@@ -92,6 +113,7 @@ router.get(
 				category,
 				available_only = "true",
 				search,
+				min_rating,
 				sort_by = "name",
 				sort_order = "asc",
 			} = req.query;
@@ -102,6 +124,7 @@ router.get(
 				is_active?: boolean;
 				deleted_at: null;
 				category?: string;
+				rating_average?: { $gte: number };
 				$or?: Array<{
 					name?: { $regex: string | unknown; $options: string };
 					description?: { $regex: string | unknown; $options: string };
@@ -128,14 +151,22 @@ router.get(
 				];
 			}
 
+			const ratingFilter = buildMinRatingFilter(min_rating);
+			if (ratingFilter) {
+				filter.rating_average = ratingFilter;
+			}
+
 			// Build sort
 			interface SortObject {
 				[key: string]: 1 | -1;
 			}
 
-			const sortObj: SortObject = {};
-			const sortField = sort_by as string;
-			sortObj[sortField] = sort_order === "desc" ? -1 : 1;
+			const sortObj: SortObject =
+				sort_by === "rating" ? { ...RATING_SORT } : {};
+			if (sort_by !== "rating") {
+				const sortField = sort_by as string;
+				sortObj[sortField] = sort_order === "desc" ? -1 : 1;
+			}
 
 			const services = await Service.find(filter)
 				.sort(sortObj)
@@ -185,7 +216,7 @@ router.get(
 
 			const services = await Service.find(filter)
 				.select(
-					"name description category price old_price duration_minutes is_available service_gallery"
+					"name description category price old_price duration_minutes is_available service_gallery rating_average rating_count"
 				)
 				.sort({ category: 1, name: 1 })
 				.lean<ServiceLean[]>();
@@ -275,7 +306,7 @@ router.get(
 
 			const services = await Service.find(filter)
 				.select(
-					"name description category price old_price duration_minutes is_available service_gallery"
+					"name description category price old_price duration_minutes is_available service_gallery rating_average rating_count"
 				)
 				.sort({ name: 1 })
 				.lean<ServiceLean[]>();
@@ -299,6 +330,7 @@ router.get(
 /**
  * GET /services/popular
  * Public - popular services based on category priorities
+ * Query params: sort_by ("rating" for best rated first)
  * TODO: Base it on booking stats from Transaction model
  */
 router.get(
@@ -313,6 +345,7 @@ router.get(
 			// In a real app, this would be based on booking statistics
 			// For now, we prioritize Photography and Beauty services as they're core to photoshoots
 			const popularCategories = ["Photography", "Beauty", "Styling"];
+			const { sort_by } = req.query;
 
 			const services = await Service.find({
 				category: { $in: popularCategories },
@@ -321,12 +354,16 @@ router.get(
 				deleted_at: null,
 			})
 				.select(
-					"name description category price old_price duration_minutes is_available service_gallery"
+					"name description category price old_price duration_minutes is_available service_gallery rating_average rating_count"
+				)
+				.sort(
+					sort_by === "rating"
+						? { ...RATING_SORT, name: 1 }
+						: {
+								category: 1, // Photography first, then Beauty, then Styling
+								name: 1,
+						  }
 				)
-				.sort({
-					category: 1, // Photography first, then Beauty, then Styling
-					name: 1,
-				})
 				.limit(8)
 				.lean<ServiceLean[]>();
 
@@ -378,7 +415,7 @@ router.get(
 				deleted_at: null,
 			})
 				.select(
-					"name description category price old_price duration_minutes is_available service_gallery"
+					"name description category price old_price duration_minutes is_available service_gallery rating_average rating_count"
 				)
 				.sort({ category: 1, name: 1 })
 				.lean<ServiceLean[]>();
@@ -402,7 +439,8 @@ router.get(
 /**
  * GET /services/search
  * Public - search services by name or description
- * Query params: q (query), category, available_only
+ * Query params: q (query), category, available_only, min_rating,
+ * sort_by ("rating" for best rated first)
  */
 router.get(
 	"/search",
@@ -412,7 +450,13 @@ router.get(
 		next: NextFunction
 	) => {
 		try {
-			const { q: query, category, available_only = "true" } = req.query;
+			const {
+				q: query,
+				category,
+				available_only = "true",
+				min_rating,
+				sort_by,
+			} = req.query;
 
 			if (!query || typeof query !== "string" || query.trim().length < 2) {
 				throw customError(
@@ -430,6 +474,7 @@ router.get(
 				is_active?: boolean;
 				deleted_at: null;
 				category?: string;
+				rating_average?: { $gte: number };
 			}
 
 			const filter: SearchFilter = {
@@ -449,11 +494,16 @@ router.get(
 				filter.category = category as string;
 			}
 
+			const ratingFilter = buildMinRatingFilter(min_rating);
+			if (ratingFilter) {
+				filter.rating_average = ratingFilter;
+			}
+
 			const services = await Service.find(filter)
 				.select(
-					"name description category price old_price duration_minutes is_available service_gallery"
+					"name description category price old_price duration_minutes is_available service_gallery rating_average rating_count"
 				)
-				.sort({ name: 1 })
+				.sort(sort_by === "rating" ? { ...RATING_SORT, name: 1 } : { name: 1 })
 				.limit(20) // Limit search results
 				.lean<ServiceLean[]>();
 
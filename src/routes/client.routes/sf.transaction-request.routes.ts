@@ -6,12 +6,17 @@ import {
 } from "../../middleware/authCustomerMiddleware";
 import { TypedResponse } from "../../types/base.types";
 import { customError } from "../../middleware/errorHandler";
+import { idempotent } from "../../middleware/idempotencyMiddleware";
 import {
 	TransactionRequest,
 	TransactionRequestModel,
 } from "../../models/TransactionRequest";
 import { Transaction } from "../../models/Transaction";
 import { Booking } from "../../models/Booking";
+import {
+	assertRefundWithinPolicy,
+	calculateRefundEligibility,
+} from "../../utils/refundPolicy";
 
 const router = Router();
 
@@ -62,7 +67,7 @@ type PopulatedTransactionRequest = Omit<
 type RequestRefundBody = {
 	transaction_id: string;
 	booking_id: string;
-	refund_amount: number;
+	refund_amount?: number; // Defaults to what the cancellation policy allows
 	refund_reason: string;
 };
 
@@ -78,6 +83,7 @@ type RequestRefundBody = {
 router.post(
 	"/request-refund",
 	authenticateCustomerToken,
+	idempotent,
 	async (
 		req: CustomerAuthenticatedRequest<{}, {}, RequestRefundBody>,
 		res: TypedResponse<PopulatedTransactionRequest>,
@@ -93,10 +99,10 @@ router.post(
 			}
 
 			// Validate required fields
-			if (!transaction_id || !booking_id || !refund_amount || !refund_reason) {
+			if (!transaction_id || !booking_id || !refund_reason) {
 				throw customError(
 					400,
-					"Transaction ID, booking ID, refund amount, and refund reason are required"
+					"Transaction ID, booking ID, and refund reason are required"
 				);
 			}
 
@@ -114,7 +120,10 @@ router.post(
 			}
 
 			// Validate refund amount
-			if (refund_amount <= 0) {
+			if (
+				refund_amount !== undefined &&
+				(typeof refund_amount !== "number" || refund_amount <= 0)
+			) {
 				throw customError(400, "Refund amount must be greater than 0");
 			}
 
@@ -138,12 +147,8 @@ router.post(
 				);
 			}
 
-			// Validate refund amount doesn't exceed transaction amount
-			if (refund_amount > transaction.amount) {
-				throw customError(
-					400,
-					`Refund amount (${refund_amount}) exceeds transaction amount (${transaction.amount})`
-				);
+			if (transaction.transaction_type === "Refund") {
+				throw customError(400, "Refund transactions cannot be refunded");
 			}
 
 			// Check if booking exists and belongs to customer
@@ -156,6 +161,33 @@ router.post(
 				throw customError(403, "Booking does not belong to you");
 			}
 
+			if (transaction.booking_id.toString() !== booking_id) {
+				throw customError(400, "Transaction does not belong to this booking");
+			}
+
+			// The cancellation policy caps what can be asked for
+			const eligibility = await calculateRefundEligibility(booking_id);
+			const amount =
+				refund_amount ??
+				Math.min(eligibility.available_refund, transaction.amount);
+
+			if (amount <= 0) {
+				throw customError(
+					400,
+					`No refund is available for this booking. ${eligibility.message}`
+				);
+			}
+
+			// Validate refund amount doesn't exceed transaction amount
+			if (amount > transaction.amount) {
+				throw customError(
+					400,
+					`Refund amount (${amount}) exceeds transaction amount (${transaction.amount})`
+				);
+			}
+
+			assertRefundWithinPolicy(amount, eligibility);
+
 			// Check for existing pending refund request for this transaction
 			const existingRequest = await TransactionRequest.findOne({
 				transaction_id: new Types.ObjectId(transaction_id),
@@ -179,7 +211,9 @@ router.post(
 				customer_id: new Types.ObjectId(customerId),
 				request_type: "Refund",
 				status: "Pending",
-				refund_amount,
+				refund_amount: amount,
+				policy_refund_amount: eligibility.available_refund,
+				policy_refund_percentage: eligibility.refund_percentage,
 				refund_reason: refund_reason.trim(),
 				created_by: new Types.ObjectId(customerId),
 			});
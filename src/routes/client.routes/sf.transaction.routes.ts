@@ -8,8 +8,15 @@ import {
 	authenticateCustomerToken,
 	CustomerAuthenticatedRequest,
 } from "../../middleware/authCustomerMiddleware";
-import { CustomerModel } from "../../models/Customer";
+import { idempotent } from "../../middleware/idempotencyMiddleware";
+import { Customer, CustomerModel } from "../../models/Customer";
 import { formatToPeso } from "../../utils/formatMoney";
+import { startOnlinePayment } from "../../utils/paymentGateway";
+import { buildReceiptPdf, buildStatementPdf } from "../../utils/receipts";
+import {
+	getEnabledPaymentProviders,
+	getPaymentProvider,
+} from "../../utils/paymentProviders";
 
 const router = Router();
 
@@ -28,6 +35,10 @@ interface TransactionLean {
 	status: string;
 	payment_proof_images: string[];
 	external_reference?: string | null;
+	payment_provider?: string | null;
+	checkout_url?: string | null;
+	provider_status?: string | null;
+	receipt_number?: string | null;
 	transaction_date: Date;
 	processed_at?: Date | null;
 	failed_at?: Date | null;
@@ -53,6 +64,10 @@ interface TransactionResponse {
 	status: string;
 	payment_proof_images: string[];
 	external_reference?: string | null;
+	payment_provider?: string | null;
+	checkout_url?: string | null;
+	provider_status?: string | null;
+	receipt_number?: string | null;
 	transaction_date: Date;
 	processed_at?: Date | null;
 	failed_at?: Date | null;
@@ -77,6 +92,11 @@ interface BookingPaymentSummary {
 	transactions: TransactionResponse[];
 }
 
+interface OnlinePaymentResponse {
+	transaction: TransactionResponse;
+	checkout_url: string | null;
+}
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
@@ -103,6 +123,39 @@ function convertToResponse(transaction: TransactionLean): TransactionResponse {
 	};
 }
 
+// A new payment is the Balance when it settles the booking, otherwise Partial.
+// Pending payments count against the balance so it cannot be paid twice.
+async function resolvePaymentType(
+	booking: BookingModel,
+	amount: number
+): Promise<"Partial" | "Balance"> {
+	const allTransactions = await Transaction.find({
+		booking_id: booking._id,
+		status: { $nin: ["Failed", "Refunded"] }, // EXCLUDE refunded
+		transaction_type: { $in: ["Payment", "Partial", "Balance"] },
+	});
+
+	const totalCommitted = allTransactions.reduce(
+		(sum, txn) => sum + txn.amount,
+		0
+	);
+
+	const remainingBalance = booking.final_amount - totalCommitted;
+
+	// Validate new payment doesn't exceed remaining balance
+	if (amount > remainingBalance) {
+		throw customError(
+			400,
+			`${formatToPeso(String(amount))} exceeds remaining balance ${formatToPeso(
+				String(remainingBalance)
+			)}`
+		);
+	}
+
+	// Full payment or final payment
+	return amount >= remainingBalance ? "Balance" : "Partial";
+}
+
 function calculatePaymentStatus(
 	remaining: number
 ): "unpaid" | "partial" | "paid" | "overpaid" {
@@ -195,6 +248,33 @@ router.get(
 	}
 );
 
+/**
+ * GET /client/transactions/payment-providers
+ * Online payment providers customers can pay with
+ */
+router.get(
+	"/payment-providers",
+	authenticateCustomerToken,
+	async (
+		req: CustomerAuthenticatedRequest,
+		res: TypedResponse<{ name: string; payment_method: string }[]>,
+		next: NextFunction
+	) => {
+		try {
+			res.status(200).json({
+				status: 200,
+				message: "Payment providers fetched successfully!",
+				data: getEnabledPaymentProviders().map((provider) => ({
+					name: provider.name,
+					payment_method: provider.paymentMethod,
+				})),
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
 /**
  * GET /client/transactions/booking/:bookingId
  * Get all transactions for a specific booking (with payment summary)
@@ -285,6 +365,51 @@ router.get(
 	}
 );
 
+/**
+ * GET /client/transactions/booking/:bookingId/statement
+ * Download the booking's statement of account as a PDF
+ */
+router.get(
+	"/booking/:bookingId/statement",
+	authenticateCustomerToken,
+	async (req: CustomerAuthenticatedRequest, res, next: NextFunction) => {
+		try {
+			const { bookingId } = req.params;
+			const customerId = req.customer?._id;
+
+			if (!customerId) {
+				throw customError(400, "No customer id found. Please login again.");
+			}
+
+			if (!Types.ObjectId.isValid(bookingId)) {
+				throw customError(400, "Invalid booking ID format");
+			}
+
+			const booking = await Booking.findById(bookingId).select("customer_id");
+
+			if (!booking) {
+				throw customError(404, "Booking not found");
+			}
+
+			// Verify customer owns this booking
+			if (booking.customer_id.toString() !== customerId.toString()) {
+				throw customError(403, "You don't have access to this booking");
+			}
+
+			const statement = await buildStatementPdf(bookingId);
+
+			res.setHeader("Content-Type", statement.contentType);
+			res.setHeader(
+				"Content-Disposition",
+				`attachment; filename="${statement.filename}"`
+			);
+			res.status(200).send(statement.content);
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
 /**
  * POST /client/transactions/booking/:bookingId/pay
  * Create a payment transaction for a booking (supports partial payments)
@@ -292,6 +417,7 @@ router.get(
 router.post(
 	"/booking/:bookingId/pay",
 	authenticateCustomerToken,
+	idempotent,
 	async (
 		req: CustomerAuthenticatedRequest,
 		res: TypedResponse<TransactionResponse>,
@@ -336,36 +462,7 @@ router.post(
 				throw customError(400, "Payment method is required");
 			}
 
-			const allTransactions = await Transaction.find({
-				booking_id: bookingId,
-				status: { $nin: ["Failed", "Refunded"] }, // EXCLUDE refunded
-				transaction_type: { $in: ["Payment", "Partial", "Balance"] },
-			});
-
-			const totalCommitted = allTransactions.reduce(
-				(sum, txn) => sum + txn.amount,
-				0
-			);
-
-			const remainingBalance = booking.final_amount - totalCommitted;
-
-			// Validate new payment doesn't exceed remaining balance
-			if (amount > remainingBalance) {
-				throw customError(
-					400,
-					`${formatToPeso(amount)} exceeds remaining balance ${formatToPeso(
-						String(remainingBalance)
-					)}`
-				);
-			}
-
-			// Determine transaction type based on amount
-			let transactionType: string;
-			if (amount >= remainingBalance) {
-				transactionType = "Balance"; // Full payment or final payment
-			} else {
-				transactionType = "Partial"; // Partial payment
-			}
+			const transactionType = await resolvePaymentType(booking, amount);
 
 			// Create transaction
 			const newTransaction = new Transaction({
@@ -407,6 +504,113 @@ router.post(
 	}
 );
 
+/**
+ * POST /client/transactions/booking/:bookingId/pay-online
+ * Start an online payment with a payment provider. Returns the checkout URL;
+ * the provider's webhook completes or fails the transaction.
+ */
+router.post(
+	"/booking/:bookingId/pay-online",
+	authenticateCustomerToken,
+	idempotent,
+	async (
+		req: CustomerAuthenticatedRequest,
+		res: TypedResponse<OnlinePaymentResponse>,
+		next: NextFunction
+	) => {
+		try {
+			const { bookingId } = req.params;
+			const customerId = req.customer?._id;
+
+			if (!customerId) {
+				throw customError(400, "No customer id found. Please login again.");
+			}
+
+			if (!Types.ObjectId.isValid(bookingId)) {
+				throw customError(400, "Invalid booking ID format");
+			}
+
+			const { amount, provider: providerName, notes } = req.body;
+
+			if (!amount || amount <= 0) {
+				throw customError(400, "Valid payment amount is required");
+			}
+
+			const provider = getPaymentProvider(providerName);
+
+			const booking = await Booking.findById(bookingId);
+
+			if (!booking) {
+				throw customError(404, "Booking not found");
+			}
+
+			// Verify customer owns this booking
+			if (booking.customer_id.toString() !== customerId.toString()) {
+				throw customError(403, "You don't have access to this booking");
+			}
+
+			const customer = await Customer.findById(customerId).select(
+				"first_name last_name email mobile_number"
+			);
+
+			if (!customer) {
+				throw customError(404, "Customer not found");
+			}
+
+			const transactionType = await resolvePaymentType(booking, amount);
+
+			const newTransaction = new Transaction({
+				booking_id: booking._id,
+				customer_id: customerId,
+				amount,
+				transaction_type: transactionType,
+				payment_method: provider.paymentMethod,
+				payment_provider: provider.name,
+				status: "Pending",
+				notes,
+				transaction_date: new Date(),
+				created_by: customerId,
+			});
+
+			await newTransaction.save();
+
+			const intent = await startOnlinePayment(
+				newTransaction,
+				{
+					name: `${customer.first_name} ${customer.last_name}`,
+					email: customer.email,
+					mobile_number: customer.mobile_number,
+				},
+				`Payment for booking ${booking.booking_reference}`
+			);
+
+			const transaction = await Transaction.findById(newTransaction._id)
+				.select(
+					"-deleted_by -retrieved_by -deleted_at -retrieved_at -created_by -updated_by"
+				)
+				.lean<TransactionLean>();
+
+			if (!transaction) {
+				throw customError(500, "Failed to retrieve created transaction");
+			}
+
+			res.status(201).json({
+				status: 201,
+				message:
+					transaction.status === "Completed"
+						? "Payment completed successfully!"
+						: "Payment started. Complete it at the checkout page.",
+				data: {
+					transaction: convertToResponse(transaction),
+					checkout_url: intent.checkout_url,
+				},
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
 /**
  * GET /client/transactions/:transactionId
  * Get single transaction details
@@ -621,4 +825,49 @@ router.get(
 	}
 );
 
+/**
+ * GET /client/transactions/:transactionId/receipt
+ * Download the official receipt of a completed transaction as a PDF
+ */
+router.get(
+	"/:transactionId/receipt",
+	authenticateCustomerToken,
+	async (req: CustomerAuthenticatedRequest, res, next: NextFunction) => {
+		try {
+			const { transactionId } = req.params;
+			const customerId = req.customer?._id;
+
+			if (!customerId) {
+				throw customError(400, "No customer id found. Please login again.");
+			}
+
+			if (!Types.ObjectId.isValid(transactionId)) {
+				throw customError(400, "Invalid transaction ID format");
+			}
+
+			const transaction = await Transaction.findById(transactionId);
+
+			if (!transaction) {
+				throw customError(404, "Transaction not found");
+			}
+
+			// Verify customer owns this transaction
+			if (transaction.customer_id.toString() !== customerId.toString()) {
+				throw customError(403, "You don't have access to this transaction");
+			}
+
+			const receipt = await buildReceiptPdf(transaction);
+
+			res.setHeader("Content-Type", receipt.contentType);
+			res.setHeader(
+				"Content-Disposition",
+				`attachment; filename="${receipt.filename}"`
+			);
+			res.status(200).send(receipt.content);
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
 export default router;
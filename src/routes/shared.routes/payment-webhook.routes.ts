@@ -0,0 +1,46 @@
+import express, { Router, Request, NextFunction } from "express";
+import { TypedResponse } from "../../types/base.types";
+import {
+	handlePaymentWebhook,
+	PaymentSyncResult,
+} from "../../utils/paymentGateway";
+
+const router = Router();
+
+/**
+ * POST /webhooks/payments/:provider
+ * Payment provider callbacks. The body is kept raw because the signature is
+ * computed over the exact bytes sent; this router is mounted before the JSON
+ * body parser.
+ */
+router.post(
+	"/:provider",
+	express.raw({ type: "*/*", limit: "1mb" }),
+	async (
+		req: Request,
+		res: TypedResponse<PaymentSyncResult>,
+		next: NextFunction
+	) => {
+		try {
+			const rawBody = Buffer.isBuffer(req.body)
+				? req.body
+				: Buffer.alloc(0);
+
+			const result = await handlePaymentWebhook(
+				req.params.provider,
+				rawBody,
+				req.headers
+			);
+
+			res.status(200).json({
+				status: 200,
+				message: `Payment webhook processed (${result.outcome})`,
+				data: result,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+);
+
+export default router;
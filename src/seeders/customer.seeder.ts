@@ -59,6 +59,7 @@ export const seedCustomers = async (count = 100) => {
 				postal_code: faker.location.zipCode(),
 				country: "Philippines",
 				password: hashedPassword,
+				email_verified_at: new Date(),
 				created_by: adminUser?._id || null,
 			});
 		}
@@ -77,3 +78,23 @@ export const seedCustomers = async (count = 100) => {
 		}
 	}
 };
+
+// Customers registered before email verification existed are treated as verified
+export const backfillCustomerEmailVerification = async () => {
+	logInfo("🔹 Marking existing customers as email verified...");
+
+	try {
+		const result = await Customer.updateMany(
+			{
+				$or: [
+					{ email_verified_at: { $exists: false } },
+					{ email_verified_at: null, email_verification_sent_at: null },
+				],
+			},
+			[{ $set: { email_verified_at: { $ifNull: ["$created_at", "$$NOW"] } } }]
+		);
+		logSuccess(`✅ Marked ${result.modifiedCount} customers as verified.`);
+	} catch (err: any) {
+		logError(`❌ Backfill failed: ${err.message}`);
+	}
+};
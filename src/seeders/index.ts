@@ -4,12 +4,19 @@ dotenv.config();
 import mongoose from "mongoose";
 import { logError, logInfo, logSuccess } from "./utils/seed.logger";
 import { seedUsers } from "./user.seeder";
-import { seedCustomers } from "./customer.seeder";
+import {
+	backfillCustomerEmailVerification,
+	seedCustomers,
+} from "./customer.seeder";
 import { seedPhotographers } from "./photographer.seeder";
 import { seedServices } from "./service.seeder";
 import { seedPackages } from "./package.seeder";
 import { seedBookingsAndTransactions } from "./booking-transaction.seeder";
 import { seedBookingModifications } from "./booking-modification.seeder";
+import { syncPermissions } from "./permission.seeder";
+import { backfillSlotReservations } from "./slot-reservation.seeder";
+import { recomputeRatingAggregates } from "./rating-aggregate.seeder";
+import { backfillPaymentSchedules } from "./payment-schedule.seeder";
 
 const MONGO_URI =
 	process.env.MONGODB_URI || "mongodb://localhost:27017/capstone-dev";
@@ -36,6 +43,9 @@ const run = async () => {
 			case "customers":
 				await seedCustomers();
 				break;
+			case "customers-verify-email":
+				await backfillCustomerEmailVerification();
+				break;
 			case "photographers":
 				await seedPhotographers();
 				break;
@@ -51,6 +61,18 @@ const run = async () => {
 			case "booking-modifications":
 				await seedBookingModifications();
 				break;
+			case "permissions":
+				await syncPermissions();
+				break;
+			case "slot-reservations":
+				await backfillSlotReservations();
+				break;
+			case "rating-aggregates":
+				await recomputeRatingAggregates();
+				break;
+			case "payment-schedules":
+				await backfillPaymentSchedules();
+				break;
 			default:
 				logError(`❌ Unknown seeder: ${arg}`);
 				break;
@@ -0,0 +1,39 @@
+import { Types } from "mongoose";
+import { Booking } from "../models/Booking";
+import { syncPaymentSchedule } from "../utils/paymentSchedule";
+import { logError, logInfo, logSuccess } from "./utils/seed.logger";
+
+// Lays out deposit and balance milestones for bookings made before payment
+// schedules existed
+export const backfillPaymentSchedules = async () => {
+	logInfo("🔹 Building payment schedules for active bookings...");
+
+	try {
+		const bookings = await Booking.find({
+			status: { $nin: ["Cancelled", "Completed"] },
+			is_active: true,
+			$or: [
+				{ payment_schedule: { $exists: false } },
+				{ payment_schedule: { $size: 0 } },
+			],
+		})
+			.select("_id booking_reference")
+			.lean();
+
+		let scheduled = 0;
+		for (const booking of bookings) {
+			try {
+				await syncPaymentSchedule(booking._id as Types.ObjectId);
+				scheduled++;
+			} catch (err: any) {
+				logError(
+					`⚠️ Could not schedule ${booking.booking_reference}: ${err.message}`
+				);
+			}
+		}
+
+		logSuccess(`✅ Built payment schedules for ${scheduled} bookings.`);
+	} catch (err: any) {
+		logError(`❌ Backfill failed: ${err.message}`);
+	}
+};
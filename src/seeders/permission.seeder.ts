@@ -0,0 +1,45 @@
+import { Permission } from "../models/Permission";
+import { Role } from "../models/Role";
+import { PERMISSION_KEYS } from "../constants/route-permission.constant";
+import { logInfo, logSuccess, logError } from "./utils/seed.logger";
+
+// Role that always holds every permission in the registry
+const FULL_ACCESS_ROLE = "Admin";
+
+// Makes the Permission collection match the route-permission registry
+export const syncPermissions = async () => {
+	logInfo(`🔹 Syncing ${PERMISSION_KEYS.length} permissions...`);
+
+	try {
+		const result = await Permission.bulkWrite(
+			PERMISSION_KEYS.map((key) => {
+				const [module, action] = key.split(":");
+				return {
+					updateOne: {
+						filter: { key },
+						update: { $set: { key, module, action } },
+						upsert: true,
+					},
+				};
+			})
+		);
+
+		const stale = await Permission.deleteMany({
+			key: { $nin: [...PERMISSION_KEYS] },
+		});
+
+		const adminRole = await Role.updateOne(
+			{ name: FULL_ACCESS_ROLE },
+			{ $addToSet: { permissions: { $each: [...PERMISSION_KEYS] } } }
+		);
+
+		logSuccess(
+			`✅ Permissions synced: ${result.upsertedCount} added, ${stale.deletedCount} removed.`
+		);
+		if (adminRole.matchedCount === 0) {
+			logInfo(`⚠️ No "${FULL_ACCESS_ROLE}" role found to grant permissions to.`);
+		}
+	} catch (err: any) {
+		logError(`❌ Permission sync failed: ${err.message}`);
+	}
+};
@@ -0,0 +1,30 @@
+import { Rating, RatableType } from "../models/Rating";
+import {
+	recomputeRatableSummaries,
+	syncBookingRatings,
+} from "../utils/ratingAggregates";
+import { logError, logInfo, logSuccess } from "./utils/seed.logger";
+
+// Rebuilds the rating aggregates cached on services, packages, photographers
+// and bookings from the ratings themselves
+export const recomputeRatingAggregates = async () => {
+	logInfo("🔹 Recomputing rating aggregates...");
+
+	try {
+		for (const ratableType of Object.values(RatableType)) {
+			const rated = await recomputeRatableSummaries(ratableType);
+			logInfo(`   ${ratableType}: ${rated} with published ratings`);
+		}
+
+		const bookingIds = await Rating.distinct("booking_id");
+		for (const bookingId of bookingIds) {
+			await syncBookingRatings(bookingId);
+		}
+
+		logSuccess(
+			`✅ Rating aggregates recomputed (${bookingIds.length} rated bookings).`
+		);
+	} catch (err: any) {
+		logError(`❌ Recompute failed: ${err.message}`);
+	}
+};
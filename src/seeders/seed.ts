@@ -1280,6 +1280,8 @@ import {
 import { TransactionRequest } from "../models/TransactionRequest";
 import { Rating } from "../models/Rating";
 import { BookingRequest } from "../models/BookingRequest";
+import { PERMISSION_KEYS } from "../constants/route-permission.constant";
+import { syncPermissions } from "./permission.seeder";
 
 const MONGODB_URI =
 	process.env.MONGODB_URI || "mongodb://localhost:27017/capstone-dev";
@@ -2598,32 +2600,7 @@ async function seedRoles() {
 			{
 				name: "Admin",
 				description: "Full access to all system features",
-				permissions: [
-					"user:create",
-					"user:read",
-					"user:update",
-					"user:delete",
-					"customer:create",
-					"customer:read",
-					"customer:update",
-					"customer:delete",
-					"photographer:create",
-					"photographer:read",
-					"photographer:update",
-					"photographer:delete",
-					"booking:create",
-					"booking:read",
-					"booking:update",
-					"booking:delete",
-					"service:create",
-					"service:read",
-					"service:update",
-					"service:delete",
-					"role:create",
-					"role:read",
-					"role:update",
-					"role:delete",
-				],
+				permissions: [...PERMISSION_KEYS],
 				is_active: true,
 			},
 			{
@@ -2636,6 +2613,7 @@ async function seedRoles() {
 					"customer:read",
 					"photographer:read",
 					"photographer:update",
+					"rating:read",
 				],
 				is_active: true,
 			},
@@ -2657,6 +2635,7 @@ async function runAll() {
 		await clearCollections();
 
 		await seedRoles();
+		await syncPermissions();
 
 		// console.log("👤 Seeding users...");
 		// const superAdmin = await seedUsers();
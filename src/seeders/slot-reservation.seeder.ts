@@ -0,0 +1,50 @@
+import { Types } from "mongoose";
+import { Booking } from "../models/Booking";
+import { reserveBookingSlot } from "../utils/slotReservation";
+import { logError, logInfo, logSuccess } from "./utils/seed.logger";
+
+// Creates slot reservations for upcoming bookings made before reservations existed
+export const backfillSlotReservations = async () => {
+	logInfo("🔹 Reserving time slots for upcoming bookings...");
+
+	try {
+		const today = new Date();
+		today.setHours(0, 0, 0, 0);
+
+		const bookings = await Booking.find({
+			photographer_id: { $ne: null },
+			booking_date: { $gte: today },
+			status: { $nin: ["Cancelled", "Completed"] },
+			is_active: true,
+		})
+			.sort({ created_at: 1 })
+			.lean();
+
+		let reserved = 0;
+		let conflicts = 0;
+
+		for (const booking of bookings) {
+			try {
+				await reserveBookingSlot({
+					photographerId: booking.photographer_id as Types.ObjectId,
+					bookingId: booking._id as Types.ObjectId,
+					bookingDate: booking.booking_date,
+					startTime: booking.start_time,
+					durationMinutes: booking.session_duration_minutes,
+				});
+				reserved++;
+			} catch (err: any) {
+				conflicts++;
+				logError(
+					`⚠️ ${booking.booking_reference} overlaps another booking: ${err.message}`
+				);
+			}
+		}
+
+		logSuccess(
+			`✅ Reserved slots for ${reserved} bookings (${conflicts} conflicts to review).`
+		);
+	} catch (err: any) {
+		logError(`❌ Backfill failed: ${err.message}`);
+	}
+};
@@ -17,6 +17,21 @@ export type PaginationQuery = {
 	order?: "asc" | "desc";
 };
 
+export type Pagination = {
+	current_page: number;
+	total_pages: number;
+	total_items: number;
+	items_per_page: number;
+};
+
+// List endpoints return their items under the resource name next to the
+// pagination, e.g. { bookings: [...], pagination: {...} }
+export type PaginatedResponse<K extends string, T> = {
+	[P in K]: T[];
+} & {
+	pagination: Pagination;
+};
+
 export type MetaData = {
 	created_at?: Date;
 	updated_at?: Date;
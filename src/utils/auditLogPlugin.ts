@@ -0,0 +1,300 @@
+import {
+	ClientSession,
+	Document,
+	Model,
+	Query,
+	Schema,
+	Types,
+} from "mongoose";
+import { AuditAction, AuditLog } from "../models/AuditLog";
+import { getRequestActor, getRequestInfo } from "./requestContext";
+
+type PlainDoc = Record<string, any>;
+
+// Bookkeeping fields that change on every write and say nothing on their own
+const IGNORED_FIELDS = ["_id", "__v", "created_at", "updated_at"];
+
+// Values never copied into the audit trail
+const REDACTED_FIELDS = ["password", "password_reset_token"];
+
+const UPDATE_OPERATIONS = [
+	"findOneAndUpdate",
+	"findOneAndReplace",
+	"updateOne",
+	"updateMany",
+	"replaceOne",
+] as const;
+
+const DELETE_OPERATIONS = [
+	"findOneAndDelete",
+	"deleteOne",
+	"deleteMany",
+] as const;
+
+const REPLACE_OPERATIONS = ["findOneAndReplace", "replaceOne"];
+
+// updateMany/deleteMany log at most this many of the documents they match
+const MAX_LOGGED_PER_QUERY = 500;
+
+// Documents matched by a query before it runs, keyed by the query itself
+const queryBefore = new WeakMap<object, PlainDoc[]>();
+
+// ObjectIds become strings and dates ISO strings, so values compare cleanly
+const toPlain = (doc: unknown): PlainDoc | null => {
+	if (!doc) return null;
+	const value =
+		doc instanceof Document ? doc.toObject({ depopulate: true }) : doc;
+	return JSON.parse(JSON.stringify(value));
+};
+
+// Top-level fields an update writes, so only those are loaded to compare;
+// null when it replaces the whole document or is an aggregation pipeline
+const updatedFields = (operation: string, update: unknown) => {
+	if (REPLACE_OPERATIONS.includes(operation)) return null;
+	if (!update || typeof update !== "object" || Array.isArray(update)) {
+		return null;
+	}
+
+	const fields = new Set<string>();
+	for (const [key, value] of Object.entries(update)) {
+		const paths = key.startsWith("$") ? Object.keys(value ?? {}) : [key];
+		for (const path of paths) fields.add(path.split(".")[0]);
+	}
+	return [...fields];
+};
+
+const redact = (doc: PlainDoc | null): PlainDoc | null => {
+	if (!doc) return null;
+	const copy = { ...doc };
+	for (const field of REDACTED_FIELDS) {
+		if (field in copy) copy[field] = "[REDACTED]";
+	}
+	for (const field of IGNORED_FIELDS) delete copy[field];
+	return copy;
+};
+
+const diff = (before: PlainDoc, after: PlainDoc) => {
+	const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+	const changed = [...fields].filter(
+		(field) =>
+			!IGNORED_FIELDS.includes(field) &&
+			JSON.stringify(before[field]) !== JSON.stringify(after[field])
+	);
+
+	const pick = (doc: PlainDoc) =>
+		redact(
+			Object.fromEntries(changed.map((field) => [field, doc[field] ?? null]))
+		);
+
+	return { changed, before: pick(before), after: pick(after) };
+};
+
+// Changes made in a transaction are logged in it, so a rolled back change
+// leaves no audit entry behind
+const writeLog = async (
+	entityType: string,
+	entityId: unknown,
+	action: AuditAction,
+	changedFields: string[],
+	before: PlainDoc | null,
+	after: PlainDoc | null,
+	session: ClientSession | null
+) => {
+	const actor = getRequestActor();
+	const request = getRequestInfo();
+
+	try {
+		await AuditLog.create(
+			[
+				{
+					entity_type: entityType,
+					entity_id: new Types.ObjectId(String(entityId)),
+					action,
+					changed_fields: changedFields,
+					before,
+					after,
+					actor_id: actor ? new Types.ObjectId(actor.id) : null,
+					actor_type: actor?.type ?? "System",
+					method: request?.method ?? null,
+					path: request?.path ?? null,
+					route: request?.route ?? null,
+					ip_address: request?.ip_address ?? null,
+				},
+			],
+			{ session: session ?? undefined }
+		);
+	} catch (error) {
+		// A failed audit write must never fail the change itself
+		console.error(`Failed to write audit log for ${entityType}:`, error);
+	}
+};
+
+const logCreate = (
+	entityType: string,
+	doc: PlainDoc,
+	session: ClientSession | null
+) =>
+	writeLog(
+		entityType,
+		doc._id,
+		"Create",
+		Object.keys(doc).filter((field) => !IGNORED_FIELDS.includes(field)),
+		null,
+		redact(doc),
+		session
+	);
+
+const logUpdate = async (
+	entityType: string,
+	before: PlainDoc,
+	after: PlainDoc,
+	session: ClientSession | null
+) => {
+	const changes = diff(before, after);
+	if (changes.changed.length === 0) return;
+	await writeLog(
+		entityType,
+		after._id,
+		"Update",
+		changes.changed,
+		changes.before,
+		changes.after,
+		session
+	);
+};
+
+const logDelete = (
+	entityType: string,
+	doc: PlainDoc,
+	session: ClientSession | null
+) =>
+	writeLog(
+		entityType,
+		doc._id,
+		"Delete",
+		Object.keys(doc).filter((field) => !IGNORED_FIELDS.includes(field)),
+		redact(doc),
+		null,
+		session
+	);
+
+// ---------------------------
+// Audit log plugin
+// ---------------------------
+// Records every create/update/delete of the model in the audit_logs
+// collection, with the acting account and request taken from requestContext.
+export const auditLogPlugin = (schema: Schema) => {
+	// Document saves (create and update). A loaded document keeps the raw
+	// copy the driver returned, so a save can diff against it without
+	// reading the document again.
+	schema.pre("init", function (raw: PlainDoc) {
+		this.$locals.auditOriginal = raw;
+	});
+
+	schema.pre("save", function () {
+		this.$locals.auditIsNew = this.isNew;
+	});
+
+	schema.post("save", async function () {
+		const entityType = (this.constructor as Model<any>).modelName;
+		const after = toPlain(this);
+		if (!after) return;
+
+		const session = this.$session();
+		const before = toPlain(this.$locals.auditOriginal);
+		if (this.$locals.auditIsNew) {
+			await logCreate(entityType, after, session);
+		} else if (before) {
+			await logUpdate(entityType, before, after, session);
+		}
+
+		// The next save of this document compares with what was just written
+		this.$locals.auditOriginal = after;
+	});
+
+	schema.post("insertMany", async function (docs: any) {
+		const entityType = (this as Model<any>).modelName;
+		for (const doc of docs as Document[]) {
+			const plain = toPlain(doc);
+			if (plain) await logCreate(entityType, plain, doc.$session());
+		}
+	});
+
+	// Query updates and deletes: load the affected documents first. Updates
+	// only load the fields they write, and *Many operations stop at
+	// MAX_LOGGED_PER_QUERY documents.
+	schema.pre(
+		[...UPDATE_OPERATIONS, ...DELETE_OPERATIONS],
+		{ document: false, query: true },
+		async function (this: Query<unknown, unknown>) {
+			const operation: string = (this as any).op ?? "";
+			const single = !operation.endsWith("Many");
+			const options = this.getOptions();
+			const query = this.model
+				.find(this.getFilter())
+				.session(options.session ?? null)
+				.lean();
+			if (options.sort) query.sort(options.sort);
+			query.limit(single ? 1 : MAX_LOGGED_PER_QUERY + 1);
+
+			const fields = updatedFields(operation, this.getUpdate());
+			if (fields) query.select(fields);
+
+			const docs = await query;
+			if (docs.length > MAX_LOGGED_PER_QUERY) {
+				console.warn(
+					`Audit log covers only the first ${MAX_LOGGED_PER_QUERY} ${this.model.modelName} documents changed by ${operation}`
+				);
+				docs.length = MAX_LOGGED_PER_QUERY;
+			}
+			queryBefore.set(
+				this,
+				docs.map(toPlain).filter(Boolean) as PlainDoc[]
+			);
+		}
+	);
+
+	schema.post(
+		[...UPDATE_OPERATIONS],
+		{ document: false, query: true },
+		async function (this: Query<unknown, unknown>) {
+			const before = queryBefore.get(this) ?? [];
+			queryBefore.delete(this);
+			if (before.length === 0) return;
+
+			const session = this.getOptions().session ?? null;
+			const operation: string = (this as any).op ?? "";
+			const fields = updatedFields(operation, this.getUpdate());
+			const afterQuery = this.model
+				.find({ _id: { $in: before.map((doc) => doc._id) } })
+				.session(session)
+				.lean();
+			if (fields) afterQuery.select(fields);
+			const afterDocs = await afterQuery;
+			const afterById = new Map(
+				afterDocs.map((doc: any) => [String(doc._id), toPlain(doc)])
+			);
+
+			for (const doc of before) {
+				const after = afterById.get(String(doc._id));
+				if (after) {
+					await logUpdate(this.model.modelName, doc, after, session);
+				}
+			}
+		}
+	);
+
+	schema.post(
+		[...DELETE_OPERATIONS],
+		{ document: false, query: true },
+		async function (this: Query<unknown, unknown>) {
+			const before = queryBefore.get(this) ?? [];
+			queryBefore.delete(this);
+
+			const session = this.getOptions().session ?? null;
+			for (const doc of before) {
+				await logDelete(this.model.modelName, doc, session);
+			}
+		}
+	);
+};
@@ -0,0 +1,374 @@
+import { Types } from "mongoose";
+import { customError } from "../middleware/errorHandler";
+import { Package } from "../models/Package";
+import { Promo, PromoModel } from "../models/Promo";
+import { Service } from "../models/Service";
+import { evaluatePromoEligibility } from "./promoEligibility";
+import { resolvePromoCode } from "./promoCampaign";
+
+export type PricingServiceInput = {
+	_id: string;
+	quantity: number;
+	duration_minutes?: number | null;
+};
+
+export type PricingInput = {
+	services: PricingServiceInput[];
+	package_id?: string | null;
+	promo_id?: string | null;
+	promo_ids?: string[] | null; // Stacked promos; combined with promo_id
+	promo_code?: string | null; // A promo's own code or a campaign code
+	booking_date?: Date;
+	customer_id?: string | Types.ObjectId; // Needed by customer promo rules
+};
+
+export type PricedServiceLine = {
+	service_id: Types.ObjectId;
+	name: string;
+	quantity: number;
+	price_per_unit: number;
+	total_price: number;
+	duration_minutes: number | null;
+};
+
+export type AppliedPromoDiscount = {
+	promo_id: Types.ObjectId;
+	promo_code: string;
+	campaign_code: string | null;
+	name: string;
+	discount_type: string;
+	discount_value: number;
+	discount_amount: number;
+};
+
+export type BookingPrice = {
+	services: PricedServiceLine[];
+	package: { _id: Types.ObjectId; name: string; package_price: number } | null;
+	applied_discounts: AppliedPromoDiscount[]; // In the order they were applied
+	services_total: number; // Sum of service lines at list price
+	total_amount: number; // After package pricing, before promos
+	discount_amount: number;
+	final_amount: number;
+};
+
+type CartPrice = Omit<
+	BookingPrice,
+	"applied_discounts" | "discount_amount" | "final_amount"
+> & { service_categories: string[] };
+
+type LeanPromo = PromoModel & {
+	_id: Types.ObjectId;
+	campaign_code?: string | null; // The single-use code it was entered with
+};
+
+// Helper function to calculate discount amount
+export const calculateDiscount = (
+	promo: PromoModel,
+	bookingAmount: number
+): number => {
+	let discount = 0;
+
+	if (promo.discount_type === "Percentage") {
+		discount = Math.round((bookingAmount * promo.discount_value) / 100);
+	} else if (promo.discount_type === "Fixed_Amount") {
+		discount = promo.discount_value;
+	}
+
+	// Apply max discount limit if set
+	if (promo.max_discount_amount && discount > promo.max_discount_amount) {
+		discount = promo.max_discount_amount;
+	}
+
+	return discount;
+};
+
+// Service lines use the current Service.price. With a package, the services it
+// includes are covered by package_price and only extra quantities are added on
+// top. Throws 400/404 for unknown or unavailable items.
+const priceCart = async (input: PricingInput): Promise<CartPrice> => {
+	if (!input.services || input.services.length === 0) {
+		throw customError(400, "At least one service is required for booking");
+	}
+
+	for (const line of input.services) {
+		if (!line._id || !Types.ObjectId.isValid(line._id)) {
+			throw customError(400, "Invalid service ID format in services array");
+		}
+		if (!Number.isInteger(line.quantity) || line.quantity < 1) {
+			throw customError(400, "Service quantity must be at least 1");
+		}
+	}
+
+	const serviceIds = [...new Set(input.services.map((line) => line._id))];
+	const catalogue = await Service.find({ _id: { $in: serviceIds } })
+		.select("name category price duration_minutes is_available is_active")
+		.lean();
+	const servicesById = new Map(catalogue.map((s) => [s._id.toString(), s]));
+
+	const lines: PricedServiceLine[] = input.services.map((line) => {
+		const service = servicesById.get(line._id);
+		if (!service) {
+			throw customError(404, `Service ${line._id} not found`);
+		}
+		if (!service.is_available || !service.is_active) {
+			throw customError(400, `Service ${service.name} is not available`);
+		}
+		return {
+			service_id: new Types.ObjectId(line._id),
+			name: service.name,
+			quantity: line.quantity,
+			price_per_unit: service.price,
+			total_price: service.price * line.quantity,
+			duration_minutes:
+				line.duration_minutes || service.duration_minutes || null,
+		};
+	});
+
+	const servicesTotal = lines.reduce((sum, line) => sum + line.total_price, 0);
+	let totalAmount = servicesTotal;
+	let selectedPackage: BookingPrice["package"] = null;
+
+	if (input.package_id) {
+		if (!Types.ObjectId.isValid(input.package_id)) {
+			throw customError(400, "Invalid package ID format");
+		}
+		const packageDoc = await Package.findById(input.package_id)
+			.select("name package_price services is_available is_active")
+			.lean();
+		if (!packageDoc) {
+			throw customError(404, "Package not found");
+		}
+		if (!packageDoc.is_available || !packageDoc.is_active) {
+			throw customError(400, "Selected package is not available");
+		}
+
+		// Quantities the package already pays for, per service
+		const included = new Map<string, number>();
+		for (const item of packageDoc.services) {
+			const key = item.service_id.toString();
+			included.set(key, (included.get(key) ?? 0) + item.quantity);
+		}
+
+		let extras = 0;
+		for (const line of lines) {
+			const key = line.service_id.toString();
+			const covered = Math.min(included.get(key) ?? 0, line.quantity);
+			included.set(key, (included.get(key) ?? 0) - covered);
+			extras += (line.quantity - covered) * line.price_per_unit;
+		}
+
+		totalAmount = packageDoc.package_price + extras;
+		selectedPackage = {
+			_id: packageDoc._id as Types.ObjectId,
+			name: packageDoc.name,
+			package_price: packageDoc.package_price,
+		};
+	}
+
+	return {
+		services: lines,
+		package: selectedPackage,
+		services_total: servicesTotal,
+		total_amount: totalAmount,
+		service_categories: [...new Set(catalogue.map((s) => s.category))],
+	};
+};
+
+// Stacked promos are applied highest stacking_priority first, each on what is
+// left after the previous ones, so the total can never go below zero
+export const applyPromoDiscounts = (
+	promos: LeanPromo[],
+	totalAmount: number
+): AppliedPromoDiscount[] => {
+	const ordered = [...promos].sort(
+		(a, b) =>
+			(b.stacking_priority ?? 0) - (a.stacking_priority ?? 0) ||
+			a.promo_code.localeCompare(b.promo_code)
+	);
+
+	let remaining = totalAmount;
+	return ordered.map((promo) => {
+		const discountAmount = Math.min(
+			calculateDiscount(promo, remaining),
+			remaining
+		);
+		remaining -= discountAmount;
+		return {
+			promo_id: promo._id,
+			promo_code: promo.promo_code,
+			campaign_code: promo.campaign_code ?? null,
+			name: promo.name,
+			discount_type: promo.discount_type,
+			discount_value: promo.discount_value,
+			discount_amount: discountAmount,
+		};
+	});
+};
+
+// Only stackable promos may be combined, and each promo only once
+const assertStackable = (promos: LeanPromo[]) => {
+	const codes = promos.map((promo) => promo.promo_code);
+	if (new Set(codes).size !== codes.length) {
+		throw customError(400, "The same promo code cannot be applied twice");
+	}
+	if (promos.length < 2) return;
+
+	const single = promos.find((promo) => !promo.is_stackable);
+	if (single) {
+		throw customError(
+			400,
+			`Promo ${single.promo_code} cannot be combined with other promos`
+		);
+	}
+};
+
+const loadRequestedPromos = async (
+	input: PricingInput
+): Promise<LeanPromo[]> => {
+	if (input.promo_ids && !Array.isArray(input.promo_ids)) {
+		throw customError(400, "promo_ids must be an array of promo IDs");
+	}
+
+	const promoIds = [
+		...(input.promo_id ? [input.promo_id] : []),
+		...(input.promo_ids ?? []),
+	];
+	for (const id of promoIds) {
+		if (!Types.ObjectId.isValid(id)) {
+			throw customError(400, "Invalid promo ID format");
+		}
+	}
+
+	const promos: LeanPromo[] = [];
+	if (promoIds.length > 0) {
+		const found = await Promo.find({ _id: { $in: promoIds } }).lean<
+			LeanPromo[]
+		>();
+		if (found.length !== new Set(promoIds).size) {
+			throw customError(404, "Promo not found");
+		}
+		const campaign = found.find((promo) => promo.is_campaign);
+		if (campaign) {
+			throw customError(
+				400,
+				`${campaign.promo_code}: This promo can only be used with a campaign code`
+			);
+		}
+		promos.push(...found);
+	}
+	if (input.promo_code) {
+		const resolved = await resolvePromoCode(input.promo_code);
+		if (!resolved) {
+			throw customError(404, "Promo not found");
+		}
+		if (resolved.unusable_message) {
+			throw customError(400, resolved.unusable_message);
+		}
+		promos.push({ ...resolved.promo, campaign_code: resolved.campaign_code });
+	}
+	return promos;
+};
+
+const eligibilityContext = (input: PricingInput, cart: CartPrice) => ({
+	bookingAmount: cart.total_amount,
+	bookingDate: input.booking_date,
+	customerId: input.customer_id ?? null,
+	serviceCategories: cart.service_categories,
+	packageId: input.package_id ?? null,
+});
+
+const toBookingPrice = (
+	cart: CartPrice,
+	appliedDiscounts: AppliedPromoDiscount[]
+): BookingPrice => {
+	const { service_categories, ...price } = cart;
+	const discountAmount = appliedDiscounts.reduce(
+		(sum, discount) => sum + discount.discount_amount,
+		0
+	);
+	return {
+		...price,
+		applied_discounts: appliedDiscounts,
+		discount_amount: discountAmount,
+		final_amount: cart.total_amount - discountAmount,
+	};
+};
+
+// ---------------------------
+// Price a booking from the catalogue
+// ---------------------------
+// Throws 400/404 for unknown or unavailable items and for promos that do not
+// apply or cannot be combined.
+export const calculateBookingPrice = async (
+	input: PricingInput
+): Promise<BookingPrice> => {
+	const cart = await priceCart(input);
+	const promos = await loadRequestedPromos(input);
+	assertStackable(promos);
+
+	const context = eligibilityContext(input, cart);
+	for (const promo of promos) {
+		const eligibility = await evaluatePromoEligibility(promo, context);
+		if (!eligibility.isValid) {
+			throw customError(400, `${promo.promo_code}: ${eligibility.message}`);
+		}
+	}
+
+	return toBookingPrice(cart, applyPromoDiscounts(promos, cart.total_amount));
+};
+
+// ---------------------------
+// Best promo combination for a cart
+// ---------------------------
+// Legal combinations are any single promo, or several stackable ones. Adding a
+// stackable promo never lowers the discount, so the candidates are each
+// eligible promo alone and all eligible stackable promos together.
+export const findBestPromoCombination = async (
+	input: Omit<PricingInput, "promo_id" | "promo_ids" | "promo_code">
+): Promise<BookingPrice> => {
+	const cart = await priceCart(input);
+	const now = new Date();
+
+	// Campaign promos need a code of their own, so they are never suggested
+	const candidates = await Promo.find({
+		is_active: true,
+		is_campaign: { $ne: true },
+		deleted_at: null,
+		valid_from: { $lte: now },
+		valid_until: { $gte: now },
+		$expr: {
+			$or: [
+				{ $eq: ["$usage_limit", null] },
+				{ $lt: ["$usage_count", "$usage_limit"] },
+			],
+		},
+	}).lean<LeanPromo[]>();
+
+	const context = eligibilityContext(input, cart);
+	const eligible: LeanPromo[] = [];
+	for (const promo of candidates) {
+		const eligibility = await evaluatePromoEligibility(promo, context);
+		if (eligibility.isValid) eligible.push(promo);
+	}
+
+	const combinations = eligible.map((promo) => [promo]);
+	const stackable = eligible.filter((promo) => promo.is_stackable);
+	if (stackable.length > 1) combinations.push(stackable);
+
+	let best: AppliedPromoDiscount[] = [];
+	let bestDiscount = 0;
+	for (const combination of combinations) {
+		const applied = applyPromoDiscounts(combination, cart.total_amount);
+		const discount = applied.reduce((sum, d) => sum + d.discount_amount, 0);
+		// Ties go to the combination using fewer promos
+		if (
+			discount > bestDiscount ||
+			(discount === bestDiscount && applied.length < best.length)
+		) {
+			best = applied;
+			bestDiscount = discount;
+		}
+	}
+
+	return toBookingPrice(cart, bestDiscount > 0 ? best : []);
+};
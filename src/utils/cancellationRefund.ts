@@ -0,0 +1,164 @@
+import { ClientSession, Types } from "mongoose";
+import refundPolicyConfig from "../config/refundPolicy";
+import { BookingRequestModel } from "../models/BookingRequest";
+import { Transaction, TransactionModel } from "../models/Transaction";
+import { TransactionRequest } from "../models/TransactionRequest";
+import { calculateRefundEligibility, RefundEligibility } from "./refundPolicy";
+
+export type CancellationRefundOptions = {
+	bookingRequest: BookingRequestModel; // The approved cancellation
+	reviewerId: string;
+	paymentProofImages?: string[]; // Proof of payout, for direct refunds
+	session?: ClientSession;
+};
+
+export type CancellationRefund = {
+	mode: "None" | "Request" | "Transaction";
+	amount: number;
+	eligibility: RefundEligibility;
+	refund_request_ids: Types.ObjectId[];
+	refund_transaction_ids: Types.ObjectId[];
+};
+
+const PAYMENT_TYPES = ["Payment", "Partial", "Balance"];
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+// Split a refund over the booking's completed payments, newest first. Each
+// refund references one payment and cannot exceed what is left of it.
+const allocateRefund = async (
+	bookingId: Types.ObjectId,
+	amount: number,
+	session: ClientSession | null
+) => {
+	const payments = await Transaction.find({
+		booking_id: bookingId,
+		transaction_type: { $in: PAYMENT_TYPES },
+		status: "Completed",
+	})
+		.sort({ transaction_date: -1 })
+		.session(session);
+
+	// Amounts already held by open requests against each payment
+	const openRequests = await TransactionRequest.find({
+		transaction_id: { $in: payments.map((payment) => payment._id) },
+		request_type: "Refund",
+		is_active: true,
+		$or: [
+			{ status: "Pending" },
+			{ status: "Approved", refund_transaction_id: null },
+		],
+	})
+		.select("transaction_id refund_amount")
+		.session(session)
+		.lean();
+
+	const allocations: { payment: TransactionModel; amount: number }[] = [];
+	let remaining = amount;
+	for (const payment of payments) {
+		if (remaining <= 0) break;
+		const held = openRequests
+			.filter(
+				(request) => String(request.transaction_id) === String(payment._id)
+			)
+			.reduce((sum, request) => sum + request.refund_amount, 0);
+		const share = roundMoney(Math.min(payment.amount - held, remaining));
+		if (share <= 0) continue;
+		allocations.push({ payment, amount: share });
+		remaining = roundMoney(remaining - share);
+	}
+
+	return allocations;
+};
+
+// ---------------------------
+// Issue the refund for an approved cancellation
+// ---------------------------
+// Refunds what the cancellation policy still allows on the booking. Depending
+// on CANCELLATION_REFUND_MODE this files approved refund requests for an
+// admin to pay out, or records Refund transactions straight away; direct
+// refunds need proof of the payout, so without it requests are filed instead.
+// Links what was created to the cancellation request (saved by the caller).
+export const issueCancellationRefund = async ({
+	bookingRequest,
+	reviewerId,
+	paymentProofImages = [],
+	session,
+}: CancellationRefundOptions): Promise<CancellationRefund> => {
+	// Priced at the tier the customer cancelled under, not the review date
+	const eligibility = await calculateRefundEligibility(
+		bookingRequest.booking_id,
+		{ at: bookingRequest.created_at, session }
+	);
+
+	const result: CancellationRefund = {
+		mode: "None",
+		amount: 0,
+		eligibility,
+		refund_request_ids: [],
+		refund_transaction_ids: [],
+	};
+
+	if (eligibility.available_refund <= 0) {
+		bookingRequest.refund_amount = 0;
+		return result;
+	}
+
+	const allocations = await allocateRefund(
+		bookingRequest.booking_id,
+		eligibility.available_refund,
+		session ?? null
+	);
+	const refundReason = `Refund for approved cancellation ${bookingRequest.request_reference}`;
+	const direct =
+		refundPolicyConfig.cancellationRefundMode === "transaction" &&
+		paymentProofImages.length > 0;
+
+	for (const { payment, amount } of allocations) {
+		if (direct) {
+			const refund = await payment.createRefund(
+				amount,
+				refundReason,
+				reviewerId,
+				paymentProofImages,
+				session
+			);
+			result.refund_transaction_ids.push(refund._id as Types.ObjectId);
+		} else {
+			// Filed for the customer and already approved; an admin pays it out
+			// with POST /api/admin/transactions/:id/refund
+			const [request] = await TransactionRequest.create(
+				[
+					{
+						transaction_id: payment._id,
+						booking_id: bookingRequest.booking_id,
+						customer_id: bookingRequest.customer_id,
+						booking_request_id: bookingRequest._id,
+						request_type: "Refund",
+						status: "Approved",
+						refund_amount: amount,
+						policy_refund_amount: eligibility.available_refund,
+						policy_refund_percentage: eligibility.refund_percentage,
+						refund_reason: refundReason,
+						reviewed_by: new Types.ObjectId(reviewerId),
+						reviewed_at: new Date(),
+						created_by: bookingRequest.customer_id,
+						updated_by: new Types.ObjectId(reviewerId),
+					},
+				],
+				{ session }
+			);
+			result.refund_request_ids.push(request._id as Types.ObjectId);
+		}
+		result.amount = roundMoney(result.amount + amount);
+	}
+
+	if (allocations.length > 0) {
+		result.mode = direct ? "Transaction" : "Request";
+	}
+	bookingRequest.refund_amount = result.amount;
+	bookingRequest.refund_request_ids = result.refund_request_ids;
+	bookingRequest.refund_transaction_ids = result.refund_transaction_ids;
+
+	return result;
+};
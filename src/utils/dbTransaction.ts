@@ -0,0 +1,12 @@
+import mongoose, { ClientSession } from "mongoose";
+
+// ---------------------------
+// Run several writes as one MongoDB transaction
+// ---------------------------
+// Everything written with `session` is committed together or not at all.
+// `work` is retried on transient errors such as write conflicts, so it must
+// not do anything outside the session (emails, slot reservations) itself.
+// Transactions need a replica set or Atlas; a standalone mongod rejects them.
+export const runInTransaction = <T>(
+	work: (session: ClientSession) => Promise<T>
+): Promise<T> => mongoose.connection.transaction(work);
@@ -12,3 +12,9 @@ export const formatTime12Hour = (time24: string | null | undefined): string => {
 
 	return `${hour}:${minute.toString().padStart(2, "0")} ${ampm}`;
 };
+
+// "13:30" -> 810 (minutes since midnight)
+export const timeToMinutes = (time24: string): number => {
+	const [hours, minutes] = time24.split(":").map(Number);
+	return hours * 60 + minutes;
+};
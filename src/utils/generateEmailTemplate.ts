@@ -1106,3 +1106,398 @@ export const renderRescheduleApprovedAdminEmail = (opts: {
       </body>
     </html>`;
 };
+
+/**
+ * Email template when a cancellation is approved (sent to Customer)
+ */
+export const renderCancellationApprovedCustomerEmail = (opts: {
+	firstName: string;
+	lastName: string;
+	bookingNo: string;
+	bookingDate: string;
+	refundAmount?: string; // Omitted when nothing is refunded
+	refundIssued?: boolean; // Already paid out rather than being processed
+	refundPolicyNote: string;
+	adminNotes?: string;
+	companyName: string;
+	supportEmail: string;
+}) => {
+	return `
+    <!doctype html>
+    <html>
+      <head>
+        <meta charset="utf-8"/>
+        <meta name="viewport" content="width=device-width,initial-scale=1.0"/>
+        <title>Cancellation Request Approved - ${opts.companyName}</title>
+      </head>
+      <body style="margin:0;padding:0;background:#f6f7fb;font-family:Arial,Helvetica,sans-serif;color:#0b1220;">
+        <center style="width:100%;background:#f6f7fb;">
+          <table width="100%" cellpadding="0" cellspacing="0">
+            <tr>
+              <td align="center" style="padding:28px 16px;text-align:center;">
+                <table width="600" cellpadding="0" cellspacing="0" bgcolor="#ffffff" style="background:#fff;border-radius:10px;box-shadow:0 4px 12px rgba(0,0,0,0.08);">
+                  <tr>
+                    <td align="center" style="padding:24px 36px;border-bottom:1px solid #eee;text-align:center;">
+                      <h2 style="margin:0;font-size:20px;color:#0b1220;font-family:Arial,Helvetica,sans-serif;">
+                        Cancellation Request Approved
+                      </h2>
+                      <p style="margin:6px 0 0;font-size:14px;color:#51606b;font-family:Arial,Helvetica,sans-serif;">
+                        Your booking has been cancelled
+                      </p>
+                    </td>
+                  </tr>
+                  <tr>
+                    <td align="center" style="padding:24px 36px;text-align:center;">
+                      <p style="margin:0 0 12px;font-size:15px;color:#846e62;font-family:Arial,Helvetica,sans-serif;">
+                        Hi ${opts.firstName} ${opts.lastName},
+                      </p>
+                      <p style="margin:0 0 16px;font-size:14px;color:#475569;font-family:Arial,Helvetica,sans-serif;">
+                        Your cancellation request has been approved and the booking below is now cancelled.
+                      </p>
+                      <table cellpadding="10" cellspacing="0" align="center" style="margin:12px auto 18px;border:1px solid #e2e8f0;background:#f8fafc;border-radius:8px;">
+                        <tr>
+                          <td style="font-size:13px;color:#334155;font-family:Arial,Helvetica,sans-serif;text-align:left;">
+                            <p style="margin:0;">
+                              <strong>Booking Number:</strong> 
+                              <span style="font-family:monospace;background:#475569;padding:4px 8px;border-radius:4px;color:#fff;">
+                                ${opts.bookingNo}
+                              </span>
+                            </p>
+                            <p style="margin:10px 0 0;color:#333;">
+                              <strong>Session Date:</strong> ${opts.bookingDate}
+                            </p>
+                          </td>
+                        </tr>
+                      </table>
+                      ${
+												opts.refundAmount
+													? `
+                      <table cellpadding="10" cellspacing="0" align="center" style="margin:12px auto 18px;border:1px solid #dcfce7;background:#d1fae5;border-radius:8px;">
+                        <tr>
+                          <td style="font-size:13px;color:#065f46;font-family:Arial,Helvetica,sans-serif;text-align:left;">
+                            <p style="margin:0;font-weight:bold;color:#059669;">
+                              ${
+																opts.refundIssued
+																	? "Your refund has been issued"
+																	: "Your refund is being processed"
+															}
+                            </p>
+                            <p style="margin:6px 0 0;color:#333;">
+                              <strong>Refund Amount:</strong> ${opts.refundAmount}
+                            </p>
+                            <p style="margin:6px 0 0;color:#333;">
+                              ${opts.refundPolicyNote}
+                            </p>
+                          </td>
+                        </tr>
+                      </table>
+                      `
+													: `
+                      <p style="margin:0 0 16px;font-size:14px;color:#475569;font-family:Arial,Helvetica,sans-serif;">
+                        No refund is due under our cancellation policy: ${opts.refundPolicyNote}
+                      </p>
+                      `
+											}
+                      ${
+												opts.adminNotes
+													? `
+                      <table cellpadding="10" cellspacing="0" align="center" style="margin:12px auto 18px;border:1px solid #dbeafe;background:#eff6ff;border-radius:8px;">
+                        <tr>
+                          <td style="font-size:13px;color:#1e3a8a;font-family:Arial,Helvetica,sans-serif;text-align:left;">
+                            <p style="margin:0;font-weight:bold;color:#2563eb;">
+                              Notes from Admin:
+                            </p>
+                            <p style="margin:6px 0 0;color:#333;">
+                              ${opts.adminNotes}
+                            </p>
+                          </td>
+                        </tr>
+                      </table>
+                      `
+													: ""
+											}
+                      <hr style="border:none;border-top:1px solid #eee;margin:20px auto;width:80%;" />
+                      <p style="margin:0;font-size:13px;color:#64748b;font-family:Arial,Helvetica,sans-serif;">
+                        Need help? Contact us at
+                        <a href="mailto:${
+													opts.supportEmail
+												}" style="color:#0b61d1;text-decoration:none;">
+                          ${opts.supportEmail}
+                        </a>
+                      </p>
+                    </td>
+                  </tr>
+                  <tr>
+                    <td align="center" style="padding:18px 36px;background:#fbfdff;text-align:center;font-size:12px;color:#94a3b8;font-family:Arial,Helvetica,sans-serif;">
+                      © ${new Date().getFullYear()} ${
+		opts.companyName
+	}. All rights reserved.
+                    </td>
+                  </tr>
+                </table>
+              </td>
+            </tr>
+          </table>
+        </center>
+      </body>
+    </html>`;
+};
+
+/**
+ * Email template for an upcoming or overdue payment (sent to Customer)
+ */
+export const renderPaymentReminderEmail = (opts: {
+	firstName: string;
+	lastName: string;
+	bookingNo: string;
+	bookingDate: string;
+	milestone: string; // Deposit or Balance
+	amountDue: string;
+	dueDate: string;
+	isOverdue: boolean;
+	companyName: string;
+	supportEmail: string;
+}) => {
+	const accent = opts.isOverdue ? "#dc2626" : "#d97706";
+	return `
+    <!doctype html>
+    <html>
+      <head>
+        <meta charset="utf-8"/>
+        <meta name="viewport" content="width=device-width,initial-scale=1.0"/>
+        <title>Payment ${opts.isOverdue ? "Overdue" : "Reminder"} - ${
+		opts.companyName
+	}</title>
+      </head>
+      <body style="margin:0;padding:0;background:#f6f7fb;font-family:Arial,Helvetica,sans-serif;color:#0b1220;">
+        <center style="width:100%;background:#f6f7fb;">
+          <table width="100%" cellpadding="0" cellspacing="0">
+            <tr>
+              <td align="center" style="padding:28px 16px;text-align:center;">
+                <table width="600" cellpadding="0" cellspacing="0" bgcolor="#ffffff" style="background:#fff;border-radius:10px;box-shadow:0 4px 12px rgba(0,0,0,0.08);">
+                  <tr>
+                    <td align="center" style="padding:24px 36px;border-bottom:1px solid #eee;text-align:center;">
+                      <h2 style="margin:0;font-size:20px;color:${accent};font-family:Arial,Helvetica,sans-serif;">
+                        ${
+													opts.isOverdue
+														? `Your ${opts.milestone.toLowerCase()} payment is overdue`
+														: `Your ${opts.milestone.toLowerCase()} payment is due soon`
+												}
+                      </h2>
+                    </td>
+                  </tr>
+                  <tr>
+                    <td align="center" style="padding:24px 36px;text-align:center;">
+                      <p style="margin:0 0 12px;font-size:15px;color:#846e62;font-family:Arial,Helvetica,sans-serif;">
+                        Hi ${opts.firstName} ${opts.lastName},
+                      </p>
+                      <p style="margin:0 0 16px;font-size:14px;color:#475569;font-family:Arial,Helvetica,sans-serif;">
+                        ${
+													opts.isOverdue
+														? "We have not yet received the payment below. Please settle it as soon as possible to keep your booking."
+														: "This is a friendly reminder that a payment for your booking is coming up."
+												}
+                      </p>
+                      <table cellpadding="10" cellspacing="0" align="center" style="margin:12px auto 18px;border:1px solid #fde68a;background:#fffbeb;border-radius:8px;">
+                        <tr>
+                          <td style="font-size:13px;color:#78350f;font-family:Arial,Helvetica,sans-serif;text-align:left;">
+                            <p style="margin:0;">
+                              <strong>Booking Number:</strong> 
+                              <span style="font-family:monospace;background:${accent};padding:4px 8px;border-radius:4px;color:#fff;">
+                                ${opts.bookingNo}
+                              </span>
+                            </p>
+                            <p style="margin:10px 0 0;color:#333;">
+                              <strong>Session Date:</strong> ${opts.bookingDate}
+                            </p>
+                            <p style="margin:6px 0 0;color:#333;">
+                              <strong>${opts.milestone} Due:</strong> ${
+		opts.dueDate
+	}
+                            </p>
+                            <p style="margin:6px 0 0;color:#333;">
+                              <strong>Amount Due:</strong> ${opts.amountDue}
+                            </p>
+                          </td>
+                        </tr>
+                      </table>
+                      <p style="margin:0 0 18px;font-size:14px;color:#475569;font-family:Arial,Helvetica,sans-serif;">
+                        You can pay from your booking page. Ignore this email if you have already sent your payment.
+                      </p>
+                      <hr style="border:none;border-top:1px solid #eee;margin:20px auto;width:80%;" />
+                      <p style="margin:0;font-size:13px;color:#64748b;font-family:Arial,Helvetica,sans-serif;">
+                        Need help? Contact us at
+                        <a href="mailto:${
+													opts.supportEmail
+												}" style="color:#0b61d1;text-decoration:none;">
+                          ${opts.supportEmail}
+                        </a>
+                      </p>
+                    </td>
+                  </tr>
+                  <tr>
+                    <td align="center" style="padding:18px 36px;background:#fbfdff;text-align:center;font-size:12px;color:#94a3b8;font-family:Arial,Helvetica,sans-serif;">
+                      © ${new Date().getFullYear()} ${
+		opts.companyName
+	}. All rights reserved.
+                    </td>
+                  </tr>
+                </table>
+              </td>
+            </tr>
+          </table>
+        </center>
+      </body>
+    </html>`;
+};
+
+export const renderPasswordResetEmail = (opts: {
+	firstName: string;
+	resetUrl: string;
+	expiresInMinutes: number;
+	companyName: string;
+	supportEmail: string;
+}) => {
+	return `
+    <!doctype html>
+    <html>
+      <head>
+        <meta charset="utf-8"/>
+        <meta name="viewport" content="width=device-width,initial-scale=1.0"/>
+        <title>Reset your password - ${opts.companyName}</title>
+      </head>
+      <body style="margin:0;padding:0;background:#f6f7fb;font-family:Arial,Helvetica,sans-serif;color:#0b1220;">
+        <center style="width:100%;background:#f6f7fb;">
+          <table width="100%" cellpadding="0" cellspacing="0">
+            <tr>
+              <td align="center" style="padding:28px 16px;text-align:center;">
+                <table width="600" cellpadding="0" cellspacing="0" bgcolor="#ffffff" style="background:#fff;border-radius:10px;box-shadow:0 4px 12px rgba(0,0,0,0.08);">
+                  <tr>
+                    <td align="center" style="padding:24px 36px;border-bottom:1px solid #eee;text-align:center;">
+                      <h2 style="margin:0;font-size:20px;color:#846e62;font-family:Arial,Helvetica,sans-serif;">
+                        Password Reset Request 🔑
+                      </h2>
+                      <p style="margin:6px 0 0;font-size:14px;color:#51606b;font-family:Arial,Helvetica,sans-serif;">
+                        We received a request to reset your password.
+                      </p>
+                    </td>
+                  </tr>
+                  <tr>
+                    <td align="center" style="padding:24px 36px;text-align:center;">
+                      <p style="margin:0 0 12px;font-size:15px;color:#846e62;font-family:Arial,Helvetica,sans-serif;">
+                        Hi ${opts.firstName},
+                      </p>
+                      <p style="margin:0 0 16px;font-size:14px;color:#475569;font-family:Arial,Helvetica,sans-serif;">
+                        Click the button below to choose a new password.<br/>
+                        This link expires in <strong>${opts.expiresInMinutes} minutes</strong> and can only be used once.
+                      </p>
+                      <table cellpadding="0" cellspacing="0" align="center" style="margin:0 auto 18px;">
+                        <tr>
+                          <td bgcolor="#846e62" align="center" style="border-radius:6px;">
+                            <a href="${opts.resetUrl}" style="display:inline-block;padding:10px 18px;font-family:Arial,Helvetica,sans-serif;font-size:14px;color:#fff;text-decoration:none;font-weight:600;border-radius:6px;">
+                              Reset my password
+                            </a>
+                          </td>
+                        </tr>
+                      </table>
+                      <p style="margin:0 0 18px;font-size:14px;color:#475569;font-family:Arial,Helvetica,sans-serif;">
+                        ⚠️ If you did not request a password reset, you can safely ignore this email.
+                        Your password will not change.
+                      </p>
+                      <hr style="border:none;border-top:1px solid #eee;margin:20px auto;width:80%;" />
+                      <p style="margin:0;font-size:13px;color:#64748b;font-family:Arial,Helvetica,sans-serif;">
+                        Need help? Contact us at
+                        <a href="mailto:${opts.supportEmail}" style="color:#0b61d1;text-decoration:none;">
+                          ${opts.supportEmail}
+                        </a>
+                      </p>
+                    </td>
+                  </tr>
+                  <tr>
+                    <td align="center" style="padding:18px 36px;background:#fbfdff;text-align:center;font-size:12px;color:#94a3b8;font-family:Arial,Helvetica,sans-serif;">
+                      © ${new Date().getFullYear()} ${opts.companyName}. All rights reserved.
+                    </td>
+                  </tr>
+                </table>
+              </td>
+            </tr>
+          </table>
+        </center>
+      </body>
+    </html>`;
+};
+
+export const renderEmailVerificationEmail = (opts: {
+	firstName: string;
+	verifyUrl: string;
+	expiresInHours: number;
+	companyName: string;
+	supportEmail: string;
+}) => {
+	return `
+    <!doctype html>
+    <html>
+      <head>
+        <meta charset="utf-8"/>
+        <meta name="viewport" content="width=device-width,initial-scale=1.0"/>
+        <title>Verify your email - ${opts.companyName}</title>
+      </head>
+      <body style="margin:0;padding:0;background:#f6f7fb;font-family:Arial,Helvetica,sans-serif;color:#0b1220;">
+        <center style="width:100%;background:#f6f7fb;">
+          <table width="100%" cellpadding="0" cellspacing="0">
+            <tr>
+              <td align="center" style="padding:28px 16px;text-align:center;">
+                <table width="600" cellpadding="0" cellspacing="0" bgcolor="#ffffff" style="background:#fff;border-radius:10px;box-shadow:0 4px 12px rgba(0,0,0,0.08);">
+                  <tr>
+                    <td align="center" style="padding:24px 36px;border-bottom:1px solid #eee;text-align:center;">
+                      <h2 style="margin:0;font-size:20px;color:#846e62;font-family:Arial,Helvetica,sans-serif;">
+                        Verify Your Email ✉️
+                      </h2>
+                      <p style="margin:6px 0 0;font-size:14px;color:#51606b;font-family:Arial,Helvetica,sans-serif;">
+                        Thanks for creating an account with us.
+                      </p>
+                    </td>
+                  </tr>
+                  <tr>
+                    <td align="center" style="padding:24px 36px;text-align:center;">
+                      <p style="margin:0 0 12px;font-size:15px;color:#846e62;font-family:Arial,Helvetica,sans-serif;">
+                        Hi ${opts.firstName},
+                      </p>
+                      <p style="margin:0 0 16px;font-size:14px;color:#475569;font-family:Arial,Helvetica,sans-serif;">
+                        Please confirm your email address to start booking sessions.<br/>
+                        This link expires in <strong>${opts.expiresInHours} hours</strong>.
+                      </p>
+                      <table cellpadding="0" cellspacing="0" align="center" style="margin:0 auto 18px;">
+                        <tr>
+                          <td bgcolor="#846e62" align="center" style="border-radius:6px;">
+                            <a href="${opts.verifyUrl}" style="display:inline-block;padding:10px 18px;font-family:Arial,Helvetica,sans-serif;font-size:14px;color:#fff;text-decoration:none;font-weight:600;border-radius:6px;">
+                              Verify my email
+                            </a>
+                          </td>
+                        </tr>
+                      </table>
+                      <p style="margin:0 0 18px;font-size:14px;color:#475569;font-family:Arial,Helvetica,sans-serif;">
+                        ⚠️ If you did not create an account, you can safely ignore this email.
+                      </p>
+                      <hr style="border:none;border-top:1px solid #eee;margin:20px auto;width:80%;" />
+                      <p style="margin:0;font-size:13px;color:#64748b;font-family:Arial,Helvetica,sans-serif;">
+                        Need help? Contact us at
+                        <a href="mailto:${opts.supportEmail}" style="color:#0b61d1;text-decoration:none;">
+                          ${opts.supportEmail}
+                        </a>
+                      </p>
+                    </td>
+                  </tr>
+                  <tr>
+                    <td align="center" style="padding:18px 36px;background:#fbfdff;text-align:center;font-size:12px;color:#94a3b8;font-family:Arial,Helvetica,sans-serif;">
+                      © ${new Date().getFullYear()} ${opts.companyName}. All rights reserved.
+                    </td>
+                  </tr>
+                </table>
+              </td>
+            </tr>
+          </table>
+        </center>
+      </body>
+    </html>`;
+};
@@ -41,7 +41,25 @@ export const generateResetToken = (): {
 	hashedToken: string;
 } => {
 	const token = crypto.randomBytes(32).toString("hex");
-	const hashedToken = crypto.createHash("sha256").update(token).digest("hex");
+	const hashedToken = hashResetToken(token);
 
 	return { token, hashedToken };
 };
+
+// Hash a token received from a reset link to look up its stored hash
+export const hashResetToken = (token: string): string => {
+	return crypto.createHash("sha256").update(token).digest("hex");
+};
+
+// Campaign promo codes: prefix + random part drawn from the given alphabet
+export const generatePromoCode = (
+	prefix: string,
+	length: number,
+	alphabet: string
+): string => {
+	let code = prefix;
+	for (let i = 0; i < length; i++) {
+		code += alphabet[crypto.randomInt(alphabet.length)];
+	}
+	return code;
+};
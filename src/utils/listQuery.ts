@@ -0,0 +1,163 @@
+import { SortOrder } from "mongoose";
+import { customError } from "../middleware/errorHandler";
+import { Pagination } from "../types/base.types";
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+// Query parameters every admin list accepts
+export type ListQueryParams = {
+	page?: string;
+	limit?: string;
+	sort?: string;
+	order?: string;
+	search?: string;
+	status?: string;
+	date_from?: string;
+	date_to?: string;
+};
+
+export type ListQueryOptions = {
+	sortFields: string[]; // Fields `sort` may name
+	defaultSort: string;
+	defaultOrder?: "asc" | "desc";
+	defaultLimit?: number;
+	searchFields?: string[]; // Matched by `search`, case-insensitive
+	dateField?: string; // Filtered by `date_from` / `date_to`
+	statusField?: string; // Filtered by `status`
+	statusValues?: readonly string[];
+};
+
+export type ListQuery = {
+	page: number;
+	limit: number;
+	skip: number;
+	sort: Record<string, SortOrder>;
+	filter: Record<string, any>;
+	search: RegExp | null; // For routes that match more than searchFields
+	statuses: string[];
+};
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+export const escapeRegExp = (value: string) =>
+	value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// ?status=a&status=b arrives as an array; lists take the first value
+const queryValue = (value: unknown): string | undefined => {
+	const first = Array.isArray(value) ? value[0] : value;
+	if (first === undefined || first === null) return undefined;
+	const text = String(first).trim();
+	return text === "" ? undefined : text;
+};
+
+const parseDate = (value: string, name: string, endOfDay: boolean) => {
+	const date = new Date(value);
+	if (isNaN(date.getTime())) {
+		throw customError(400, `Invalid ${name}: ${value}`);
+	}
+	// A plain date in date_to includes the whole day
+	if (endOfDay && DATE_ONLY.test(value)) {
+		date.setUTCHours(23, 59, 59, 999);
+	}
+	return date;
+};
+
+// ---------------------------
+// Parse page, limit, sort, search, status and date range from a list query
+// ---------------------------
+// Routes add their own filters to the returned `filter`. sort_by/sort_order
+// and start_date/end_date are still read for older clients.
+export const parseListQuery = (
+	query: Record<string, unknown>,
+	options: ListQueryOptions
+): ListQuery => {
+	const page = Math.max(parseInt(queryValue(query.page) ?? "") || 1, 1);
+	const limit = Math.min(
+		Math.max(
+			parseInt(queryValue(query.limit) ?? "") ||
+				(options.defaultLimit ?? DEFAULT_LIMIT),
+			1
+		),
+		MAX_LIMIT
+	);
+
+	const sortField =
+		queryValue(query.sort) ?? queryValue(query.sort_by) ?? options.defaultSort;
+	if (!options.sortFields.includes(sortField)) {
+		throw customError(
+			400,
+			`Cannot sort by ${sortField}. Allowed: ${options.sortFields.join(", ")}`
+		);
+	}
+
+	const order = (
+		queryValue(query.order) ??
+		queryValue(query.sort_order) ??
+		options.defaultOrder ??
+		"desc"
+	).toLowerCase();
+	if (order !== "asc" && order !== "desc") {
+		throw customError(400, "Order must be asc or desc");
+	}
+
+	// _id breaks ties so pages never repeat or skip documents
+	const sort: Record<string, SortOrder> = {
+		[sortField]: order === "asc" ? 1 : -1,
+	};
+	if (sortField !== "_id") sort._id = sort[sortField];
+
+	const filter: Record<string, any> = {};
+
+	const searchText = queryValue(query.search);
+	const search = searchText ? new RegExp(escapeRegExp(searchText), "i") : null;
+	if (search && options.searchFields?.length) {
+		filter.$or = options.searchFields.map((field) => ({ [field]: search }));
+	}
+
+	const statuses = (queryValue(query.status) ?? "")
+		.split(",")
+		.map((status) => status.trim())
+		.filter((status) => status && status !== "all");
+	if (options.statusField && statuses.length > 0) {
+		const invalid = statuses.find(
+			(status) =>
+				options.statusValues && !options.statusValues.includes(status)
+		);
+		if (invalid) throw customError(400, `Invalid status: ${invalid}`);
+		filter[options.statusField] =
+			statuses.length === 1 ? statuses[0] : { $in: statuses };
+	}
+
+	const dateFrom = queryValue(query.date_from) ?? queryValue(query.start_date);
+	const dateTo = queryValue(query.date_to) ?? queryValue(query.end_date);
+	if (options.dateField && (dateFrom || dateTo)) {
+		const range: Record<string, Date> = {};
+		if (dateFrom) range.$gte = parseDate(dateFrom, "date_from", false);
+		if (dateTo) range.$lte = parseDate(dateTo, "date_to", true);
+		if (range.$gte && range.$lte && range.$gte > range.$lte) {
+			throw customError(400, "date_from must be before date_to");
+		}
+		filter[options.dateField] = range;
+	}
+
+	return {
+		page,
+		limit,
+		skip: (page - 1) * limit,
+		sort,
+		filter,
+		search,
+		statuses,
+	};
+};
+
+export const toPagination = (
+	list: Pick<ListQuery, "page" | "limit">,
+	totalItems: number
+): Pagination => ({
+	current_page: list.page,
+	total_pages: Math.ceil(totalItems / list.limit),
+	total_items: totalItems,
+	items_per_page: list.limit,
+});
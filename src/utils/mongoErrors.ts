@@ -0,0 +1,32 @@
+const DUPLICATE_KEY_CODE = 11000;
+
+type MongoWriteError = {
+	code?: unknown;
+	keyPattern?: Record<string, unknown>;
+	writeErrors?: unknown;
+};
+
+const isObject = (value: unknown): value is MongoWriteError =>
+	typeof value === "object" && value !== null;
+
+const matchesKey = (error: MongoWriteError, field?: string) =>
+	error.code === DUPLICATE_KEY_CODE &&
+	(!field || Boolean(error.keyPattern?.[field]));
+
+// ---------------------------
+// Duplicate key (E11000) errors
+// ---------------------------
+// A unique index rejected the write, either directly or as one of the write
+// errors of an insertMany/bulkWrite. Pass `field` to only match a clash on
+// an index covering that field.
+export const isDuplicateKeyError = (error: unknown, field?: string) => {
+	if (!isObject(error)) return false;
+	if (matchesKey(error, field)) return true;
+
+	return (
+		Array.isArray(error.writeErrors) &&
+		error.writeErrors.some(
+			(writeError) => isObject(writeError) && matchesKey(writeError, field)
+		)
+	);
+};
@@ -0,0 +1,310 @@
+import { IncomingHttpHeaders } from "http";
+import { Types } from "mongoose";
+import paymentGatewayConfig from "../config/paymentGateway";
+import { ApiError, customError } from "../middleware/errorHandler";
+import { Transaction, TransactionModel } from "../models/Transaction";
+import { formatToPeso } from "./formatMoney";
+import { syncPaymentSchedule } from "./paymentSchedule";
+import { assignReceiptNumber } from "./receipts";
+import {
+	getPaymentProvider,
+	PaymentIntent,
+	PaymentProvider,
+	PaymentStatusResult,
+	PaymentWebhookEvent,
+} from "./paymentProviders";
+
+// What applying a provider status did to the transaction
+export type PaymentSyncOutcome =
+	| "Completed"
+	| "Failed"
+	| "Unchanged" // Still pending, or already in that status
+	| "Ignored" // Settled before, e.g. approved by staff
+	| "AmountMismatch"; // Left pending for staff to check
+
+export type PaymentSyncResult = {
+	transaction_reference: string;
+	external_reference: string | null;
+	status: TransactionModel["status"];
+	provider_status: string | null;
+	outcome: PaymentSyncOutcome;
+};
+
+// Reconciling skips payments younger than this; their webhook may be on its way
+const RECONCILE_MIN_AGE_MS = 5 * 60 * 1000;
+const RECONCILE_BATCH_SIZE = 100;
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+const peso = (value: number) => formatToPeso(String(value)) ?? "₱ 0.00";
+
+const toSyncResult = (
+	transaction: TransactionModel,
+	outcome: PaymentSyncOutcome
+): PaymentSyncResult => ({
+	transaction_reference: transaction.transaction_reference,
+	external_reference: transaction.external_reference ?? null,
+	status: transaction.status,
+	provider_status: transaction.provider_status ?? null,
+	outcome,
+});
+
+// ---------------------------
+// Apply what the provider reports to a transaction
+// ---------------------------
+// Only pending transactions move: paid completes them, failed fails them.
+// The move is a single update conditional on the transaction still being
+// pending, so a webhook and a reconcile racing each other settle it once; the
+// one that loses, like a repeat of the same status, changes nothing. A paid
+// amount that differs from the transaction is left pending for staff.
+export const applyProviderStatus = async (
+	transaction: TransactionModel,
+	provider: PaymentProvider,
+	result: PaymentStatusResult
+): Promise<PaymentSyncResult> => {
+	transaction.provider_status = result.provider_status.slice(0, 50);
+	transaction.provider_synced_at = new Date();
+
+	if (result.status === "Pending" || transaction.status === result.status) {
+		await transaction.save();
+		return toSyncResult(transaction, "Unchanged");
+	}
+
+	if (transaction.status !== "Pending") {
+		console.warn(
+			`${provider.name} reported ${result.provider_status} for ${transaction.transaction_reference}, which is already ${transaction.status}`
+		);
+		await transaction.save();
+		return toSyncResult(transaction, "Ignored");
+	}
+
+	if (
+		result.status === "Completed" &&
+		typeof result.amount === "number" &&
+		roundMoney(result.amount) !== roundMoney(transaction.amount)
+	) {
+		console.warn(
+			`${provider.name} reported ${peso(result.amount)} paid for ${
+				transaction.transaction_reference
+			} (${peso(transaction.amount)}); left pending for review`
+		);
+		await transaction.save();
+		return toSyncResult(transaction, "AmountMismatch");
+	}
+
+	const now = new Date();
+	const settled = await Transaction.findOneAndUpdate(
+		{ _id: transaction._id, status: "Pending" },
+		{
+			$set: {
+				provider_status: transaction.provider_status,
+				provider_synced_at: transaction.provider_synced_at,
+				updated_by: null,
+				...(result.status === "Completed"
+					? { status: "Completed", processed_at: now }
+					: {
+							status: "Failed",
+							failed_at: now,
+							failure_reason: (
+								result.failure_reason ||
+								`Payment ${result.provider_status} at ${provider.name}`
+							).slice(0, 200),
+					  }),
+			},
+		},
+		{ new: true, runValidators: true }
+	);
+	if (!settled) return toSyncResult(transaction, "Unchanged");
+
+	// The update skips the save hooks, so do what they would have done
+	if (settled.status === "Completed") {
+		try {
+			await assignReceiptNumber(settled._id as Types.ObjectId);
+		} catch (error) {
+			console.error("Failed to assign receipt number:", error);
+		}
+	}
+	try {
+		await syncPaymentSchedule(settled.booking_id);
+	} catch (error) {
+		console.error("Failed to update payment schedule:", error);
+	}
+
+	const outcome = settled.status === "Completed" ? "Completed" : "Failed";
+	return toSyncResult(settled, outcome);
+};
+
+// ---------------------------
+// Open a checkout for a pending online payment
+// ---------------------------
+// The transaction must already be saved with its payment_provider. Stores the
+// provider's payment id in external_reference; if the provider cannot be
+// reached the transaction is failed so it no longer holds the balance.
+export const startOnlinePayment = async (
+	transaction: TransactionModel,
+	customer: { name: string; email: string; mobile_number?: string | null },
+	description: string
+): Promise<PaymentIntent> => {
+	const provider = getPaymentProvider(transaction.payment_provider);
+
+	let intent: PaymentIntent;
+	try {
+		intent = await provider.createIntent({
+			reference: transaction.transaction_reference,
+			amount: transaction.amount,
+			description,
+			customer,
+			successUrl: paymentGatewayConfig.successUrl,
+			failureUrl: paymentGatewayConfig.failureUrl,
+		});
+	} catch (error) {
+		await transaction.markAsFailed(
+			`Could not start the ${provider.name} payment`,
+			null
+		);
+		throw error;
+	}
+
+	transaction.external_reference = intent.external_reference;
+	transaction.checkout_url = intent.checkout_url;
+	await applyProviderStatus(transaction, provider, intent);
+
+	return intent;
+};
+
+// The transaction a webhook is about: by the provider's payment id, or by our
+// reference when the id was never stored (the webhook beat our save). The
+// id is filled in then; an id that disagrees with the reference is refused.
+const findWebhookTransaction = async (
+	provider: PaymentProvider,
+	event: PaymentWebhookEvent
+) => {
+	const reference = event.reference?.trim().toUpperCase() || null;
+
+	const linked = await Transaction.findOne({
+		payment_provider: provider.name,
+		external_reference: event.external_reference,
+	});
+	if (linked) {
+		if (reference && reference !== linked.transaction_reference) {
+			throw customError(
+				409,
+				`Payment ${event.external_reference} belongs to ${linked.transaction_reference}, not ${reference}`
+			);
+		}
+		return linked;
+	}
+
+	if (!reference) return null;
+
+	const transaction = await Transaction.findOne({
+		payment_provider: provider.name,
+		transaction_reference: reference,
+	});
+	if (!transaction) return null;
+
+	if (
+		transaction.external_reference &&
+		transaction.external_reference !== event.external_reference
+	) {
+		throw customError(
+			409,
+			`${reference} is linked to a different ${provider.name} payment`
+		);
+	}
+	transaction.external_reference = event.external_reference;
+	return transaction;
+};
+
+// ---------------------------
+// Handle a provider webhook
+// ---------------------------
+// rawBody must be the exact bytes received, since the signature covers them
+export const handlePaymentWebhook = async (
+	providerName: string,
+	rawBody: Buffer,
+	headers: IncomingHttpHeaders
+): Promise<PaymentSyncResult> => {
+	const provider = getPaymentProvider(providerName);
+
+	if (!provider.verifyWebhookSignature(rawBody, headers)) {
+		throw customError(401, "Invalid webhook signature");
+	}
+
+	let event: PaymentWebhookEvent;
+	try {
+		event = provider.parseWebhook(rawBody);
+	} catch (error) {
+		if ((error as ApiError).status) throw error;
+		throw customError(400, "Invalid webhook payload");
+	}
+
+	const transaction = await findWebhookTransaction(provider, event);
+	if (!transaction) {
+		throw customError(
+			404,
+			`No transaction found for ${provider.name} payment ${event.external_reference}`
+		);
+	}
+
+	return applyProviderStatus(transaction, provider, event);
+};
+
+// ---------------------------
+// Reconcile online payments with the provider
+// ---------------------------
+// For webhooks that never arrived: asks the provider for the payment's
+// current status and applies it.
+export const reconcileOnlinePayment = async (
+	transaction: TransactionModel
+): Promise<PaymentSyncResult> => {
+	if (!transaction.payment_provider) {
+		throw customError(400, "Only online payments can be reconciled");
+	}
+	if (!transaction.external_reference) {
+		throw customError(
+			400,
+			`${transaction.transaction_reference} has no provider payment to reconcile`
+		);
+	}
+
+	const provider = getPaymentProvider(transaction.payment_provider);
+	const result = await provider.fetchStatus(transaction.external_reference);
+	if (result.external_reference !== transaction.external_reference) {
+		throw customError(
+			409,
+			`${provider.name} returned payment ${result.external_reference} for ${transaction.external_reference}`
+		);
+	}
+
+	return applyProviderStatus(transaction, provider, result);
+};
+
+// Reconcile the oldest pending online payments; one failing lookup does not
+// stop the rest
+export const reconcilePendingOnlinePayments = async (now = new Date()) => {
+	const transactions = await Transaction.find({
+		status: "Pending",
+		payment_provider: { $ne: null },
+		external_reference: { $ne: null },
+		is_active: true,
+		created_at: { $lte: new Date(now.getTime() - RECONCILE_MIN_AGE_MS) },
+	})
+		.sort({ created_at: 1 })
+		.limit(RECONCILE_BATCH_SIZE);
+
+	const results: PaymentSyncResult[] = [];
+	const errors: { transaction_reference: string; message: string }[] = [];
+	for (const transaction of transactions) {
+		try {
+			results.push(await reconcileOnlinePayment(transaction));
+		} catch (error) {
+			errors.push({
+				transaction_reference: transaction.transaction_reference,
+				message: error instanceof Error ? error.message : String(error),
+			});
+		}
+	}
+
+	return { results, errors };
+};
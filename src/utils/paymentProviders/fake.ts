@@ -0,0 +1,149 @@
+import crypto from "crypto";
+import paymentGatewayConfig from "../../config/paymentGateway";
+import { customError } from "../../middleware/errorHandler";
+import {
+	mapStatusWith,
+	PaymentProvider,
+	PaymentStatusResult,
+	signPayload,
+	verifyPayloadSignature,
+} from "./provider";
+
+type FakeStatus = "pending" | "paid" | "failed";
+
+type FakePayment = {
+	id: string;
+	reference: string;
+	amount: number; // Pesos
+	status: FakeStatus;
+	failure_reason: string | null;
+};
+
+type FakeWebhookBody = {
+	event_id: string;
+	external_reference: string;
+	reference: string;
+	status: FakeStatus;
+	amount: number;
+	failure_reason: string | null;
+};
+
+export const FAKE_SIGNATURE_HEADER = "x-fake-signature";
+
+// Lives as long as the process; enough for local runs and tests
+const payments = new Map<string, FakePayment>();
+
+const mapStatus = mapStatusWith({
+	pending: "Pending",
+	paid: "Completed",
+	failed: "Failed",
+});
+
+const toStatusResult = (payment: FakePayment): PaymentStatusResult => ({
+	external_reference: payment.id,
+	status: mapStatus(payment.status),
+	provider_status: payment.status,
+	amount: payment.amount,
+	failure_reason: payment.failure_reason,
+});
+
+// ---------------------------
+// Local fake provider
+// ---------------------------
+// Keeps payments in memory and never charges anyone. Settle a payment with
+// settleFakePayment and post the returned body and signature to
+// /api/webhooks/payments/fake to play the provider's side. Only enabled when
+// PAYMENT_PROVIDERS lists "fake" outside production, with its own
+// FAKE_PAYMENT_WEBHOOK_SECRET.
+export const fakeProvider: PaymentProvider = {
+	name: "fake",
+	paymentMethod: "GCash",
+
+	async createIntent(input) {
+		const payment: FakePayment = {
+			id: `fake_${crypto.randomBytes(8).toString("hex")}`,
+			reference: input.reference,
+			amount: input.amount,
+			status: "pending",
+			failure_reason: null,
+		};
+		payments.set(payment.id, payment);
+
+		return {
+			external_reference: payment.id,
+			checkout_url: null,
+			status: "Pending",
+			provider_status: payment.status,
+		};
+	},
+
+	async fetchStatus(externalReference) {
+		const payment = payments.get(externalReference);
+		if (!payment) {
+			throw customError(404, "Payment not found at the fake provider");
+		}
+		return toStatusResult(payment);
+	},
+
+	verifyWebhookSignature(rawBody, headers) {
+		return verifyPayloadSignature(
+			paymentGatewayConfig.fake.webhookSecret,
+			rawBody,
+			headers[FAKE_SIGNATURE_HEADER]
+		);
+	},
+
+	parseWebhook(rawBody) {
+		const body = JSON.parse(rawBody.toString("utf8")) as FakeWebhookBody;
+		if (!body.external_reference || !body.status) {
+			throw customError(400, "Webhook payload has no payment");
+		}
+
+		return {
+			external_reference: body.external_reference,
+			status: mapStatus(body.status),
+			provider_status: body.status,
+			amount: body.amount ?? null,
+			failure_reason: body.failure_reason ?? null,
+			event_id: body.event_id ?? null,
+			reference: body.reference ?? null,
+		};
+	},
+
+	mapStatus,
+};
+
+// Mark a fake payment paid or failed and build the webhook the provider
+// would send for it
+export const settleFakePayment = (
+	externalReference: string,
+	status: Exclude<FakeStatus, "pending">,
+	failureReason: string | null = null
+) => {
+	const payment = payments.get(externalReference);
+	if (!payment) {
+		throw customError(404, "Payment not found at the fake provider");
+	}
+	payment.status = status;
+	payment.failure_reason = status === "failed" ? failureReason : null;
+
+	const body = JSON.stringify({
+		event_id: `evt_${crypto.randomBytes(8).toString("hex")}`,
+		external_reference: payment.id,
+		reference: payment.reference,
+		status: payment.status,
+		amount: payment.amount,
+		failure_reason: payment.failure_reason,
+	} satisfies FakeWebhookBody);
+
+	return {
+		body,
+		headers: {
+			"Content-Type": "application/json",
+			[FAKE_SIGNATURE_HEADER]: signPayload(
+				paymentGatewayConfig.fake.webhookSecret,
+				body
+			),
+		},
+	};
+};
@@ -0,0 +1,162 @@
+import paymentGatewayConfig from "../../config/paymentGateway";
+import { customError } from "../../middleware/errorHandler";
+import {
+	fromCentavos,
+	mapStatusWith,
+	PaymentProvider,
+	PaymentStatusResult,
+	toCentavos,
+	verifyPayloadSignature,
+} from "./provider";
+
+type GCashPayment = {
+	id: string;
+	status: string;
+	amount?: number; // Centavos
+	reference?: string | null;
+	checkout_url?: string | null;
+	failure_reason?: string | null;
+};
+
+type GCashWebhookBody = {
+	id?: string; // Event id
+	type?: string;
+	data?: GCashPayment;
+};
+
+const mapStatus = mapStatusWith({
+	pending: "Pending",
+	awaiting_payment: "Pending",
+	processing: "Pending",
+	paid: "Completed",
+	succeeded: "Completed",
+	success: "Completed",
+	failed: "Failed",
+	declined: "Failed",
+	expired: "Failed",
+	cancelled: "Failed",
+	canceled: "Failed",
+});
+
+const toStatusResult = (payment: GCashPayment): PaymentStatusResult => ({
+	external_reference: payment.id,
+	status: mapStatus(payment.status),
+	provider_status: payment.status,
+	amount:
+		typeof payment.amount === "number" ? fromCentavos(payment.amount) : null,
+	failure_reason: payment.failure_reason ?? null,
+});
+
+// Calls the e-wallet API; network errors, timeouts and non-2xx responses
+// surface as 502 so the caller can fail the pending transaction
+const request = async <T>(path: string, init: RequestInit = {}) => {
+	const { apiBaseUrl, secretKey } = paymentGatewayConfig.gcash;
+
+	let response: Response;
+	try {
+		response = await fetch(`${apiBaseUrl}${path}`, {
+			...init,
+			headers: {
+				Authorization: `Bearer ${secretKey}`,
+				"Content-Type": "application/json",
+				Accept: "application/json",
+			},
+			signal: AbortSignal.timeout(paymentGatewayConfig.requestTimeoutMs),
+		});
+	} catch (error) {
+		throw customError(
+			502,
+			`GCash could not be reached: ${
+				error instanceof Error ? error.message : String(error)
+			}`
+		);
+	}
+
+	const body = (await response.json().catch(() => null)) as {
+		message?: string;
+	} | null;
+	if (!response.ok || !body) {
+		throw customError(
+			502,
+			`GCash responded with ${response.status}${
+				body?.message ? `: ${body.message}` : ""
+			}`
+		);
+	}
+	return body as T;
+};
+
+// ---------------------------
+// GCash / e-wallet adapter
+// ---------------------------
+// Talks to the e-wallet gateway at GCASH_API_BASE_URL with the merchant's
+// secret key. Amounts are sent in centavos. The gateway signs webhooks with
+// a hex HMAC-SHA256 of the raw body in the X-Signature header, and posts
+// { id, type, data: payment } where payment carries our reference back.
+export const gcashProvider: PaymentProvider = {
+	name: "gcash",
+	paymentMethod: "GCash",
+
+	async createIntent(input) {
+		const payment = await request<GCashPayment>("/payments", {
+			method: "POST",
+			body: JSON.stringify({
+				amount: toCentavos(input.amount),
+				currency: "PHP",
+				payment_method: "gcash",
+				reference: input.reference,
+				description: input.description,
+				customer: {
+					name: input.customer.name,
+					email: input.customer.email,
+					phone: input.customer.mobile_number ?? undefined,
+				},
+				redirect: {
+					success: input.successUrl ?? undefined,
+					failure: input.failureUrl ?? undefined,
+				},
+			}),
+		});
+
+		if (!payment.id || !payment.status) {
+			throw customError(502, "GCash did not return a payment");
+		}
+
+		return {
+			external_reference: payment.id,
+			checkout_url: payment.checkout_url ?? null,
+			status: mapStatus(payment.status),
+			provider_status: payment.status,
+		};
+	},
+
+	async fetchStatus(externalReference) {
+		const payment = await request<GCashPayment>(
+			`/payments/${encodeURIComponent(externalReference)}`
+		);
+		return toStatusResult(payment);
+	},
+
+	verifyWebhookSignature(rawBody, headers) {
+		return verifyPayloadSignature(
+			paymentGatewayConfig.gcash.webhookSecret,
+			rawBody,
+			headers["x-signature"]
+		);
+	},
+
+	parseWebhook(rawBody) {
+		const body = JSON.parse(rawBody.toString("utf8")) as GCashWebhookBody;
+		if (!body.data?.id || !body.data.status) {
+			throw customError(400, "Webhook payload has no payment");
+		}
+
+		return {
+			...toStatusResult(body.data),
+			event_id: body.id ?? null,
+			reference: body.data.reference ?? null,
+		};
+	},
+
+	mapStatus,
+};
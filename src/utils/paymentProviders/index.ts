@@ -0,0 +1,38 @@
+import paymentGatewayConfig, {
+	PaymentProviderName,
+} from "../../config/paymentGateway";
+import { customError } from "../../middleware/errorHandler";
+import { fakeProvider } from "./fake";
+import { gcashProvider } from "./gcash";
+import { PaymentProvider } from "./provider";
+
+export * from "./provider";
+
+const PROVIDERS: Record<PaymentProviderName, PaymentProvider> = {
+	gcash: gcashProvider,
+	fake: fakeProvider,
+};
+
+export const getEnabledPaymentProviders = () =>
+	paymentGatewayConfig.enabledProviders.map((name) => PROVIDERS[name]);
+
+// An enabled provider by name; without a name, the only enabled one
+export const getPaymentProvider = (name?: string | null): PaymentProvider => {
+	const enabled = paymentGatewayConfig.enabledProviders;
+
+	if (!name) {
+		if (enabled.length === 1) return PROVIDERS[enabled[0]];
+		throw customError(
+			400,
+			enabled.length === 0
+				? "Online payments are not available"
+				: `Payment provider is required (${enabled.join(", ")})`
+		);
+	}
+
+	const key = name.trim().toLowerCase() as PaymentProviderName;
+	if (!enabled.includes(key)) {
+		throw customError(404, `Payment provider "${name}" is not available`);
+	}
+	return PROVIDERS[key];
+};
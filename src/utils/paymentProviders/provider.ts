@@ -0,0 +1,87 @@
+import crypto from "crypto";
+import { IncomingHttpHeaders } from "http";
+import { PaymentProviderName } from "../../config/paymentGateway";
+import { PaymentMethod } from "../../models/Transaction";
+
+// Where a payment stands at the provider, in our terms
+export type ProviderPaymentStatus = "Pending" | "Completed" | "Failed";
+
+export type PaymentIntentInput = {
+	reference: string; // Our transaction_reference
+	amount: number; // In pesos
+	description: string;
+	customer: { name: string; email: string; mobile_number?: string | null };
+	successUrl?: string | null;
+	failureUrl?: string | null;
+};
+
+export type PaymentIntent = {
+	external_reference: string; // The provider's payment id
+	checkout_url: string | null; // Where the customer completes the payment
+	status: ProviderPaymentStatus;
+	provider_status: string; // Status as the provider reported it
+};
+
+export type PaymentStatusResult = {
+	external_reference: string;
+	status: ProviderPaymentStatus;
+	provider_status: string;
+	amount?: number | null; // In pesos, when the provider reports it
+	failure_reason?: string | null;
+};
+
+export type PaymentWebhookEvent = PaymentStatusResult & {
+	event_id: string | null;
+	reference?: string | null; // Our transaction_reference, when echoed back
+};
+
+// ---------------------------
+// Payment provider interface
+// ---------------------------
+// Adapters translate between a gateway's API and our transactions: they open
+// a checkout for a pending transaction, check that a webhook really came from
+// the gateway, and map the gateway's statuses onto ours.
+export interface PaymentProvider {
+	name: PaymentProviderName;
+	// Recorded as the transaction's payment_method
+	paymentMethod: PaymentMethod;
+	createIntent(input: PaymentIntentInput): Promise<PaymentIntent>;
+	// Look the payment up again, for reconciling a missed webhook
+	fetchStatus(externalReference: string): Promise<PaymentStatusResult>;
+	verifyWebhookSignature(
+		rawBody: Buffer,
+		headers: IncomingHttpHeaders
+	): boolean;
+	parseWebhook(rawBody: Buffer): PaymentWebhookEvent;
+	mapStatus(providerStatus: string): ProviderPaymentStatus;
+}
+
+export const signPayload = (secret: string, payload: Buffer | string) =>
+	crypto.createHmac("sha256", secret).update(payload).digest("hex");
+
+// Constant-time comparison of a hex HMAC-SHA256 signature
+export const verifyPayloadSignature = (
+	secret: string,
+	payload: Buffer,
+	signature?: string | string[]
+) => {
+	if (typeof signature !== "string" || !signature) return false;
+
+	const expected = Buffer.from(signPayload(secret, payload), "hex");
+	const received = Buffer.from(signature.trim().toLowerCase(), "hex");
+	return (
+		expected.length === received.length &&
+		crypto.timingSafeEqual(expected, received)
+	);
+};
+
+// Shared by adapters: unknown statuses stay Pending so nothing is completed
+// or failed by mistake
+export const mapStatusWith =
+	(mapping: Record<string, ProviderPaymentStatus>) =>
+	(providerStatus: string): ProviderPaymentStatus =>
+		mapping[providerStatus.trim().toLowerCase()] ?? "Pending";
+
+export const toCentavos = (amount: number) => Math.round(amount * 100);
+
+export const fromCentavos = (amount: number) => Math.round(amount) / 100;
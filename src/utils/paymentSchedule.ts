@@ -0,0 +1,387 @@
+import { ClientSession, Types } from "mongoose";
+import paymentScheduleConfig from "../config/paymentSchedule";
+import { customError } from "../middleware/errorHandler";
+import { Booking, BookingModel } from "../models/Booking";
+import { Package } from "../models/Package";
+import { PaymentMilestone, PaymentTerms } from "../models/PaymentSchedule";
+import { Service } from "../models/Service";
+import { Transaction } from "../models/Transaction";
+import { sendEmail } from "./emailSender";
+import { formatToPeso } from "./formatMoney";
+import { renderPaymentReminderEmail } from "./generateEmailTemplate";
+import { getSessionStart } from "./refundPolicy";
+
+type ObjectIdLike = string | Types.ObjectId;
+
+// Bookings that still expect payments
+const ACTIVE_BOOKING_STATUSES = ["Pending", "Confirmed", "Rescheduled"];
+
+const PAYMENT_TYPES = ["Payment", "Partial", "Balance"];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+const peso = (value: number) => formatToPeso(String(value)) ?? "₱ 0.00";
+
+const DEFAULT_TERMS = (): PaymentTerms => ({
+	deposit_percentage: paymentScheduleConfig.defaultDepositPercentage,
+	balance_due_days_before: paymentScheduleConfig.defaultBalanceDueDaysBefore,
+});
+
+// Validate payment_terms from a package or service request body; null (or
+// an empty value) clears them so the defaults apply
+export const parsePaymentTerms = (value: unknown): PaymentTerms | null => {
+	if (value === null || value === undefined || value === "") return null;
+
+	const terms = value as Partial<PaymentTerms>;
+	if (
+		typeof terms.deposit_percentage !== "number" ||
+		terms.deposit_percentage < 0 ||
+		terms.deposit_percentage > 100
+	) {
+		throw customError(400, "Deposit percentage must be between 0 and 100");
+	}
+	if (
+		typeof terms.balance_due_days_before !== "number" ||
+		!Number.isInteger(terms.balance_due_days_before) ||
+		terms.balance_due_days_before < 0 ||
+		terms.balance_due_days_before > 90
+	) {
+		throw customError(
+			400,
+			"Balance due days must be a whole number between 0 and 90"
+		);
+	}
+
+	return {
+		deposit_percentage: terms.deposit_percentage,
+		balance_due_days_before: terms.balance_due_days_before,
+	};
+};
+
+// The package's terms, or for custom bookings the strictest terms among the
+// services (largest deposit, earliest balance)
+export const resolvePaymentTerms = async (
+	booking: Pick<BookingModel, "package_id" | "services">,
+	session: ClientSession | null = null
+): Promise<PaymentTerms> => {
+	if (booking.package_id) {
+		const pkg = await Package.findById(booking.package_id)
+			.select("payment_terms")
+			.session(session)
+			.lean();
+		if (pkg?.payment_terms) return pkg.payment_terms;
+		return DEFAULT_TERMS();
+	}
+
+	const services = await Service.find({
+		_id: { $in: booking.services.map((service) => service.service_id) },
+		payment_terms: { $ne: null },
+	})
+		.select("payment_terms")
+		.session(session)
+		.lean();
+	const terms = services
+		.map((service) => service.payment_terms)
+		.filter((item): item is PaymentTerms => !!item);
+	if (terms.length === 0) return DEFAULT_TERMS();
+
+	return {
+		deposit_percentage: Math.max(
+			...terms.map((item) => item.deposit_percentage)
+		),
+		balance_due_days_before: Math.max(
+			...terms.map((item) => item.balance_due_days_before)
+		),
+	};
+};
+
+// Completed payments less completed refunds
+export const getNetAmountPaid = async (
+	bookingId: ObjectIdLike,
+	session: ClientSession | null = null
+) => {
+	const transactions = await Transaction.find({
+		booking_id: new Types.ObjectId(bookingId),
+		status: { $in: ["Completed", "Refunded"] },
+	})
+		.select("transaction_type amount status")
+		.session(session)
+		.lean();
+
+	return roundMoney(
+		transactions.reduce((sum, txn) => {
+			if (PAYMENT_TYPES.includes(txn.transaction_type)) {
+				return sum + txn.amount;
+			}
+			if (txn.transaction_type === "Refund" && txn.status === "Completed") {
+				return sum - txn.amount;
+			}
+			return sum;
+		}, 0)
+	);
+};
+
+// ---------------------------
+// Lay out a booking's deposit and balance
+// ---------------------------
+// The deposit is due depositDueHours after booking and the balance the
+// terms' number of days before the session, but never before booking. Each
+// milestone is Paid once the amount paid reaches its cumulative amount, and
+// Overdue once its due date has passed. Reminder timestamps carry over from
+// `previous` while a milestone keeps its due date.
+export const buildPaymentSchedule = (opts: {
+	finalAmount: number;
+	bookedAt: Date;
+	sessionStart: Date;
+	terms: PaymentTerms;
+	amountPaid: number;
+	previous?: PaymentMilestone[];
+	now?: Date;
+}): PaymentMilestone[] => {
+	const now = opts.now ?? new Date();
+	if (opts.finalAmount <= 0) return [];
+
+	const bookedAt = opts.bookedAt.getTime();
+	const balanceDue = new Date(
+		Math.max(
+			bookedAt,
+			opts.sessionStart.getTime() -
+				opts.terms.balance_due_days_before * DAY_MS
+		)
+	);
+	const depositDue = new Date(
+		Math.min(
+			bookedAt + paymentScheduleConfig.depositDueHours * HOUR_MS,
+			balanceDue.getTime()
+		)
+	);
+	const depositAmount = roundMoney(
+		(opts.finalAmount * opts.terms.deposit_percentage) / 100
+	);
+
+	const planned: Omit<PaymentMilestone, "status">[] = [];
+	if (depositAmount > 0) {
+		planned.push({
+			milestone_type: "Deposit",
+			percentage: opts.terms.deposit_percentage,
+			amount: depositAmount,
+			due_date: depositDue,
+		});
+	}
+	if (depositAmount < opts.finalAmount) {
+		planned.push({
+			milestone_type: "Balance",
+			percentage: 100 - opts.terms.deposit_percentage,
+			amount: roundMoney(opts.finalAmount - depositAmount),
+			due_date: balanceDue,
+		});
+	}
+
+	let cumulative = 0;
+	return planned.map((milestone) => {
+		cumulative = roundMoney(cumulative + milestone.amount);
+		const before = opts.previous?.find(
+			(item) => item.milestone_type === milestone.milestone_type
+		);
+		const sameDueDate =
+			before?.due_date?.getTime() === milestone.due_date.getTime();
+		const paid = opts.amountPaid >= cumulative;
+		const overdue = !paid && milestone.due_date < now;
+
+		return {
+			...milestone,
+			status: paid ? "Paid" : overdue ? "Overdue" : "Pending",
+			paid_at: paid ? before?.paid_at ?? now : null,
+			reminder_sent_at: sameDueDate
+				? before?.reminder_sent_at ?? null
+				: null,
+			overdue_notice_sent_at: sameDueDate
+				? before?.overdue_notice_sent_at ?? null
+				: null,
+		};
+	});
+};
+
+// Rebuild the schedule on a booking document (not saved). New bookings take
+// their terms from the package or services; existing ones keep theirs.
+export const refreshPaymentSchedule = async (
+	booking: BookingModel,
+	session: ClientSession | null = null
+): Promise<PaymentMilestone[]> => {
+	if (!booking.payment_terms) {
+		booking.payment_terms = await resolvePaymentTerms(booking, session);
+	}
+
+	const amountPaid = booking.isNew
+		? 0
+		: await getNetAmountPaid(booking._id as Types.ObjectId, session);
+
+	booking.payment_schedule = buildPaymentSchedule({
+		finalAmount: booking.final_amount,
+		bookedAt: booking.created_at ?? new Date(),
+		sessionStart: getSessionStart(booking.booking_date, booking.start_time),
+		terms: booking.payment_terms,
+		amountPaid,
+		previous: booking.payment_schedule,
+	});
+
+	return booking.payment_schedule;
+};
+
+// Recompute a stored schedule after its payments changed. Written with
+// updateOne so the booking's save checks (availability etc.) do not run.
+export const syncPaymentSchedule = async (
+	bookingId: ObjectIdLike,
+	session: ClientSession | null = null
+): Promise<PaymentMilestone[] | null> => {
+	const booking = await Booking.findById(bookingId).session(session);
+	if (!booking) return null;
+
+	const schedule = await refreshPaymentSchedule(booking, session);
+	await Booking.updateOne(
+		{ _id: booking._id },
+		{
+			$set: {
+				payment_terms: booking.payment_terms,
+				payment_schedule: schedule,
+			},
+		},
+		{ session: session ?? undefined }
+	);
+
+	return schedule;
+};
+
+// Bookings are confirmed only once the deposit has been paid
+export const assertDepositPaid = async (booking: BookingModel) => {
+	const schedule = await refreshPaymentSchedule(booking);
+	const deposit = schedule.find((item) => item.milestone_type === "Deposit");
+
+	if (deposit && deposit.status !== "Paid") {
+		const amountPaid = await getNetAmountPaid(booking._id as Types.ObjectId);
+		throw customError(
+			400,
+			`Cannot confirm booking — the ${peso(
+				deposit.amount
+			)} deposit has not been paid (${peso(amountPaid)} received)`
+		);
+	}
+};
+
+// ---------------------------
+// Payment reminders
+// ---------------------------
+// Emails the customer once when a payment comes within reminderDaysBeforeDue
+// of its due date, and once more when it becomes overdue. Returns how many
+// emails were sent.
+export const sendPaymentReminders = async (now = new Date()) => {
+	const horizon = new Date(
+		now.getTime() + paymentScheduleConfig.reminderDaysBeforeDue * DAY_MS
+	);
+
+	const bookings = await Booking.find({
+		status: { $in: ACTIVE_BOOKING_STATUSES },
+		is_active: true,
+		payment_schedule: {
+			$elemMatch: {
+				status: { $in: ["Pending", "Overdue"] },
+				due_date: { $lte: horizon },
+			},
+		},
+	}).populate<{
+		customer_id: { first_name: string; last_name: string; email: string };
+	}>("customer_id", "first_name last_name email");
+
+	let sent = 0;
+	for (const booking of bookings) {
+		try {
+			const customer = booking.customer_id;
+			const schedule = await refreshPaymentSchedule(
+				booking as unknown as BookingModel
+			);
+			const amountPaid = await getNetAmountPaid(booking._id as Types.ObjectId);
+
+			let cumulative = 0;
+			for (const milestone of schedule) {
+				cumulative = roundMoney(cumulative + milestone.amount);
+				if (milestone.status === "Paid") continue;
+
+				const overdue = milestone.status === "Overdue";
+				const alreadySent = overdue
+					? milestone.overdue_notice_sent_at
+					: milestone.reminder_sent_at;
+				if (alreadySent) continue;
+				if (!overdue && milestone.due_date > horizon) continue;
+
+				await sendEmail({
+					to: customer.email,
+					subject: overdue
+						? `Payment Overdue - ${booking.booking_reference}`
+						: `Payment Reminder - ${booking.booking_reference}`,
+					html: renderPaymentReminderEmail({
+						firstName: customer.first_name,
+						lastName: customer.last_name,
+						bookingNo: booking.booking_reference,
+						bookingDate: booking.booking_date.toLocaleDateString("en-US", {
+							weekday: "long",
+							year: "numeric",
+							month: "long",
+							day: "numeric",
+						}),
+						milestone: milestone.milestone_type,
+						amountDue: peso(Math.max(cumulative - amountPaid, 0)),
+						dueDate: milestone.due_date.toLocaleDateString("en-US", {
+							year: "numeric",
+							month: "long",
+							day: "numeric",
+						}),
+						isOverdue: overdue,
+						companyName: "Your Smile Matters",
+						supportEmail: "ysmphotography@yopmail.com",
+					}),
+				});
+				sent++;
+
+				if (overdue) milestone.overdue_notice_sent_at = now;
+				else milestone.reminder_sent_at = now;
+			}
+
+			await Booking.updateOne(
+				{ _id: booking._id },
+				{ $set: { payment_schedule: schedule } }
+			);
+		} catch (error) {
+			console.error(
+				`Failed to send payment reminders for ${booking.booking_reference}:`,
+				error
+			);
+		}
+	}
+
+	return sent;
+};
+
+// Run sendPaymentReminders every reminderIntervalMinutes in this process
+export const startPaymentReminderJob = () => {
+	const minutes = paymentScheduleConfig.reminderIntervalMinutes;
+	if (minutes <= 0) return;
+
+	let running = false;
+	const run = async () => {
+		if (running) return;
+		running = true;
+		try {
+			const sent = await sendPaymentReminders();
+			if (sent > 0) console.log(`Sent ${sent} payment reminder(s)`);
+		} catch (error) {
+			console.error("Payment reminder job failed:", error);
+		} finally {
+			running = false;
+		}
+	};
+
+	setInterval(run, minutes * 60 * 1000).unref();
+};
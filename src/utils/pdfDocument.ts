@@ -0,0 +1,272 @@
+import zlib from "zlib";
+
+export type PdfFont = "regular" | "bold";
+
+export type PdfTextOptions = {
+	size?: number; // Points, defaults to 10
+	font?: PdfFont;
+	align?: "left" | "right" | "center"; // Relative to x
+	gray?: number; // 0 is black, 1 is white
+};
+
+export type PdfDocument = {
+	width: number;
+	height: number;
+	addPage(): void;
+	text(value: string, x: number, y: number, options?: PdfTextOptions): void;
+	line(
+		x1: number,
+		y1: number,
+		x2: number,
+		y2: number,
+		options?: { width?: number; gray?: number }
+	): void;
+	fillRect(x: number, y: number, w: number, h: number, gray?: number): void;
+	widthOf(value: string, size?: number, font?: PdfFont): number;
+	wrap(
+		value: string,
+		maxWidth: number,
+		size?: number,
+		font?: PdfFont
+	): string[];
+	toBuffer(): Buffer;
+};
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+
+// Glyph widths of the standard Helvetica fonts for characters 32-126, in
+// thousandths of the font size
+const HELVETICA_WIDTHS = [
+	278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+	278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+	584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+	833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+	278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+	500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+	500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+	278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278,
+	278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584,
+	584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611,
+	833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+	278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278,
+	556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556,
+	500, 389, 280, 389, 584,
+];
+
+const FONT_RESOURCES: Record<PdfFont, string> = { regular: "F1", bold: "F2" };
+
+// The standard fonts only cover plain ASCII here: accents are dropped, dashes
+// and quotes straightened, and the peso sign spelled out
+export const toPdfText = (value: string) =>
+	value
+		.replace(/₱\s?/g, "PHP ")
+		.replace(/[\u2013\u2014]/g, "-")
+		.replace(/[\u2018\u2019]/g, "'")
+		.replace(/[\u201c\u201d]/g, '"')
+		.normalize("NFKD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.replace(/\s/g, " ")
+		.replace(/[^\x20-\x7e]/g, "?");
+
+const escapeText = (value: string) => value.replace(/([\\()])/g, "\\$1");
+
+const num = (value: number) => String(Math.round(value * 100) / 100);
+
+const pdfDate = (date: Date) =>
+	`D:${date.toISOString().replace(/[-:T]/g, "").slice(0, 14)}Z`;
+
+// ---------------------------
+// Minimal PDF writer
+// ---------------------------
+// Enough for receipts and statements: text in Helvetica, lines and filled
+// boxes on A4 pages. Coordinates are points from the top-left corner.
+export const createPdfDocument = (title: string): PdfDocument => {
+	const pages: string[][] = [];
+
+	const current = () => {
+		if (pages.length === 0) pages.push([]);
+		return pages[pages.length - 1];
+	};
+
+	const widthOf = (value: string, size = 10, font: PdfFont = "regular") => {
+		const widths = font === "bold" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+		let total = 0;
+		for (const char of toPdfText(value)) {
+			total += widths[char.charCodeAt(0) - 32] ?? 556;
+		}
+		return (total * size) / 1000;
+	};
+
+	return {
+		width: PAGE_WIDTH,
+		height: PAGE_HEIGHT,
+
+		addPage() {
+			pages.push([]);
+		},
+
+		text(value, x, y, options = {}) {
+			const size = options.size ?? 10;
+			const font = options.font ?? "regular";
+			const text = toPdfText(value);
+			const width = widthOf(text, size, font);
+			const left =
+				options.align === "right"
+					? x - width
+					: options.align === "center"
+					? x - width / 2
+					: x;
+
+			current().push(
+				`BT /${FONT_RESOURCES[font]} ${num(size)} Tf ${num(
+					options.gray ?? 0
+				)} g 1 0 0 1 ${num(left)} ${num(PAGE_HEIGHT - y)} Tm (${escapeText(
+					text
+				)}) Tj ET`
+			);
+		},
+
+		line(x1, y1, x2, y2, options = {}) {
+			current().push(
+				`${num(options.gray ?? 0)} G ${num(options.width ?? 0.5)} w ${num(
+					x1
+				)} ${num(PAGE_HEIGHT - y1)} m ${num(x2)} ${num(PAGE_HEIGHT - y2)} l S`
+			);
+		},
+
+		fillRect(x, y, w, h, gray = 0.9) {
+			current().push(
+				`${num(gray)} g ${num(x)} ${num(PAGE_HEIGHT - y - h)} ${num(w)} ${num(
+					h
+				)} re f`
+			);
+		},
+
+		widthOf,
+
+		// Split text into lines no wider than maxWidth, breaking at spaces;
+		// words too long for a line of their own are cut
+		wrap(value, maxWidth, size = 10, font = "regular") {
+			const words: string[] = [];
+			for (const word of toPdfText(value).split(" ")) {
+				let rest = word;
+				while (rest.length > 1 && widthOf(rest, size, font) > maxWidth) {
+					let end = rest.length - 1;
+					while (
+						end > 1 &&
+						widthOf(rest.slice(0, end), size, font) > maxWidth
+					) {
+						end--;
+					}
+					words.push(rest.slice(0, end));
+					rest = rest.slice(end);
+				}
+				words.push(rest);
+			}
+
+			const lines: string[] = [];
+			let currentLine = "";
+			for (const word of words) {
+				const candidate = currentLine ? `${currentLine} ${word}` : word;
+				if (currentLine && widthOf(candidate, size, font) > maxWidth) {
+					lines.push(currentLine);
+					currentLine = word;
+				} else {
+					currentLine = candidate;
+				}
+			}
+			if (currentLine || lines.length === 0) lines.push(currentLine);
+			return lines;
+		},
+
+		toBuffer() {
+			if (pages.length === 0) pages.push([]);
+
+			// 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and its
+			// content stream for each page
+			const objects: Buffer[] = [];
+			const add = (body: string | Buffer) => {
+				objects.push(
+					Buffer.isBuffer(body) ? body : Buffer.from(body, "latin1")
+				);
+				return objects.length;
+			};
+
+			const pageIds = pages.map((_, index) => 6 + index * 2);
+			add("<< /Type /Catalog /Pages 2 0 R >>");
+			add(
+				`<< /Type /Pages /Kids [${pageIds
+					.map((id) => `${id} 0 R`)
+					.join(" ")}] /Count ${pages.length} >>`
+			);
+			add(
+				"<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>"
+			);
+			add(
+				"<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>"
+			);
+			add(
+				`<< /Title (${escapeText(
+					toPdfText(title)
+				)}) /Producer (Your Smile Matters) /CreationDate (${pdfDate(
+					new Date()
+				)}) >>`
+			);
+
+			for (const [index, operations] of pages.entries()) {
+				const contentId = pageIds[index] + 1;
+				add(
+					`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`
+				);
+				const stream = zlib.deflateSync(
+					Buffer.from(operations.join("\n"), "latin1")
+				);
+				add(
+					Buffer.concat([
+						Buffer.from(
+							`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`,
+							"latin1"
+						),
+						stream,
+						Buffer.from("\nendstream", "latin1"),
+					])
+				);
+			}
+
+			const chunks: Buffer[] = [
+				Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1"),
+			];
+			let offset = chunks[0].length;
+			const offsets: number[] = [];
+			objects.forEach((body, index) => {
+				offsets.push(offset);
+				const chunk = Buffer.concat([
+					Buffer.from(`${index + 1} 0 obj\n`, "latin1"),
+					body,
+					Buffer.from("\nendobj\n", "latin1"),
+				]);
+				chunks.push(chunk);
+				offset += chunk.length;
+			});
+
+			const xref = [
+				"xref",
+				`0 ${objects.length + 1}`,
+				"0000000000 65535 f ",
+				...offsets.map((item) => `${String(item).padStart(10, "0")} 00000 n `),
+				"trailer",
+				`<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>`,
+				"startxref",
+				String(offset),
+				"%%EOF",
+			].join("\n");
+			chunks.push(Buffer.from(`${xref}\n`, "latin1"));
+
+			return Buffer.concat(chunks);
+		},
+	};
+};
@@ -0,0 +1,241 @@
+import crypto from "crypto";
+import { ClientSession, Types } from "mongoose";
+import { customError } from "../middleware/errorHandler";
+import { Promo, PromoModel } from "../models/Promo";
+import { PromoCampaignCode } from "../models/PromoCampaignCode";
+import { generatePromoCode } from "./generateRandomValues";
+import { isDuplicateKeyError } from "./mongoErrors";
+
+// No 0/O or 1/I, so printed codes can be typed back without guessing
+export const DEFAULT_CAMPAIGN_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+export const MAX_CAMPAIGN_CODES_PER_BATCH = 5000;
+
+const CODE_PATTERN = /^[A-Z0-9_]+$/;
+const MIN_CODE_LENGTH = 3;
+const MAX_CODE_LENGTH = 20;
+const MAX_GENERATION_ROUNDS = 5;
+
+export type CampaignCodeOptions = {
+	count: number;
+	prefix?: string;
+	length?: number; // Random part, excluding the prefix
+	alphabet?: string;
+};
+
+export type ResolvedPromoCode = {
+	promo: PromoModel & { _id: Types.ObjectId };
+	campaign_code: string | null; // Set when a child code was entered
+	unusable_message: string | null; // Why the code cannot be used right now
+};
+
+const normalizeOptions = (options: CampaignCodeOptions) => {
+	const count = Number(options.count);
+	const prefix = String(options.prefix ?? "").toUpperCase();
+	const length = Number(options.length ?? 8);
+	const alphabet = [
+		...new Set(
+			String(options.alphabet || DEFAULT_CAMPAIGN_CODE_ALPHABET).toUpperCase()
+		),
+	].join("");
+
+	if (
+		!Number.isInteger(count) ||
+		count < 1 ||
+		count > MAX_CAMPAIGN_CODES_PER_BATCH
+	) {
+		throw customError(
+			400,
+			`Count must be between 1 and ${MAX_CAMPAIGN_CODES_PER_BATCH}`
+		);
+	}
+	if (prefix && !CODE_PATTERN.test(prefix)) {
+		throw customError(
+			400,
+			"Prefix can only contain letters, numbers, and underscores"
+		);
+	}
+	if (!CODE_PATTERN.test(alphabet) || alphabet.length < 2) {
+		throw customError(
+			400,
+			"Alphabet needs at least 2 distinct letters, numbers, or underscores"
+		);
+	}
+	if (!Number.isInteger(length) || length < 1) {
+		throw customError(400, "Length must be a positive whole number");
+	}
+	if (
+		prefix.length + length < MIN_CODE_LENGTH ||
+		prefix.length + length > MAX_CODE_LENGTH
+	) {
+		throw customError(
+			400,
+			`Prefix and length together must give codes of ${MIN_CODE_LENGTH}-${MAX_CODE_LENGTH} characters`
+		);
+	}
+	// Keep collisions rare: at least 100 possible codes per requested code
+	if (Math.pow(alphabet.length, length) < count * 100) {
+		throw customError(
+			400,
+			"Length and alphabet allow too few distinct codes for this count"
+		);
+	}
+
+	return { count, prefix, length, alphabet };
+};
+
+// ---------------------------
+// Generate single-use codes for a campaign promo
+// ---------------------------
+// Codes never repeat an existing promo code or campaign code. Marks the parent
+// as a campaign, so its own promo_code stops working on its own.
+export const generateCampaignCodes = async (
+	promoId: Types.ObjectId,
+	options: CampaignCodeOptions,
+	createdBy: string | Types.ObjectId
+): Promise<{ batch_id: string; codes: string[] }> => {
+	const { count, prefix, length, alphabet } = normalizeOptions(options);
+	const batchId = crypto.randomUUID();
+
+	await Promo.updateOne({ _id: promoId }, { $set: { is_campaign: true } });
+
+	for (let round = 0; round < MAX_GENERATION_ROUNDS; round++) {
+		const created = await PromoCampaignCode.countDocuments({
+			batch_id: batchId,
+		});
+		const missing = count - created;
+		if (missing <= 0) break;
+
+		const candidates = new Set<string>();
+		while (candidates.size < missing) {
+			candidates.add(generatePromoCode(prefix, length, alphabet));
+		}
+
+		const [takenPromos, takenCodes] = await Promise.all([
+			Promo.find({ promo_code: { $in: [...candidates] } })
+				.select("promo_code")
+				.lean(),
+			PromoCampaignCode.find({ code: { $in: [...candidates] } })
+				.select("code")
+				.lean(),
+		]);
+		for (const promo of takenPromos) candidates.delete(promo.promo_code);
+		for (const code of takenCodes) candidates.delete(code.code);
+
+		try {
+			await PromoCampaignCode.insertMany(
+				[...candidates].map((code) => ({
+					promo_id: promoId,
+					code,
+					batch_id: batchId,
+					created_by: new Types.ObjectId(createdBy),
+				})),
+				{ ordered: false }
+			);
+		} catch (error) {
+			// Another batch took some of the codes meanwhile; the next round refills
+			if (!isDuplicateKeyError(error)) throw error;
+		}
+	}
+
+	const codes = await PromoCampaignCode.find({ batch_id: batchId })
+		.select("code")
+		.sort({ code: 1 })
+		.lean();
+
+	if (codes.length < count) {
+		throw customError(
+			500,
+			`Only ${codes.length} of ${count} codes could be generated. Try a longer code or a different prefix.`
+		);
+	}
+
+	return { batch_id: batchId, codes: codes.map((code) => code.code) };
+};
+
+// ---------------------------
+// Look up an entered code: a promo's own code or a campaign child code
+// ---------------------------
+export const resolvePromoCode = async (
+	code: string
+): Promise<ResolvedPromoCode | null> => {
+	const normalized = String(code).trim().toUpperCase();
+
+	const promo = await Promo.findOne({ promo_code: normalized }).lean<
+		ResolvedPromoCode["promo"]
+	>();
+	if (promo) {
+		return {
+			promo,
+			campaign_code: null,
+			unusable_message: promo.is_campaign
+				? "This promo can only be used with a campaign code"
+				: null,
+		};
+	}
+
+	const campaignCode = await PromoCampaignCode.findOne({
+		code: normalized,
+	}).lean();
+	if (!campaignCode) return null;
+
+	const parent = await Promo.findById(campaignCode.promo_id).lean<
+		ResolvedPromoCode["promo"]
+	>();
+	if (!parent) return null;
+
+	return {
+		promo: parent,
+		campaign_code: campaignCode.code,
+		unusable_message:
+			campaignCode.status === "Redeemed"
+				? "This promo code has already been used"
+				: null,
+	};
+};
+
+// Claim a single-use code for a booking; 409 if someone else used it first
+export const claimCampaignCode = async (
+	code: string,
+	customerId: Types.ObjectId,
+	bookingId: Types.ObjectId,
+	session?: ClientSession
+): Promise<{ release: () => Promise<void> }> => {
+	const claimed = await PromoCampaignCode.findOneAndUpdate(
+		{ code, status: "Available" },
+		{
+			$set: {
+				status: "Redeemed",
+				customer_id: customerId,
+				booking_id: bookingId,
+				redeemed_at: new Date(),
+			},
+		},
+		{ new: true, session }
+	);
+	if (!claimed) {
+		throw customError(409, "This promo code has already been used");
+	}
+
+	return { release: () => releaseCampaignCode(code, bookingId, session) };
+};
+
+// Make a code usable again once the booking that used it no longer counts
+export const releaseCampaignCode = async (
+	code: string,
+	bookingId: Types.ObjectId,
+	session?: ClientSession
+): Promise<void> => {
+	await PromoCampaignCode.updateOne(
+		{ code, booking_id: bookingId, status: "Redeemed" },
+		{
+			$set: {
+				status: "Available",
+				customer_id: null,
+				booking_id: null,
+				redeemed_at: null,
+			},
+		},
+		{ session }
+	);
+};
@@ -0,0 +1,243 @@
+import { Types } from "mongoose";
+import { Booking } from "../models/Booking";
+import { DayOfWeek } from "../models/Photographer";
+import { PromoModel } from "../models/Promo";
+import { Service } from "../models/Service";
+import { countCustomerRedemptions } from "./promoRedemption";
+
+type ObjectIdLike = string | Types.ObjectId;
+
+// Booking history the customer rules look at
+export type CustomerPromoFacts = {
+	completed_bookings: number;
+	has_bookings: boolean; // Any booking that was not cancelled
+};
+
+// What is known about the booking being priced. A field left undefined is
+// unknown (a missing cart or anonymous visitor), not "none".
+export type PromoEligibilityContext = {
+	bookingAmount?: number;
+	bookingDate?: Date;
+	customerId?: ObjectIdLike | null;
+	customerFacts?: CustomerPromoFacts; // Loaded from customerId when omitted
+	serviceCategories?: string[];
+	packageId?: ObjectIdLike | null;
+};
+
+export type PromoEligibilityOptions = {
+	// Skip rules whose facts are unknown instead of failing them (previews)
+	partial?: boolean;
+};
+
+export type PromoEligibilityResult = { isValid: boolean; message: string };
+
+const DAY_NAMES: DayOfWeek[] = [
+	"Sunday",
+	"Monday",
+	"Tuesday",
+	"Wednesday",
+	"Thursday",
+	"Friday",
+	"Saturday",
+];
+
+export const loadCustomerPromoFacts = async (
+	customerId: ObjectIdLike
+): Promise<CustomerPromoFacts> => {
+	const customer = new Types.ObjectId(customerId);
+	const [completedBookings, anyBooking] = await Promise.all([
+		Booking.countDocuments({
+			customer_id: customer,
+			status: "Completed",
+			is_active: true,
+		}),
+		Booking.exists({
+			customer_id: customer,
+			status: { $ne: "Cancelled" },
+			is_active: true,
+		}),
+	]);
+	return { completed_bookings: completedBookings, has_bookings: !!anyBooking };
+};
+
+export const getServiceCategories = async (
+	serviceIds: ObjectIdLike[]
+): Promise<string[]> => {
+	const ids = serviceIds.filter((id) => Types.ObjectId.isValid(String(id)));
+	const services = await Service.find({ _id: { $in: ids } })
+		.select("category")
+		.lean();
+	return [...new Set(services.map((service) => service.category))];
+};
+
+// Helper function to validate promo conditions
+export const validatePromoConditions = (
+	promo: PromoModel,
+	bookingAmount?: number,
+	bookingDate?: Date
+): PromoEligibilityResult => {
+	const now = new Date();
+
+	// Check if promo is active
+	if (!promo.is_active) {
+		return { isValid: false, message: "This promo code is no longer active" };
+	}
+
+	// Check validity period
+	if (now < promo.valid_from || now > promo.valid_until) {
+		return {
+			isValid: false,
+			message: "This promo code has expired or is not yet active",
+		};
+	}
+
+	// Check usage limit
+	if (promo.usage_limit && promo.usage_count >= promo.usage_limit) {
+		return {
+			isValid: false,
+			message: "This promo code has reached its usage limit",
+		};
+	}
+
+	// Check minimum booking amount
+	if (
+		promo.min_booking_amount &&
+		bookingAmount !== undefined &&
+		bookingAmount < promo.min_booking_amount
+	) {
+		return {
+			isValid: false,
+			message: `Minimum booking amount of ₱${promo.min_booking_amount.toLocaleString()} required for this promo`,
+		};
+	}
+
+	// Check early bird conditions
+	if (
+		promo.promo_type === "Early_Bird" &&
+		promo.min_advance_days &&
+		bookingDate
+	) {
+		const daysDiff = Math.floor(
+			(bookingDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)
+		);
+		if (daysDiff < promo.min_advance_days) {
+			return {
+				isValid: false,
+				message: `This early bird promo requires booking at least ${promo.min_advance_days} days in advance`,
+			};
+		}
+	}
+
+	return { isValid: true, message: "Promo code is valid!" };
+};
+
+// ---------------------------
+// Promo eligibility evaluator
+// ---------------------------
+// The single place that decides whether a promo applies: validity, usage and
+// amount checks first, then the promo's eligibility_rules and the customer's
+// own usage limit. Used by promo validation, previews and booking creation.
+export const evaluatePromoEligibility = async (
+	promo: PromoModel,
+	context: PromoEligibilityContext,
+	options: PromoEligibilityOptions = {}
+): Promise<PromoEligibilityResult> => {
+	const basic = validatePromoConditions(
+		promo,
+		context.bookingAmount,
+		context.bookingDate
+	);
+	if (!basic.isValid) return basic;
+
+	const rules = promo.eligibility_rules ?? {};
+	const partial = options.partial === true;
+	const fail = (message: string) => ({ isValid: false, message });
+
+	// Booking date
+	if (rules.weekdays?.length) {
+		const day = context.bookingDate
+			? DAY_NAMES[context.bookingDate.getDay()]
+			: null;
+		if (day ? !rules.weekdays.includes(day) : !partial) {
+			return fail(
+				`This promo is only valid for bookings on ${rules.weekdays.join(", ")}`
+			);
+		}
+	}
+
+	// Cart
+	if (rules.package_ids?.length) {
+		const known = context.packageId !== undefined;
+		const allowed = rules.package_ids.some(
+			(id) => context.packageId && id.equals(String(context.packageId))
+		);
+		if (known ? !allowed : !partial) {
+			return fail("This promo does not apply to the selected package");
+		}
+	}
+
+	if (rules.service_categories?.length) {
+		const categories = context.serviceCategories;
+		const allowed = categories?.some((category) =>
+			rules.service_categories!.includes(category as any)
+		);
+		if (categories ? !allowed : !partial) {
+			return fail(
+				`This promo only applies to ${rules.service_categories.join(
+					", "
+				)} services`
+			);
+		}
+	}
+
+	// Customer
+	const needsCustomer =
+		!!rules.customer_ids?.length ||
+		!!rules.min_completed_bookings ||
+		!!rules.first_booking_only ||
+		!!promo.per_customer_limit;
+	if (!needsCustomer) return basic;
+
+	if (!context.customerId) {
+		return partial ? basic : fail("Please sign in to use this promo code");
+	}
+	const customerId = String(context.customerId);
+
+	if (
+		rules.customer_ids?.length &&
+		!rules.customer_ids.some((id) => id.equals(customerId))
+	) {
+		return fail("This promo code is not available for your account");
+	}
+
+	if (rules.min_completed_bookings || rules.first_booking_only) {
+		const facts =
+			context.customerFacts ?? (await loadCustomerPromoFacts(customerId));
+
+		if (
+			rules.min_completed_bookings &&
+			facts.completed_bookings < rules.min_completed_bookings
+		) {
+			return fail(
+				`This promo requires at least ${rules.min_completed_bookings} completed booking(s)`
+			);
+		}
+		if (rules.first_booking_only && facts.has_bookings) {
+			return fail("This promo is only available on your first booking");
+		}
+	}
+
+	if (promo.per_customer_limit) {
+		const used = await countCustomerRedemptions(
+			(promo as PromoModel & { _id: Types.ObjectId })._id,
+			customerId
+		);
+		if (used >= promo.per_customer_limit) {
+			return fail(
+				`You have already used this promo code the maximum of ${promo.per_customer_limit} time(s)`
+			);
+		}
+	}
+
+	return basic;
+};
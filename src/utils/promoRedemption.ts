@@ -0,0 +1,192 @@
+import { ClientSession, Types } from "mongoose";
+import { customError } from "../middleware/errorHandler";
+import { Promo } from "../models/Promo";
+import { PromoRedemption } from "../models/PromoRedemption";
+import { Transaction } from "../models/Transaction";
+import { claimCampaignCode, releaseCampaignCode } from "./promoCampaign";
+
+export type RedemptionRequest = {
+	promoId: string | Types.ObjectId;
+	customerId: string | Types.ObjectId;
+	bookingId: string | Types.ObjectId;
+	discountAmount: number;
+	campaignCode?: string | null;
+	session?: ClientSession; // Redeem as part of a larger transaction
+};
+
+export type PromoRedemptionHandle = {
+	// Undo the redemption (if the booking failed to save)
+	rollback: () => Promise<void>;
+};
+
+// Active redemptions of a promo by one customer
+export const countCustomerRedemptions = (
+	promoId: string | Types.ObjectId,
+	customerId: string | Types.ObjectId,
+	session?: ClientSession
+) =>
+	PromoRedemption.countDocuments({
+		promo_id: new Types.ObjectId(promoId),
+		customer_id: new Types.ObjectId(customerId),
+		status: "Active",
+	}).session(session ?? null);
+
+// ---------------------------
+// Redeem a promo for a booking
+// ---------------------------
+// usage_count is only incremented while it is below usage_limit, in a single
+// update, so two bookings can never take the last use. Throws 409 when the
+// promo, the customer's own limit or a single-use campaign code is used up.
+// Inside a transaction the usage_count update also makes concurrent
+// redemptions of the same promo conflict, so one of them retries.
+export const redeemPromo = async (
+	request: RedemptionRequest
+): Promise<PromoRedemptionHandle> => {
+	const promoId = new Types.ObjectId(request.promoId);
+	const customerId = new Types.ObjectId(request.customerId);
+	const bookingId = new Types.ObjectId(request.bookingId);
+	const session = request.session;
+
+	const campaignClaim = request.campaignCode
+		? await claimCampaignCode(
+				request.campaignCode,
+				customerId,
+				bookingId,
+				session
+		  )
+		: null;
+
+	const promo = await Promo.findOneAndUpdate(
+		{
+			_id: promoId,
+			is_active: true,
+			$or: [
+				{ usage_limit: null },
+				{ $expr: { $lt: ["$usage_count", "$usage_limit"] } },
+			],
+		},
+		{ $inc: { usage_count: 1 } },
+		{ new: true, session }
+	).lean();
+
+	if (!promo) {
+		await campaignClaim?.release();
+		throw customError(409, "This promo code has reached its usage limit");
+	}
+
+	const releaseUse = async () => {
+		await Promo.updateOne(
+			{ _id: promoId, usage_count: { $gt: 0 } },
+			{ $inc: { usage_count: -1 } },
+			{ session }
+		);
+		await campaignClaim?.release();
+	};
+
+	let redemptionId: Types.ObjectId;
+	try {
+		const [redemption] = await PromoRedemption.create(
+			[
+				{
+					promo_id: promoId,
+					customer_id: customerId,
+					booking_id: bookingId,
+					promo_code: promo.promo_code,
+					campaign_code: request.campaignCode ?? null,
+					discount_amount: request.discountAmount,
+				},
+			],
+			{ session }
+		);
+		redemptionId = redemption._id as Types.ObjectId;
+	} catch (error) {
+		await releaseUse();
+		throw error;
+	}
+
+	const rollback = async () => {
+		const deleted = await PromoRedemption.deleteOne(
+			{ _id: redemptionId },
+			{ session }
+		);
+		if (deleted.deletedCount > 0) await releaseUse();
+	};
+
+	// Counted after inserting, so concurrent redemptions see each other
+	if (promo.per_customer_limit) {
+		const used = await countCustomerRedemptions(promoId, customerId, session);
+		if (used > promo.per_customer_limit) {
+			await rollback();
+			throw customError(
+				409,
+				`You have already used this promo code the maximum of ${promo.per_customer_limit} time(s)`
+			);
+		}
+	}
+
+	return { rollback };
+};
+
+// ---------------------------
+// Give a booking's promo uses back (cancellation or refund)
+// ---------------------------
+export const releasePromoRedemption = async (
+	bookingId: string | Types.ObjectId,
+	reason: string
+): Promise<void> => {
+	const redemptions = await PromoRedemption.find({
+		booking_id: new Types.ObjectId(bookingId),
+		status: "Active",
+	})
+		.select("_id promo_id booking_id campaign_code")
+		.lean();
+
+	for (const redemption of redemptions) {
+		// Only the request that flips the status gives the use back
+		const released = await PromoRedemption.updateOne(
+			{ _id: redemption._id, status: "Active" },
+			{
+				$set: {
+					status: "Released",
+					released_at: new Date(),
+					release_reason: reason,
+				},
+			}
+		);
+		if (released.modifiedCount === 0) continue;
+
+		await Promo.updateOne(
+			{ _id: redemption.promo_id, usage_count: { $gt: 0 } },
+			{ $inc: { usage_count: -1 } }
+		);
+		if (redemption.campaign_code) {
+			await releaseCampaignCode(
+				redemption.campaign_code,
+				redemption.booking_id
+			);
+		}
+	}
+};
+
+// Release the promo once everything paid for the booking has been refunded
+export const releasePromoRedemptionIfRefunded = async (
+	bookingId: string | Types.ObjectId
+): Promise<void> => {
+	const transactions = await Transaction.find({
+		booking_id: new Types.ObjectId(bookingId),
+		status: { $in: ["Completed", "Refunded"] },
+	})
+		.select("amount transaction_type")
+		.lean();
+
+	const paid = transactions
+		.filter((t) => t.transaction_type !== "Refund")
+		.reduce((sum, t) => sum + t.amount, 0);
+	const refunded = transactions
+		.filter((t) => t.transaction_type === "Refund")
+		.reduce((sum, t) => sum + t.amount, 0);
+
+	if (paid > 0 && refunded >= paid) {
+		await releasePromoRedemption(bookingId, "Refunded");
+	}
+};
@@ -0,0 +1,248 @@
+import { Types } from "mongoose";
+import { Booking } from "../models/Booking";
+import { Package } from "../models/Package";
+import { Photographer } from "../models/Photographer";
+import {
+	Rating,
+	RatableType,
+	PUBLISHED_RATING_FILTER,
+} from "../models/Rating";
+import {
+	EMPTY_RATING_SUMMARY,
+	RatingDistribution,
+	RatingSummary,
+} from "../models/RatingSummary";
+import { Service } from "../models/Service";
+
+type ObjectIdLike = string | Types.ObjectId;
+
+// A reference that may have been populated
+type RefLike = ObjectIdLike | { _id: ObjectIdLike };
+
+// The fields of a rating that decide which aggregates it feeds
+export type RatingTarget = {
+	booking_id: RefLike;
+	ratable_type: RatableType;
+	ratable_id: RefLike;
+};
+
+// Same shape as the analytics the rating routes return
+export type RatingSummaryAnalytics = {
+	total_ratings: number;
+	average_rating: number;
+	rating_percentage: number;
+	rating_distribution: RatingDistribution;
+	rating_distribution_percentage: RatingDistribution;
+	total_with_comments: number;
+	total_with_responses: number;
+};
+
+const STAR_KEYS: (keyof RatingDistribution)[] = [
+	"one_star",
+	"two_star",
+	"three_star",
+	"four_star",
+	"five_star",
+];
+
+// The model caching a RatingSummary for a ratable type. Looked up lazily:
+// Rating imports this module, so RatableType is not ready at load time.
+const summaryModel = (ratableType: RatableType) => {
+	switch (ratableType) {
+		case RatableType.SERVICE:
+			return Service;
+		case RatableType.PACKAGE:
+			return Package as unknown as typeof Service;
+		case RatableType.PHOTOGRAPHER:
+			return Photographer as unknown as typeof Service;
+	}
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const toObjectId = (ref: RefLike) =>
+	new Types.ObjectId(
+		String(typeof ref === "object" && "_id" in ref ? ref._id : ref)
+	);
+
+// Fold per-star counts ({ _id: 4, count: 12 }) into a summary
+const toSummary = (stars: { _id: number; count: number }[]): RatingSummary => {
+	const distribution = { ...EMPTY_RATING_SUMMARY.rating_distribution };
+	let count = 0;
+	let total = 0;
+
+	for (const star of stars) {
+		const key = STAR_KEYS[Math.round(star._id) - 1];
+		if (!key) continue;
+		distribution[key] += star.count;
+		count += star.count;
+		total += star._id * star.count;
+	}
+
+	return {
+		rating_average: count > 0 ? round(total / count) : 0,
+		rating_count: count,
+		rating_distribution: distribution,
+	};
+};
+
+// Summary of the published ratings of one ratable
+export const aggregateRatings = async (
+	ratableType: RatableType,
+	ratableId: ObjectIdLike
+): Promise<RatingSummary> => {
+	const stars = await Rating.aggregate<{ _id: number; count: number }>([
+		{
+			$match: {
+				ratable_type: ratableType,
+				ratable_id: new Types.ObjectId(ratableId),
+				is_active: true,
+				...PUBLISHED_RATING_FILTER,
+			},
+		},
+		{ $group: { _id: "$rating", count: { $sum: 1 } } },
+	]);
+
+	return toSummary(stars);
+};
+
+// Recompute and store the summary cached on a service, package or photographer
+export const syncRatableSummary = async (
+	ratableType: RatableType,
+	ratableId: ObjectIdLike
+): Promise<void> => {
+	const summary = await aggregateRatings(ratableType, ratableId);
+	const model = summaryModel(ratableType);
+	await model.updateOne(
+		{ _id: new Types.ObjectId(ratableId) },
+		{ $set: summary }
+	);
+};
+
+// Recompute every cached summary of one ratable type. Returns how many
+// documents have at least one published rating.
+export const recomputeRatableSummaries = async (
+	ratableType: RatableType
+): Promise<number> => {
+	const grouped = await Rating.aggregate<{
+		_id: Types.ObjectId;
+		stars: { _id: number; count: number }[];
+	}>([
+		{
+			$match: {
+				ratable_type: ratableType,
+				is_active: true,
+				...PUBLISHED_RATING_FILTER,
+			},
+		},
+		{
+			$group: {
+				_id: { ratable_id: "$ratable_id", rating: "$rating" },
+				count: { $sum: 1 },
+			},
+		},
+		{
+			$group: {
+				_id: "$_id.ratable_id",
+				stars: { $push: { _id: "$_id.rating", count: "$count" } },
+			},
+		},
+	]);
+
+	const model = summaryModel(ratableType);
+
+	// Documents whose ratings were all removed go back to empty
+	await model.updateMany(
+		{ _id: { $nin: grouped.map((item) => item._id) } },
+		{ $set: EMPTY_RATING_SUMMARY }
+	);
+
+	if (grouped.length > 0) {
+		await model.bulkWrite(
+			grouped.map((item) => ({
+				updateOne: {
+					filter: { _id: item._id },
+					update: { $set: toSummary(item.stars) },
+				},
+			}))
+		);
+	}
+
+	return grouped.length;
+};
+
+// Rating analytics from a cached summary; comment and response counts come
+// from the published ratings being returned alongside it
+export const toRatingAnalytics = (
+	summary: Partial<RatingSummary>,
+	ratings: { comment?: string | null; response?: string | null }[]
+): RatingSummaryAnalytics => {
+	const count = summary.rating_count ?? 0;
+	const average = summary.rating_average ?? 0;
+	const perStar = (value: (stars: number) => number) =>
+		Object.fromEntries(
+			STAR_KEYS.map((key) => [
+				key,
+				value(summary.rating_distribution?.[key] ?? 0),
+			])
+		) as RatingDistribution;
+
+	return {
+		total_ratings: count,
+		average_rating: average,
+		rating_percentage: count > 0 ? round((average / 5) * 100) : 0,
+		rating_distribution: perStar((stars) => stars),
+		rating_distribution_percentage: perStar((stars) =>
+			count > 0 ? round((stars / count) * 100) : 0
+		),
+		total_with_comments: ratings.filter((r) => r.comment?.trim()).length,
+		total_with_responses: ratings.filter((r) => r.response?.trim()).length,
+	};
+};
+
+// photographer_rating mirrors the photographer rating; client_rating is the
+// customer's average over everything they rated for the booking
+export const syncBookingRatings = async (
+	bookingId: ObjectIdLike
+): Promise<void> => {
+	const ratings = await Rating.find({
+		booking_id: new Types.ObjectId(bookingId),
+		is_active: true,
+	})
+		.select("ratable_type rating")
+		.lean();
+
+	const photographerRating = ratings.find(
+		(rating) => rating.ratable_type === RatableType.PHOTOGRAPHER
+	);
+	const clientRating = ratings.length
+		? Math.round(
+				ratings.reduce((sum, rating) => sum + rating.rating, 0) /
+					ratings.length
+		  )
+		: null;
+
+	await Booking.updateOne(
+		{ _id: new Types.ObjectId(bookingId) },
+		{
+			$set: {
+				photographer_rating: photographerRating?.rating ?? null,
+				client_rating: clientRating,
+			},
+		}
+	);
+};
+
+// ---------------------------
+// Refresh everything derived from a rating
+// ---------------------------
+// Run by the Rating middleware after a rating is created, edited, deleted or
+// moderated. Aggregates are recomputed from the ratings themselves, so a
+// missed or repeated call corrects itself on the next one (or with
+// `npm run seed rating-aggregates`).
+export const syncRatingAggregates = async (
+	rating: RatingTarget
+): Promise<void> => {
+	await syncRatableSummary(rating.ratable_type, toObjectId(rating.ratable_id));
+	await syncBookingRatings(toObjectId(rating.booking_id));
+};
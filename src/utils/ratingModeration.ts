@@ -0,0 +1,83 @@
+import { Types } from "mongoose";
+import moderationConfig from "../config/moderation";
+import { Rating, RatingModerationStatus } from "../models/Rating";
+
+export type ScreenedComment = {
+	moderation_status: RatingModerationStatus;
+	moderation_flags: string[];
+};
+
+// Lowercase words separated by single spaces, so phrases match across
+// punctuation ("putang-ina!" -> "putang ina")
+const normalize = (text: string) =>
+	` ${text
+		.toLowerCase()
+		.normalize("NFKD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.replace(/[^a-z0-9]+/g, " ")
+		.trim()} `;
+
+// Blocked words found in a comment, in list order
+export const findBlockedWords = (
+	comment: string,
+	blockedWords: string[] = moderationConfig.blockedWords
+): string[] => {
+	const text = normalize(comment);
+	return blockedWords.filter((word) => {
+		const needle = normalize(word);
+		return needle.trim() !== "" && text.includes(needle);
+	});
+};
+
+// ---------------------------
+// Status for a new or edited comment
+// ---------------------------
+// Screened words flag the rating for review; otherwise it is published, or
+// waits for approval when approval is required. Star-only ratings have
+// nothing to screen and always publish.
+export const screenRatingComment = (
+	comment?: string | null
+): ScreenedComment => {
+	if (!comment) {
+		return {
+			moderation_status: RatingModerationStatus.PUBLISHED,
+			moderation_flags: [],
+		};
+	}
+
+	const flags = findBlockedWords(comment);
+	if (flags.length > 0) {
+		return {
+			moderation_status: RatingModerationStatus.FLAGGED,
+			moderation_flags: flags,
+		};
+	}
+
+	return {
+		moderation_status: moderationConfig.requireApproval
+			? RatingModerationStatus.PENDING
+			: RatingModerationStatus.PUBLISHED,
+		moderation_flags: [],
+	};
+};
+
+// Send a published rating back to the queue once enough customers report it.
+// Returns true when the rating was flagged by this call.
+export const flagIfReported = async (
+	ratingId: Types.ObjectId
+): Promise<boolean> => {
+	const flagged = await Rating.findOneAndUpdate(
+		{
+			_id: ratingId,
+			moderation_status: {
+				$in: [RatingModerationStatus.PUBLISHED, null],
+			},
+			report_count: { $gte: moderationConfig.reportThreshold },
+		},
+		{
+			$set: { moderation_status: RatingModerationStatus.FLAGGED },
+			$addToSet: { moderation_flags: "reported" },
+		}
+	);
+	return !!flagged;
+};
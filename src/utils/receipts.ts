@@ -0,0 +1,746 @@
+import { ClientSession, Types } from "mongoose";
+import { customError } from "../middleware/errorHandler";
+import { Booking, BookingAppliedDiscount } from "../models/Booking";
+import { Counter } from "../models/Counter";
+import { PaymentMilestone } from "../models/PaymentSchedule";
+import { Transaction, TransactionModel } from "../models/Transaction";
+import { runInTransaction } from "./dbTransaction";
+import { EmailOptions } from "./emailSender";
+import { formatToPeso } from "./formatMoney";
+import { formatTime12Hour } from "./formatTime";
+import { getNetAmountPaid } from "./paymentSchedule";
+import { createPdfDocument, PdfDocument } from "./pdfDocument";
+
+type ObjectIdLike = string | Types.ObjectId;
+
+export type PdfFile = {
+	filename: string;
+	content: Buffer;
+	contentType: "application/pdf";
+};
+
+type ReceiptCustomer = {
+	customer_no: string;
+	first_name: string;
+	last_name: string;
+	email: string;
+	mobile_number?: string | null;
+};
+
+type ReceiptBooking = {
+	_id: Types.ObjectId;
+	booking_reference: string;
+	booking_date: Date;
+	start_time: string;
+	end_time: string;
+	final_amount: number;
+	package_id: { name: string } | null;
+};
+
+type ReceiptTransaction = Omit<
+	TransactionModel,
+	"customer_id" | "booking_id" | "original_transaction_id"
+> & {
+	customer_id: ReceiptCustomer;
+	booking_id: ReceiptBooking;
+	original_transaction_id: {
+		transaction_reference: string;
+		receipt_number?: string | null;
+	} | null;
+};
+
+type StatementBooking = Omit<ReceiptBooking, "package_id"> & {
+	status: string;
+	location: string;
+	customer_id: ReceiptCustomer;
+	package_id: { name: string; package_price: number } | null;
+	photographer_id: { name: string } | null;
+	services: {
+		service_id: { name: string } | null;
+		quantity: number;
+		price_per_unit: number;
+		total_price: number;
+	}[];
+	is_customized: boolean;
+	applied_discounts: BookingAppliedDiscount[];
+	total_amount: number;
+	discount_amount: number;
+	payment_schedule: PaymentMilestone[];
+};
+
+type TableColumn = { header: string; width: number; align?: "left" | "right" };
+
+// Receipts cover payments that went through, including ones refunded later
+const RECEIPT_STATUSES = ["Completed", "Refunded"];
+
+const PAYMENT_TYPES = ["Payment", "Partial", "Balance"];
+
+const TYPE_LABELS: Record<string, string> = {
+	Payment: "Payment",
+	Partial: "Partial payment",
+	Balance: "Balance payment",
+	Refund: "Refund",
+};
+
+const CUSTOMER_FIELDS = "customer_no first_name last_name email mobile_number";
+
+const COMPANY_NAME = "Your Smile Matters";
+const SUPPORT_EMAIL = "ysmphotography@yopmail.com";
+
+const MARGIN = 50;
+const BOTTOM_MARGIN = 60;
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+const peso = (value: number) =>
+	`${value < 0 ? "-" : ""}${
+		formatToPeso(String(Math.abs(roundMoney(value)))) ?? "₱ 0.00"
+	}`;
+
+const formatDate = (date: Date) =>
+	new Date(date).toLocaleDateString("en-US", {
+		year: "numeric",
+		month: "long",
+		day: "numeric",
+	});
+
+// ---------------------------
+// Receipt numbering
+// ---------------------------
+// OR-<year>-<six digits>, counting from 1 each year
+export const nextReceiptNumber = async (
+	date: Date = new Date(),
+	session: ClientSession | null = null
+) => {
+	const year = date.getFullYear();
+	const seq = await Counter.nextValue(`receipt-${year}`, session);
+	return `OR-${year}-${String(seq).padStart(6, "0")}`;
+};
+
+type AssignedReceipt = { receipt_number: string; receipt_issued_at: Date };
+
+// Give a completed transaction its receipt number, once its status has been
+// written. Taking the number and setting it on the transaction commit
+// together, in the caller's session or a transaction of their own, so no
+// number is ever used up without a receipt: a failed write gives it back, and
+// of two concurrent callers one hits the write conflict, is retried and finds
+// the number the other set.
+export const assignReceiptNumber = async (
+	transactionId: ObjectIdLike,
+	session: ClientSession | null = null
+): Promise<AssignedReceipt | null> => {
+	const assign = async (session: ClientSession) => {
+		const transaction = await Transaction.findById(transactionId)
+			.select(
+				"status receipt_number receipt_issued_at processed_at transaction_date"
+			)
+			.session(session)
+			.lean();
+		if (!transaction || !RECEIPT_STATUSES.includes(transaction.status)) {
+			return null;
+		}
+		if (transaction.receipt_number) {
+			return {
+				receipt_number: transaction.receipt_number,
+				receipt_issued_at: transaction.receipt_issued_at ?? new Date(),
+			};
+		}
+
+		const receipt = {
+			receipt_number: await nextReceiptNumber(
+				transaction.processed_at ?? transaction.transaction_date,
+				session
+			),
+			receipt_issued_at: new Date(),
+		};
+		const { modifiedCount } = await Transaction.updateOne(
+			{ _id: transaction._id, receipt_number: null },
+			{ $set: receipt },
+			{ session }
+		);
+		// Aborts the transaction, handing the number back
+		if (modifiedCount === 0) {
+			throw customError(409, "Receipt number was assigned concurrently");
+		}
+		return receipt;
+	};
+
+	return session ? assign(session) : runInTransaction(assign);
+};
+
+// Number a completed transaction saved before receipts existed, or whose
+// numbering failed after it completed
+export const ensureReceiptNumber = async (transaction: TransactionModel) => {
+	if (transaction.receipt_number) return transaction.receipt_number;
+
+	if (!RECEIPT_STATUSES.includes(transaction.status)) {
+		throw customError(
+			400,
+			`Receipts are only issued for completed transactions (this one is ${transaction.status})`
+		);
+	}
+
+	const receipt = await assignReceiptNumber(transaction._id as Types.ObjectId);
+	if (!receipt) {
+		throw customError(
+			400,
+			"Receipts are only issued for completed transactions"
+		);
+	}
+	transaction.receipt_number = receipt.receipt_number;
+	transaction.receipt_issued_at = receipt.receipt_issued_at;
+	return transaction.receipt_number;
+};
+
+// ---------------------------
+// Layout helpers
+// ---------------------------
+const contentWidth = (pdf: PdfDocument) => pdf.width - MARGIN * 2;
+
+// Start a new page when the next block would not fit
+const ensureSpace = (
+	pdf: PdfDocument,
+	cursor: { y: number },
+	height: number
+) => {
+	if (cursor.y + height > pdf.height - BOTTOM_MARGIN) {
+		pdf.addPage();
+		cursor.y = MARGIN;
+	}
+};
+
+// Company name and document title on the left, labelled details on the right
+const drawHeader = (
+	pdf: PdfDocument,
+	title: string,
+	details: [string, string][]
+) => {
+	const right = pdf.width - MARGIN;
+
+	pdf.text(COMPANY_NAME, MARGIN, 60, { size: 18, font: "bold" });
+	pdf.text("Photography", MARGIN, 76, { size: 10, gray: 0.4 });
+	pdf.text(SUPPORT_EMAIL, MARGIN, 90, { size: 9, gray: 0.4 });
+
+	pdf.text(title, right, 60, { size: 14, font: "bold", align: "right" });
+	details.forEach(([label, value], index) => {
+		const y = 78 + index * 13;
+		pdf.text(value, right, y, { size: 9, font: "bold", align: "right" });
+		pdf.text(label, right - pdf.widthOf(value, 9, "bold") - 8, y, {
+			size: 9,
+			gray: 0.4,
+			align: "right",
+		});
+	});
+
+	const bottom = Math.max(104, 78 + details.length * 13);
+	pdf.line(MARGIN, bottom, right, bottom, { width: 1 });
+	return bottom + 22;
+};
+
+// A small heading followed by lines of text
+const drawBlock = (
+	pdf: PdfDocument,
+	x: number,
+	y: number,
+	heading: string,
+	lines: string[]
+) => {
+	pdf.text(heading.toUpperCase(), x, y, { size: 8, font: "bold", gray: 0.4 });
+	lines.forEach((line, index) => {
+		pdf.text(line, x, y + 15 + index * 13, {
+			size: 10,
+			font: index === 0 ? "bold" : "regular",
+		});
+	});
+	return y + 15 + lines.length * 13;
+};
+
+// A table with a shaded header row; rows wrap within their column and the
+// header repeats on every page the table runs onto
+const drawTable = (
+	pdf: PdfDocument,
+	cursor: { y: number },
+	columns: TableColumn[],
+	rows: string[][]
+) => {
+	const cellX = (index: number) =>
+		MARGIN + columns.slice(0, index).reduce((sum, col) => sum + col.width, 0);
+	const cellText = (column: TableColumn, index: number) =>
+		column.align === "right"
+			? cellX(index) + column.width - 6
+			: cellX(index) + 6;
+
+	const drawHead = () => {
+		pdf.fillRect(MARGIN, cursor.y, contentWidth(pdf), 18, 0.92);
+		columns.forEach((column, index) => {
+			pdf.text(column.header, cellText(column, index), cursor.y + 12.5, {
+				size: 8.5,
+				font: "bold",
+				align: column.align,
+			});
+		});
+		cursor.y += 18;
+	};
+
+	ensureSpace(pdf, cursor, 36);
+	drawHead();
+
+	for (const row of rows) {
+		const cells = row.map((cell, index) =>
+			pdf.wrap(cell, columns[index].width - 12, 9)
+		);
+		const height = Math.max(...cells.map((lines) => lines.length)) * 11 + 7;
+		if (cursor.y + height > pdf.height - BOTTOM_MARGIN) {
+			pdf.addPage();
+			cursor.y = MARGIN;
+			drawHead();
+		}
+
+		cells.forEach((lines, index) => {
+			lines.forEach((line, lineIndex) => {
+				pdf.text(
+					line,
+					cellText(columns[index], index),
+					cursor.y + 12.5 + lineIndex * 11,
+					{ size: 9, align: columns[index].align }
+				);
+			});
+		});
+		cursor.y += height;
+		pdf.line(MARGIN, cursor.y, pdf.width - MARGIN, cursor.y, { gray: 0.8 });
+	}
+};
+
+// Label and amount pairs aligned to the right edge
+const drawTotals = (
+	pdf: PdfDocument,
+	cursor: { y: number },
+	rows: [string, string, boolean?][]
+) => {
+	const right = pdf.width - MARGIN;
+	ensureSpace(pdf, cursor, rows.length * 16 + 8);
+	cursor.y += 8;
+	for (const [label, value, bold] of rows) {
+		const font = bold ? "bold" : "regular";
+		pdf.text(label, right - 130, cursor.y + 10, {
+			size: 10,
+			font,
+			align: "right",
+		});
+		pdf.text(value, right, cursor.y + 10, { size: 10, font, align: "right" });
+		cursor.y += 16;
+	}
+};
+
+const drawFooter = (pdf: PdfDocument, cursor: { y: number }, note: string) => {
+	ensureSpace(pdf, cursor, 50);
+	cursor.y += 30;
+	pdf.line(MARGIN, cursor.y, pdf.width - MARGIN, cursor.y, { gray: 0.8 });
+	pdf.wrap(note, contentWidth(pdf), 8).forEach((line, index) => {
+		pdf.text(line, MARGIN, cursor.y + 14 + index * 10, { size: 8, gray: 0.4 });
+	});
+};
+
+const sessionLines = (booking: ReceiptBooking) => [
+	booking.booking_reference,
+	formatDate(booking.booking_date),
+	`${formatTime12Hour(booking.start_time)} - ${formatTime12Hour(
+		booking.end_time
+	)}`,
+];
+
+const customerLines = (customer: ReceiptCustomer) =>
+	[
+		`${customer.first_name} ${customer.last_name}`,
+		customer.customer_no,
+		customer.email,
+		customer.mobile_number ?? "",
+	].filter(Boolean);
+
+// ---------------------------
+// Official receipt for one transaction
+// ---------------------------
+export const buildReceiptPdf = async (
+	transaction: TransactionModel
+): Promise<PdfFile> => {
+	const receiptNumber = await ensureReceiptNumber(transaction);
+
+	const receipt = await Transaction.findById(transaction._id)
+		.populate("customer_id", CUSTOMER_FIELDS)
+		.populate({
+			path: "booking_id",
+			select:
+				"booking_reference booking_date start_time end_time final_amount package_id",
+			populate: { path: "package_id", select: "name" },
+		})
+		.populate("original_transaction_id", "transaction_reference receipt_number")
+		.lean<ReceiptTransaction>();
+	if (!receipt) throw customError(404, "Transaction not found");
+
+	const booking = receipt.booking_id;
+	const isRefund = receipt.transaction_type === "Refund";
+	const paidToDate = await getNetAmountPaid(booking._id);
+	const balance = roundMoney(booking.final_amount - paidToDate);
+
+	const pdf = createPdfDocument(`Receipt ${receiptNumber}`);
+	const cursor = {
+		y: drawHeader(pdf, isRefund ? "REFUND RECEIPT" : "OFFICIAL RECEIPT", [
+			["Receipt No.", receiptNumber],
+			["Date", formatDate(receipt.processed_at ?? receipt.transaction_date)],
+			["Transaction", receipt.transaction_reference],
+		]),
+	};
+
+	const customerBottom = drawBlock(
+		pdf,
+		MARGIN,
+		cursor.y,
+		isRefund ? "Refunded to" : "Received from",
+		customerLines(receipt.customer_id)
+	);
+	const bookingBottom = drawBlock(
+		pdf,
+		pdf.width / 2 + 20,
+		cursor.y,
+		"Booking",
+		[
+			...sessionLines(booking),
+			booking.package_id ? booking.package_id.name : "Custom booking",
+		]
+	);
+	cursor.y = Math.max(customerBottom, bookingBottom) + 20;
+
+	const method = receipt.external_reference
+		? `${receipt.payment_method} (Ref. ${receipt.external_reference})`
+		: receipt.payment_method;
+	const description = isRefund
+		? `Refund of ${
+				receipt.original_transaction_id?.receipt_number ??
+				receipt.original_transaction_id?.transaction_reference ??
+				"payment"
+		  } for booking ${booking.booking_reference}${
+				receipt.refund_reason ? ` - ${receipt.refund_reason}` : ""
+		  }`
+		: `${TYPE_LABELS[receipt.transaction_type]} for booking ${
+				booking.booking_reference
+		  }`;
+
+	drawTable(
+		pdf,
+		cursor,
+		[
+			{ header: "Description", width: 275 },
+			{ header: "Payment method", width: 130 },
+			{ header: "Amount", width: contentWidth(pdf) - 405, align: "right" },
+		],
+		[[description, method, peso(receipt.amount)]]
+	);
+
+	drawTotals(pdf, cursor, [
+		[
+			isRefund ? "Amount refunded" : "Amount received",
+			peso(receipt.amount),
+			true,
+		],
+		["Booking total", peso(booking.final_amount)],
+		["Paid to date", peso(paidToDate)],
+		[
+			balance < 0 ? "Overpaid" : "Balance due",
+			peso(Math.abs(balance)),
+			true,
+		],
+	]);
+
+	if (receipt.status === "Refunded") {
+		cursor.y += 10;
+		pdf.text(
+			"This payment has since been refunded.",
+			MARGIN,
+			cursor.y + 10,
+			{ size: 9, font: "bold", gray: 0.3 }
+		);
+		cursor.y += 14;
+	}
+
+	drawFooter(
+		pdf,
+		cursor,
+		`This receipt was generated electronically on ${formatDate(
+			new Date()
+		)} and is valid without a signature. For questions about this receipt, contact ${SUPPORT_EMAIL}.`
+	);
+
+	return {
+		filename: `${receiptNumber}.pdf`,
+		content: pdf.toBuffer(),
+		contentType: "application/pdf",
+	};
+};
+
+// ---------------------------
+// Statement of account for a booking
+// ---------------------------
+// Charges (package or services, less discounts), every completed payment
+// and refund, the payment schedule and what is left to pay
+export const buildStatementPdf = async (
+	bookingId: ObjectIdLike
+): Promise<PdfFile> => {
+	const booking = await Booking.findById(bookingId)
+		.populate("customer_id", CUSTOMER_FIELDS)
+		.populate("package_id", "name package_price")
+		.populate("photographer_id", "name")
+		.populate("services.service_id", "name")
+		.lean<StatementBooking>();
+	if (!booking) throw customError(404, "Booking not found");
+
+	const transactions = await Transaction.find({
+		booking_id: booking._id,
+		is_active: true,
+	})
+		.sort({ transaction_date: 1 })
+		.lean();
+
+	const credited = transactions.filter(
+		(txn) =>
+			(PAYMENT_TYPES.includes(txn.transaction_type) &&
+				RECEIPT_STATUSES.includes(txn.status)) ||
+			(txn.transaction_type === "Refund" && txn.status === "Completed")
+	);
+	const totalPaid = roundMoney(
+		credited
+			.filter((txn) => txn.transaction_type !== "Refund")
+			.reduce((sum, txn) => sum + txn.amount, 0)
+	);
+	const totalRefunded = roundMoney(
+		credited
+			.filter((txn) => txn.transaction_type === "Refund")
+			.reduce((sum, txn) => sum + txn.amount, 0)
+	);
+	const pendingTotal = roundMoney(
+		transactions
+			.filter(
+				(txn) =>
+					PAYMENT_TYPES.includes(txn.transaction_type) &&
+					txn.status === "Pending"
+			)
+			.reduce((sum, txn) => sum + txn.amount, 0)
+	);
+	const balance = roundMoney(
+		booking.final_amount - (totalPaid - totalRefunded)
+	);
+
+	const pdf = createPdfDocument(`Statement of Account ${booking.booking_reference}`);
+	const cursor = {
+		y: drawHeader(pdf, "STATEMENT OF ACCOUNT", [
+			["Booking", booking.booking_reference],
+			["Statement date", formatDate(new Date())],
+			["Status", booking.status],
+		]),
+	};
+
+	const customerBottom = drawBlock(
+		pdf,
+		MARGIN,
+		cursor.y,
+		"Bill to",
+		customerLines(booking.customer_id)
+	);
+	const sessionBottom = drawBlock(
+		pdf,
+		pdf.width / 2 + 20,
+		cursor.y,
+		"Session",
+		[
+			formatDate(booking.booking_date),
+			`${formatTime12Hour(booking.start_time)} - ${formatTime12Hour(
+				booking.end_time
+			)}`,
+			booking.location,
+			booking.photographer_id
+				? `Photographer: ${booking.photographer_id.name}`
+				: "",
+		].filter(Boolean)
+	);
+	cursor.y = Math.max(customerBottom, sessionBottom) + 20;
+
+	// Charges
+	const serviceName = (service: StatementBooking["services"][number]) =>
+		service.service_id?.name ?? "Service";
+	const chargeRows: string[][] = booking.package_id
+		? [
+				[
+					`Package: ${booking.package_id.name}${
+						booking.services.length
+							? ` (includes ${booking.services
+									.map(
+										(service) =>
+											`${serviceName(service)}${
+												service.quantity > 1 ? ` x${service.quantity}` : ""
+											}`
+									)
+									.join(", ")})`
+							: ""
+					}`,
+					"1",
+					peso(booking.total_amount),
+					peso(booking.total_amount),
+				],
+		  ]
+		: booking.services.map((service) => [
+				serviceName(service),
+				String(service.quantity),
+				peso(service.price_per_unit),
+				peso(service.total_price),
+		  ]);
+
+	pdf.text("Charges", MARGIN, cursor.y, { size: 11, font: "bold" });
+	cursor.y += 8;
+	drawTable(
+		pdf,
+		cursor,
+		[
+			{ header: "Item", width: 255 },
+			{ header: "Qty", width: 40, align: "right" },
+			{ header: "Unit price", width: 100, align: "right" },
+			{ header: "Amount", width: contentWidth(pdf) - 395, align: "right" },
+		],
+		chargeRows
+	);
+
+	const discountRows: [string, string][] = booking.applied_discounts.length
+		? booking.applied_discounts.map((discount) => [
+				`Discount (${discount.promo_code})`,
+				peso(-discount.discount_amount),
+		  ])
+		: booking.discount_amount > 0
+		? [["Discount", peso(-booking.discount_amount)]]
+		: [];
+	drawTotals(pdf, cursor, [
+		["Subtotal", peso(booking.total_amount)],
+		...discountRows,
+		["Total charges", peso(booking.final_amount), true],
+	]);
+	cursor.y += 16;
+
+	// Payments and refunds
+	ensureSpace(pdf, cursor, 60);
+	pdf.text("Payments and refunds", MARGIN, cursor.y, {
+		size: 11,
+		font: "bold",
+	});
+	cursor.y += 8;
+	if (credited.length === 0) {
+		cursor.y += 14;
+		pdf.text("No payments have been received yet.", MARGIN, cursor.y, {
+			size: 9,
+			gray: 0.4,
+		});
+		cursor.y += 6;
+	} else {
+		drawTable(
+			pdf,
+			cursor,
+			[
+				{ header: "Date", width: 85 },
+				{ header: "Receipt", width: 95 },
+				{ header: "Description", width: 150 },
+				{ header: "Method", width: 85 },
+				{ header: "Amount", width: contentWidth(pdf) - 415, align: "right" },
+			],
+			credited.map((txn) => {
+				const isRefund = txn.transaction_type === "Refund";
+				return [
+					formatDate(txn.processed_at ?? txn.transaction_date),
+					txn.receipt_number ?? txn.transaction_reference,
+					`${TYPE_LABELS[txn.transaction_type]}${
+						txn.status === "Refunded" ? " (refunded)" : ""
+					}`,
+					txn.external_reference
+						? `${txn.payment_method} (Ref. ${txn.external_reference})`
+						: txn.payment_method,
+					peso(isRefund ? -txn.amount : txn.amount),
+				];
+			})
+		);
+	}
+
+	drawTotals(pdf, cursor, [
+		["Payments received", peso(totalPaid)],
+		["Refunds", peso(-totalRefunded)],
+		["Total charges", peso(booking.final_amount)],
+		[
+			balance < 0 ? "Overpaid" : "Balance due",
+			peso(Math.abs(balance)),
+			true,
+		],
+	]);
+	if (pendingTotal > 0) {
+		cursor.y += 4;
+		pdf.text(
+			`${peso(pendingTotal)} in payments is awaiting confirmation and is not included above.`,
+			MARGIN,
+			cursor.y + 10,
+			{ size: 9, gray: 0.4 }
+		);
+		cursor.y += 14;
+	}
+
+	// Payment schedule
+	if (booking.payment_schedule?.length) {
+		cursor.y += 16;
+		ensureSpace(pdf, cursor, 60);
+		pdf.text("Payment schedule", MARGIN, cursor.y, { size: 11, font: "bold" });
+		cursor.y += 8;
+		drawTable(
+			pdf,
+			cursor,
+			[
+				{ header: "Milestone", width: 155 },
+				{ header: "Due date", width: 130 },
+				{ header: "Status", width: 95 },
+				{ header: "Amount", width: contentWidth(pdf) - 380, align: "right" },
+			],
+			booking.payment_schedule.map((milestone) => [
+				`${milestone.milestone_type} (${milestone.percentage}%)`,
+				formatDate(milestone.due_date),
+				milestone.status,
+				peso(milestone.amount),
+			])
+		);
+	}
+
+	drawFooter(
+		pdf,
+		cursor,
+		`Statement generated on ${formatDate(
+			new Date()
+		)}. Payments awaiting confirmation appear once approved. For questions about your account, contact ${SUPPORT_EMAIL}.`
+	);
+
+	return {
+		filename: `SOA-${booking.booking_reference}.pdf`,
+		content: pdf.toBuffer(),
+		contentType: "application/pdf",
+	};
+};
+
+// ---------------------------
+// Attachments for the booking confirmation email
+// ---------------------------
+// The statement of account plus a receipt for every completed payment
+export const buildBookingConfirmationAttachments = async (
+	bookingId: ObjectIdLike
+): Promise<NonNullable<EmailOptions["attachments"]>> => {
+	const payments = await Transaction.find({
+		booking_id: new Types.ObjectId(bookingId),
+		transaction_type: { $in: PAYMENT_TYPES },
+		status: { $in: RECEIPT_STATUSES },
+		is_active: true,
+	}).sort({ transaction_date: 1 });
+
+	const files = [await buildStatementPdf(bookingId)];
+	for (const payment of payments) {
+		files.push(await buildReceiptPdf(payment));
+	}
+	return files;
+};
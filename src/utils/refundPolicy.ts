@@ -0,0 +1,182 @@
+import { ClientSession, Types } from "mongoose";
+import refundPolicyConfig, { RefundPolicyTier } from "../config/refundPolicy";
+import { customError } from "../middleware/errorHandler";
+import { Booking } from "../models/Booking";
+import { Transaction } from "../models/Transaction";
+import { TransactionRequest } from "../models/TransactionRequest";
+import { formatToPeso } from "./formatMoney";
+import { timeToMinutes } from "./formatTime";
+
+type ObjectIdLike = string | Types.ObjectId;
+
+// What the cancellation policy allows to be refunded on a booking right now
+export type RefundEligibility = {
+	booking_id: Types.ObjectId;
+	session_start: Date;
+	hours_before_session: number;
+	amount_paid: number; // Completed payments, including ones later refunded
+	amount_refunded: number; // Completed refund transactions
+	pending_refunds: number; // Requested or approved but not paid out yet
+	non_refundable_deposit: number;
+	refund_percentage: number;
+	eligible_refund: number; // Total the policy allows for the booking
+	available_refund: number; // What is left to claim after other refunds
+	policy: RefundPolicyTier[];
+	message: string;
+};
+
+export type RefundEligibilityOptions = {
+	at?: Date; // Defaults to now
+	excludeRequestId?: ObjectIdLike; // The request being reviewed
+	session?: ClientSession;
+};
+
+const PAYMENT_TYPES = ["Payment", "Partial", "Balance"];
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+const peso = (value: number) => formatToPeso(String(value)) ?? "₱ 0.00";
+
+// Bookings store the day and a local HH:mm start separately
+export const getSessionStart = (bookingDate: Date, startTime: string) => {
+	const minutes = timeToMinutes(startTime);
+	const start = new Date(bookingDate);
+	start.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+	return start;
+};
+
+// Tiers are sorted earliest first, so the first one reached applies. Once the
+// session has started no tier applies.
+export const findRefundTier = (hoursBefore: number) =>
+	hoursBefore < 0
+		? null
+		: refundPolicyConfig.tiers.find(
+				(tier) => hoursBefore >= tier.min_hours_before
+		  ) ?? null;
+
+// ---------------------------
+// Work out the refund a booking is eligible for
+// ---------------------------
+// Paid is the sum of completed payment transactions. The non-refundable
+// deposit is kept first, the tier for the time left before the session is
+// applied to the rest, and refunds already paid out or still in a request
+// are taken off what is left.
+export const calculateRefundEligibility = async (
+	bookingId: ObjectIdLike,
+	options: RefundEligibilityOptions = {}
+): Promise<RefundEligibility> => {
+	const session = options.session ?? null;
+	const bookingObjectId = new Types.ObjectId(bookingId);
+
+	const booking = await Booking.findById(bookingObjectId)
+		.select("booking_date start_time final_amount")
+		.session(session)
+		.lean();
+	if (!booking) throw customError(404, "Booking not found");
+
+	const transactions = await Transaction.find({
+		booking_id: bookingObjectId,
+		status: { $in: ["Completed", "Refunded"] },
+	})
+		.select("transaction_type amount status")
+		.session(session)
+		.lean();
+
+	const amountPaid = roundMoney(
+		transactions
+			.filter((txn) => PAYMENT_TYPES.includes(txn.transaction_type))
+			.reduce((sum, txn) => sum + txn.amount, 0)
+	);
+	const amountRefunded = roundMoney(
+		transactions
+			.filter(
+				(txn) =>
+					txn.transaction_type === "Refund" && txn.status === "Completed"
+			)
+			.reduce((sum, txn) => sum + txn.amount, 0)
+	);
+
+	// Approved requests hold their amount until the refund is issued
+	const openRequests = await TransactionRequest.find({
+		booking_id: bookingObjectId,
+		request_type: "Refund",
+		is_active: true,
+		$or: [
+			{ status: "Pending" },
+			{ status: "Approved", refund_transaction_id: null },
+		],
+		...(options.excludeRequestId
+			? { _id: { $ne: new Types.ObjectId(options.excludeRequestId) } }
+			: {}),
+	})
+		.select("refund_amount")
+		.session(session)
+		.lean();
+	const pendingRefunds = roundMoney(
+		openRequests.reduce((sum, request) => sum + request.refund_amount, 0)
+	);
+
+	const sessionStart = getSessionStart(booking.booking_date, booking.start_time);
+	const now = options.at ?? new Date();
+	const hoursBefore = (sessionStart.getTime() - now.getTime()) / 3600000;
+	const tier = findRefundTier(hoursBefore);
+	const refundPercentage = tier?.refund_percentage ?? 0;
+
+	const deposit = roundMoney(
+		Math.min(
+			(booking.final_amount *
+				refundPolicyConfig.nonRefundableDepositPercentage) /
+				100,
+			amountPaid
+		)
+	);
+	const eligibleRefund = roundMoney(
+		((amountPaid - deposit) * refundPercentage) / 100
+	);
+	const availableRefund = roundMoney(
+		Math.max(eligibleRefund - amountRefunded - pendingRefunds, 0)
+	);
+
+	let message: string;
+	if (amountPaid <= 0) {
+		message = "No completed payments to refund";
+	} else if (!tier) {
+		message = "The session has already started, so no refund is available";
+	} else if (refundPercentage === 0) {
+		message = "No refund is available this close to the session";
+	} else {
+		message = `${refundPercentage}% of ${peso(
+			amountPaid - deposit
+		)} is refundable; ${peso(availableRefund)} can still be requested`;
+	}
+
+	return {
+		booking_id: bookingObjectId,
+		session_start: sessionStart,
+		hours_before_session: Math.round(hoursBefore * 10) / 10,
+		amount_paid: amountPaid,
+		amount_refunded: amountRefunded,
+		pending_refunds: pendingRefunds,
+		non_refundable_deposit: deposit,
+		refund_percentage: refundPercentage,
+		eligible_refund: eligibleRefund,
+		available_refund: availableRefund,
+		policy: refundPolicyConfig.tiers,
+		message,
+	};
+};
+
+// Reject a refund amount the policy does not cover
+export const assertRefundWithinPolicy = (
+	amount: number,
+	eligibility: RefundEligibility
+) => {
+	if (amount > eligibility.available_refund) {
+		throw customError(
+			400,
+			`Refund amount (${amount}) exceeds the ${peso(
+				eligibility.available_refund
+			)} allowed by the cancellation policy. ${eligibility.message}`
+		);
+	}
+};
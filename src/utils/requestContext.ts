@@ -0,0 +1,46 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { NextFunction, Request, Response } from "express";
+
+export type RequestActorType = "User" | "Photographer" | "Customer";
+
+export type RequestActor = {
+	id: string;
+	type: RequestActorType;
+};
+
+type RequestContext = {
+	request: Request;
+	actor?: RequestActor;
+};
+
+// Lets model hooks see which request (and which account) triggered a write
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export const requestContext = (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	storage.run({ request: req }, () => next());
+};
+
+export const setRequestActor = (actor: RequestActor) => {
+	const context = storage.getStore();
+	if (context) context.actor = actor;
+};
+
+export const getRequestActor = (): RequestActor | null =>
+	storage.getStore()?.actor ?? null;
+
+// Method, URL and matched route pattern of the current request, if any
+export const getRequestInfo = () => {
+	const req = storage.getStore()?.request;
+	if (!req) return null;
+
+	return {
+		method: req.method,
+		path: req.originalUrl.split("?")[0],
+		route: req.route?.path ? `${req.baseUrl}${req.route.path}` : null,
+		ip_address: req.ip ?? null,
+	};
+};
@@ -0,0 +1,74 @@
+import {
+	PermissionKey,
+	ROUTE_PERMISSIONS,
+	RouteAccess,
+	RouteMethod,
+	RoutePermission,
+} from "../constants/route-permission.constant";
+
+export type RoleRouteAccess = RoutePermission & {
+	allowed: boolean;
+};
+
+type CompiledRoute = RoutePermission & { pattern: RegExp };
+
+const escapeRegExp = (value: string) =>
+	value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// "/api/admin/users/:id" -> /^\/api\/admin\/users\/[^/]+$/i
+const compilePath = (path: string): RegExp => {
+	const source = path
+		.split("/")
+		.map((segment) =>
+			segment.startsWith(":") ? "[^/]+" : escapeRegExp(segment)
+		)
+		.join("/");
+	return new RegExp(`^${source}$`, "i");
+};
+
+const compiledRoutes: CompiledRoute[] = ROUTE_PERMISSIONS.map((route) => ({
+	...route,
+	pattern: compilePath(route.path),
+}));
+
+export const isRouteAccess = (
+	permission: PermissionKey | RouteAccess
+): permission is RouteAccess =>
+	permission === "Public" || permission === "Authenticated";
+
+// ---------------------------
+// Find the registry entry for a request
+// ---------------------------
+export const findRoutePermission = (
+	method: string,
+	path: string
+): RoutePermission | null => {
+	const normalizedMethod = (
+		method.toUpperCase() === "HEAD" ? "GET" : method.toUpperCase()
+	) as RouteMethod;
+	const normalizedPath =
+		path.length > 1 && path.endsWith("/") ? path.slice(0, -1) : path;
+
+	const route = compiledRoutes.find(
+		(route) =>
+			route.method === normalizedMethod && route.pattern.test(normalizedPath)
+	);
+
+	if (!route) return null;
+
+	const { pattern, ...routePermission } = route;
+	return routePermission;
+};
+
+// ---------------------------
+// Which routes a set of permissions can reach
+// ---------------------------
+export const getRouteAccessForPermissions = (
+	permissions: string[]
+): RoleRouteAccess[] =>
+	ROUTE_PERMISSIONS.map((route) => ({
+		...route,
+		allowed:
+			isRouteAccess(route.permission) ||
+			permissions.includes(route.permission),
+	}));
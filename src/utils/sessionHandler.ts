@@ -0,0 +1,348 @@
+import { Request } from "express";
+import jwt from "jsonwebtoken";
+import { Types } from "mongoose";
+import config from "../config/token";
+import { customError } from "../middleware/errorHandler";
+import { RevokedToken, TokenSubjectType } from "../models/RevokedToken";
+import { Session, SessionModel } from "../models/Session";
+import {
+	generateAccessToken,
+	generateCustomerAccessToken,
+	generateCustomerRefreshToken,
+	generateRefreshToken,
+	generateTokenId,
+	getTokenLifetimeMs,
+	JWTPayload,
+} from "./tokenHandler";
+import { isTokenRevoked, revokeToken } from "./tokenRevocation";
+
+export type SessionSubject = {
+	subjectId: string;
+	subjectType: TokenSubjectType;
+	email: string;
+};
+
+export type SessionClientInfo = {
+	deviceLabel?: string | null;
+	ipAddress?: string | null;
+	userAgent?: string | null;
+};
+
+export type SessionTokens = {
+	session_id: string;
+	access_token: string;
+	refresh_token: string;
+};
+
+export type SessionResponse = {
+	_id: string;
+	device_label?: string | null;
+	ip_address?: string | null;
+	user_agent?: string | null;
+	last_used_at: Date;
+	expires_at: Date;
+	created_at?: Date;
+	is_current: boolean;
+};
+
+type RevokeSessionOptions = {
+	revokedBy?: string | null;
+	reason?: string | null;
+};
+
+// ---------------------------
+// Request helpers
+// ---------------------------
+export const getClientInfo = (
+	req: Request,
+	deviceLabel?: string | null
+): SessionClientInfo => ({
+	deviceLabel: deviceLabel?.toString().trim().slice(0, 100) || null,
+	ipAddress: req.ip ?? null,
+	userAgent: req.get("user-agent")?.slice(0, 500) ?? null,
+});
+
+const getRefreshExpiry = (from: Date = new Date()): Date =>
+	new Date(from.getTime() + getTokenLifetimeMs(config.refreshTokenExpiresIn));
+
+const signSessionTokens = (
+	subject: SessionSubject,
+	sessionId: string,
+	refreshTokenId: string
+): SessionTokens => {
+	if (subject.subjectType === "Customer") {
+		return {
+			session_id: sessionId,
+			access_token: generateCustomerAccessToken(
+				subject.subjectId,
+				subject.email,
+				{ sessionId }
+			),
+			refresh_token: generateCustomerRefreshToken(
+				subject.subjectId,
+				subject.email,
+				{ sessionId, tokenId: refreshTokenId }
+			),
+		};
+	}
+
+	return {
+		session_id: sessionId,
+		access_token: generateAccessToken(subject.subjectId, subject.email, {
+			sessionId,
+		}),
+		refresh_token: generateRefreshToken(subject.subjectId, subject.email, {
+			sessionId,
+			tokenId: refreshTokenId,
+		}),
+	};
+};
+
+// ---------------------------
+// Start a new session (login)
+// ---------------------------
+export const createSession = async (
+	subject: SessionSubject,
+	client: SessionClientInfo = {}
+): Promise<SessionTokens> => {
+	const refreshTokenId = generateTokenId();
+
+	const session = await Session.create({
+		subject_id: new Types.ObjectId(subject.subjectId),
+		subject_type: subject.subjectType,
+		refresh_token_id: refreshTokenId,
+		device_label: client.deviceLabel ?? null,
+		ip_address: client.ipAddress ?? null,
+		user_agent: client.userAgent ?? null,
+		last_used_at: new Date(),
+		expires_at: getRefreshExpiry(),
+	});
+
+	return signSessionTokens(
+		subject,
+		(session._id as Types.ObjectId).toString(),
+		refreshTokenId
+	);
+};
+
+// ---------------------------
+// Revoke one session and every token issued in it
+// ---------------------------
+export const revokeSession = async (
+	sessionId: string,
+	options: RevokeSessionOptions = {}
+): Promise<boolean> => {
+	if (!Types.ObjectId.isValid(sessionId)) return false;
+
+	const now = new Date();
+	const session = await Session.findOneAndUpdate(
+		{ _id: sessionId, revoked_at: null },
+		{
+			$set: {
+				revoked_at: now,
+				revoked_reason: options.reason ?? "Session revoked",
+			},
+		},
+		{ new: true }
+	);
+
+	if (!session) return false;
+
+	// Access tokens of the session stay valid until they expire, so block them
+	// until then; refresh tokens are already rejected by the session itself
+	await RevokedToken.create({
+		session_id: session._id,
+		subject_id: session.subject_id,
+		subject_type: session.subject_type,
+		scope: "Session",
+		reason: options.reason ?? "Session revoked",
+		revoked_by: options.revokedBy
+			? new Types.ObjectId(options.revokedBy)
+			: null,
+		revoked_at: now,
+		expires_at: new Date(
+			now.getTime() + getTokenLifetimeMs(config.accessTokenExpiresIn)
+		),
+	});
+
+	return true;
+};
+
+// ---------------------------
+// Rotate the refresh token of a session
+// ---------------------------
+export const rotateSession = async (
+	decoded: JWTPayload & { customerId?: string },
+	subject: SessionSubject,
+	client: SessionClientInfo = {}
+): Promise<SessionTokens> => {
+	if (decoded.use !== "refresh" || !decoded.sid || !decoded.jti) {
+		throw customError(401, "Invalid refresh token");
+	}
+
+	if (await isTokenRevoked(decoded)) {
+		throw customError(401, "Refresh token has been invalidated");
+	}
+
+	const session = await Session.findById(decoded.sid);
+
+	if (
+		!session ||
+		session.revoked_at ||
+		session.expires_at <= new Date() ||
+		session.subject_id.toString() !== subject.subjectId ||
+		session.subject_type !== subject.subjectType
+	) {
+		throw customError(401, "Session has expired or been revoked");
+	}
+
+	const nextRefreshTokenId = generateTokenId();
+	const now = new Date();
+
+	// Only the current refresh token may rotate; the filter makes it single-use
+	const rotated = await Session.findOneAndUpdate(
+		{
+			_id: session._id,
+			refresh_token_id: decoded.jti,
+			revoked_at: null,
+		},
+		{
+			$set: {
+				refresh_token_id: nextRefreshTokenId,
+				last_used_at: now,
+				expires_at: getRefreshExpiry(now),
+				...(client.ipAddress && { ip_address: client.ipAddress }),
+				...(client.userAgent && { user_agent: client.userAgent }),
+			},
+			$inc: { rotation_count: 1 },
+		},
+		{ new: true }
+	);
+
+	if (!rotated) {
+		// An old refresh token was replayed: assume it leaked and end the session
+		await revokeSession(decoded.sid, {
+			reason: "Refresh token reuse detected",
+		});
+		throw customError(
+			401,
+			"Refresh token reuse detected. Please log in again."
+		);
+	}
+
+	return signSessionTokens(subject, decoded.sid, nextRefreshTokenId);
+};
+
+// ---------------------------
+// End the session a token belongs to (logout)
+// ---------------------------
+export const endSessionForToken = async (
+	token: string,
+	options: RevokeSessionOptions = {}
+): Promise<void> => {
+	let decoded: JWTPayload;
+	try {
+		decoded = jwt.verify(token, config.jwtSecret, {
+			ignoreExpiration: true,
+		}) as JWTPayload;
+	} catch {
+		return;
+	}
+
+	if (decoded.sid) {
+		await revokeSession(decoded.sid, {
+			reason: options.reason ?? "Logout",
+			revokedBy: options.revokedBy,
+		});
+		return;
+	}
+
+	// Tokens issued before sessions existed are revoked one by one
+	await revokeToken(token, options);
+};
+
+// ---------------------------
+// Active sessions of an account
+// ---------------------------
+export const listActiveSessions = async (
+	subjectId: string,
+	subjectType: TokenSubjectType,
+	currentSessionId?: string
+): Promise<SessionResponse[]> => {
+	const sessions = await Session.find({
+		subject_id: new Types.ObjectId(subjectId),
+		subject_type: subjectType,
+		revoked_at: null,
+		expires_at: { $gt: new Date() },
+	})
+		.sort({ last_used_at: -1 })
+		.lean<SessionModel[]>();
+
+	return sessions.map((session) => ({
+		_id: (session._id as Types.ObjectId).toString(),
+		device_label: session.device_label,
+		ip_address: session.ip_address,
+		user_agent: session.user_agent,
+		last_used_at: session.last_used_at,
+		expires_at: session.expires_at,
+		created_at: session.created_at,
+		is_current:
+			!!currentSessionId &&
+			(session._id as Types.ObjectId).toString() === currentSessionId,
+	}));
+};
+
+// ---------------------------
+// Revoke one session of an account (ownership checked)
+// ---------------------------
+export const revokeOwnSession = async (
+	sessionId: string,
+	subjectId: string,
+	subjectType: TokenSubjectType
+): Promise<void> => {
+	if (!Types.ObjectId.isValid(sessionId)) {
+		throw customError(400, "Invalid session ID format");
+	}
+
+	const session = await Session.findOne({
+		_id: sessionId,
+		subject_id: new Types.ObjectId(subjectId),
+		subject_type: subjectType,
+		revoked_at: null,
+	});
+
+	if (!session) {
+		throw customError(404, "Session not found");
+	}
+
+	await revokeSession(sessionId, {
+		reason: "Signed out from another device",
+	});
+};
+
+// ---------------------------
+// Revoke all sessions of an account except the current one
+// ---------------------------
+export const revokeOtherSessions = async (
+	subjectId: string,
+	subjectType: TokenSubjectType,
+	currentSessionId?: string
+): Promise<number> => {
+	const sessions = await Session.find({
+		subject_id: new Types.ObjectId(subjectId),
+		subject_type: subjectType,
+		revoked_at: null,
+		...(currentSessionId &&
+			Types.ObjectId.isValid(currentSessionId) && {
+				_id: { $ne: new Types.ObjectId(currentSessionId) },
+			}),
+	}).select("_id");
+
+	for (const session of sessions) {
+		await revokeSession((session._id as Types.ObjectId).toString(), {
+			reason: "Signed out from another device",
+		});
+	}
+
+	return sessions.length;
+};
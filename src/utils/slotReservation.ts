@@ -0,0 +1,178 @@
+import crypto from "crypto";
+import { Types } from "mongoose";
+import { customError } from "../middleware/errorHandler";
+import { Booking } from "../models/Booking";
+import { SlotReservation } from "../models/SlotReservation";
+import { timeToMinutes } from "./formatTime";
+import { isDuplicateKeyError } from "./mongoErrors";
+
+// Reservations are made in blocks of this many minutes
+const BLOCK_MINUTES = 15;
+
+// A reservation without a saved booking is only abandoned after this long;
+// until then the booking may still be in the middle of being created
+const ORPHAN_GRACE_MS = 5 * 60 * 1000;
+
+export type SlotRequest = {
+	photographerId: string | Types.ObjectId;
+	bookingId: string | Types.ObjectId;
+	bookingDate: Date;
+	startTime: string; // HH:mm
+	durationMinutes: number;
+};
+
+export type SlotReservationHandle = {
+	// Drop the booking's blocks outside the new window (after the booking saved)
+	commit: () => Promise<void>;
+	// Drop only the blocks this reservation added (if the booking failed to save)
+	rollback: () => Promise<void>;
+};
+
+const toSlotDate = (date: Date) => date.toISOString().split("T")[0];
+
+// 10:00 for 90 minutes -> [600, 615, 630, 645, 660, 675]
+export const getSlotBlocks = (startTime: string, durationMinutes: number) => {
+	const start = timeToMinutes(startTime);
+	const end = start + durationMinutes;
+	const first = Math.floor(start / BLOCK_MINUTES) * BLOCK_MINUTES;
+
+	const blocks: number[] = [];
+	for (
+		let block = first;
+		block < end && block < 24 * 60;
+		block += BLOCK_MINUTES
+	) {
+		blocks.push(block);
+	}
+	return blocks;
+};
+
+// Sort block holders into live bookings and bookings that were never saved
+const getHolderStates = async (bookingIds: string[]) => {
+	const bookings = await Booking.find({ _id: { $in: bookingIds } })
+		.select("status is_active")
+		.lean();
+
+	const active = new Set<string>();
+	const missing = new Set(bookingIds);
+	for (const booking of bookings) {
+		const bookingId = booking._id.toString();
+		missing.delete(bookingId);
+		if (
+			booking.is_active !== false &&
+			!["Cancelled", "Completed"].includes(booking.status)
+		) {
+			active.add(bookingId);
+		}
+	}
+	return { active, missing };
+};
+
+const conflictError = () =>
+	customError(
+		409,
+		"This time slot is no longer available for the selected photographer. Please choose a different time."
+	);
+
+// ---------------------------
+// Reserve a photographer's time window for a booking
+// ---------------------------
+// Throws 409 when another booking holds any part of the window.
+export const reserveBookingSlot = async (
+	request: SlotRequest
+): Promise<SlotReservationHandle> => {
+	const photographerId = new Types.ObjectId(request.photographerId);
+	const bookingId = new Types.ObjectId(request.bookingId);
+	const slotDate = toSlotDate(request.bookingDate);
+	const blocks = getSlotBlocks(request.startTime, request.durationMinutes);
+	const token = crypto.randomUUID();
+
+	const commit = async () => {
+		await SlotReservation.deleteMany({
+			booking_id: bookingId,
+			$nor: [
+				{
+					photographer_id: photographerId,
+					slot_date: slotDate,
+					block_start: { $in: blocks },
+				},
+			],
+		});
+	};
+
+	const rollback = async () => {
+		await SlotReservation.deleteMany({ reservation_token: token });
+	};
+
+	// Retried once when another request takes a block between read and insert
+	for (let attempt = 0; attempt < 2; attempt++) {
+		const existing = await SlotReservation.find({
+			photographer_id: photographerId,
+			slot_date: slotDate,
+			block_start: { $in: blocks },
+		}).lean();
+
+		const ownBlocks = new Set(
+			existing
+				.filter((r) => r.booking_id.equals(bookingId))
+				.map((r) => r.block_start)
+		);
+		const others = existing.filter((r) => !r.booking_id.equals(bookingId));
+
+		if (others.length > 0) {
+			const holderIds = [
+				...new Set(others.map((r) => r.booking_id.toString())),
+			];
+			const holders = await getHolderStates(holderIds);
+			const orphanCutoff = Date.now() - ORPHAN_GRACE_MS;
+
+			// Cancelled/completed holders and old orphans no longer hold the slot
+			const blocking = others.filter((r) => {
+				const holderId = r.booking_id.toString();
+				if (holders.active.has(holderId)) return true;
+				if (holders.missing.has(holderId)) {
+					return !r.created_at || r.created_at.getTime() > orphanCutoff;
+				}
+				return false;
+			});
+			if (blocking.length > 0) throw conflictError();
+
+			await SlotReservation.deleteMany({
+				_id: { $in: others.map((r) => r._id) },
+			});
+		}
+
+		const newBlocks = blocks.filter((block) => !ownBlocks.has(block));
+		if (newBlocks.length === 0) return { commit, rollback };
+
+		try {
+			await SlotReservation.insertMany(
+				newBlocks.map((block) => ({
+					photographer_id: photographerId,
+					booking_id: bookingId,
+					slot_date: slotDate,
+					block_start: block,
+					reservation_token: token,
+				})),
+				{ ordered: true }
+			);
+			return { commit, rollback };
+		} catch (error) {
+			await rollback();
+			if (!isDuplicateKeyError(error)) throw error;
+		}
+	}
+
+	throw conflictError();
+};
+
+// ---------------------------
+// Free every block held by a booking (cancellation)
+// ---------------------------
+export const releaseBookingSlot = async (
+	bookingId: string | Types.ObjectId
+): Promise<void> => {
+	await SlotReservation.deleteMany({
+		booking_id: new Types.ObjectId(bookingId),
+	});
+};
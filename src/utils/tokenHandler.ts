@@ -1,33 +1,83 @@
 import jwt, { SignOptions } from "jsonwebtoken";
 import bcrypt from "bcryptjs";
+import crypto from "crypto";
+import ms from "ms";
 import config from "../config/token";
 
 export interface JWTPayload {
 	userId: string;
 	email: string;
+	jti?: string;
+	sid?: string; // Session the token belongs to
+	use?: "refresh" | "email_verification"; // Not set on access tokens
 	iat?: number;
+	iat_ms?: number; // Issue time in milliseconds; iat only has seconds
 	exp?: number;
-	type?: "access" | "refresh" | "customer";
+	type?: "access" | "refresh" | "customer" | "admin";
 }
 
+// Every token gets a unique id so it can be revoked individually
+export const generateTokenId = (): string => crypto.randomUUID();
+
+export type TokenOptions = {
+	sessionId?: string;
+	tokenId?: string;
+};
+
+const sessionClaims = (options: TokenOptions) =>
+	options.sessionId ? { sid: options.sessionId } : {};
+
+// Revocations are compared with this, so a token issued earlier in the same
+// second as a revocation is still caught
+const issuedAtClaim = () => ({ iat_ms: Date.now() });
+
 // ---------------------------
 // Generate Access Token (Admin)
 // ---------------------------
-export const generateAccessToken = (userId: string, email: string): string => {
-	console.log("Access Token:", process.env.JWT_ACCESS_EXPIRES_IN);
-
-	return jwt.sign({ userId, email, type: "admin" }, config.jwtSecret, {
-		expiresIn: config.accessTokenExpiresIn as SignOptions["expiresIn"],
-	});
+export const generateAccessToken = (
+	userId: string,
+	email: string,
+	options: TokenOptions = {}
+): string => {
+	return jwt.sign(
+		{
+			userId,
+			email,
+			type: "admin",
+			...sessionClaims(options),
+			...issuedAtClaim(),
+		},
+		config.jwtSecret,
+		{
+			expiresIn: config.accessTokenExpiresIn as SignOptions["expiresIn"],
+			jwtid: options.tokenId ?? generateTokenId(),
+		}
+	);
 };
 
 // ---------------------------
 // Generate Refresh Token (Admin)
 // ---------------------------
-export const generateRefreshToken = (userId: string, email: string): string => {
-	return jwt.sign({ userId, email, type: "admin" }, config.jwtSecret, {
-		expiresIn: config.refreshTokenExpiresIn as SignOptions["expiresIn"],
-	});
+export const generateRefreshToken = (
+	userId: string,
+	email: string,
+	options: TokenOptions = {}
+): string => {
+	return jwt.sign(
+		{
+			userId,
+			email,
+			type: "admin",
+			use: "refresh",
+			...sessionClaims(options),
+			...issuedAtClaim(),
+		},
+		config.jwtSecret,
+		{
+			expiresIn: config.refreshTokenExpiresIn as SignOptions["expiresIn"],
+			jwtid: options.tokenId ?? generateTokenId(),
+		}
+	);
 };
 
 // ---------------------------
@@ -35,11 +85,23 @@ export const generateRefreshToken = (userId: string, email: string): string => {
 // ---------------------------
 export const generateCustomerAccessToken = (
 	customerId: string,
-	email: string
+	email: string,
+	options: TokenOptions = {}
 ): string => {
-	return jwt.sign({ customerId, email, type: "customer" }, config.jwtSecret, {
-		expiresIn: config.accessTokenExpiresIn as SignOptions["expiresIn"],
-	});
+	return jwt.sign(
+		{
+			customerId,
+			email,
+			type: "customer",
+			...sessionClaims(options),
+			...issuedAtClaim(),
+		},
+		config.jwtSecret,
+		{
+			expiresIn: config.accessTokenExpiresIn as SignOptions["expiresIn"],
+			jwtid: options.tokenId ?? generateTokenId(),
+		}
+	);
 };
 
 // ---------------------------
@@ -47,19 +109,69 @@ export const generateCustomerAccessToken = (
 // ---------------------------
 export const generateCustomerRefreshToken = (
 	customerId: string,
-	email: string
+	email: string,
+	options: TokenOptions = {}
+): string => {
+	return jwt.sign(
+		{
+			customerId,
+			email,
+			type: "customer",
+			use: "refresh",
+			...sessionClaims(options),
+			...issuedAtClaim(),
+		},
+		config.jwtSecret,
+		{
+			expiresIn: config.refreshTokenExpiresIn as SignOptions["expiresIn"],
+			jwtid: options.tokenId ?? generateTokenId(),
+		}
+	);
+};
+
+// ---------------------------
+// Generate Customer Email Verification Token
+// ---------------------------
+export const generateEmailVerificationToken = (
+	customerId: string,
+	email: string,
+	expiresInHours: number
 ): string => {
-	return jwt.sign({ customerId, email, type: "customer" }, config.jwtSecret, {
-		expiresIn: config.refreshTokenExpiresIn as SignOptions["expiresIn"],
-	});
+	return jwt.sign(
+		{
+			customerId,
+			email,
+			type: "customer",
+			use: "email_verification",
+			...issuedAtClaim(),
+		},
+		config.jwtSecret,
+		{
+			expiresIn: `${expiresInHours}h` as SignOptions["expiresIn"],
+			jwtid: generateTokenId(),
+		}
+	);
 };
 
 // ---------------------------
 // Verify Token
 // ---------------------------
-export const verifyToken = (token: string): JWTPayload => {
-	console.log("isVerified?", jwt.verify(token, config.jwtSecret));
-	return jwt.verify(token, config.jwtSecret) as JWTPayload;
+export const verifyToken = (token: string): JWTPayload =>
+	jwt.verify(token, config.jwtSecret) as JWTPayload;
+
+// ---------------------------
+// Token Lifetime (e.g. "15m", "1 day", 3600)
+// ---------------------------
+// Read the way jsonwebtoken reads expiresIn: numbers are seconds, strings go
+// through ms, so a bare "3600" from the environment is 3600 milliseconds.
+export const getTokenLifetimeMs = (expiresIn: string | number): number => {
+	if (typeof expiresIn === "number") return expiresIn * 1000;
+
+	const lifetime = ms(expiresIn as ms.StringValue);
+	if (typeof lifetime !== "number" || Number.isNaN(lifetime)) {
+		throw new Error(`Invalid token lifetime: ${expiresIn}`);
+	}
+	return lifetime;
 };
 
 // ---------------------------
@@ -0,0 +1,157 @@
+import jwt from "jsonwebtoken";
+import { Types } from "mongoose";
+import config from "../config/token";
+import { RevokedToken, TokenSubjectType } from "../models/RevokedToken";
+import { Session } from "../models/Session";
+import { getTokenLifetimeMs } from "./tokenHandler";
+
+type DecodedToken = jwt.JwtPayload & {
+	userId?: string;
+	customerId?: string;
+	sid?: string;
+	type?: string;
+	iat_ms?: number;
+};
+
+type RevocationOptions = {
+	revokedBy?: string | null;
+	reason?: string | null;
+};
+
+const getSubjectType = (decoded: DecodedToken): TokenSubjectType =>
+	decoded.type === "customer" ? "Customer" : "Admin";
+
+const getSubjectId = (decoded: DecodedToken): string | undefined =>
+	decoded.customerId ?? decoded.userId;
+
+// ---------------------------
+// Revoke a single token (logout)
+// ---------------------------
+export const revokeToken = async (
+	token: string,
+	options: RevocationOptions = {}
+): Promise<boolean> => {
+	let decoded: DecodedToken;
+	try {
+		// Only tokens we signed are stored; expiry is checked below
+		decoded = jwt.verify(token, config.jwtSecret, {
+			ignoreExpiration: true,
+		}) as DecodedToken;
+	} catch {
+		return false;
+	}
+
+	const subjectId = getSubjectId(decoded);
+	if (!decoded.jti || !decoded.exp || !subjectId) return false;
+
+	const expiresAt = new Date(decoded.exp * 1000);
+	if (expiresAt <= new Date()) return false;
+
+	await RevokedToken.updateOne(
+		{ jti: decoded.jti },
+		{
+			$setOnInsert: {
+				jti: decoded.jti,
+				subject_id: new Types.ObjectId(subjectId),
+				subject_type: getSubjectType(decoded),
+				scope: "Token",
+				reason: options.reason ?? "Logout",
+				revoked_by: options.revokedBy
+					? new Types.ObjectId(options.revokedBy)
+					: null,
+				revoked_at: new Date(),
+				expires_at: expiresAt,
+			},
+		},
+		{ upsert: true }
+	);
+
+	return true;
+};
+
+// ---------------------------
+// Revoke every token issued to an account so far
+// ---------------------------
+export const revokeAllSessions = async (
+	subjectId: string,
+	subjectType: TokenSubjectType,
+	options: RevocationOptions = {}
+): Promise<void> => {
+	const now = new Date();
+
+	// No token issued before now can outlive the longest token lifetime
+	const longestLifetimeMs = Math.max(
+		getTokenLifetimeMs(config.accessTokenExpiresIn),
+		getTokenLifetimeMs(config.refreshTokenExpiresIn)
+	);
+
+	await RevokedToken.create({
+		subject_id: new Types.ObjectId(subjectId),
+		subject_type: subjectType,
+		scope: "Subject",
+		reason: options.reason ?? "All sessions revoked",
+		revoked_by: options.revokedBy ? new Types.ObjectId(options.revokedBy) : null,
+		revoked_at: now,
+		expires_at: new Date(now.getTime() + longestLifetimeMs),
+	});
+
+	// Sessions can no longer be refreshed either
+	await Session.updateMany(
+		{
+			subject_id: new Types.ObjectId(subjectId),
+			subject_type: subjectType,
+			revoked_at: null,
+		},
+		{
+			$set: {
+				revoked_at: now,
+				revoked_reason: options.reason ?? "All sessions revoked",
+			},
+		}
+	);
+};
+
+// ---------------------------
+// Check a verified token against the revocation store
+// ---------------------------
+export const isTokenRevoked = async (
+	decoded: DecodedToken
+): Promise<boolean> => {
+	const subjectId = getSubjectId(decoded);
+	if (!subjectId || !Types.ObjectId.isValid(subjectId)) return true;
+
+	const conditions: Record<string, any>[] = [];
+
+	if (decoded.jti) {
+		conditions.push({ jti: decoded.jti });
+	}
+
+	if (decoded.sid && Types.ObjectId.isValid(decoded.sid)) {
+		conditions.push({
+			scope: "Session",
+			session_id: new Types.ObjectId(decoded.sid),
+		});
+	}
+
+	// Compared in milliseconds. Tokens signed before iat_ms existed only have
+	// iat in seconds, so any revocation from their second on counts.
+	const issuedAtMs =
+		typeof decoded.iat_ms === "number"
+			? decoded.iat_ms
+			: decoded.iat
+			? decoded.iat * 1000
+			: null;
+	if (issuedAtMs !== null) {
+		conditions.push({
+			subject_id: new Types.ObjectId(subjectId),
+			subject_type: getSubjectType(decoded),
+			scope: "Subject",
+			revoked_at: { $gte: new Date(issuedAtMs) },
+		});
+	}
+
+	if (conditions.length === 0) return false;
+
+	const revoked = await RevokedToken.exists({ $or: conditions });
+	return !!revoked;
+};